@@ -0,0 +1,255 @@
+/**
+ * /admin/telemetry — Map Agent Telemetry Dashboard
+ *
+ * Tokens, latency, cache hits and estimated cost of /api/map-agent, broken
+ * down by model, agent step mode, tool and session. Reads the admin JSON
+ * endpoint with the admin token kept in sessionStorage.
+ */
+
+'use client';
+
+import React, { useCallback, useEffect, useState, type FormEvent } from 'react';
+import type { TelemetryAggregate, TelemetrySnapshot } from '@/types';
+import { localeState } from '@/lib/i18n';
+
+// ── Constants ────────────────────────────────────────────────────────
+
+const TOKEN_STORAGE_KEY = 'gtel-maps-admin-token';
+const REFRESH_INTERVAL_MS = 10_000;
+
+// ── Formatting ───────────────────────────────────────────────────────
+
+const formatNumber = (value: number) => value.toLocaleString('vi-VN');
+const formatCost = (value: number | null) => (value === null ? '—' : `$${value.toFixed(4)}`);
+const formatMs = (value: number | null) => (value === null ? '—' : `${formatNumber(value)} ms`);
+const formatTime = (timestamp: number) => new Date(timestamp).toLocaleTimeString('vi-VN');
+
+// ── Components ───────────────────────────────────────────────────────
+
+function StatCard({ label, value }: { label: string; value: string }) {
+  return (
+    <div className='rounded-xl border border-gray-200 bg-white p-4'>
+      <div className='text-xs text-gray-500'>{label}</div>
+      <div className='mt-1 text-xl font-bold text-slate-800'>{value}</div>
+    </div>
+  );
+}
+
+function Table({ headers, rows }: { headers: string[]; rows: React.ReactNode[][] }) {
+  return (
+    <div className='overflow-x-auto rounded-xl border border-gray-200 bg-white'>
+      <table className='w-full text-left text-[13px]'>
+        <thead className='bg-gray-50 text-gray-500'>
+          <tr>
+            {headers.map((header) => (
+              <th key={header} className='whitespace-nowrap px-3 py-2 font-semibold'>
+                {header}
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {rows.length === 0 && (
+            <tr>
+              <td className='px-3 py-3 text-gray-400' colSpan={headers.length}>
+                Chưa có dữ liệu.
+              </td>
+            </tr>
+          )}
+          {rows.map((row, index) => (
+            <tr key={index} className='border-t border-gray-100'>
+              {row.map((cell, cellIndex) => (
+                <td key={cellIndex} className='whitespace-nowrap px-3 py-2 text-slate-700'>
+                  {cell}
+                </td>
+              ))}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+const AGGREGATE_HEADERS = ['Lượt gọi', 'Cache', 'Lỗi', 'Tokens', 'Chi phí', 'Độ trễ TB'];
+
+function aggregateCells(aggregate: TelemetryAggregate): React.ReactNode[] {
+  return [
+    formatNumber(aggregate.calls),
+    formatNumber(aggregate.cachedCalls),
+    formatNumber(aggregate.errors),
+    formatNumber(aggregate.totalTokens),
+    formatCost(aggregate.costUsd),
+    formatMs(aggregate.avgLatencyMs),
+  ];
+}
+
+function Section({ title, children }: { title: string; children: React.ReactNode }) {
+  return (
+    <section className='flex flex-col gap-2'>
+      <h2 className='m-0 text-sm font-bold text-slate-700'>{title}</h2>
+      {children}
+    </section>
+  );
+}
+
+// ── Page ─────────────────────────────────────────────────────────────
+
+export default function TelemetryPage() {
+  const [token, setToken] = useState('');
+  const [tokenInput, setTokenInput] = useState('');
+  const [snapshot, setSnapshot] = useState<TelemetrySnapshot | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const stored = window.sessionStorage.getItem(TOKEN_STORAGE_KEY) || '';
+    setToken(stored);
+    setTokenInput(stored);
+  }, []);
+
+  const load = useCallback(async () => {
+    try {
+      const response = await fetch('/api/admin/telemetry', {
+        headers: {
+          'Accept-Language': localeState.locale,
+          ...(token ? { Authorization: `Bearer ${token}` } : {}),
+        },
+        cache: 'no-store',
+      });
+      const data: TelemetrySnapshot & { error?: string } = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Không thể tải dữ liệu.');
+      setSnapshot(data);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Không thể tải dữ liệu.');
+    }
+  }, [token]);
+
+  useEffect(() => {
+    load();
+    const timer = window.setInterval(load, REFRESH_INTERVAL_MS);
+    return () => window.clearInterval(timer);
+  }, [load]);
+
+  const handleTokenSubmit = (e: FormEvent) => {
+    e.preventDefault();
+    window.sessionStorage.setItem(TOKEN_STORAGE_KEY, tokenInput);
+    setToken(tokenInput);
+  };
+
+  const totals = snapshot?.totals;
+  const cacheHitRate =
+    totals && totals.calls > 0 ? Math.round((totals.cachedCalls / totals.calls) * 100) : 0;
+
+  return (
+    <div className='min-h-screen bg-slate-50'>
+      <header className='flex h-12 items-center justify-between border-b border-gray-200 bg-white px-4'>
+        <div className='flex items-center gap-2'>
+          <span className='text-[22px]'>📊</span>
+          <span className='text-base font-extrabold tracking-tight text-slate-800'>
+            Map Agent Telemetry
+          </span>
+        </div>
+        <form className='flex items-center gap-2' onSubmit={handleTokenSubmit}>
+          <input
+            type='password'
+            value={tokenInput}
+            onChange={(e) => setTokenInput(e.target.value)}
+            placeholder='Admin token'
+            aria-label='Admin token'
+            className='rounded-lg border border-gray-200 bg-gray-50 px-2.5 py-1.5 text-[13px] outline-none focus:border-indigo-600'
+          />
+          <button
+            type='submit'
+            className='rounded-lg bg-indigo-600 px-3 py-1.5 text-[13px] font-semibold text-white hover:bg-indigo-700'
+          >
+            Áp dụng
+          </button>
+        </form>
+      </header>
+
+      <main className='mx-auto flex max-w-6xl flex-col gap-6 p-4'>
+        {error && (
+          <div className='rounded-xl border border-rose-200 bg-rose-50 p-3 text-[13px] text-rose-700'>
+            ⚠️ {error}
+          </div>
+        )}
+
+        {totals && (
+          <div className='grid grid-cols-2 gap-3 md:grid-cols-4'>
+            <StatCard label='Lượt gọi model' value={formatNumber(totals.calls)} />
+            <StatCard
+              label='Cache hit'
+              value={`${formatNumber(totals.cachedCalls)} (${cacheHitRate}%)`}
+            />
+            <StatCard label='Tổng tokens' value={formatNumber(totals.totalTokens)} />
+            <StatCard label='Chi phí ước tính' value={formatCost(totals.costUsd)} />
+            <StatCard label='Độ trễ model TB' value={formatMs(totals.avgLatencyMs)} />
+            <StatCard label='Prompt tokens' value={formatNumber(totals.promptTokens)} />
+            <StatCard label='Completion tokens' value={formatNumber(totals.completionTokens)} />
+            <StatCard label='Lượt chạy công cụ' value={formatNumber(totals.toolRuns)} />
+          </div>
+        )}
+
+        {snapshot && (
+          <>
+            <Section title='Theo bước agent (plan / continue / final)'>
+              <Table
+                headers={['Bước', ...AGGREGATE_HEADERS]}
+                rows={snapshot.byMode.map((row) => [row.mode, ...aggregateCells(row)])}
+              />
+            </Section>
+
+            <Section title='Theo model'>
+              <Table
+                headers={['Model', ...AGGREGATE_HEADERS]}
+                rows={snapshot.byModel.map((row) => [row.model, ...aggregateCells(row)])}
+              />
+            </Section>
+
+            <Section title='Công cụ'>
+              <Table
+                headers={['Công cụ', 'Lượt chạy', 'Thất bại', 'TB', 'Tối đa']}
+                rows={snapshot.byTool.map((tool) => [
+                  tool.name,
+                  formatNumber(tool.runs),
+                  formatNumber(tool.failures),
+                  formatMs(tool.avgDurationMs),
+                  formatMs(tool.maxDurationMs),
+                ])}
+              />
+            </Section>
+
+            <Section title='Phiên hội thoại'>
+              <Table
+                headers={['Phiên', 'Gần nhất', ...AGGREGATE_HEADERS, 'Công cụ']}
+                rows={snapshot.sessions.map((session) => [
+                  session.sessionId.slice(0, 8),
+                  formatTime(session.lastSeen),
+                  ...aggregateCells(session),
+                  `${formatNumber(session.toolRuns)} · ${formatMs(session.toolDurationMs)}`,
+                ])}
+              />
+            </Section>
+
+            <Section title='Lượt gọi gần đây'>
+              <Table
+                headers={['Thời gian', 'Model', 'Bước', 'Kết thúc', 'Tokens', 'Chi phí', 'Độ trễ', 'Cache']}
+                rows={snapshot.recentCalls.map((call) => [
+                  formatTime(call.timestamp),
+                  call.model,
+                  `${call.mode} #${call.step}`,
+                  call.error ? `⚠️ ${call.error}` : call.finishReason || '—',
+                  `${formatNumber(call.promptTokens)} / ${formatNumber(call.completionTokens)}`,
+                  formatCost(call.costUsd),
+                  formatMs(call.latencyMs),
+                  call.cacheSource || '—',
+                ])}
+              />
+            </Section>
+          </>
+        )}
+      </main>
+    </div>
+  );
+}
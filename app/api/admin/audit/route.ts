@@ -0,0 +1,80 @@
+/**
+ * /api/admin/audit — query the copilot audit log
+ *
+ * GET → matching records, newest first. Filters: `user`, `session`, `tool`,
+ * `type` (utterance | tool_call | hr_query), `from` / `to` (ISO date or
+ * timestamp; a bare `YYYY-MM-DD` in `to` covers the whole day) and `limit`
+ * (default 100). The log is append-only: there is no DELETE.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import type { AuditEventType, AuditQuery, Locale } from '@/types';
+import { authorizeAdminRequest } from '@/lib/admin';
+import { AUDIT_DEFAULT_LIMIT, queryAuditLog } from '@/lib/audit';
+import { getRequestLocale, translate } from '@/lib/i18n';
+
+export const dynamic = 'force-dynamic';
+
+const AUDIT_EVENT_TYPES: AuditEventType[] = ['utterance', 'tool_call', 'hr_query'];
+const DATE_ONLY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+function describeError(error: unknown, locale: Locale): string {
+  return error instanceof Error ? error.message : translate(locale, 'api.unknownError');
+}
+
+/** ms since epoch, undefined when absent, null when invalid */
+function parseDateParam(value: string | null, endOfDay: boolean): number | null | undefined {
+  if (!value) return undefined;
+  if (DATE_ONLY_PATTERN.test(value)) {
+    const time = Date.parse(`${value}T${endOfDay ? '23:59:59.999' : '00:00:00.000'}Z`);
+    return Number.isNaN(time) ? null : time;
+  }
+  const time = /^\d+$/.test(value) ? Number(value) : Date.parse(value);
+  return Number.isNaN(time) ? null : time;
+}
+
+export async function GET(request: NextRequest) {
+  const denied = authorizeAdminRequest(request);
+  if (denied) return denied;
+
+  const locale = getRequestLocale(request);
+  const params = request.nextUrl.searchParams;
+  const from = parseDateParam(params.get('from'), false);
+  const to = parseDateParam(params.get('to'), true);
+  if (from === null || to === null) {
+    return NextResponse.json(
+      { error: translate(locale, 'api.adminInvalidDate') },
+      { status: 400 },
+    );
+  }
+
+  const type = params.get('type');
+  if (type !== null && !AUDIT_EVENT_TYPES.includes(type as AuditEventType)) {
+    return NextResponse.json(
+      {
+        error: translate(locale, 'api.adminInvalidEventType', {
+          types: AUDIT_EVENT_TYPES.join(', '),
+        }),
+      },
+      { status: 400 },
+    );
+  }
+
+  const requested = Number.parseInt(params.get('limit') || '', 10);
+  const query: AuditQuery = {
+    userId: params.get('user') ?? undefined,
+    sessionId: params.get('session') ?? undefined,
+    tool: params.get('tool') ?? undefined,
+    type: (type as AuditEventType | null) ?? undefined,
+    from,
+    to,
+    limit: Number.isFinite(requested) ? requested : AUDIT_DEFAULT_LIMIT,
+  };
+
+  try {
+    return NextResponse.json({ records: await queryAuditLog(query) });
+  } catch (error) {
+    console.error('[admin/audit] Error:', error);
+    return NextResponse.json({ error: describeError(error, locale) }, { status: 500 });
+  }
+}
@@ -0,0 +1,78 @@
+/**
+ * /api/admin/cache — inspect and purge the map-agent response cache
+ *
+ * GET     → backend stats (hits, misses, evictions, ...) and the most recently
+ *           used entries (`?limit=`, default 50).
+ * DELETE  → purge every entry, or a single one with `?key=<cache key>`.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import type { Locale } from '@/types';
+import { authorizeAdminRequest } from '@/lib/admin';
+import {
+  deleteCacheEntry,
+  getCacheStats,
+  isValidCacheKey,
+  listCacheEntries,
+  purgeCache,
+} from '@/lib/cache';
+import { getRequestLocale, translate } from '@/lib/i18n';
+
+export const dynamic = 'force-dynamic';
+
+const DEFAULT_LIST_LIMIT = 50;
+const MAX_LIST_LIMIT = 500;
+
+function describeError(error: unknown, locale: Locale): string {
+  return error instanceof Error ? error.message : translate(locale, 'api.unknownError');
+}
+
+export async function GET(request: NextRequest) {
+  const denied = authorizeAdminRequest(request);
+  if (denied) return denied;
+
+  const locale = getRequestLocale(request);
+  const requested = Number.parseInt(request.nextUrl.searchParams.get('limit') || '', 10);
+  const limit = Number.isFinite(requested)
+    ? Math.min(Math.max(requested, 0), MAX_LIST_LIMIT)
+    : DEFAULT_LIST_LIMIT;
+
+  try {
+    const [stats, entries] = await Promise.all([getCacheStats(), listCacheEntries(limit)]);
+    return NextResponse.json({ stats, entries });
+  } catch (error) {
+    console.error('[admin/cache] Error:', error);
+    return NextResponse.json({ error: describeError(error, locale) }, { status: 500 });
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  const denied = authorizeAdminRequest(request);
+  if (denied) return denied;
+
+  const locale = getRequestLocale(request);
+  const key = request.nextUrl.searchParams.get('key');
+
+  try {
+    if (key === null) {
+      return NextResponse.json({ purged: await purgeCache() });
+    }
+
+    if (!isValidCacheKey(key)) {
+      return NextResponse.json(
+        { error: translate(locale, 'api.adminInvalidCacheKey') },
+        { status: 400 },
+      );
+    }
+    if (!(await deleteCacheEntry(key))) {
+      return NextResponse.json(
+        { error: translate(locale, 'api.adminCacheEntryNotFound') },
+        { status: 404 },
+      );
+    }
+    return NextResponse.json({ purged: 1 });
+  } catch (error) {
+    console.error('[admin/cache] Error:', error);
+    return NextResponse.json({ error: describeError(error, locale) }, { status: 500 });
+  }
+}
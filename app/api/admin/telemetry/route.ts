@@ -0,0 +1,19 @@
+/**
+ * /api/admin/telemetry — token, latency and cost accounting for the map agent
+ *
+ * Returns the aggregated TelemetrySnapshot (totals, per model, per step mode,
+ * per tool and per session) plus the most recent model calls.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { authorizeAdminRequest } from '@/lib/admin';
+import { getTelemetrySnapshot } from '@/lib/telemetry';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest) {
+  const denied = authorizeAdminRequest(request);
+  if (denied) return denied;
+
+  return NextResponse.json(getTelemetrySnapshot());
+}
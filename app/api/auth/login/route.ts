@@ -0,0 +1,84 @@
+/**
+ * /api/auth/login — sign in to the copilot
+ *
+ * POST `{ username, password }` → `AuthStatus` and a session cookie.
+ * Attempts are rate limited per client IP, so one client cannot lock out
+ * everyone, and per username, so one account cannot be guessed from many IPs.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import type { Locale } from '@/types';
+import {
+  getAuthStatus,
+  isAuthConfigured,
+  setSessionCookie,
+  verifyCredentials,
+} from '@/lib/auth';
+import { getRequestLocale, translate } from '@/lib/i18n';
+import { createRateLimiter, getClientIp, toRetryAfterSeconds } from '@/lib/rate-limit';
+
+export const dynamic = 'force-dynamic';
+
+const loginLimiter = createRateLimiter('auth-login', { capacity: 5, refillPerMinute: 5 });
+const usernameLimiter = createRateLimiter('auth-login-user', { capacity: 5, refillPerMinute: 5 });
+
+interface LoginBody {
+  username?: unknown;
+  password?: unknown;
+}
+
+function tooManyAttempts(retryAfterMs: number, locale: Locale): NextResponse {
+  const retryAfter = toRetryAfterSeconds(retryAfterMs);
+  return NextResponse.json(
+    { error: translate(locale, 'api.loginRateLimited', { seconds: retryAfter }) },
+    { status: 429, headers: { 'Retry-After': retryAfter } },
+  );
+}
+
+export async function POST(request: NextRequest) {
+  const locale = getRequestLocale(request);
+
+  if (!isAuthConfigured()) {
+    return NextResponse.json(
+      { error: translate(locale, 'api.authNotConfigured') },
+      { status: 503 },
+    );
+  }
+
+  const limit = loginLimiter.consume(getClientIp(request));
+  if (!limit.allowed) return tooManyAttempts(limit.retryAfterMs, locale);
+
+  let body: LoginBody;
+  try {
+    body = await request.json();
+  } catch {
+    body = {};
+  }
+  if (typeof body.username !== 'string' || typeof body.password !== 'string') {
+    return NextResponse.json(
+      { error: translate(locale, 'api.loginMissingCredentials') },
+      { status: 400 },
+    );
+  }
+
+  const username = body.username.trim();
+  const usernameLimit = usernameLimiter.consume(username.toLowerCase());
+  if (!usernameLimit.allowed) return tooManyAttempts(usernameLimit.retryAfterMs, locale);
+
+  try {
+    const user = await verifyCredentials(username, body.password);
+    if (!user) {
+      return NextResponse.json(
+        { error: translate(locale, 'api.loginInvalidCredentials') },
+        { status: 401 },
+      );
+    }
+
+    const response = NextResponse.json(getAuthStatus(user));
+    setSessionCookie(response, user);
+    return response;
+  } catch (error) {
+    console.error('[auth/login] Error:', error);
+    return NextResponse.json({ error: translate(locale, 'api.loginFailed') }, { status: 500 });
+  }
+}
@@ -0,0 +1,16 @@
+/**
+ * /api/auth/logout — end the copilot session
+ *
+ * POST → guest `AuthStatus`; clears the session cookie.
+ */
+
+import { NextResponse } from 'next/server';
+import { clearSessionCookie, getAuthStatus } from '@/lib/auth';
+
+export const dynamic = 'force-dynamic';
+
+export function POST() {
+  const response = NextResponse.json(getAuthStatus(null));
+  clearSessionCookie(response);
+  return response;
+}
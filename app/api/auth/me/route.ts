@@ -0,0 +1,15 @@
+/**
+ * /api/auth/me — current user
+ *
+ * GET → `AuthStatus`: the logged-in user (null for guests), their role and
+ * the map tools that role may use.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getAuthStatus, getRequestUser } from '@/lib/auth';
+
+export const dynamic = 'force-dynamic';
+
+export function GET(request: NextRequest) {
+  return NextResponse.json(getAuthStatus(getRequestUser(request)));
+}
@@ -0,0 +1,63 @@
+/**
+ * /api/hr — HR questions for the askHR map tool
+ *
+ * POST `{ question, conversationId }` → `{ output }` from the GTEL OTS HR
+ * webhook (see lib/hr.ts). Guests get 401 and roles without askHR get 403.
+ * Every question is recorded in the audit log with a redacted answer.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { canUseTool, getRequestUser } from '@/lib/auth';
+import { askHRWebhook } from '@/lib/hr';
+import { auditHRQuery, getAuditActor } from '@/lib/audit';
+import { getRequestLocale, translate } from '@/lib/i18n';
+
+export const dynamic = 'force-dynamic';
+
+const MAX_QUESTION_CHARS = 2000;
+const MAX_CONVERSATION_ID_CHARS = 128;
+
+interface HRRequestBody {
+  question?: unknown;
+  conversationId?: unknown;
+}
+
+export async function POST(request: NextRequest) {
+  const locale = getRequestLocale(request);
+  const user = getRequestUser(request);
+  if (!user) {
+    return NextResponse.json({ error: translate(locale, 'api.hrLoginRequired') }, { status: 401 });
+  }
+  if (!canUseTool(user.role, 'askHR')) {
+    return NextResponse.json({ error: translate(locale, 'api.hrForbidden') }, { status: 403 });
+  }
+
+  let body: HRRequestBody;
+  try {
+    body = await request.json();
+  } catch {
+    body = {};
+  }
+  const { question, conversationId } = body;
+  if (
+    typeof question !== 'string' ||
+    !question.trim() ||
+    question.length > MAX_QUESTION_CHARS ||
+    typeof conversationId !== 'string' ||
+    !conversationId ||
+    conversationId.length > MAX_CONVERSATION_ID_CHARS
+  ) {
+    return NextResponse.json({ error: translate(locale, 'api.hrInvalidRequest') }, { status: 400 });
+  }
+
+  const actor = getAuditActor(request, user);
+  try {
+    const answer = await askHRWebhook(user, question.trim(), conversationId);
+    await auditHRQuery(actor, conversationId, question.trim(), answer.output);
+    return NextResponse.json(answer);
+  } catch (error) {
+    console.error('[hr] Error:', error);
+    await auditHRQuery(actor, conversationId, question.trim(), null);
+    return NextResponse.json({ error: translate(locale, 'api.hrUnavailable') }, { status: 502 });
+  }
+}
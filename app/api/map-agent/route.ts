@@ -1,188 +1,409 @@
 /**
  * /api/map-agent — Map Copilot API Route
  *
- * Accepts the user's chat history, forwards it to OpenRouter (OpenAI-compatible)
- * with function-calling schemas, and returns either a text reply or a list of
- * tool calls for the frontend to execute against the MapLibre map instance.
+ * Accepts the user's chat history, forwards it to the configured LLM provider
+ * (OpenRouter by default, see lib/llm) with function-calling schemas, and
+ * returns either a text reply or a list of tool calls for the frontend to
+ * execute against the MapLibre map instance.
+ *
+ * Each request is one step of the agent loop (see lib/agent.ts): the client
+ * posts tool results back as `role: 'tool'` messages and the model may chain
+ * more tools until it answers or the step/token budget runs out. The budget
+ * is counted server-side: from the session, or from the signed `turnToken`
+ * each sessionless step returns and the next one sends back.
+ *
+ * With a `sessionId` (see /api/sessions) the history is kept server-side: the
+ * client sends only new user / tool messages and every step is recorded. Only
+ * the user who created the session may continue it.
+ *
+ * `regenerate: true` rewrites the answer of a finished turn from the tool
+ * results already in the history (no tool calls, no cache lookup). In a
+ * session the latest answer is left out of the context and only replaced once
+ * the new one is ready, so a failed attempt keeps the session unchanged.
+ *
+ * Requests are rate limited per IP and per session, and their size is bounded
+ * (see lib/agent-limits.ts). Error messages, prompts and the summary of old
+ * session turns use `body.locale`, or the `Accept-Language` header when the
+ * body has none (and until it is read).
+ *
+ * The model only sees the tools the user's role may call (see lib/auth);
+ * with `AUTH_GUEST_ACCESS=false` guests get 401. Utterances and tool results
+ * are written to the audit log (see lib/audit.ts).
+ *
+ * With `stream: true` the same result is delivered as Server-Sent Events:
+ * reply token deltas, tool-call announcements, then a final `done` event.
+ *
+ * When the client disconnects (the chat panel's stop button), the upstream LLM
+ * request is cancelled — unless another identical request is still waiting
+ * for the same shared call.
+ *
+ * Every result carries `cacheSource` (`<source>:<policy>`, see lib/cache) so
+ * clients can tell which cache policy applied to the step.
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import OpenAI from 'openai';
 
-import { MAP_TOOL_SCHEMAS } from '@/lib/toolSchemas';
-import { REQUEST_PROMPT, RESPONSE_PROMPT } from '@/lib/prompts';
-import type { AgentRequestBody, AgentRoutePayload } from '@/types';
+import type {
+  AgentCacheSource,
+  AgentRequestBody,
+  AgentRoutePayload,
+  AgentStreamEvent,
+  AgentTurnState,
+  Locale,
+} from '@/types';
 import {
-  buildCacheKey,
+  planCacheLookup,
   getCachedResponse,
   setCachedResponse,
-  getInflightRequest,
+  getInflightSource,
+  joinInflightRequest,
   setInflightRequest,
   deleteInflightRequest,
+  replayCachedResponse,
+  type CacheLookup,
 } from '@/lib/cache';
-
-// ── OpenRouter Client ────────────────────────────────────────────────
-
-const OPENROUTER_BASE_URL = process.env.OPENROUTER_BASE_URL || 'https://openrouter.ai/api/v1';
-const OPENROUTER_MODEL = process.env.OPENROUTER_MODEL || 'openai/gpt-4o-mini';
-const OPENROUTER_APP_NAME = process.env.OPENROUTER_APP_NAME || 'GTEL Maps Copilot';
-const OPENROUTER_SITE_URL = process.env.OPENROUTER_SITE_URL || 'http://localhost:3000';
-const OPENROUTER_TOOL_MAX_TOKENS = Number(process.env.OPENROUTER_TOOL_MAX_TOKENS || 1024);
-const OPENROUTER_RESPONSE_MAX_TOKENS = Number(process.env.OPENROUTER_RESPONSE_MAX_TOKENS || 768);
-
-let _openrouter: OpenAI | null = null;
-
-function getOpenRouterClient(apiKey: string): OpenAI {
-  if (!_openrouter) {
-    _openrouter = new OpenAI({
-      apiKey,
-      baseURL: OPENROUTER_BASE_URL,
-      defaultHeaders: {
-        'HTTP-Referer': OPENROUTER_SITE_URL,
-        'X-Title': OPENROUTER_APP_NAME,
-      },
-    });
-  }
-  return _openrouter;
-}
+import { SSE_HEADERS, encodeStreamEvent } from '@/lib/sse';
+import {
+  planAgentStep,
+  readClientTurnState,
+  buildAgentMessages,
+  buildAgentStepInfo,
+  runAgentStep,
+  type AgentStepPlan,
+} from '@/lib/agent';
+import { getLLMProvider, type LLMProvider } from '@/lib/llm';
+import { getRequestLocale, isLocale, translate } from '@/lib/i18n';
+import {
+  appendClientMessages,
+  getRegenerateContext,
+  isValidSessionId,
+  recordAgentStep,
+  replaceLatestAnswer,
+} from '@/lib/sessions';
+import {
+  checkIpRateLimit,
+  checkRequestSize,
+  checkSessionRateLimit,
+  readRequestBody,
+} from '@/lib/agent-limits';
+import { GUEST_ACCESS_ENABLED, getHiddenTools, getRequestUser, getUserRole } from '@/lib/auth';
+import { recordLLMCall, recordToolRuns } from '@/lib/telemetry';
+import { auditAgentRequest, getAuditActor } from '@/lib/audit';
 
 // ── Helpers ──────────────────────────────────────────────────────────
 
-function safeParseJsonObject(input: string): Record<string, unknown> {
-  try {
-    const parsed = JSON.parse(input);
-    return parsed && typeof parsed === 'object' ? (parsed as Record<string, unknown>) : {};
-  } catch {
-    return {};
-  }
+function describeError(error: unknown, locale: Locale): string {
+  return error instanceof Error ? error.message : translate(locale, 'api.unknownError');
 }
 
-function buildMessages(
-  systemPrompt: string,
-  incoming: AgentRequestBody['messages'],
-): OpenAI.Chat.Completions.ChatCompletionMessageParam[] {
-  return [
-    { role: 'system', content: systemPrompt },
-    ...incoming.map((m) => {
-      if (m.role === 'tool') {
-        return {
-          role: 'tool' as const,
-          content: m.content,
-          tool_call_id: m.tool_call_id || '',
-        };
-      }
-      return {
-        role: m.role as 'user' | 'assistant' | 'system',
-        content: m.content,
-      };
-    }),
-  ];
+/** Side effects of a finished step: session recording and telemetry */
+interface StepHooks {
+  onFirstEvent: () => void;
+  onResult: (payload: AgentRoutePayload, cacheSource: AgentCacheSource | null) => Promise<unknown>;
+  onError: (error: unknown) => void;
 }
 
-async function callLLM(
-  client: OpenAI,
-  messages: OpenAI.Chat.Completions.ChatCompletionMessageParam[],
-  responseOnly: boolean,
-): Promise<AgentRoutePayload> {
-  const completion = responseOnly
-    ? await client.chat.completions.create({
-        model: OPENROUTER_MODEL,
-        messages,
-        temperature: 0.1,
-        max_tokens: OPENROUTER_RESPONSE_MAX_TOKENS,
-      })
-    : await client.chat.completions.create({
-        model: OPENROUTER_MODEL,
-        messages,
-        tools: MAP_TOOL_SCHEMAS,
-        tool_choice: 'auto',
-        temperature: 0.1,
-        max_tokens: OPENROUTER_TOOL_MAX_TOKENS,
-      });
+/**
+ * Run the cache lookup + LLM call pipeline and deliver it as an SSE stream.
+ * Cache hits and shared inflight results are replayed in the same format.
+ * `hooks.onResult` runs (e.g. to record the step in the session) before `done`.
+ * The stream stops when the client goes away (`signal` or stream cancel).
+ */
+function createAgentStream(
+  provider: LLMProvider,
+  messages: ReturnType<typeof buildAgentMessages>,
+  plan: AgentStepPlan,
+  lookup: CacheLookup,
+  hooks: StepHooks,
+  signal: AbortSignal,
+): Response {
+  const encoder = new TextEncoder();
+  const disconnected = new AbortController();
+  signal.addEventListener('abort', () => disconnected.abort(), { once: true });
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      let started = false;
+      const emit = (event: AgentStreamEvent) => {
+        if (disconnected.signal.aborted) return;
+        if (!started) {
+          started = true;
+          hooks.onFirstEvent();
+        }
+        controller.enqueue(encoder.encode(encodeStreamEvent(event)));
+      };
+      const withAgentInfo = (event: AgentStreamEvent): AgentStreamEvent =>
+        event.type === 'done'
+          ? {
+              type: 'done',
+              result: {
+                ...event.result,
+                agent: buildAgentStepInfo(plan, event.result, event.result.cached),
+              },
+            }
+          : event;
+
+      try {
+        const cached = await getCachedResponse(lookup);
+        if (cached) {
+          await hooks.onResult(cached.payload, cached.source);
+          replayCachedResponse(cached.payload, cached.source, (event) =>
+            emit(withAgentInfo(event)),
+          );
+          return;
+        }
+
+        const inflight = joinInflightRequest(lookup.inflightKey, disconnected.signal);
+        if (inflight) {
+          const shared = await inflight;
+          const source = getInflightSource(lookup, shared);
+          await hooks.onResult(shared, source);
+          replayCachedResponse(shared, source, (event) => emit(withAgentInfo(event)));
+          return;
+        }
+
+        const upstream = new AbortController();
+        const completionPromise = runAgentStep(provider, messages, plan, emit, upstream.signal);
+        setInflightRequest(lookup.inflightKey, completionPromise, upstream, disconnected.signal);
 
-  const choice = completion.choices[0];
-  if (!choice) throw new Error('Không nhận được phản hồi từ OpenRouter.');
-
-  const toolCalls = responseOnly
-    ? []
-    : (choice.message.tool_calls || []).map((tc) => ({
-        id: tc.id,
-        name: tc.function.name,
-        arguments: safeParseJsonObject(tc.function.arguments),
-      }));
-
-  return {
-    reply: choice.message.content || '',
-    toolCalls,
-    finishReason: choice.finish_reason,
-  };
+        let responsePayload: AgentRoutePayload;
+        try {
+          responsePayload = await completionPromise;
+        } finally {
+          deleteInflightRequest(lookup.inflightKey);
+        }
+
+        const cacheSource = await setCachedResponse(lookup, responsePayload);
+        await hooks.onResult(responsePayload, null);
+        emit(
+          withAgentInfo({
+            type: 'done',
+            result: { ...responsePayload, cached: false, cacheSource },
+          }),
+        );
+      } catch (error) {
+        if (disconnected.signal.aborted) {
+          console.info('[map-agent] Client disconnected; step cancelled');
+          return;
+        }
+        console.error('[map-agent] Stream error:', error);
+        hooks.onError(error);
+        emit({ type: 'error', error: describeError(error, plan.locale) });
+      } finally {
+        if (!disconnected.signal.aborted) controller.close();
+      }
+    },
+    cancel() {
+      disconnected.abort();
+    },
+  });
+
+  return new Response(stream, { headers: SSE_HEADERS });
 }
 
 // ── Route Handler ────────────────────────────────────────────────────
 
 export async function POST(request: NextRequest) {
+  let locale = getRequestLocale(request);
   try {
-    const apiKey = process.env.OPENROUTER_API_KEY;
-    if (!apiKey) {
+    let provider: LLMProvider;
+    try {
+      provider = getLLMProvider(locale);
+    } catch (error) {
+      return NextResponse.json({ error: describeError(error, locale) }, { status: 500 });
+    }
+
+    const ipLimited = checkIpRateLimit(request);
+    if (ipLimited) return ipLimited;
+
+    const user = getRequestUser(request);
+    if (!user && !GUEST_ACCESS_ENABLED) {
       return NextResponse.json(
-        { error: 'OPENROUTER_API_KEY chưa được cấu hình. Vui lòng thêm vào file .env.local hoặc .env.' },
-        { status: 500 },
+        { error: translate(locale, 'api.agentLoginRequired') },
+        { status: 401 },
       );
     }
 
-    const body: AgentRequestBody = await request.json();
+    const parsed = await readRequestBody<AgentRequestBody>(request);
+    if ('rejected' in parsed) return parsed.rejected;
+    const { body } = parsed;
+    if (isLocale(body.locale)) locale = body.locale;
 
     if (!body.messages || !Array.isArray(body.messages)) {
       return NextResponse.json(
-        { error: 'Yêu cầu không hợp lệ: cần có mảng messages.' },
+        { error: translate(locale, 'api.missingMessages') },
+        { status: 400 },
+      );
+    }
+    if (body.messages.some((message) => typeof message?.content !== 'string')) {
+      return NextResponse.json(
+        { error: translate(locale, 'api.invalidMessageContent') },
         { status: 400 },
       );
     }
 
-    const responseOnly = body.responseOnly === true;
-    const systemPrompt = responseOnly ? RESPONSE_PROMPT : REQUEST_PROMPT;
-    const messages = buildMessages(systemPrompt, body.messages);
+    const tooLarge = checkRequestSize(body.messages, locale);
+    if (tooLarge) return tooLarge;
+
+    // ── Session history ──────────────────────────────────────────────
+
+    const { sessionId } = body;
+    let history = body.messages;
+    let turn: AgentTurnState | null;
+
+    if (sessionId !== undefined) {
+      if (!isValidSessionId(sessionId)) {
+        return NextResponse.json(
+          { error: translate(locale, 'api.invalidSessionId') },
+          { status: 400 },
+        );
+      }
+      const sessionLimited = checkSessionRateLimit(sessionId, locale);
+      if (sessionLimited) return sessionLimited;
+      const ownerId = user?.id ?? null;
+      const context =
+        body.regenerate === true
+          ? await getRegenerateContext(sessionId, ownerId, locale)
+          : await appendClientMessages(sessionId, ownerId, body.messages, locale);
+      if (!context) {
+        return NextResponse.json(
+          { error: translate(locale, 'api.sessionNotFound') },
+          { status: 404 },
+        );
+      }
+      history = context.messages;
+      turn = context.turn;
+    } else {
+      turn = readClientTurnState(body);
+      if (!turn) {
+        return NextResponse.json({ error: translate(locale, 'api.invalidTurn') }, { status: 400 });
+      }
+    }
+
+    recordToolRuns(sessionId ?? null, body.telemetry?.toolRuns);
+    // A regenerated answer brings no new utterance or tool results to audit
+    if (body.regenerate !== true) {
+      await auditAgentRequest(getAuditActor(request, user), sessionId ?? null, history);
+    }
+
+    const plan = planAgentStep(
+      { ...body, locale, messages: history },
+      turn,
+      getHiddenTools(getUserRole(user)),
+    );
+    const messages = buildAgentMessages(plan.systemPrompt, history, plan.locale);
+
+    // ── Step hooks (session + telemetry) ─────────────────────────────
+
+    const startedAt = Date.now();
+    let firstEventMs: number | null = null;
+    const callInfo = {
+      sessionId: sessionId ?? null,
+      provider: provider.id,
+      model: provider.model,
+      mode: plan.mode,
+      step: plan.step,
+    };
+
+    const hooks: StepHooks = {
+      onFirstEvent: () => {
+        firstEventMs = Date.now() - startedAt;
+      },
+      onResult: async (payload, cacheSource) => {
+        recordLLMCall({
+          ...callInfo,
+          payload,
+          cacheSource,
+          latencyMs: Date.now() - startedAt,
+          firstEventMs,
+        });
+        if (sessionId) {
+          const tokens = cacheSource ? 0 : payload.usage?.totalTokens ?? 0;
+          if (body.regenerate === true) await replaceLatestAnswer(sessionId, payload, tokens);
+          else await recordAgentStep(sessionId, payload, tokens);
+        }
+      },
+      onError: (error) => {
+        recordLLMCall({
+          ...callInfo,
+          payload: null,
+          cacheSource: null,
+          latencyMs: Date.now() - startedAt,
+          firstEventMs,
+          error,
+        });
+      },
+    };
 
     // ── Cache check ──────────────────────────────────────────────────
 
-    const cacheKey = buildCacheKey(messages);
+    const lookup = planCacheLookup({
+      messages,
+      model: `${provider.id}:${provider.model}`,
+      history,
+      mapContext: body.mapContext,
+      refresh: body.regenerate === true,
+    });
+
+    if (body.stream === true) {
+      return createAgentStream(provider, messages, plan, lookup, hooks, request.signal);
+    }
 
-    const cached = getCachedResponse(cacheKey);
+    const cached = await getCachedResponse(lookup);
     if (cached) {
-      return NextResponse.json({ ...cached, cached: true, cacheSource: 'memory' });
+      await hooks.onResult(cached.payload, cached.source);
+      return NextResponse.json({
+        ...cached.payload,
+        cached: true,
+        cacheSource: cached.source,
+        agent: buildAgentStepInfo(plan, cached.payload, true),
+      });
     }
 
-    const inflight = getInflightRequest(cacheKey);
+    const inflight = joinInflightRequest(lookup.inflightKey, request.signal);
     if (inflight) {
       const shared = await inflight;
-      return NextResponse.json({ ...shared, cached: true, cacheSource: 'inflight' });
+      const source = getInflightSource(lookup, shared);
+      await hooks.onResult(shared, source);
+      return NextResponse.json({
+        ...shared,
+        cached: true,
+        cacheSource: source,
+        agent: buildAgentStepInfo(plan, shared, true),
+      });
     }
 
     // ── LLM call with inflight deduplication ─────────────────────────
 
-    const completionPromise = callLLM(getOpenRouterClient(apiKey), messages, responseOnly);
-    setInflightRequest(cacheKey, completionPromise);
+    const upstream = new AbortController();
+    const completionPromise = runAgentStep(provider, messages, plan, undefined, upstream.signal);
+    setInflightRequest(lookup.inflightKey, completionPromise, upstream, request.signal);
 
     let responsePayload: AgentRoutePayload;
     try {
       responsePayload = await completionPromise;
+    } catch (error) {
+      if (request.signal.aborted) {
+        console.info('[map-agent] Client disconnected; step cancelled');
+        return new NextResponse(null, { status: 499 });
+      }
+      hooks.onError(error);
+      throw error;
     } finally {
-      deleteInflightRequest(cacheKey);
+      deleteInflightRequest(lookup.inflightKey);
     }
 
-    setCachedResponse(cacheKey, responsePayload);
+    const cacheSource = await setCachedResponse(lookup, responsePayload);
+    await hooks.onResult(responsePayload, null);
 
-    return NextResponse.json({ ...responsePayload, cached: false });
+    return NextResponse.json({
+      ...responsePayload,
+      cached: false,
+      cacheSource,
+      agent: buildAgentStepInfo(plan, responsePayload, false),
+    });
   } catch (error) {
     console.error('[map-agent] Error:', error);
-
-    const message =
-      error instanceof OpenAI.APIError
-        ? `Lỗi OpenRouter API: ${error.message}`
-        : error instanceof Error
-          ? error.message
-          : 'Đã xảy ra lỗi không xác định.';
-
-    return NextResponse.json({ error: message }, { status: 500 });
+    return NextResponse.json({ error: describeError(error, locale) }, { status: 500 });
   }
 }
@@ -0,0 +1,15 @@
+/**
+ * /api/maps/google/directions — Google Directions proxy
+ *
+ * GET ?origin=&destination=&waypoints=&alternatives=&avoid=&departure_time=&arrival_time=
+ *     &mode=&language= → Google's JSON response.
+ */
+
+import { NextRequest } from 'next/server';
+import { proxyMapsJson } from '@/lib/maps-proxy';
+
+export const dynamic = 'force-dynamic';
+
+export function GET(request: NextRequest) {
+  return proxyMapsJson(request, 'google-directions');
+}
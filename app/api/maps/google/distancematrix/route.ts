@@ -0,0 +1,14 @@
+/**
+ * /api/maps/google/distancematrix — Google Distance Matrix proxy
+ *
+ * GET ?origins=&destinations=&mode=&language= → Google's JSON response.
+ */
+
+import { NextRequest } from 'next/server';
+import { proxyMapsJson } from '@/lib/maps-proxy';
+
+export const dynamic = 'force-dynamic';
+
+export function GET(request: NextRequest) {
+  return proxyMapsJson(request, 'google-distance-matrix');
+}
@@ -0,0 +1,14 @@
+/**
+ * /api/maps/google/nearby — Google Places Nearby Search proxy
+ *
+ * GET ?location=lat,lng&radius=&keyword=&type=&language= → Google's JSON response.
+ */
+
+import { NextRequest } from 'next/server';
+import { proxyMapsJson } from '@/lib/maps-proxy';
+
+export const dynamic = 'force-dynamic';
+
+export function GET(request: NextRequest) {
+  return proxyMapsJson(request, 'google-nearby');
+}
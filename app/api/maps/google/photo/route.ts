@@ -0,0 +1,14 @@
+/**
+ * /api/maps/google/photo — Google Place Photo proxy, usable as `<img src>`
+ *
+ * GET ?photo_reference=&maxwidth= → the image (cached by the browser for a day).
+ */
+
+import { NextRequest } from 'next/server';
+import { proxyMapsMedia } from '@/lib/maps-proxy';
+
+export const dynamic = 'force-dynamic';
+
+export function GET(request: NextRequest) {
+  return proxyMapsMedia(request, 'google-place-photo');
+}
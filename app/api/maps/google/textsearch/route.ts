@@ -0,0 +1,14 @@
+/**
+ * /api/maps/google/textsearch — Google Places Text Search proxy
+ *
+ * GET ?query=&language= → Google's JSON response (key added server-side).
+ */
+
+import { NextRequest } from 'next/server';
+import { proxyMapsJson } from '@/lib/maps-proxy';
+
+export const dynamic = 'force-dynamic';
+
+export function GET(request: NextRequest) {
+  return proxyMapsJson(request, 'google-text-search');
+}
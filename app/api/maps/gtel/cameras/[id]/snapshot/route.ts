@@ -0,0 +1,13 @@
+/**
+ * /api/maps/gtel/cameras/:id/snapshot — live traffic camera snapshot proxy,
+ * usable as `<img src>` (cached by the browser for a few seconds).
+ */
+
+import { NextRequest } from 'next/server';
+import { proxyMapsMedia } from '@/lib/maps-proxy';
+
+export const dynamic = 'force-dynamic';
+
+export function GET(request: NextRequest, { params }: { params: { id: string } }) {
+  return proxyMapsMedia(request, 'gtel-camera-snapshot', params.id);
+}
@@ -0,0 +1,14 @@
+/**
+ * /api/maps/gtel/cameras — GTEL nearby traffic camera search proxy
+ *
+ * GET ?location=lat,lng&radius=&keyword= → GTEL's JSON response.
+ */
+
+import { NextRequest } from 'next/server';
+import { proxyMapsJson } from '@/lib/maps-proxy';
+
+export const dynamic = 'force-dynamic';
+
+export function GET(request: NextRequest) {
+  return proxyMapsJson(request, 'gtel-camera-nearby');
+}
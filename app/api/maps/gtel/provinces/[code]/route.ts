@@ -0,0 +1,14 @@
+/**
+ * /api/maps/gtel/provinces/:code — GTEL province boundary proxy
+ *
+ * GET ?geom_level= → GTEL's JSON response with the boundary geometry.
+ */
+
+import { NextRequest } from 'next/server';
+import { proxyMapsJson } from '@/lib/maps-proxy';
+
+export const dynamic = 'force-dynamic';
+
+export function GET(request: NextRequest, { params }: { params: { code: string } }) {
+  return proxyMapsJson(request, 'gtel-province-boundary', params.code);
+}
@@ -0,0 +1,14 @@
+/**
+ * /api/maps/gtel/provinces — GTEL province list proxy
+ *
+ * GET → GTEL's JSON response (key added server-side).
+ */
+
+import { NextRequest } from 'next/server';
+import { proxyMapsJson } from '@/lib/maps-proxy';
+
+export const dynamic = 'force-dynamic';
+
+export function GET(request: NextRequest) {
+  return proxyMapsJson(request, 'gtel-provinces');
+}
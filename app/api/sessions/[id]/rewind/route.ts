@@ -0,0 +1,50 @@
+/**
+ * /api/sessions/:id/rewind — drop a turn before it is re-run
+ *
+ * Called by the chat panel before editing or retrying a user message (the
+ * message and everything after it are removed). `keepToolResults: true` keeps
+ * the turn's tool results and drops only the answer; the chat panel's
+ * regenerate does not need it (/api/map-agent replaces the answer itself).
+ * Returns the updated session; sessions of other users answer 404.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { isValidSessionId, rewindSession } from '@/lib/sessions';
+import { getRequestUser } from '@/lib/auth';
+import { getRequestLocale, translate } from '@/lib/i18n';
+
+export async function POST(request: NextRequest, { params }: { params: { id: string } }) {
+  const locale = getRequestLocale(request);
+  if (!isValidSessionId(params.id)) {
+    return NextResponse.json({ error: translate(locale, 'api.invalidSessionId') }, { status: 400 });
+  }
+
+  let body: { messageId?: unknown; keepToolResults?: unknown };
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: translate(locale, 'api.invalidRequest') }, { status: 400 });
+  }
+  if (typeof body.messageId !== 'string' || !body.messageId) {
+    return NextResponse.json({ error: translate(locale, 'api.missingMessageId') }, { status: 400 });
+  }
+
+  try {
+    const session = await rewindSession(
+      params.id,
+      getRequestUser(request)?.id ?? null,
+      body.messageId,
+      body.keepToolResults === true,
+    );
+    if (!session) {
+      return NextResponse.json(
+        { error: translate(locale, 'api.sessionNotFound') },
+        { status: 404 },
+      );
+    }
+    return NextResponse.json(session);
+  } catch (error) {
+    console.error('[sessions] Rewind error:', error);
+    return NextResponse.json({ error: translate(locale, 'error.sessionUpdate') }, { status: 500 });
+  }
+}
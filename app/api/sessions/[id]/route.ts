@@ -0,0 +1,36 @@
+/**
+ * /api/sessions/:id — resume a conversation session
+ *
+ * Returns the stored messages (user turns, model steps and tool results) so
+ * the chat panel can be restored after a reload. Sessions of other users
+ * answer 404, as if they did not exist.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getOwnedSession, isValidSessionId } from '@/lib/sessions';
+import { getRequestUser } from '@/lib/auth';
+import { getRequestLocale, translate } from '@/lib/i18n';
+
+export async function GET(request: NextRequest, { params }: { params: { id: string } }) {
+  const locale = getRequestLocale(request);
+  if (!isValidSessionId(params.id)) {
+    return NextResponse.json({ error: translate(locale, 'api.invalidSessionId') }, { status: 400 });
+  }
+
+  try {
+    const session = await getOwnedSession(params.id, getRequestUser(request)?.id ?? null);
+    if (!session) {
+      return NextResponse.json(
+        { error: translate(locale, 'api.sessionNotFound') },
+        { status: 404 },
+      );
+    }
+    return NextResponse.json(session);
+  } catch (error) {
+    console.error('[sessions] Read error:', error);
+    return NextResponse.json(
+      { error: translate(locale, 'api.sessionReadFailed') },
+      { status: 500 },
+    );
+  }
+}
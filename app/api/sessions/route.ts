@@ -0,0 +1,31 @@
+/**
+ * /api/sessions — issue a new conversation session
+ *
+ * The returned ID is kept by the client (localStorage) and sent with every
+ * /api/map-agent request so history lives on the server. Creating a session
+ * counts against the same per-IP limit as the agent steps, so new sessions
+ * cannot be used to get around the per-session limit. The session belongs to
+ * the logged-in user (or to guests), see lib/sessions.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getSessionStore } from '@/lib/sessions';
+import { checkIpRateLimit } from '@/lib/agent-limits';
+import { getRequestUser } from '@/lib/auth';
+import { getRequestLocale, translate } from '@/lib/i18n';
+
+export async function POST(request: NextRequest) {
+  const ipLimited = checkIpRateLimit(request);
+  if (ipLimited) return ipLimited;
+
+  try {
+    const session = await getSessionStore().create(getRequestUser(request)?.id ?? null);
+    return NextResponse.json(session, { status: 201 });
+  } catch (error) {
+    console.error('[sessions] Create error:', error);
+    return NextResponse.json(
+      { error: translate(getRequestLocale(request), 'api.sessionCreateFailed') },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,118 @@
+/**
+ * /login — sign in to the Map Copilot
+ *
+ * Posts the credentials to /api/auth/login (which sets the session cookie)
+ * and returns to `?next=` (default /maps). Employees and HR managers can use
+ * every copilot tool, including HR lookups.
+ */
+
+'use client';
+
+import React, { useEffect, useState, type FormEvent } from 'react';
+import type { AuthStatus } from '@/types';
+import { localeState } from '@/lib/i18n';
+
+// ── Helpers ──────────────────────────────────────────────────────────
+
+/** Same-origin path from `?next=`, so the page cannot redirect elsewhere */
+function getNextPath(): string {
+  const next = new URLSearchParams(window.location.search).get('next');
+  return next && next.startsWith('/') && !next.startsWith('//') ? next : '/maps';
+}
+
+// ── Page ─────────────────────────────────────────────────────────────
+
+export default function LoginPage() {
+  const [username, setUsername] = useState('');
+  const [password, setPassword] = useState('');
+  const [current, setCurrent] = useState<AuthStatus | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  useEffect(() => {
+    fetch('/api/auth/me')
+      .then((res) => (res.ok ? (res.json() as Promise<AuthStatus>) : null))
+      .then(setCurrent)
+      .catch(() => undefined);
+  }, []);
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    setIsSubmitting(true);
+    try {
+      const response = await fetch('/api/auth/login', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', 'Accept-Language': localeState.locale },
+        body: JSON.stringify({ username, password }),
+      });
+      const data: AuthStatus & { error?: string } = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Không thể đăng nhập.');
+      window.location.assign(getNextPath());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Không thể đăng nhập.');
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className='min-h-screen bg-slate-50'>
+      <header className='flex h-12 items-center border-b border-gray-200 bg-white px-4'>
+        <div className='flex items-center gap-2'>
+          <span className='text-[22px]'>🗺️</span>
+          <span className='text-base font-extrabold tracking-tight text-slate-800'>
+            GTEL Maps Copilot
+          </span>
+        </div>
+      </header>
+
+      <main className='mx-auto flex max-w-sm flex-col gap-4 p-4 pt-16'>
+        <h1 className='m-0 text-lg font-bold text-slate-800'>Đăng nhập</h1>
+
+        {current?.user && (
+          <div className='rounded-xl border border-indigo-200 bg-indigo-50 p-3 text-[13px] text-indigo-700'>
+            Bạn đang đăng nhập với tên {current.user.name}.
+          </div>
+        )}
+
+        {error && (
+          <div className='rounded-xl border border-rose-200 bg-rose-50 p-3 text-[13px] text-rose-700'>
+            ⚠️ {error}
+          </div>
+        )}
+
+        <form
+          className='flex flex-col gap-3 rounded-xl border border-gray-200 bg-white p-4'
+          onSubmit={handleSubmit}
+        >
+          <input
+            type='text'
+            value={username}
+            onChange={(e) => setUsername(e.target.value)}
+            placeholder='Tên đăng nhập'
+            aria-label='Tên đăng nhập'
+            autoComplete='username'
+            required
+            className='rounded-lg border border-gray-200 bg-gray-50 px-2.5 py-2 text-sm outline-none focus:border-indigo-600'
+          />
+          <input
+            type='password'
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            placeholder='Mật khẩu'
+            aria-label='Mật khẩu'
+            autoComplete='current-password'
+            required
+            className='rounded-lg border border-gray-200 bg-gray-50 px-2.5 py-2 text-sm outline-none focus:border-indigo-600'
+          />
+          <button
+            type='submit'
+            disabled={isSubmitting}
+            className='rounded-lg bg-indigo-600 px-3 py-2 text-sm font-semibold text-white hover:bg-indigo-700 disabled:cursor-not-allowed disabled:opacity-50'
+          >
+            {isSubmitting ? 'Đang đăng nhập...' : 'Đăng nhập'}
+          </button>
+        </form>
+      </main>
+    </div>
+  );
+}
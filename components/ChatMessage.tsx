@@ -2,18 +2,31 @@
  * ChatMessage.tsx
  *
  * Renders a single message in the Map Copilot chat panel.
- * Supports user messages, assistant replies, tool-call logs,
- * and tool-result status indicators.
+ * Supports user messages, assistant replies, tool-call logs (with per-call
+ * progress when a step runs several tools), tool-result status indicators,
+ * and partially streamed replies.
+ * Finished messages offer actions: edit a user message, retry a failed turn,
+ * regenerate the last answer, send one of its follow-up suggestions. The chat
+ * panel decides which apply.
  */
 
 'use client';
 
-import React, { memo } from 'react';
-import type { ChatMessage as ChatMessageType } from '@/types';
-import { TOOL_ACTION_LABELS } from '@/lib/map';
+import React, { memo, useState, type FormEvent } from 'react';
+import type { ChatMessage as ChatMessageType, ToolCallStatus } from '@/types';
+import { isMessageKey, useTranslation, type Translator } from '@/lib/i18n';
+import { sanitizeAssistantHtml } from '@/lib/sanitize';
 
 interface ChatMessageProps {
   message: ChatMessageType;
+  /** Re-run the conversation from this user message with new text */
+  onEdit?: (id: string, text: string) => void;
+  /** Re-run the turn that failed */
+  onRetry?: (id: string) => void;
+  /** Write this answer again from the same tool results */
+  onRegenerate?: (id: string) => void;
+  /** Send one of the answer's follow-up suggestions */
+  onSuggestion?: (text: string) => void;
 }
 
 const USER_BUBBLE_CLASS =
@@ -23,6 +36,15 @@ const ASSISTANT_BUBBLE_CLASS =
 const ASSISTANT_HTML_CLASS =
   'm-0 wrap-break-word whitespace-normal [&_a]:break-all [&_a]:font-medium [&_a]:text-blue-700 [&_a]:underline [&_a]:underline-offset-2 [&_p]:my-1 [&_ul]:my-1 [&_ul]:list-disc [&_ul]:space-y-0.5 [&_ul]:pl-5 [&_ol]:my-1 [&_ol]:list-decimal [&_ol]:space-y-0.5 [&_ol]:pl-5 [&_li]:my-1';
 
+const ACTION_BUTTON_CLASS =
+  'cursor-pointer border-none bg-transparent p-0 text-[11.5px] text-gray-400 transition-colors hover:text-indigo-600';
+
+const SUGGESTION_CHIP_CLASS =
+  'cursor-pointer rounded-full border border-indigo-200 bg-white px-2.5 py-1 text-left text-[11.5px] text-indigo-700 transition-colors hover:bg-indigo-50';
+
+const STREAMING_CARET_CLASS =
+  "after:ml-0.5 after:inline-block after:h-3.5 after:w-1.5 after:animate-pulse after:bg-gray-400 after:align-middle after:content-['']";
+
 const renderAssistantBubble = (content: string, toneClass?: string) => (
   <div className='flex justify-start px-3 py-1'>
     <div className={`${ASSISTANT_BUBBLE_CLASS} ${toneClass || ''}`}>
@@ -31,14 +53,70 @@ const renderAssistantBubble = (content: string, toneClass?: string) => (
   </div>
 );
 
-function ChatMessage({ message }: ChatMessageProps) {
+const TOOL_STATUS_ICONS: Record<ToolCallStatus, string> = {
+  pending: '🕓',
+  running: '⏳',
+  success: '✅',
+  failed: '⚠️',
+};
+
+const describeToolAction = (t: Translator, name: string) => {
+  const key = `toolAction.${name}`;
+  return isMessageKey(key) ? t(key) : t('toolAction.unknown', { name });
+};
+
+/** First text argument (query, destination, keyword...) to tell parallel calls apart */
+const describeToolTarget = (args: Record<string, unknown>) =>
+  Object.values(args).find((value): value is string => typeof value === 'string' && !!value.trim());
+
+/** "Bước 2/4 · " prefix for agent-loop progress, empty outside the loop */
+const formatAgentStep = (t: Translator, message: ChatMessageType) =>
+  message.agentStep
+    ? t('chat.agentStep', { step: message.agentStep.step, maxSteps: message.agentStep.maxSteps })
+    : '';
+
+function ChatMessage({ message, onEdit, onRetry, onRegenerate, onSuggestion }: ChatMessageProps) {
+  const { t } = useTranslation();
   const isUser = message.role === 'user';
+  const [draft, setDraft] = useState<string | null>(null);
+
+  // ── Tool Progress (calls of one agent step) ──────────────────────
+  if (message.toolProgress?.length === 1) {
+    const action = describeToolAction(t, message.toolProgress[0].name);
+    return renderAssistantBubble(
+      `⏳ ${formatAgentStep(t, message)}${t('chat.toolRunning', { action })}`,
+    );
+  }
+  if (message.toolProgress?.length) {
+    return (
+      <div className='flex justify-start px-3 py-1'>
+        <div className={ASSISTANT_BUBBLE_CLASS}>
+          <p className='m-0'>
+            {formatAgentStep(t, message)}
+            {t('chat.toolsRunning', { count: message.toolProgress.length })}
+          </p>
+          <ul className='m-0 mt-1 list-none space-y-0.5 p-0'>
+            {message.toolProgress.map((item) => {
+              const target = describeToolTarget(item.arguments);
+              return (
+                <li key={item.id} className='wrap-break-word'>
+                  {TOOL_STATUS_ICONS[item.status]} {describeToolAction(t, item.name)}
+                  {target && <span className='text-gray-500'> · {target}</span>}
+                </li>
+              );
+            })}
+          </ul>
+        </div>
+      </div>
+    );
+  }
 
   // ── Tool Call Log ────────────────────────────────────────────────
   if (message.toolCall) {
-    const action =
-      TOOL_ACTION_LABELS[message.toolCall.name] || `xử lý yêu cầu (${message.toolCall.name})`;
-    return renderAssistantBubble(`⏳ Mình đang ${action}...`);
+    const action = describeToolAction(t, message.toolCall.name);
+    return renderAssistantBubble(
+      `⏳ ${formatAgentStep(t, message)}${t('chat.toolRunning', { action })}`,
+    );
   }
 
   // ── Tool Result ──────────────────────────────────────────────────
@@ -51,6 +129,20 @@ function ChatMessage({ message }: ChatMessageProps) {
     );
   }
 
+  // ── Streaming bubble (partial HTML while the reply arrives) ──────
+  if (message.isLoading && message.content) {
+    return (
+      <div className='flex justify-start px-3 py-1'>
+        <div className={ASSISTANT_BUBBLE_CLASS}>
+          <div
+            className={`${ASSISTANT_HTML_CLASS} ${STREAMING_CARET_CLASS}`}
+            dangerouslySetInnerHTML={{ __html: sanitizeAssistantHtml(message.content) }}
+          />
+        </div>
+      </div>
+    );
+  }
+
   // ── Loading bubble ───────────────────────────────────────────────
   if (message.isLoading) {
     return (
@@ -60,25 +152,100 @@ function ChatMessage({ message }: ChatMessageProps) {
             <span className='animate-bounce-dot h-1.5 w-1.5 rounded-full bg-gray-400' />
             <span className='animate-bounce-dot h-1.5 w-1.5 rounded-full bg-gray-400 [animation-delay:0.2s]' />
             <span className='animate-bounce-dot h-1.5 w-1.5 rounded-full bg-gray-400 [animation-delay:0.4s]' />
+            {message.agentStep && (
+              <span className='ml-2 text-[11.5px] text-gray-500'>
+                {formatAgentStep(t, message)}
+                {t('chat.analyzing')}
+              </span>
+            )}
           </div>
         </div>
       </div>
     );
   }
 
+  // ── Editing a user message ───────────────────────────────────────
+  if (isUser && draft !== null && onEdit) {
+    const submitEdit = (e: FormEvent) => {
+      e.preventDefault();
+      if (!draft.trim()) return;
+      setDraft(null);
+      onEdit(message.id, draft.trim());
+    };
+    return (
+      <form className='flex flex-col items-end gap-1 px-3 py-1' onSubmit={submitEdit}>
+        <textarea
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          rows={2}
+          autoFocus
+          aria-label={t('chat.editLabel')}
+          className='w-[85%] resize-none rounded-xl border border-indigo-300 bg-white px-3 py-2 text-[13.5px] leading-snug outline-none focus:border-indigo-600'
+        />
+        <div className='flex gap-3'>
+          <button type='button' className={ACTION_BUTTON_CLASS} onClick={() => setDraft(null)}>
+            {t('chat.cancel')}
+          </button>
+          <button
+            type='submit'
+            className={`${ACTION_BUTTON_CLASS} font-semibold text-indigo-600`}
+            disabled={!draft.trim()}
+          >
+            {t('chat.resend')}
+          </button>
+        </div>
+      </form>
+    );
+  }
+
   // ── User / Assistant Bubble ──────────────────────────────────────
+  const hasActions = Boolean((isUser && onEdit) || onRetry || onRegenerate);
   return (
-    <div className={`flex px-3 py-1 ${isUser ? 'justify-end' : 'justify-start'}`}>
+    <div className={`group flex flex-col px-3 py-1 ${isUser ? 'items-end' : 'items-start'}`}>
       <div className={isUser ? USER_BUBBLE_CLASS : ASSISTANT_BUBBLE_CLASS}>
         {isUser ? (
           <div className='m-0 wrap-break-word whitespace-pre-wrap'>{message.content}</div>
         ) : (
           <div
             className={ASSISTANT_HTML_CLASS}
-            dangerouslySetInnerHTML={{ __html: message.content }}
+            dangerouslySetInnerHTML={{ __html: sanitizeAssistantHtml(message.content) }}
           />
         )}
       </div>
+      {hasActions && (
+        <div
+          className={`mt-0.5 flex gap-3 ${isUser ? 'opacity-0 transition-opacity group-hover:opacity-100 focus-within:opacity-100' : ''}`}
+        >
+          {isUser && onEdit && (
+            <button className={ACTION_BUTTON_CLASS} onClick={() => setDraft(message.content)}>
+              {t('chat.edit')}
+            </button>
+          )}
+          {onRetry && (
+            <button className={ACTION_BUTTON_CLASS} onClick={() => onRetry(message.id)}>
+              {t('chat.retry')}
+            </button>
+          )}
+          {onRegenerate && (
+            <button className={ACTION_BUTTON_CLASS} onClick={() => onRegenerate(message.id)}>
+              {t('chat.regenerate')}
+            </button>
+          )}
+        </div>
+      )}
+      {onSuggestion && message.suggestions?.length ? (
+        <div className='mt-1.5 flex max-w-[85%] flex-wrap gap-1.5'>
+          {message.suggestions.map((suggestion) => (
+            <button
+              key={suggestion}
+              className={SUGGESTION_CHIP_CLASS}
+              onClick={() => onSuggestion(suggestion)}
+            >
+              {suggestion}
+            </button>
+          ))}
+        </div>
+      ) : null}
     </div>
   );
 }
@@ -0,0 +1,156 @@
+/**
+ * ItineraryPanel — collapsible turn-by-turn list of the selected route of
+ * the latest directions, shown next to the chat panel.
+ *
+ * Clicking a step highlights its segment on the map (see MapLayers) and
+ * flies the camera to it. Switching routes (RouteComparison, selectRoute)
+ * swaps the list and clears the highlight.
+ */
+
+'use client';
+
+import React, { useState } from 'react';
+import { LngLatBounds, type Map as MaplibreMap } from 'maplibre-gl';
+import { layerActions, useMapLayers, type DirectionsRouteStep } from '@/lib/map/layer-store';
+import { useTranslation } from '@/lib/i18n';
+
+// ── Helpers ──────────────────────────────────────────────────────────
+
+/** Arrow per Google maneuver; steps without one go straight on */
+const MANEUVER_ICONS: Record<string, string> = {
+  'turn-left': '←',
+  'turn-sharp-left': '↙',
+  'turn-slight-left': '↖',
+  'keep-left': '↖',
+  'fork-left': '↖',
+  'ramp-left': '↖',
+  'uturn-left': '↶',
+  'roundabout-left': '⟲',
+  'turn-right': '→',
+  'turn-sharp-right': '↘',
+  'turn-slight-right': '↗',
+  'keep-right': '↗',
+  'fork-right': '↗',
+  'ramp-right': '↗',
+  'uturn-right': '↷',
+  'roundabout-right': '⟳',
+  ferry: '⛴',
+  'ferry-train': '⛴',
+};
+
+function flyToStep(map: MaplibreMap, step: DirectionsRouteStep): void {
+  if (step.coordinates.length === 0) return;
+  const first = step.coordinates[0] as [number, number];
+  const bounds = step.coordinates.reduce(
+    (acc, coord) => acc.extend(coord as [number, number]),
+    new LngLatBounds(first, first),
+  );
+  map.fitBounds(bounds, { padding: 120, duration: 1000, maxZoom: 17 });
+}
+
+// ── Component ────────────────────────────────────────────────────────
+
+interface ItineraryPanelProps {
+  mapRef: React.RefObject<MaplibreMap | null>;
+  /** The chat panel is open, so the itinerary sits to its left */
+  besideChat: boolean;
+}
+
+export default function ItineraryPanel({ mapRef, besideChat }: ItineraryPanelProps) {
+  const { directions } = useMapLayers();
+  const { t } = useTranslation();
+  const [collapsed, setCollapsed] = useState(false);
+
+  const directionsIndex = directions.findLastIndex(
+    (data) => (data.routes[data.selectedIndex]?.steps.length ?? 0) > 0,
+  );
+  if (directionsIndex < 0) return null;
+
+  const { routes, selectedIndex, selectedStep } = directions[directionsIndex];
+  const route = routes[selectedIndex];
+  const multiLeg = route.steps.some((step) => step.legIndex > 0);
+
+  const selectStep = (index: number) => {
+    layerActions.selectStep(directionsIndex, index);
+    const map = mapRef.current;
+    if (map) flyToStep(map, route.steps[index]);
+  };
+
+  return (
+    <div
+      className={`fixed z-1000 flex w-72 max-h-[calc(100vh-120px)] flex-col overflow-hidden rounded-2xl border border-black/5 bg-white text-[13px] shadow-[0_8px_40px_rgba(0,0,0,0.12),0_2px_8px_rgba(0,0,0,0.06)] ${
+        besideChat ? 'bottom-6 right-109 max-[880px]:hidden' : 'bottom-20 right-6'
+      }`}
+    >
+      <button
+        type='button'
+        onClick={() => setCollapsed((value) => !value)}
+        aria-expanded={!collapsed}
+        title={collapsed ? t('itinerary.expand') : t('itinerary.collapse')}
+        className='flex w-full items-center justify-between gap-2 border-none bg-slate-50 px-3 py-2.5 text-left transition-colors hover:bg-slate-100'
+      >
+        <span className='flex flex-col gap-0.5'>
+          <span className='font-bold text-slate-800'>
+            {t('itinerary.title')}
+            {routes.length > 1 && ` · ${t('routes.option', { index: selectedIndex + 1 })}`}
+          </span>
+          <span className='text-[11.5px] text-gray-500'>
+            {t('itinerary.summary', {
+              count: route.steps.length,
+              distance: route.distanceText,
+              duration: route.durationInTrafficText
+                ? t('routes.durationWithTraffic', {
+                    traffic: route.durationInTrafficText,
+                    freeFlow: route.durationText,
+                  })
+                : route.durationText,
+            })}
+          </span>
+        </span>
+        <span className='text-gray-500'>{collapsed ? '▸' : '▾'}</span>
+      </button>
+
+      {!collapsed && (
+        <ol className='m-0 list-none overflow-y-auto p-1.5 scrollbar-thin scrollbar-thumb-gray-300'>
+          {route.steps.map((step, index) => {
+            const selected = index === selectedStep;
+            const legStart =
+              multiLeg && (index === 0 || route.steps[index - 1].legIndex !== step.legIndex);
+            return (
+              <li key={index}>
+                {legStart && (
+                  <div className='px-2 pb-0.5 pt-1.5 text-[11px] font-semibold uppercase tracking-wide text-amber-600'>
+                    {t('itinerary.leg', { index: step.legIndex + 1 })}
+                  </div>
+                )}
+                <button
+                  type='button'
+                  aria-pressed={selected}
+                  onClick={() => selectStep(index)}
+                  className={`flex w-full items-start gap-2 rounded-lg border-none px-2 py-1.5 text-left transition-colors ${
+                    selected ? 'bg-orange-50' : 'bg-white hover:bg-gray-50'
+                  }`}
+                >
+                  <span
+                    className={`flex h-6 w-6 shrink-0 items-center justify-center rounded-full text-[13px] ${
+                      selected ? 'bg-orange-500 text-white' : 'bg-slate-100 text-slate-600'
+                    }`}
+                    aria-hidden
+                  >
+                    {(step.maneuver && MANEUVER_ICONS[step.maneuver]) || '↑'}
+                  </span>
+                  <span className='flex min-w-0 flex-col'>
+                    <span className='text-slate-800'>{step.instruction}</span>
+                    <span className='text-[11.5px] text-gray-500'>
+                      {step.distanceText} · {step.durationText}
+                    </span>
+                  </span>
+                </button>
+              </li>
+            );
+          })}
+        </ol>
+      )}
+    </div>
+  );
+}
@@ -3,36 +3,149 @@
  *
  * Floating chat panel for controlling the map via natural language.
  * Sends messages to /api/map-agent, receives tool calls, and executes
- * them against the MapLibre map instance.
+ * them against the MapLibre map instance (independent calls concurrently,
+ * see lib/map/tool-planner.ts). Tool results are posted back so
+ * the model can chain further tools (agent loop) before answering; replies
+ * are streamed so the loading bubble fills in while the model is writing.
+ * History is kept in a server-side session whose ID survives reloads.
+ * While a request runs the send button turns into a stop button: the agent
+ * call and running tools are aborted and the map is rolled back to how it was
+ * before the message was sent.
+ * User messages can be edited and failed turns retried (the session is
+ * rewound to that message and the turn re-runs); the last answer can be
+ * regenerated from the same tool results without running the tools again.
+ * The header shows the logged-in user (see /api/auth); guests get a login link.
+ * The header also switches the language (lib/i18n): the UI follows it at once,
+ * and it is sent with every agent request for the prompts and the answer.
+ * The turn-by-turn itinerary of the latest directions sits beside the panel.
  */
 
 'use client';
 
 import React, { useState, useRef, useEffect, useCallback, type FormEvent } from 'react';
+import Link from 'next/link';
 import type { Map as MaplibreMap } from 'maplibre-gl';
 
 import ChatMessageComponent from './ChatMessage';
+import ItineraryPanel from './ItineraryPanel';
 import { useSpeechRecognition } from '@/hooks/useSpeechRecognition';
-import type { ChatMessage, AgentResponse, AgentApiMessage, ToolResult } from '@/types';
+import type {
+  ChatMessage,
+  ChatSession,
+  SessionMessage,
+  AgentResponse,
+  AgentApiMessage,
+  AgentRequestBody,
+  AgentStreamEvent,
+  AuthStatus,
+  ToolCallProgress,
+  ToolResult,
+  ToolRunTiming,
+} from '@/types';
 import { generateId } from '@/lib/utils';
-import { executeTool } from '@/lib/map';
+import { readStreamEvents } from '@/lib/sse';
+import {
+  captureMapSnapshot,
+  executeToolCalls,
+  getAgentMapContext,
+  restoreMapSnapshot,
+} from '@/lib/map';
+import {
+  LOCALES,
+  LOCALE_SETTINGS,
+  isLocale,
+  localeActions,
+  t as translateNow,
+  useTranslation,
+  type MessageKey,
+  type Translator,
+} from '@/lib/i18n';
 
 // ── Constants ────────────────────────────────────────────────────────
 
-const WELCOME_MESSAGE: ChatMessage = {
-  id: 'welcome',
-  role: 'assistant',
-  content:
-    '👋 Chào bạn! Mình là GTEL Maps Copilot.\nMình có thể giúp bạn tìm địa điểm, chỉ đường theo phương tiện và tìm địa điểm lân cận.\n\nBạn có thể thử: "Tìm quán cà phê gần đây".',
-  timestamp: Date.now(),
-};
-
-const QUICK_COMMANDS = [
-  'Công ty GTEL OTS ở tỉnh thành nào?',
-  'Vị trí hiện tại của tôi?',
-  'Chỉ đường đến sân bay Tân Sơn Nhất',
-  'Quán cafe gần nhất',
-] as const;
+const WELCOME_MESSAGE_ID = 'welcome';
+
+const SESSION_STORAGE_KEY = 'gtel-maps-copilot:session';
+
+const QUICK_COMMANDS: MessageKey[] = [
+  'chat.quickCommand.company',
+  'chat.quickCommand.location',
+  'chat.quickCommand.directions',
+  'chat.quickCommand.nearby',
+];
+
+// ── Helpers ──────────────────────────────────────────────────────────
+
+/** Greeting in the current locale; re-translated when the locale changes */
+function createWelcomeMessage(): ChatMessage {
+  return {
+    id: WELCOME_MESSAGE_ID,
+    role: 'assistant',
+    content: translateNow('chat.welcome'),
+    timestamp: Date.now(),
+  };
+}
+
+/** The turn up to its last tool result; undefined when no tool ran (ChatMessage.toolHistory) */
+function getToolHistory(turn: AgentApiMessage[]): AgentApiMessage[] | undefined {
+  const lastTool = turn.map((m) => m.role).lastIndexOf('tool');
+  return lastTool === -1 ? undefined : turn.slice(0, lastTool + 1);
+}
+
+/** Visible chat bubbles of a stored session (model steps and tool results are hidden) */
+function toChatMessages(messages: SessionMessage[]): ChatMessage[] {
+  const chat: ChatMessage[] = [];
+  let turn: AgentApiMessage[] = [];
+
+  for (const { id, role, content, tool_call_id, tool_calls, createdAt, suggestions } of messages) {
+    if (role === 'user') {
+      turn = [{ id, role, content }];
+      chat.push({ id, role, content, timestamp: createdAt });
+    } else if (role === 'assistant' && !tool_calls?.length && content.trim()) {
+      const toolHistory = getToolHistory(turn);
+      chat.push({
+        id,
+        role,
+        content,
+        timestamp: createdAt,
+        ...(toolHistory ? { toolHistory } : {}),
+        ...(suggestions?.length ? { suggestions } : {}),
+      });
+    } else {
+      turn.push({
+        role,
+        content,
+        ...(tool_call_id ? { tool_call_id } : {}),
+        ...(tool_calls?.length ? { tool_calls } : {}),
+      });
+    }
+  }
+
+  return chat;
+}
+
+/** Conversation so far as resent without a session (UI-only messages excluded) */
+function toHistory(messages: ChatMessage[]): AgentApiMessage[] {
+  return messages
+    .filter((m) => !m.isLoading && !m.toolCall && !m.toolResult)
+    .map((m) => ({ role: m.role, content: m.content }));
+}
+
+/**
+ * Friendly messages for requests rejected by the abuse protection of
+ * /api/map-agent (rate limit → 429, oversized request → 413).
+ */
+function describeAgentError(t: Translator, response: Response, data: { error?: string }): string {
+  if (response.status === 429) {
+    const seconds = Number(response.headers.get('Retry-After'));
+    const wait = seconds > 0 ? t('error.waitSeconds', { seconds }) : t('error.waitMinutes');
+    return t('error.rateLimited', { wait });
+  }
+  if (response.status === 413) {
+    return t('error.tooLarge');
+  }
+  return data.error || t('error.apiFailed');
+}
 
 // ── Icons ────────────────────────────────────────────────────────────
 
@@ -56,6 +169,14 @@ function MicIcon() {
   );
 }
 
+function StopIcon() {
+  return (
+    <svg width='14' height='14' viewBox='0 0 24 24' fill='currentColor'>
+      <rect x='5' y='5' width='14' height='14' rx='2' />
+    </svg>
+  );
+}
+
 function SendIcon() {
   return (
     <svg
@@ -83,13 +204,20 @@ interface MapCopilotProps {
 // ── Component ────────────────────────────────────────────────────────
 
 export default function MapCopilot({ mapRef }: MapCopilotProps) {
-  const [messages, setMessages] = useState<ChatMessage[]>([WELCOME_MESSAGE]);
+  const { locale, t } = useTranslation();
+  const [messages, setMessages] = useState<ChatMessage[]>(() => [createWelcomeMessage()]);
   const [input, setInput] = useState('');
   const [isLoading, setIsLoading] = useState(false);
   const [isOpen, setIsOpen] = useState(true);
+  const [auth, setAuth] = useState<AuthStatus | null>(null);
 
   const scrollRef = useRef<HTMLDivElement>(null);
   const inputRef = useRef<HTMLInputElement>(null);
+  const sessionIdRef = useRef<string | null>(null);
+  /** HR session used when no server session could be created */
+  const fallbackSessionIdRef = useRef(generateId());
+  /** Aborts the request in progress (stop button) */
+  const abortControllerRef = useRef<AbortController | null>(null);
 
   // Auto-scroll to bottom on new messages
   useEffect(() => {
@@ -101,27 +229,147 @@ export default function MapCopilot({ mapRef }: MapCopilotProps) {
     if (isOpen) inputRef.current?.focus();
   }, [isOpen]);
 
+  // Apply the stored language after mount (the server renders the default one)
+  useEffect(() => {
+    localeActions.restore();
+  }, []);
+
+  // Keep the greeting in the current language
+  useEffect(() => {
+    setMessages((prev) =>
+      prev.map((m) => (m.id === WELCOME_MESSAGE_ID ? { ...m, content: t('chat.welcome') } : m)),
+    );
+  }, [t]);
+
+  // Resume the stored session after a reload
+  useEffect(() => {
+    const storedId = window.localStorage.getItem(SESSION_STORAGE_KEY);
+    if (!storedId) return;
+
+    let cancelled = false;
+    fetch(`/api/sessions/${encodeURIComponent(storedId)}`)
+      .then((res) => (res.ok ? (res.json() as Promise<ChatSession>) : null))
+      .then((session) => {
+        if (cancelled || sessionIdRef.current) return;
+        if (!session) {
+          window.localStorage.removeItem(SESSION_STORAGE_KEY);
+          return;
+        }
+        sessionIdRef.current = session.id;
+        // Keep anything the user already sent while the session was loading
+        setMessages((prev) => [
+          createWelcomeMessage(),
+          ...toChatMessages(session.messages),
+          ...prev.slice(1),
+        ]);
+      })
+      .catch(() => undefined);
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  // Stop the request in progress when the panel unmounts
+  useEffect(() => () => abortControllerRef.current?.abort(), []);
+
+  // Load the logged-in user
+  useEffect(() => {
+    fetch('/api/auth/me')
+      .then((res) => (res.ok ? (res.json() as Promise<AuthStatus>) : null))
+      .then(setAuth)
+      .catch(() => undefined);
+  }, []);
+
+  // ── Session ────────────────────────────────────────────────────────
+
+  /** Current session ID, creating one on first use; null when sessions are unavailable */
+  const ensureSession = useCallback(async (): Promise<string | null> => {
+    if (sessionIdRef.current) return sessionIdRef.current;
+    try {
+      const response = await fetch('/api/sessions', { method: 'POST' });
+      if (!response.ok) return null;
+      const session: ChatSession = await response.json();
+      sessionIdRef.current = session.id;
+      window.localStorage.setItem(SESSION_STORAGE_KEY, session.id);
+      return session.id;
+    } catch {
+      return null;
+    }
+  }, []);
+
+  const startNewSession = useCallback(() => {
+    sessionIdRef.current = null;
+    fallbackSessionIdRef.current = generateId();
+    window.localStorage.removeItem(SESSION_STORAGE_KEY);
+    setMessages([createWelcomeMessage()]);
+  }, []);
+
+  /** Log out and drop the conversation, which may contain HR data */
+  const logout = useCallback(async () => {
+    try {
+      const response = await fetch('/api/auth/logout', { method: 'POST' });
+      if (response.ok) setAuth(await response.json());
+    } catch {
+      return;
+    }
+    startNewSession();
+  }, [startNewSession]);
+
   // ── API Interaction ────────────────────────────────────────────────
 
   const callMapAgent = useCallback(
-    async (apiMessages: AgentApiMessage[], responseOnly = false): Promise<AgentResponse> => {
+    async (
+      request: Omit<AgentRequestBody, 'stream'>,
+      signal: AbortSignal,
+      onEvent?: (event: AgentStreamEvent) => void,
+    ): Promise<AgentResponse> => {
       const response = await fetch('/api/map-agent', {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ messages: apiMessages, responseOnly }),
+        headers: { 'Content-Type': 'application/json', 'Accept-Language': locale },
+        body: JSON.stringify({ ...request, locale, stream: Boolean(onEvent) }),
+        signal,
+      });
+
+      const isStream = response.headers.get('Content-Type')?.startsWith('text/event-stream');
+      if (!onEvent || !isStream || !response.body) {
+        const data: AgentResponse & { error?: string } = await response.json();
+        if (!response.ok) throw new Error(describeAgentError(t, response, data));
+        return data;
+      }
+
+      let result: AgentResponse | null = null;
+      let streamError: string | null = null;
+
+      await readStreamEvents(response.body, (event) => {
+        if (event.type === 'done') result = event.result;
+        else if (event.type === 'error') streamError = event.error;
+        else onEvent(event);
       });
 
-      const data: AgentResponse & { error?: string } = await response.json();
-      if (!response.ok) throw new Error(data.error || 'Không thể gọi API.');
-      return data;
+      if (streamError) throw new Error(streamError);
+      if (!result) throw new Error(t('error.streamInterrupted'));
+      return result;
+    },
+    [locale, t],
+  );
+
+  /** Patch a single message in place (used to grow the streaming bubble) */
+  const updateMessage = useCallback(
+    (id: string, patch: (message: ChatMessage) => Partial<ChatMessage>) => {
+      setMessages((prev) => prev.map((m) => (m.id === id ? { ...m, ...patch(m) } : m)));
     },
     [],
   );
 
   // ── Send Message ───────────────────────────────────────────────────
 
+  /**
+   * Run a user turn. `baseMessages` replaces the current conversation (edit /
+   * retry re-run from an earlier point with the later messages removed).
+   */
   const sendMessage = useCallback(
-    async (userText: string) => {
+    async (userText: string, baseMessages?: ChatMessage[]) => {
       if (!userText.trim() || isLoading) return;
 
       const map = mapRef.current;
@@ -131,7 +379,7 @@ export default function MapCopilot({ mapRef }: MapCopilotProps) {
           {
             id: generateId(),
             role: 'assistant',
-            content: 'Bản đồ chưa sẵn sàng. Vui lòng đợi một chút.',
+            content: t('chat.mapNotReady'),
             timestamp: Date.now(),
           },
         ]);
@@ -154,18 +402,30 @@ export default function MapCopilot({ mapRef }: MapCopilotProps) {
         isLoading: true,
       };
 
-      setMessages((prev) => [...prev, userMsg, loadingMsg]);
+      setMessages((prev) => [...(baseMessages ?? prev), userMsg, loadingMsg]);
       setInput('');
       setIsLoading(true);
 
-      try {
-        // Build conversation history (exclude UI-only messages)
-        const apiMessages: AgentApiMessage[] = [...messages, userMsg]
-          .filter((m) => !m.isLoading && !m.toolCall && !m.toolResult)
-          .map((m) => ({ role: m.role, content: m.content }));
+      const controller = new AbortController();
+      abortControllerRef.current = controller;
+      const { signal } = controller;
+      // What the map looked like before this message, restored if the user stops
+      const snapshot = captureMapSnapshot(map);
+      let mapChanged = false;
 
-        // First pass: tool planning
-        const data = await callMapAgent(apiMessages, false);
+      try {
+        const sessionId = await ensureSession();
+        const toolContext = { sessionId: sessionId ?? fallbackSessionIdRef.current, signal };
+
+        // With a session the server keeps the history (including its own steps),
+        // so only new user / tool messages go out. Without one, the whole
+        // conversation is resent (UI-only messages excluded).
+        const history: AgentApiMessage[] = sessionId ? [] : toHistory(baseMessages ?? messages);
+        let outbox: AgentApiMessage[] = [{ id: userMsg.id, role: 'user', content: userText }];
+        // This turn in API form, kept on the answer so it can be regenerated
+        const turn: AgentApiMessage[] = [...outbox];
+        // Tool durations measured here are reported with the next step
+        let toolRuns: ToolRunTiming[] = [];
 
         const executedTools: Array<{
           id?: string;
@@ -174,44 +434,130 @@ export default function MapCopilot({ mapRef }: MapCopilotProps) {
           result: ToolResult;
         }> = [];
 
-        // Execute tool calls
-        if (data.toolCalls?.length) {
-          for (const toolCall of data.toolCalls) {
-            const result = await executeTool(map, toolCall.name, toolCall.arguments);
-            executedTools.push({
-              id: toolCall.id,
-              name: toolCall.name,
-              arguments: toolCall.arguments,
-              result,
-            });
+        // Loop state signed by the server, sent back with the next step (no session only)
+        let turnToken: string | undefined;
+        let finalReply = '';
+        let suggestions: string[] | undefined;
+
+        // Agent loop: every step either requests tools or answers. Tool results
+        // go back as `role: 'tool'` messages so the model can chain or retry tools;
+        // the server forces an answer once the step/token budget is spent.
+        for (;;) {
+          const data = await callMapAgent(
+            {
+              messages: [...history, ...outbox],
+              ...(sessionId ? { sessionId } : {}),
+              ...(turnToken ? { agent: { turnToken } } : {}),
+              mapContext: getAgentMapContext(map),
+              ...(toolRuns.length > 0 ? { telemetry: { toolRuns } } : {}),
+            },
+            signal,
+            (event) => {
+              if (event.type === 'delta') {
+                updateMessage(loadingId, (m) => ({
+                  toolCall: undefined,
+                  content: m.content + event.text,
+                }));
+              } else if (event.type === 'tool_call') {
+                updateMessage(loadingId, () => ({
+                  content: '',
+                  toolCall: { name: event.name, arguments: {} },
+                }));
+              }
+            },
+          );
+
+          if (!sessionId) history.push(...outbox);
+          outbox = [];
+          toolRuns = [];
+          turnToken = data.agent?.turnToken;
+
+          if (!data.toolCalls?.length) {
+            finalReply = data.reply?.trim() || '';
+            suggestions = data.suggestions;
+            break;
           }
-        }
 
-        let finalReply = data.reply?.trim() || '';
-
-        // Second pass: AI summarizes a grounded answer from tool outputs
-        if (executedTools.length > 0) {
-          const groundedPrompt = `Yêu cầu gần nhất của người dùng: "${userText}".
-            Dữ liệu công cụ vừa chạy:
-            ${JSON.stringify(executedTools, null, 2)}
-            Hãy trả lời đúng trọng tâm yêu cầu gần nhất dựa trên dữ liệu này.`;
-
-          try {
-            const grounded = await callMapAgent(
-              [
-                ...apiMessages,
-                { role: 'assistant', content: 'Đã thực thi công cụ và có dữ liệu kết quả.' },
-                { role: 'user', content: groundedPrompt },
-              ],
-              true,
-            );
-
-            if (grounded.reply?.trim()) {
-              finalReply = grounded.reply.trim();
+          const step = data.agent
+            ? { step: data.agent.step, maxSteps: data.agent.maxSteps }
+            : undefined;
+          const toolCalls = data.toolCalls.map((toolCall) => ({
+            ...toolCall,
+            id: toolCall.id || `call_${generateId()}`,
+          }));
+
+          const assistantStep: AgentApiMessage = {
+            role: 'assistant',
+            content: data.reply || '',
+            tool_calls: toolCalls,
+          };
+          turn.push(assistantStep);
+          if (!sessionId) history.push(assistantStep);
+
+          // Independent calls run concurrently, dependent ones in order (see
+          // lib/map/tool-planner.ts). Calls rejected by server-side validation are
+          // not executed; the structured failure goes back to the model.
+          const progress: ToolCallProgress[] = toolCalls.map((toolCall) => ({
+            id: toolCall.id,
+            name: toolCall.name,
+            arguments: toolCall.arguments,
+            status: 'pending',
+          }));
+          updateMessage(loadingId, () => ({
+            content: '',
+            agentStep: step,
+            toolCall: undefined,
+            toolProgress: progress,
+          }));
+
+          mapChanged = true;
+          const outcomes = await executeToolCalls(
+            map,
+            toolCalls,
+            toolContext,
+            (toolCall, status) => {
+              updateMessage(loadingId, (m) => ({
+                toolProgress: m.toolProgress?.map((item) =>
+                  item.id === toolCall.id ? { ...item, status } : item,
+                ),
+              }));
+            },
+          );
+
+          for (const { call, result, durationMs } of outcomes) {
+            if (durationMs !== null) {
+              toolRuns.push({
+                toolCallId: call.id,
+                name: call.name,
+                durationMs,
+                success: result.success,
+              });
             }
-          } catch (error) {
-            console.error('[map-copilot] response-only synthesis error:', error);
+            executedTools.push({
+              id: call.id,
+              name: call.name,
+              arguments: call.arguments,
+              result,
+            });
+            outbox.push({
+              role: 'tool',
+              tool_call_id: call.id,
+              content: JSON.stringify({
+                name: call.name,
+                arguments: call.arguments,
+                result,
+              }),
+            });
           }
+          turn.push(...outbox);
+
+          // Back to the typing indicator while the next step is planned
+          updateMessage(loadingId, () => ({
+            content: '',
+            toolCall: undefined,
+            toolProgress: undefined,
+            agentStep: step && { step: step.step + 1, maxSteps: step.maxSteps },
+          }));
         }
 
         if (!finalReply) {
@@ -219,11 +565,12 @@ export default function MapCopilot({ mapRef }: MapCopilotProps) {
           finalReply = failedTool
             ? failedTool.result.message
             : executedTools.length > 0
-              ? 'Mình đã xử lý xong yêu cầu trên bản đồ.'
+              ? t('chat.mapRequestDone')
               : '';
         }
 
         // Replace loading with final reply
+        const toolHistory = getToolHistory(turn);
         setMessages((prev) => {
           const withoutLoading = prev.filter((m) => m.id !== loadingId);
           if (!finalReply) return withoutLoading;
@@ -234,10 +581,21 @@ export default function MapCopilot({ mapRef }: MapCopilotProps) {
               role: 'assistant' as const,
               content: finalReply,
               timestamp: Date.now(),
+              ...(toolHistory ? { toolHistory } : {}),
+              ...(suggestions?.length ? { suggestions } : {}),
             },
           ];
         });
       } catch (error) {
+        const stopped = signal.aborted;
+        // Tools that already drew are undone rather than left half-applied
+        if (stopped && mapChanged) restoreMapSnapshot(map, snapshot);
+
+        const content = stopped
+          ? mapChanged
+            ? t('chat.stoppedRestored')
+            : t('chat.stopped')
+          : `⚠️ ${error instanceof Error ? error.message : t('error.generic')}`;
         setMessages((prev) => {
           const withoutLoading = prev.filter((m) => m.id !== loadingId);
           return [
@@ -245,16 +603,154 @@ export default function MapCopilot({ mapRef }: MapCopilotProps) {
             {
               id: generateId(),
               role: 'assistant' as const,
-              content: `⚠️ ${error instanceof Error ? error.message : 'Đã xảy ra lỗi. Vui lòng thử lại.'}`,
+              content,
               timestamp: Date.now(),
+              failed: true,
             },
           ];
         });
       } finally {
+        abortControllerRef.current = null;
         setIsLoading(false);
       }
     },
-    [messages, isLoading, mapRef, callMapAgent],
+    [messages, isLoading, mapRef, callMapAgent, updateMessage, ensureSession, t],
+  );
+
+  /** Stop button: abort the agent call and any running tools */
+  const stopRequest = useCallback(() => {
+    abortControllerRef.current?.abort();
+  }, []);
+
+  // ── Edit / Retry / Regenerate ──────────────────────────────────────
+
+  /** Drop user message `messageId` and its turn from the server session (see rewindSession) */
+  const rewindSession = useCallback(async (messageId: string) => {
+    const sessionId = sessionIdRef.current;
+    if (!sessionId) return;
+
+    const response = await fetch(`/api/sessions/${encodeURIComponent(sessionId)}/rewind`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'Accept-Language': locale },
+      body: JSON.stringify({ messageId }),
+    });
+    if (!response.ok) {
+      const data: { error?: string } | null = await response.json().catch(() => null);
+      throw new Error(data?.error || t('error.sessionUpdate'));
+    }
+  }, [locale, t]);
+
+  /** Re-run the conversation from user message `messageId` with `text` (edit / retry) */
+  const rerunFrom = useCallback(
+    async (messageId: string, text: string) => {
+      const index = messages.findIndex((m) => m.id === messageId);
+      if (index === -1 || !text.trim() || isLoading) return;
+
+      try {
+        await rewindSession(messageId);
+      } catch (error) {
+        setMessages((prev) => [
+          ...prev,
+          {
+            id: generateId(),
+            role: 'assistant',
+            content: `⚠️ ${error instanceof Error ? error.message : t('error.generic')}`,
+            timestamp: Date.now(),
+          },
+        ]);
+        return;
+      }
+      await sendMessage(text, messages.slice(0, index));
+    },
+    [messages, isLoading, rewindSession, sendMessage, t],
+  );
+
+  /** Retry the turn that produced the failed bubble `messageId` */
+  const retryTurn = useCallback(
+    (messageId: string) => {
+      const index = messages.findIndex((m) => m.id === messageId);
+      const userMsg = messages
+        .slice(0, index)
+        .reverse()
+        .find((m) => m.role === 'user');
+      if (userMsg) void rerunFrom(userMsg.id, userMsg.content);
+    },
+    [messages, rerunFrom],
+  );
+
+  /**
+   * Write answer `messageId` again from its turn's tool results with a
+   * `regenerate` step (no tool calls, so the map stays as it is). The server
+   * replaces the stored answer only when the new one succeeds, so on failure
+   * the previous answer is shown again and still matches the session.
+   */
+  const regenerateAnswer = useCallback(
+    async (messageId: string) => {
+      const index = messages.findIndex((m) => m.id === messageId);
+      const answer = messages[index];
+      const map = mapRef.current;
+      if (!answer?.toolHistory || !map || isLoading) return;
+
+      const { toolHistory } = answer;
+      const userIndex = messages.findIndex((m) => m.id === toolHistory[0].id);
+      const loadingId = generateId();
+      setMessages((prev) => [
+        ...prev.filter((m) => m.id !== messageId),
+        { id: loadingId, role: 'assistant', content: '', timestamp: Date.now(), isLoading: true },
+      ]);
+      setIsLoading(true);
+
+      const controller = new AbortController();
+      abortControllerRef.current = controller;
+
+      try {
+        const sessionId = sessionIdRef.current;
+
+        const data = await callMapAgent(
+          {
+            messages: sessionId
+              ? []
+              : [...toHistory(messages.slice(0, Math.max(userIndex, 0))), ...toolHistory],
+            ...(sessionId ? { sessionId } : {}),
+            regenerate: true,
+            mapContext: getAgentMapContext(map),
+          },
+          controller.signal,
+          (event) => {
+            if (event.type === 'delta') {
+              updateMessage(loadingId, (m) => ({ content: m.content + event.text }));
+            }
+          },
+        );
+
+        const regenerated: ChatMessage = {
+          id: generateId(),
+          role: 'assistant',
+          content: data.reply?.trim() || answer.content,
+          timestamp: Date.now(),
+          toolHistory,
+          ...(data.suggestions?.length ? { suggestions: data.suggestions } : {}),
+        };
+        setMessages((prev) => prev.map((m) => (m.id === loadingId ? regenerated : m)));
+      } catch (error) {
+        // Keep the previous answer; only say why a new one could not be written
+        const notice: ChatMessage[] = controller.signal.aborted
+          ? []
+          : [
+              {
+                id: generateId(),
+                role: 'assistant',
+                content: `⚠️ ${error instanceof Error ? error.message : t('error.generic')}`,
+                timestamp: Date.now(),
+              },
+            ];
+        setMessages((prev) => [...prev.filter((m) => m.id !== loadingId), answer, ...notice]);
+      } finally {
+        abortControllerRef.current = null;
+        setIsLoading(false);
+      }
+    },
+    [messages, isLoading, mapRef, callMapAgent, updateMessage, t],
   );
 
   // ── Speech Recognition ─────────────────────────────────────────────
@@ -275,12 +771,19 @@ export default function MapCopilot({ mapRef }: MapCopilotProps) {
   };
 
   const hasUserMessages = messages.some((m) => m.role === 'user');
-  const statusText = isLoading ? 'Đang xử lý...' : isListening ? 'Đang nghe...' : 'Sẵn sàng';
+  const statusText = isLoading
+    ? t('chat.status.processing')
+    : isListening
+      ? t('chat.status.listening')
+      : t('chat.status.ready');
 
   // ── Render ─────────────────────────────────────────────────────────
 
   return (
     <>
+      {/* Turn-by-turn Itinerary */}
+      <ItineraryPanel mapRef={mapRef} besideChat={isOpen} />
+
       {/* Toggle Button */}
       {!isOpen && (
         <button
@@ -301,16 +804,68 @@ export default function MapCopilot({ mapRef }: MapCopilotProps) {
               <span className='text-2xl'>🤖</span>
               <div className='flex flex-col gap-1'>
                 <h3 className='m-0 text-[15px] font-bold tracking-tight'>GTEL Maps Copilot</h3>
-                <span className='text-[11px] opacity-80'>{statusText}</span>
+                <span className='text-[11px] opacity-80'>
+                  {statusText}
+                  {auth?.user ? (
+                    <>
+                      {' · '}
+                      {auth.user.name}
+                      {' · '}
+                      <button
+                        className='cursor-pointer border-none bg-transparent p-0 text-[11px] text-white underline disabled:cursor-not-allowed'
+                        onClick={logout}
+                        disabled={isLoading}
+                      >
+                        {t('auth.logout')}
+                      </button>
+                    </>
+                  ) : (
+                    auth && (
+                      <>
+                        {' · '}
+                        <Link className='text-white underline' href='/login?next=/maps'>
+                          {t('auth.login')}
+                        </Link>
+                      </>
+                    )
+                  )}
+                </span>
               </div>
             </div>
-            <button
-              className='flex h-7 w-7 items-center justify-center rounded-lg border-none bg-white/15 text-sm text-white transition-colors hover:bg-white/25'
-              onClick={() => setIsOpen(false)}
-              aria-label='Đóng'
-            >
-              ✕
-            </button>
+            <div className='flex items-center gap-1.5'>
+              <select
+                className='h-7 cursor-pointer rounded-lg border-none bg-white/15 px-1.5 text-[12px] text-white outline-none transition-colors hover:bg-white/25 disabled:cursor-not-allowed disabled:opacity-50 [&>option]:text-gray-900'
+                value={locale}
+                onChange={(e) => {
+                  if (isLocale(e.target.value)) localeActions.setLocale(e.target.value);
+                }}
+                disabled={isLoading}
+                aria-label={t('chat.language')}
+                title={t('chat.language')}
+              >
+                {LOCALES.map((option) => (
+                  <option key={option} value={option}>
+                    {LOCALE_SETTINGS[option].label}
+                  </option>
+                ))}
+              </select>
+              <button
+                className='flex h-7 w-7 items-center justify-center rounded-lg border-none bg-white/15 text-sm text-white transition-colors hover:bg-white/25 disabled:cursor-not-allowed disabled:opacity-50'
+                onClick={startNewSession}
+                disabled={isLoading}
+                aria-label={t('chat.newConversation')}
+                title={t('chat.newConversation')}
+              >
+                ↺
+              </button>
+              <button
+                className='flex h-7 w-7 items-center justify-center rounded-lg border-none bg-white/15 text-sm text-white transition-colors hover:bg-white/25'
+                onClick={() => setIsOpen(false)}
+                aria-label={t('chat.close')}
+              >
+                ✕
+              </button>
+            </div>
           </div>
 
           {/* Messages */}
@@ -318,22 +873,34 @@ export default function MapCopilot({ mapRef }: MapCopilotProps) {
             className='flex-1 overflow-y-auto py-2 min-h-50 max-h-112.5 scrollbar-thin scrollbar-thumb-gray-300'
             ref={scrollRef}
           >
-            {messages.map((msg) => (
-              <ChatMessageComponent key={msg.id} message={msg} />
-            ))}
+            {messages.map((msg, index) => {
+              const isLast = index === messages.length - 1;
+              return (
+                <ChatMessageComponent
+                  key={msg.id}
+                  message={msg}
+                  onEdit={!isLoading && msg.role === 'user' ? rerunFrom : undefined}
+                  onRetry={!isLoading && isLast && msg.failed ? retryTurn : undefined}
+                  onRegenerate={
+                    !isLoading && isLast && msg.toolHistory ? regenerateAnswer : undefined
+                  }
+                  onSuggestion={!isLoading && isLast ? sendMessage : undefined}
+                />
+              );
+            })}
           </div>
 
           {/* Quick Commands */}
           {!hasUserMessages && (
             <div className='flex flex-wrap gap-1.5 border-t border-gray-100 px-3 py-2'>
-              {QUICK_COMMANDS.map((cmd) => (
+              {QUICK_COMMANDS.map((key) => (
                 <button
-                  key={cmd}
+                  key={key}
                   className='whitespace-nowrap rounded-full border border-gray-200 bg-gray-100 px-2.5 py-1 text-[11.5px] text-gray-600 transition-all hover:bg-gray-200 hover:text-gray-900 disabled:cursor-not-allowed disabled:opacity-50'
-                  onClick={() => sendMessage(cmd)}
+                  onClick={() => sendMessage(t(key))}
                   disabled={isLoading}
                 >
-                  {cmd}
+                  {t(key)}
                 </button>
               ))}
             </div>
@@ -349,22 +916,22 @@ export default function MapCopilot({ mapRef }: MapCopilotProps) {
               type='text'
               value={input}
               onChange={(e) => setInput(e.target.value)}
-              placeholder='Hãy yêu cầu mình điều khiển bản đồ...'
+              placeholder={t('chat.inputPlaceholder')}
               disabled={isLoading || isListening}
-              aria-label='Ô nhập chat'
+              aria-label={t('chat.inputLabel')}
               className='flex-1 rounded-[10px] border border-gray-200 bg-gray-50 px-3.5 py-2.5 text-[13.5px] outline-none transition-colors focus:border-indigo-600 focus:bg-white disabled:opacity-60'
             />
             <button
               type='button'
               onClick={handleVoiceToggle}
               disabled={!isVoiceSupported || isLoading}
-              aria-label={isListening ? 'Dừng nhập giọng nói' : 'Bật nhập giọng nói'}
+              aria-label={isListening ? t('voice.stop') : t('voice.start')}
               title={
                 !isVoiceSupported
-                  ? 'Trình duyệt chưa hỗ trợ nhập giọng nói'
+                  ? t('voice.unsupportedTitle')
                   : isListening
-                    ? 'Dừng nhập giọng nói'
-                    : 'Nhấn để nói'
+                    ? t('voice.stop')
+                    : t('voice.pressToTalk')
               }
               className={`flex h-9.5 w-9.5 shrink-0 items-center justify-center rounded-[10px] border-none text-white transition-all disabled:cursor-not-allowed disabled:opacity-40 ${
                 isListening ? 'bg-rose-500 hover:bg-rose-600' : 'bg-sky-500 hover:bg-sky-600'
@@ -372,20 +939,32 @@ export default function MapCopilot({ mapRef }: MapCopilotProps) {
             >
               <MicIcon />
             </button>
-            <button
-              type='submit'
-              disabled={isLoading || !input.trim()}
-              aria-label='Gửi'
-              className='flex h-9.5 w-9.5 shrink-0 items-center justify-center rounded-[10px] border-none bg-indigo-600 text-white transition-all hover:bg-indigo-700 disabled:cursor-not-allowed disabled:opacity-40'
-            >
-              <SendIcon />
-            </button>
+            {isLoading ? (
+              <button
+                type='button'
+                onClick={stopRequest}
+                aria-label={t('chat.stop')}
+                title={t('chat.stopTitle')}
+                className='flex h-9.5 w-9.5 shrink-0 items-center justify-center rounded-[10px] border-none bg-rose-500 text-white transition-all hover:bg-rose-600'
+              >
+                <StopIcon />
+              </button>
+            ) : (
+              <button
+                type='submit'
+                disabled={!input.trim()}
+                aria-label={t('chat.send')}
+                className='flex h-9.5 w-9.5 shrink-0 items-center justify-center rounded-[10px] border-none bg-indigo-600 text-white transition-all hover:bg-indigo-700 disabled:cursor-not-allowed disabled:opacity-40'
+              >
+                <SendIcon />
+              </button>
+            )}
           </form>
 
           {/* Voice Error */}
           {(voiceError || !isVoiceSupported) && (
             <div className='border-t border-gray-100 p-3 text-[12px] text-rose-600'>
-              {voiceError || 'Trình duyệt hiện tại chưa hỗ trợ nhập giọng nói.'}
+              {voiceError || t('voice.unsupported')}
             </div>
           )}
         </div>
@@ -13,12 +13,16 @@ import type { FillLayerSpecification, LineLayerSpecification } from 'react-map-g
 import {
   useMapLayers,
   buildDirectionsGeoJSON,
+  buildDirectionsStepGeoJSON,
   buildNearbyBufferGeoJSON,
   buildBoundaryGeoJSON,
 } from '@/lib/map/layer-store';
 import {
   DIRECTIONS_SOURCE_ID,
   DIRECTIONS_LAYER_ID,
+  DIRECTIONS_ALTERNATIVES_LAYER_ID,
+  DIRECTIONS_STEP_SOURCE_ID,
+  DIRECTIONS_STEP_LAYER_ID,
   NEARBY_BUFFER_SOURCE_ID,
   NEARBY_BUFFER_FILL_LAYER_ID,
   NEARBY_BUFFER_OUTLINE_LAYER_ID,
@@ -33,10 +37,30 @@ const directionsLayerStyle: LineLayerSpecification = {
   id: DIRECTIONS_LAYER_ID,
   type: 'line',
   source: DIRECTIONS_SOURCE_ID,
+  filter: ['==', ['get', 'selected'], true],
   layout: { 'line-join': 'round', 'line-cap': 'round' },
   paint: { 'line-color': '#2563EB', 'line-width': 5, 'line-opacity': 0.9 },
 };
 
+/** Alternatives the user can click to select (see MapView) */
+const directionsAlternativesLayerStyle: LineLayerSpecification = {
+  id: DIRECTIONS_ALTERNATIVES_LAYER_ID,
+  type: 'line',
+  source: DIRECTIONS_SOURCE_ID,
+  filter: ['==', ['get', 'selected'], false],
+  layout: { 'line-join': 'round', 'line-cap': 'round' },
+  paint: { 'line-color': '#94A3B8', 'line-width': 6, 'line-opacity': 0.75 },
+};
+
+/** Step picked in the itinerary panel, drawn over the selected route */
+const directionsStepLayerStyle: LineLayerSpecification = {
+  id: DIRECTIONS_STEP_LAYER_ID,
+  type: 'line',
+  source: DIRECTIONS_STEP_SOURCE_ID,
+  layout: { 'line-join': 'round', 'line-cap': 'round' },
+  paint: { 'line-color': '#F97316', 'line-width': 8, 'line-opacity': 0.95 },
+};
+
 const nearbyBufferFillStyle: FillLayerSpecification = {
   id: NEARBY_BUFFER_FILL_LAYER_ID,
   type: 'fill',
@@ -77,30 +101,42 @@ export default function MapLayers() {
 
   // Memoize GeoJSON data to avoid creating new objects every render
   const directionsData = useMemo(
-    () => (layers.directions ? buildDirectionsGeoJSON(layers.directions) : null),
+    () => (layers.directions.length > 0 ? buildDirectionsGeoJSON(layers.directions) : null),
     [layers.directions],
   );
 
+  const directionsStepData = useMemo(() => {
+    const collection = buildDirectionsStepGeoJSON(layers.directions);
+    return collection.features.length > 0 ? collection : null;
+  }, [layers.directions]);
+
   const nearbyBufferData = useMemo(
-    () => (layers.nearbyBuffer ? buildNearbyBufferGeoJSON(layers.nearbyBuffer) : null),
-    [layers.nearbyBuffer],
+    () =>
+      layers.nearbyBuffers.length > 0 ? buildNearbyBufferGeoJSON(layers.nearbyBuffers) : null,
+    [layers.nearbyBuffers],
   );
 
   const boundaryData = useMemo(
-    () => (layers.boundary ? buildBoundaryGeoJSON(layers.boundary) : null),
-    [layers.boundary],
+    () => (layers.boundaries.length > 0 ? buildBoundaryGeoJSON(layers.boundaries) : null),
+    [layers.boundaries],
   );
 
   return (
     <>
-      {/* ── Directions Route ───────────────────────────────────────── */}
+      {/* ── Directions Routes ──────────────────────────────────────── */}
       {directionsData && (
         <Source id={DIRECTIONS_SOURCE_ID} type="geojson" data={directionsData}>
+          <Layer {...directionsAlternativesLayerStyle} />
           <Layer {...directionsLayerStyle} />
         </Source>
       )}
+      {directionsStepData && (
+        <Source id={DIRECTIONS_STEP_SOURCE_ID} type="geojson" data={directionsStepData}>
+          <Layer {...directionsStepLayerStyle} />
+        </Source>
+      )}
 
-      {/* ── Nearby Search Buffer ───────────────────────────────────── */}
+      {/* ── Nearby Search Buffers ──────────────────────────────────── */}
       {nearbyBufferData && (
         <Source id={NEARBY_BUFFER_SOURCE_ID} type="geojson" data={nearbyBufferData}>
           <Layer {...nearbyBufferFillStyle} />
@@ -108,7 +144,7 @@ export default function MapLayers() {
         </Source>
       )}
 
-      {/* ── Administrative Boundary ────────────────────────────────── */}
+      {/* ── Administrative Boundaries ──────────────────────────────── */}
       {boundaryData && (
         <Source id={BOUNDARY_SOURCE_ID} type="geojson" data={boundaryData}>
           <Layer {...boundaryFillStyle} />
@@ -12,13 +12,10 @@ import { Marker, Popup } from 'react-map-gl/maplibre';
 import { useMapMarkers, markerActions } from '@/lib/map/marker-store';
 import type { PopupPlaceData, BoundaryPlaceData } from '@/lib/map/marker-store';
 import { GENERIC_PLACE_TYPES } from '@/lib/map/constants';
+import { useTranslation, type Translator } from '@/lib/i18n';
 
 // ── Helpers ──────────────────────────────────────────────────────────
 
-const PLACE_TYPE_LABEL_OVERRIDES: Record<string, string> = {
-  traffic_camera: 'Camera giao thông',
-};
-
 function toTitleCase(value: string): string {
   return value
     .split(' ')
@@ -27,10 +24,11 @@ function toTitleCase(value: string): string {
     .join(' ');
 }
 
-function formatPrimaryPlaceType(types: string[]): string {
-  const preferred = types.find((t) => !GENERIC_PLACE_TYPES.has(t));
-  if (!preferred) return 'Địa điểm';
-  return PLACE_TYPE_LABEL_OVERRIDES[preferred] || toTitleCase(preferred.replace(/_/g, ' '));
+function formatPrimaryPlaceType(t: Translator, types: string[]): string {
+  const preferred = types.find((type) => !GENERIC_PLACE_TYPES.has(type));
+  if (!preferred) return t('place.default');
+  if (preferred === 'traffic_camera') return t('place.trafficCamera');
+  return toTitleCase(preferred.replace(/_/g, ' '));
 }
 
 // ── Rating Stars ─────────────────────────────────────────────────────
@@ -48,7 +46,8 @@ function RatingStars({ rating }: { rating: number }) {
 // ── Popup Content: Place ─────────────────────────────────────────────
 
 function PlacePopupContent({ place }: { place: PopupPlaceData }) {
-  const typeLabel = formatPrimaryPlaceType(place.types);
+  const { t } = useTranslation();
+  const typeLabel = formatPrimaryPlaceType(t, place.types);
 
   return (
     <div style={{ background: '#FFFFFF' }}>
@@ -106,12 +105,12 @@ function PlacePopupContent({ place }: { place: PopupPlaceData }) {
 
         {place.openNow === true && (
           <div style={{ marginTop: 4, fontSize: 13, fontWeight: 600, color: '#10B981' }}>
-            Đang mở cửa
+            {t('place.openNow')}
           </div>
         )}
         {place.openNow === false && (
           <div style={{ marginTop: 4, fontSize: 13, fontWeight: 600, color: '#EF4444' }}>
-            Hiện đang đóng cửa
+            {t('place.closedNow')}
           </div>
         )}
 
@@ -119,7 +118,7 @@ function PlacePopupContent({ place }: { place: PopupPlaceData }) {
 
         {typeof place.distanceMeters === 'number' && (
           <div style={{ marginTop: 2, fontSize: 12, color: '#6B7280' }}>
-            Cách {(place.distanceMeters / 1000).toFixed(2)} km
+            {t('place.distance', { km: (place.distanceMeters / 1000).toFixed(2) })}
           </div>
         )}
       </div>
@@ -130,6 +129,7 @@ function PlacePopupContent({ place }: { place: PopupPlaceData }) {
 // ── Popup Content: Boundary ──────────────────────────────────────────
 
 function BoundaryPopupContent({ place }: { place: BoundaryPlaceData }) {
+  const { t } = useTranslation();
   return (
     <div style={{ background: '#FFFFFF' }}>
       <div
@@ -173,7 +173,10 @@ function BoundaryPopupContent({ place }: { place: BoundaryPlaceData }) {
           {place.level}
         </div>
         <div style={{ marginTop: 6, fontSize: 12, color: '#9CA3AF' }}>
-          Tọa độ: {place.center.lat.toFixed(4)}, {place.center.lng.toFixed(4)}
+          {t('place.coordinates', {
+            lat: place.center.lat.toFixed(4),
+            lng: place.center.lng.toFixed(4),
+          })}
         </div>
       </div>
     </div>
@@ -191,10 +194,11 @@ function NearbyMarkerIcon({
   name: string;
   index: number;
 }) {
+  const { t } = useTranslation();
   return (
     <div
       className="gtel-nearby-marker"
-      aria-label={`Địa điểm lân cận ${index + 1}: ${name}`}
+      aria-label={t('place.nearbyMarker', { index: index + 1, name })}
       style={
         photoUrl
           ? {
@@ -210,10 +214,21 @@ function NearbyMarkerIcon({
   );
 }
 
+// ── Waypoint Marker Icon ─────────────────────────────────────────────
+
+function WaypointMarkerIcon({ number, label }: { number: number; label: string }) {
+  return (
+    <div className="gtel-waypoint-marker" aria-label={label}>
+      {number}
+    </div>
+  );
+}
+
 // ── Main Component ───────────────────────────────────────────────────
 
 export default function MapMarkers() {
   const markers = useMapMarkers();
+  const { t } = useTranslation();
 
   const handleMarkerClick = (popupId: string) => {
     markerActions.openPopup(popupId);
@@ -221,122 +236,109 @@ export default function MapMarkers() {
 
   return (
     <>
-      {/* ── Search Place Marker ──────────────────────────────────── */}
-      {markers.searchPlace && (
-        <>
-          <Marker
-            longitude={markers.searchPlace.lngLat[0]}
-            latitude={markers.searchPlace.lngLat[1]}
-            color={markers.searchPlace.color}
-            onClick={(event) => {
-              event.originalEvent.stopPropagation();
-              handleMarkerClick('search');
-            }}
-          />
-          {markers.openPopupId === 'search' && (
-            <Popup
-              longitude={markers.searchPlace.lngLat[0]}
-              latitude={markers.searchPlace.lngLat[1]}
-              offset={22}
-              className="gtel-google-popup"
-              closeButton={false}
-              closeOnClick={false}
-              onClose={markerActions.closePopup}
-            >
-              <PlacePopupContent place={markers.searchPlace.popupData} />
-            </Popup>
-          )}
-        </>
-      )}
-
-      {/* ── Boundary Marker ──────────────────────────────────────── */}
-      {markers.boundary && (
-        <>
-          <Marker
-            longitude={markers.boundary.lngLat[0]}
-            latitude={markers.boundary.lngLat[1]}
-            color={markers.boundary.color}
-            onClick={(event) => {
-              event.originalEvent.stopPropagation();
-              handleMarkerClick('boundary');
-            }}
-          />
-          {markers.openPopupId === 'boundary' && (
-            <Popup
-              longitude={markers.boundary.lngLat[0]}
-              latitude={markers.boundary.lngLat[1]}
-              offset={22}
-              className="gtel-google-popup"
-              closeButton={false}
-              closeOnClick={false}
-              onClose={markerActions.closePopup}
-            >
-              <BoundaryPopupContent place={markers.boundary.popupData} />
-            </Popup>
-          )}
-        </>
-      )}
+      {/* ── Search Place Markers ─────────────────────────────────── */}
+      {markers.searchPlaces.map((marker, index) => {
+        const popupId = `search-${index}`;
+        return (
+          <React.Fragment key={popupId}>
+            <Marker
+              longitude={marker.lngLat[0]}
+              latitude={marker.lngLat[1]}
+              color={marker.color}
+              onClick={(event) => {
+                event.originalEvent.stopPropagation();
+                handleMarkerClick(popupId);
+              }}
+            />
+            {markers.openPopupId === popupId && (
+              <Popup
+                longitude={marker.lngLat[0]}
+                latitude={marker.lngLat[1]}
+                offset={22}
+                className="gtel-google-popup"
+                closeButton={false}
+                closeOnClick={false}
+                onClose={markerActions.closePopup}
+              >
+                <PlacePopupContent place={marker.popupData} />
+              </Popup>
+            )}
+          </React.Fragment>
+        );
+      })}
 
-      {/* ── Direction Start Marker ───────────────────────────────── */}
-      {markers.directionsStart && (
-        <>
-          <Marker
-            longitude={markers.directionsStart.lngLat[0]}
-            latitude={markers.directionsStart.lngLat[1]}
-            color={markers.directionsStart.color}
-            onClick={(event) => {
-              event.originalEvent.stopPropagation();
-              handleMarkerClick('dir-start');
-            }}
-          />
-          {markers.openPopupId === 'dir-start' && (
-            <Popup
-              longitude={markers.directionsStart.lngLat[0]}
-              latitude={markers.directionsStart.lngLat[1]}
-              offset={22}
-              closeButton={false}
-              closeOnClick={false}
-              onClose={markerActions.closePopup}
-            >
-              <div>
-                <strong>{markers.directionsStart.label}</strong>
-                <br />
-                {markers.directionsStart.address}
-              </div>
-            </Popup>
-          )}
-        </>
-      )}
+      {/* ── Boundary Markers ─────────────────────────────────────── */}
+      {markers.boundaries.map((marker, index) => {
+        const popupId = `boundary-${index}`;
+        return (
+          <React.Fragment key={popupId}>
+            <Marker
+              longitude={marker.lngLat[0]}
+              latitude={marker.lngLat[1]}
+              color={marker.color}
+              onClick={(event) => {
+                event.originalEvent.stopPropagation();
+                handleMarkerClick(popupId);
+              }}
+            />
+            {markers.openPopupId === popupId && (
+              <Popup
+                longitude={marker.lngLat[0]}
+                latitude={marker.lngLat[1]}
+                offset={22}
+                className="gtel-google-popup"
+                closeButton={false}
+                closeOnClick={false}
+                onClose={markerActions.closePopup}
+              >
+                <BoundaryPopupContent place={marker.popupData} />
+              </Popup>
+            )}
+          </React.Fragment>
+        );
+      })}
 
-      {/* ── Direction End Marker ─────────────────────────────────── */}
-      {markers.directionsEnd && (
-        <>
-          <Marker
-            longitude={markers.directionsEnd.lngLat[0]}
-            latitude={markers.directionsEnd.lngLat[1]}
-            color={markers.directionsEnd.color}
-            onClick={(event) => {
-              event.originalEvent.stopPropagation();
-              handleMarkerClick('dir-end');
-            }}
-          />
-          {markers.openPopupId === 'dir-end' && (
-            <Popup
-              longitude={markers.directionsEnd.lngLat[0]}
-              latitude={markers.directionsEnd.lngLat[1]}
-              offset={22}
-              closeButton={false}
-              closeOnClick={false}
-              onClose={markerActions.closePopup}
+      {/* ── Direction Start / Waypoint / End Markers ─────────────── */}
+      {markers.directions.flatMap((route, index) =>
+        [
+          { marker: route.start, popupId: `dir-start-${index}`, stop: null },
+          ...route.waypoints.map((marker, stop) => ({
+            marker,
+            popupId: `dir-waypoint-${index}-${stop}`,
+            stop: stop + 1,
+          })),
+          ...(route.end ? [{ marker: route.end, popupId: `dir-end-${index}`, stop: null }] : []),
+        ].map(({ marker, popupId, stop }) => (
+          <React.Fragment key={popupId}>
+            <Marker
+              longitude={marker.lngLat[0]}
+              latitude={marker.lngLat[1]}
+              color={stop === null ? marker.color : undefined}
+              onClick={(event) => {
+                event.originalEvent.stopPropagation();
+                handleMarkerClick(popupId);
+              }}
             >
-              <div>
-                <strong>{markers.directionsEnd.label}</strong>
-                <br />
-                {markers.directionsEnd.address}
-              </div>
-            </Popup>
-          )}
-        </>
+              {stop !== null && <WaypointMarkerIcon number={stop} label={marker.label} />}
+            </Marker>
+            {markers.openPopupId === popupId && (
+              <Popup
+                longitude={marker.lngLat[0]}
+                latitude={marker.lngLat[1]}
+                offset={22}
+                closeButton={false}
+                closeOnClick={false}
+                onClose={markerActions.closePopup}
+              >
+                <div>
+                  <strong>{marker.label}</strong>
+                  <br />
+                  {marker.address}
+                </div>
+              </Popup>
+            )}
+          </React.Fragment>
+        )),
       )}
 
       {/* ── Nearby Place Markers ─────────────────────────────────── */}
@@ -392,7 +394,7 @@ export default function MapMarkers() {
               closeOnClick={false}
               onClose={markerActions.closePopup}
             >
-              <strong>📍 Vị trí của bạn</strong>
+              <strong>{t('place.yourLocation')}</strong>
             </Popup>
           )}
         </>
@@ -7,7 +7,7 @@
 
 'use client';
 
-import React, { useRef, useCallback, useImperativeHandle, forwardRef } from 'react';
+import React, { useRef, useState, useCallback, useImperativeHandle, forwardRef } from 'react';
 import Map, {
   NavigationControl,
   ScaleControl,
@@ -18,16 +18,25 @@ import Map, {
 
 // re-export the raw MapLibre type so tools can use it
 import type { Map as MaplibreMap } from 'maplibre-gl';
-import { GTEL_MAPS_API_KEY, GTEL_MAPS_STYLE_URL } from '@/lib/map/constants';
+import {
+  DIRECTIONS_ALTERNATIVES_LAYER_ID,
+  GTEL_MAPS_API_KEY,
+  GTEL_MAPS_STYLE_URL,
+} from '@/lib/map/constants';
 import { markerActions } from '@/lib/map/marker-store';
+import { layerActions } from '@/lib/map/layer-store';
 import MapMarkers from './MapMarkers';
 import MapLayers from './MapLayers';
+import RouteComparison from './RouteComparison';
 
 // ── Default map configuration ─────────────────────────────────────
 
 const DEFAULT_CENTER: [number, number] = [108.16, 15.34];
 const DEFAULT_ZOOM = 5;
 
+/** Layers whose features react to clicks */
+const INTERACTIVE_LAYER_IDS = [DIRECTIONS_ALTERNATIVES_LAYER_ID];
+
 /** Handle exposed to parent so the raw MapLibre instance can be shared */
 export interface MapViewHandle {
   getMap: () => MaplibreMap | null;
@@ -39,6 +48,7 @@ export interface MapViewProps {
 
 const MapView = forwardRef<MapViewHandle, MapViewProps>(({ onMapReady }, ref) => {
   const mapRef = useRef<MapRef>(null);
+  const [cursor, setCursor] = useState('');
   const mapStyle = new URL(GTEL_MAPS_STYLE_URL);
   mapStyle.searchParams.set('apikey', GTEL_MAPS_API_KEY!);
 
@@ -56,6 +66,15 @@ const MapView = forwardRef<MapViewHandle, MapViewProps>(({ onMapReady }, ref) =>
   }, [onMapReady]);
 
   const handleMapClick = useCallback((event: MapMouseEvent) => {
+    // A grey alternative route was clicked: highlight it
+    const route = event.features?.find(
+      (feature) => feature.layer.id === DIRECTIONS_ALTERNATIVES_LAYER_ID,
+    );
+    if (route) {
+      layerActions.selectRoute(route.properties.directionsIndex, route.properties.routeIndex);
+      return;
+    }
+
     const target = event.originalEvent.target;
     if (target instanceof HTMLElement) {
       if (
@@ -81,6 +100,10 @@ const MapView = forwardRef<MapViewHandle, MapViewProps>(({ onMapReady }, ref) =>
       mapStyle={mapStyle.toString()}
       onLoad={handleMapLoad}
       onClick={handleMapClick}
+      interactiveLayerIds={INTERACTIVE_LAYER_IDS}
+      onMouseEnter={() => setCursor('pointer')}
+      onMouseLeave={() => setCursor('')}
+      cursor={cursor}
       canvasContextAttributes={{ preserveDrawingBuffer: true }}
       hash={true}
     >
@@ -93,6 +116,7 @@ const MapView = forwardRef<MapViewHandle, MapViewProps>(({ onMapReady }, ref) =>
       />
       <MapMarkers />
       <MapLayers />
+      <RouteComparison />
     </Map>
   );
 });
@@ -0,0 +1,70 @@
+/**
+ * RouteComparison — panel comparing the route options of the latest
+ * directions that has alternatives (distance, duration, main roads).
+ *
+ * Durations in traffic are shown next to the free-flow ones when the
+ * directions have a departure time.
+ *
+ * Renders inside react-map-gl's <Map> component. Picking an option
+ * highlights it, like clicking its grey line on the map (see MapView) or
+ * asking the copilot for another route (selectRoute).
+ */
+
+'use client';
+
+import React from 'react';
+import { layerActions, useMapLayers } from '@/lib/map/layer-store';
+import { useTranslation } from '@/lib/i18n';
+
+export default function RouteComparison() {
+  const { directions } = useMapLayers();
+  const { t } = useTranslation();
+
+  const directionsIndex = directions.findLastIndex((data) => data.routes.length > 1);
+  if (directionsIndex < 0) return null;
+
+  const { routes, selectedIndex } = directions[directionsIndex];
+
+  return (
+    <div className='absolute bottom-9 left-2.5 z-10 w-64 rounded-xl border border-black/5 bg-white p-2.5 text-[13px] shadow-[0_4px_20px_rgba(0,0,0,0.12)]'>
+      <h4 className='m-0 mb-1.5 text-[13px] font-bold text-slate-800'>{t('routes.title')}</h4>
+      <ul className='m-0 flex list-none flex-col gap-1 p-0'>
+        {routes.map((route, index) => {
+          const selected = index === selectedIndex;
+          return (
+            <li key={index}>
+              <button
+                type='button'
+                aria-pressed={selected}
+                onClick={() => layerActions.selectRoute(directionsIndex, index)}
+                className={`w-full rounded-lg border px-2.5 py-1.5 text-left transition-colors ${
+                  selected ? 'border-blue-600 bg-blue-50' : 'border-gray-200 bg-white hover:bg-gray-50'
+                }`}
+              >
+                <div className='flex items-center justify-between gap-2 font-semibold text-slate-800'>
+                  <span>{t('routes.option', { index: index + 1 })}</span>
+                  {index === 0 && (
+                    <span className='text-[11px] font-medium text-blue-600'>
+                      {t('routes.recommended')}
+                    </span>
+                  )}
+                </div>
+                {route.summary && <div className='truncate text-gray-500'>{route.summary}</div>}
+                <div className='text-slate-700'>
+                  {route.distanceText} ·{' '}
+                  {route.durationInTrafficText
+                    ? t('routes.durationWithTraffic', {
+                        traffic: route.durationInTrafficText,
+                        freeFlow: route.durationText,
+                      })
+                    : route.durationText}
+                </div>
+              </button>
+            </li>
+          );
+        })}
+      </ul>
+      <p className='m-0 mt-1.5 text-[11px] text-gray-500'>{t('routes.hint')}</p>
+    </div>
+  );
+}
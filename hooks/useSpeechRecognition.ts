@@ -7,6 +7,7 @@
 'use client';
 
 import { useState, useRef, useEffect, useCallback } from 'react';
+import { LOCALE_SETTINGS, localeState, t, type MessageKey } from '@/lib/i18n';
 
 // ── Browser Speech Recognition Types ─────────────────────────────────
 
@@ -131,7 +132,6 @@ export function useSpeechRecognition({
     }
 
     const recognition = new SpeechRecognitionCtor();
-    recognition.lang = 'vi-VN';
     recognition.continuous = false;
     recognition.interimResults = true;
     recognition.maxAlternatives = 1;
@@ -156,13 +156,14 @@ export function useSpeechRecognition({
     };
 
     recognition.onerror = (event) => {
-      const errorMessages: Record<string, string> = {
-        'no-speech': 'Không nghe rõ giọng nói. Bạn thử lại nhé.',
-        'not-allowed': 'Bạn chưa cấp quyền micro cho trình duyệt.',
-        'service-not-allowed': 'Bạn chưa cấp quyền micro cho trình duyệt.',
-        'audio-capture': 'Không tìm thấy thiết bị micro.',
+      const errorMessages: Record<string, MessageKey> = {
+        'no-speech': 'voice.noSpeech',
+        'not-allowed': 'voice.notAllowed',
+        'service-not-allowed': 'voice.notAllowed',
+        'audio-capture': 'voice.noMicrophone',
       };
-      setVoiceError(errorMessages[event.error] || `Voice input lỗi: ${event.error}`);
+      const errorKey = errorMessages[event.error];
+      setVoiceError(errorKey ? t(errorKey) : t('voice.error', { error: event.error }));
       autoSendVoiceRef.current = false;
     };
 
@@ -218,6 +219,8 @@ export function useSpeechRecognition({
     if (!recognition || isLoading) return;
 
     setVoiceError(null);
+    // Read on every start so a locale switch applies to the next utterance
+    recognition.lang = LOCALE_SETTINGS[localeState.locale].speechLang;
     voiceBaseInputRef.current = input;
     voiceCurrentInputRef.current = input;
     autoSendVoiceRef.current = true;
@@ -228,8 +231,8 @@ export function useSpeechRecognition({
       autoSendVoiceRef.current = false;
       setVoiceError(
         error instanceof Error
-          ? `Không thể bật voice input: ${error.message}`
-          : 'Không thể bật voice input.',
+          ? t('voice.startFailed', { error: error.message })
+          : t('voice.startFailedGeneric'),
       );
     }
   }, [input, isLoading]);
@@ -0,0 +1,44 @@
+/**
+ * Access check for /api/admin/* routes.
+ *
+ * Requests must carry `Authorization: Bearer <ADMIN_API_TOKEN>`. Without a
+ * configured token the admin API is only open in development.
+ */
+
+import { timingSafeEqual } from 'node:crypto';
+import { NextRequest, NextResponse } from 'next/server';
+import { getRequestLocale, translate } from '@/lib/i18n';
+
+function tokensMatch(expected: string, received: string): boolean {
+  const a = Buffer.from(expected);
+  const b = Buffer.from(received);
+  return a.length === b.length && timingSafeEqual(a, b);
+}
+
+/**
+ * Returns an error response, in the request locale, when the request is not
+ * allowed, otherwise null
+ */
+export function authorizeAdminRequest(request: NextRequest): NextResponse | null {
+  const adminToken = process.env.ADMIN_API_TOKEN;
+  const locale = getRequestLocale(request);
+
+  if (!adminToken) {
+    if (process.env.NODE_ENV === 'development') return null;
+    return NextResponse.json(
+      { error: translate(locale, 'api.adminNotConfigured') },
+      { status: 503 },
+    );
+  }
+
+  const header = request.headers.get('authorization') || '';
+  const token = header.startsWith('Bearer ') ? header.slice('Bearer '.length).trim() : '';
+  if (!token || !tokensMatch(adminToken, token)) {
+    return NextResponse.json(
+      { error: translate(locale, 'api.adminUnauthorized') },
+      { status: 401 },
+    );
+  }
+
+  return null;
+}
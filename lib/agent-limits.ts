@@ -0,0 +1,142 @@
+/**
+ * Abuse protection for /api/map-agent.
+ *
+ * Every request is one model step, so the rate limits count steps: per client
+ * IP and, with a `sessionId`, per session (token buckets, see rate-limit.ts).
+ * Creating a session (POST /api/sessions) counts against the IP limit too.
+ * Size limits bound what a single request may send to the model: body bytes
+ * (checked while the body is read, before it is parsed), message count,
+ * characters per message and the estimated prompt tokens.
+ *
+ * Each check returns an error response when the request is rejected,
+ * otherwise null — 429 with `Retry-After` for rate limits, 413 for size.
+ * Error messages use the request's locale (see getRequestLocale).
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import type { AgentApiMessage, Locale } from '@/types';
+import { getRequestLocale, translate } from '@/lib/i18n';
+import { createRateLimiter, getClientIp, toRetryAfterSeconds } from '@/lib/rate-limit';
+import { estimateTokens } from '@/lib/sessions';
+
+// ── Configuration ────────────────────────────────────────────────────
+
+function parseNumberEnv(value: string | undefined, fallback: number): number {
+  if (!value) return fallback;
+  const parsed = Number.parseInt(value, 10);
+  return Number.isFinite(parsed) ? parsed : fallback;
+}
+
+/** Steps per minute; 0 disables the limit */
+const IP_RATE_LIMIT = parseNumberEnv(process.env.MAP_AGENT_RATE_LIMIT_IP, 60);
+const SESSION_RATE_LIMIT = parseNumberEnv(process.env.MAP_AGENT_RATE_LIMIT_SESSION, 30);
+/** Largest burst, in steps (a turn takes up to MAP_AGENT_MAX_STEPS + 1) */
+const RATE_LIMIT_BURST = parseNumberEnv(process.env.MAP_AGENT_RATE_LIMIT_BURST, 15);
+
+const MAX_REQUEST_BYTES = parseNumberEnv(process.env.MAP_AGENT_MAX_REQUEST_BYTES, 1024 * 1024);
+const MAX_MESSAGES = parseNumberEnv(process.env.MAP_AGENT_MAX_MESSAGES, 100);
+const MAX_MESSAGE_CHARS = parseNumberEnv(process.env.MAP_AGENT_MAX_MESSAGE_CHARS, 16000);
+const MAX_REQUEST_TOKENS = parseNumberEnv(process.env.MAP_AGENT_MAX_REQUEST_TOKENS, 24000);
+
+const ipLimiter = createRateLimiter('map-agent-ip', {
+  capacity: Math.min(RATE_LIMIT_BURST, IP_RATE_LIMIT),
+  refillPerMinute: IP_RATE_LIMIT,
+});
+const sessionLimiter = createRateLimiter('map-agent-session', {
+  capacity: Math.min(RATE_LIMIT_BURST, SESSION_RATE_LIMIT),
+  refillPerMinute: SESSION_RATE_LIMIT,
+});
+
+// ── Checks ───────────────────────────────────────────────────────────
+
+function rateLimited(retryAfterMs: number, locale: Locale): NextResponse {
+  const retryAfter = toRetryAfterSeconds(retryAfterMs);
+  return NextResponse.json(
+    {
+      error: translate(locale, 'api.rateLimited', { seconds: retryAfter }),
+      retryAfterSeconds: Number(retryAfter),
+    },
+    { status: 429, headers: { 'Retry-After': retryAfter } },
+  );
+}
+
+function tooLarge(error: string): NextResponse {
+  return NextResponse.json({ error }, { status: 413 });
+}
+
+/** Per-IP limit — checked before the body is parsed */
+export function checkIpRateLimit(request: NextRequest): NextResponse | null {
+  const result = ipLimiter.consume(getClientIp(request));
+  return result.allowed ? null : rateLimited(result.retryAfterMs, getRequestLocale(request));
+}
+
+export function checkSessionRateLimit(sessionId: string, locale: Locale): NextResponse | null {
+  const result = sessionLimiter.consume(sessionId);
+  return result.allowed ? null : rateLimited(result.retryAfterMs, locale);
+}
+
+/**
+ * Read and parse the JSON body, at most MAX_REQUEST_BYTES of it: a larger
+ * `Content-Length` is rejected before reading, and reading stops as soon as
+ * the limit is passed. Returns the body, or the error response (413 too
+ * large, 400 not a JSON object).
+ */
+export async function readRequestBody<T>(
+  request: NextRequest,
+): Promise<{ body: T } | { rejected: NextResponse }> {
+  const limited = MAX_REQUEST_BYTES > 0;
+  const locale = getRequestLocale(request);
+  const bodyTooLarge = () => ({
+    rejected: tooLarge(translate(locale, 'api.bodyTooLarge', { maxBytes: MAX_REQUEST_BYTES })),
+  });
+  const invalid = () => ({
+    rejected: NextResponse.json({ error: translate(locale, 'api.invalidJson') }, { status: 400 }),
+  });
+
+  if (limited && Number(request.headers.get('content-length')) > MAX_REQUEST_BYTES) {
+    return bodyTooLarge();
+  }
+  if (!request.body) return invalid();
+
+  const reader = request.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let received = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    received += value.byteLength;
+    if (limited && received > MAX_REQUEST_BYTES) {
+      await reader.cancel();
+      return bodyTooLarge();
+    }
+    chunks.push(value);
+  }
+
+  try {
+    const body: unknown = JSON.parse(Buffer.concat(chunks).toString('utf8'));
+    if (typeof body !== 'object' || body === null || Array.isArray(body)) return invalid();
+    return { body: body as T };
+  } catch {
+    return invalid();
+  }
+}
+
+/** Size limits on the messages sent by the client */
+export function checkRequestSize(
+  messages: AgentApiMessage[],
+  locale: Locale,
+): NextResponse | null {
+  if (MAX_MESSAGES > 0 && messages.length > MAX_MESSAGES) {
+    return tooLarge(translate(locale, 'api.tooManyMessages', { max: MAX_MESSAGES }));
+  }
+
+  if (MAX_MESSAGE_CHARS > 0 && messages.some((m) => m.content.length > MAX_MESSAGE_CHARS)) {
+    return tooLarge(translate(locale, 'api.messageTooLong', { max: MAX_MESSAGE_CHARS }));
+  }
+
+  if (MAX_REQUEST_TOKENS > 0 && estimateTokens(messages) > MAX_REQUEST_TOKENS) {
+    return tooLarge(translate(locale, 'api.tooManyTokens', { max: MAX_REQUEST_TOKENS }));
+  }
+
+  return null;
+}
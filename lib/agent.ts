@@ -0,0 +1,508 @@
+/**
+ * Agent loop policy for /api/map-agent.
+ *
+ * Map tools run in the browser (they drive the MapLibre instance), so the loop
+ * is spread over several requests: every request is one model step, the client
+ * executes the returned tool calls and posts the results back as `role: 'tool'`
+ * messages. This module decides, from the incoming history, whether the next
+ * step may still call tools or has to answer with the data it already has.
+ * The steps and tokens a turn has used are known to the server only: they are
+ * counted from the session, or carried in a signed token without one.
+ * It also runs a single step against the configured LLM provider (lib/llm).
+ */
+
+import { createHash, createHmac, randomBytes, timingSafeEqual } from 'node:crypto';
+import type OpenAI from 'openai';
+import type {
+  AgentApiMessage,
+  AgentRequestBody,
+  AgentRoutePayload,
+  AgentStepInfo,
+  AgentStopReason,
+  AgentStreamEvent,
+  AgentTurnState,
+  Locale,
+  ToolArgumentIssue,
+  ToolCallPayload,
+} from '@/types';
+import { FOLLOW_UPS_TAG, PROMPTS, restrictPromptToTools } from '@/lib/prompts';
+import { DEFAULT_LOCALE, isLocale } from '@/lib/i18n';
+import { MAP_TOOL_SCHEMAS } from '@/lib/toolSchemas';
+import { parseToolArguments, validateToolArguments } from '@/lib/toolValidation';
+import { generateId } from '@/lib/utils';
+import { sanitizeAssistantHtml } from '@/lib/sanitize';
+import type { LLMProvider, LLMRequest } from '@/lib/llm';
+
+// ── Configuration ────────────────────────────────────────────────────
+
+function parseNumberEnv(value: string | undefined, fallback: number): number {
+  if (!value) return fallback;
+  const parsed = Number.parseInt(value, 10);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+}
+
+const AGENT_MAX_STEPS = parseNumberEnv(process.env.MAP_AGENT_MAX_STEPS, 4);
+const AGENT_TOKEN_BUDGET = parseNumberEnv(process.env.MAP_AGENT_TOKEN_BUDGET, 16000);
+const TOOL_MAX_TOKENS = parseNumberEnv(process.env.OPENROUTER_TOOL_MAX_TOKENS, 1024);
+const RESPONSE_MAX_TOKENS = parseNumberEnv(process.env.OPENROUTER_RESPONSE_MAX_TOKENS, 768);
+/** Higher than the usual 0.1 so a regenerated answer is actually worded differently */
+const REGENERATE_TEMPERATURE = 0.7;
+const MAX_FOLLOW_UPS = 4;
+const FOLLOW_UP_MAX_CHARS = 80;
+/** Lifetime of a sessionless turn token; a turn that takes longer has to start over */
+const TURN_TOKEN_TTL_SECONDS = 30 * 60;
+
+// ── Types ────────────────────────────────────────────────────────────
+
+/**
+ * - `plan`: first step of a turn, tool planning with the request prompt.
+ * - `continue`: after tool results, may chain more tools or answer.
+ * - `final`: budget exhausted, must answer without tools.
+ * - `respond`: legacy `responseOnly` summarization, no tools at all.
+ * - `regenerate`: a new wording of a finished turn's answer from the same tool results.
+ *
+ * Every mode uses the prompt set of the request's locale (see PROMPTS).
+ */
+export type AgentStepMode = 'plan' | 'continue' | 'final' | 'respond' | 'regenerate';
+
+export interface AgentStepPlan {
+  mode: AgentStepMode;
+  step: number;
+  maxSteps: number;
+  tokensUsed: number;
+  tokenBudget: number;
+  /** Set when the loop state travels in a signed token (see readClientTurnState) */
+  turnKey: string | null;
+  /** Language of the prompts and of the messages written for the model */
+  locale: Locale;
+  systemPrompt: string;
+  /** Tool schemas offered to the model (those the user's role may call) */
+  tools: OpenAI.Chat.Completions.ChatCompletionTool[];
+  stopReason: AgentStopReason | null;
+}
+
+// ── Step Counting ────────────────────────────────────────────────────
+
+/** Number of tool-calling assistant steps since the latest user message */
+export function countToolSteps(messages: AgentApiMessage[]): number {
+  let steps = 0;
+  for (let i = messages.length - 1; i >= 0; i -= 1) {
+    const message = messages[i];
+    if (message.role === 'user') break;
+    if (message.role === 'assistant' && message.tool_calls?.length) steps += 1;
+  }
+  return steps;
+}
+
+// ── Turn State ───────────────────────────────────────────────────────
+
+interface TurnTokenPayload {
+  key: string;
+  steps: number;
+  tokensUsed: number;
+  /** Expiry, seconds since epoch */
+  exp: number;
+}
+
+// Without AUTH_SECRET a per-process key signs turn tokens (a restart ends turns in progress)
+const globalForAgent = globalThis as typeof globalThis & { __mapAgentTurnSecret?: string };
+
+function getTurnSecret(): string {
+  if (process.env.AUTH_SECRET) return process.env.AUTH_SECRET;
+  globalForAgent.__mapAgentTurnSecret ??= randomBytes(32).toString('hex');
+  return globalForAgent.__mapAgentTurnSecret;
+}
+
+function signTurnToken(encoded: string): string {
+  // Prefixed so a login cookie signed with the same secret is never a valid turn token
+  return createHmac('sha256', getTurnSecret()).update(`turn:${encoded}`).digest('base64url');
+}
+
+function createTurnToken(key: string, steps: number, tokensUsed: number): string {
+  const payload: TurnTokenPayload = {
+    key,
+    steps,
+    tokensUsed,
+    exp: Math.floor(Date.now() / 1000) + TURN_TOKEN_TTL_SECONDS,
+  };
+  const encoded = Buffer.from(JSON.stringify(payload)).toString('base64url');
+  return `${encoded}.${signTurnToken(encoded)}`;
+}
+
+function readTurnToken(token: unknown): TurnTokenPayload | null {
+  if (typeof token !== 'string') return null;
+  const [encoded, signature] = token.split('.');
+  if (!encoded || !signature) return null;
+
+  const expected = Buffer.from(signTurnToken(encoded));
+  const received = Buffer.from(signature);
+  if (expected.length !== received.length || !timingSafeEqual(expected, received)) return null;
+
+  try {
+    const json = Buffer.from(encoded, 'base64url').toString('utf8');
+    const payload = JSON.parse(json) as TurnTokenPayload;
+    return payload.exp * 1000 > Date.now() ? payload : null;
+  } catch {
+    return null;
+  }
+}
+
+/** Digest of the turn's user message (and its position), binding a token to that turn */
+function getTurnKey(messages: AgentApiMessage[]): string {
+  const userMessages = messages.filter((message) => message.role === 'user');
+  const latest = userMessages[userMessages.length - 1]?.content ?? '';
+  return createHash('sha256').update(`${userMessages.length}:${latest}`).digest('base64url');
+}
+
+/**
+ * Loop state of a sessionless request, whose history comes from the client.
+ * A step after tool results needs the `turnToken` returned by the previous
+ * step of the same turn; the step count in the history must match it, so
+ * neither an empty token nor trimmed messages reset the budget. Returns null
+ * when the token is missing, forged, expired or from another turn.
+ */
+export function readClientTurnState(body: AgentRequestBody): AgentTurnState | null {
+  const key = getTurnKey(body.messages);
+  const steps = countToolSteps(body.messages);
+  // Answer-only steps never call tools, so there is no budget left to protect
+  if (steps === 0 || body.responseOnly === true || body.regenerate === true) {
+    return { steps, tokensUsed: 0, key };
+  }
+
+  const payload = readTurnToken(body.agent?.turnToken);
+  if (!payload || payload.key !== key || payload.steps !== steps) return null;
+  return { steps, tokensUsed: Math.max(0, Number(payload.tokensUsed) || 0), key };
+}
+
+// ── Planning ─────────────────────────────────────────────────────────
+
+/**
+ * `turn` is the loop state known to the server (see readClientTurnState and
+ * lib/sessions). `hiddenTools` are tools the user may not call (see lib/auth):
+ * they are left out of the schemas and the system prompt. Prompts follow
+ * `body.locale`.
+ */
+export function planAgentStep(
+  body: AgentRequestBody,
+  turn: AgentTurnState,
+  hiddenTools: string[] = [],
+): AgentStepPlan {
+  const { steps: completedSteps, tokensUsed } = turn;
+  const locale = isLocale(body.locale) ? body.locale : DEFAULT_LOCALE;
+  const base = {
+    step: completedSteps + 1,
+    maxSteps: AGENT_MAX_STEPS,
+    tokensUsed,
+    tokenBudget: AGENT_TOKEN_BUDGET,
+    turnKey: turn.key ?? null,
+    locale,
+    tools: MAP_TOOL_SCHEMAS.filter((tool) => !hiddenTools.includes(tool.function.name)),
+  };
+  const prompts = PROMPTS[locale];
+  const prompt = (systemPrompt: string) =>
+    restrictPromptToTools(systemPrompt, hiddenTools, locale);
+
+  if (body.responseOnly === true) {
+    return { ...base, mode: 'respond', systemPrompt: prompt(prompts.response), stopReason: null };
+  }
+
+  if (body.regenerate === true) {
+    return {
+      ...base,
+      mode: 'regenerate',
+      systemPrompt: prompt(prompts.response),
+      stopReason: null,
+    };
+  }
+
+  if (completedSteps === 0) {
+    return { ...base, mode: 'plan', systemPrompt: prompt(prompts.request), stopReason: null };
+  }
+
+  const stopReason: AgentStopReason | null =
+    completedSteps >= AGENT_MAX_STEPS
+      ? 'max_steps'
+      : tokensUsed >= AGENT_TOKEN_BUDGET
+        ? 'token_budget'
+        : null;
+
+  if (stopReason) {
+    return {
+      ...base,
+      mode: 'final',
+      systemPrompt: prompt(prompts.agentStep) + prompts.budgetExhaustedNote,
+      stopReason,
+    };
+  }
+
+  return { ...base, mode: 'continue', systemPrompt: prompt(prompts.agentStep), stopReason: null };
+}
+
+/** Whether the model may request tools in this step */
+export function allowsToolCalls(plan: AgentStepPlan): boolean {
+  return plan.mode === 'plan' || plan.mode === 'continue';
+}
+
+// ── Step Info ────────────────────────────────────────────────────────
+
+export function buildAgentStepInfo(
+  plan: AgentStepPlan,
+  payload: AgentRoutePayload,
+  cached: boolean,
+): AgentStepInfo {
+  const final = payload.toolCalls.length === 0;
+  const tokensUsed = plan.tokensUsed + (cached ? 0 : payload.usage?.totalTokens ?? 0);
+  return {
+    step: plan.step,
+    maxSteps: plan.maxSteps,
+    tokensUsed,
+    tokenBudget: plan.tokenBudget,
+    final,
+    stopReason: final ? plan.stopReason ?? 'answered' : null,
+    ...(plan.turnKey && !final
+      ? { turnToken: createTurnToken(plan.turnKey, plan.step, tokensUsed) }
+      : {}),
+  };
+}
+
+// ── Follow-up Suggestions ────────────────────────────────────────────
+
+const FOLLOW_UPS_OPEN = `<${FOLLOW_UPS_TAG}>`;
+const FOLLOW_UPS_CLOSE = `</${FOLLOW_UPS_TAG}>`;
+
+/** A JSON array of strings; one suggestion per line when the model did not write valid JSON */
+function parseFollowUps(raw: string): string[] {
+  let items: unknown;
+  try {
+    items = JSON.parse(raw);
+  } catch {
+    items = raw.split('\n').map((line) => line.replace(/^[\s\-*•"]+|[\s",]+$/g, ''));
+  }
+  if (!Array.isArray(items)) return [];
+
+  const suggestions: string[] = [];
+  for (const item of items) {
+    if (typeof item !== 'string') continue;
+    const text = item.replace(/<[^>]*>/g, '').replace(/\s+/g, ' ').trim();
+    if (text && text.length <= FOLLOW_UP_MAX_CHARS && !suggestions.includes(text)) {
+      suggestions.push(text);
+    }
+  }
+  return suggestions.slice(0, MAX_FOLLOW_UPS);
+}
+
+/** Split the trailing follow-up block (see RESPONSE_RULES) off a raw reply */
+function splitFollowUps(reply: string): { reply: string; suggestions: string[] } {
+  const start = reply.indexOf(FOLLOW_UPS_OPEN);
+  if (start === -1) return { reply, suggestions: [] };
+
+  const end = reply.indexOf(FOLLOW_UPS_CLOSE, start);
+  const raw = reply.slice(start + FOLLOW_UPS_OPEN.length, end === -1 ? undefined : end);
+  return { reply: reply.slice(0, start).trimEnd(), suggestions: parseFollowUps(raw.trim()) };
+}
+
+/**
+ * Forward streamed reply text up to the follow-up block, which is returned in
+ * `suggestions` instead. Text that may be the start of the block's tag is
+ * held back until the next delta shows it is not.
+ */
+function createReplyDeltaFilter(emit: (event: AgentStreamEvent) => void): (text: string) => void {
+  let received = '';
+  let forwarded = 0;
+  let blockStarted = false;
+
+  return (text) => {
+    if (blockStarted) return;
+    received += text;
+
+    let end = received.indexOf(FOLLOW_UPS_OPEN);
+    if (end !== -1) {
+      blockStarted = true;
+    } else {
+      end = received.length;
+      for (let keep = Math.min(FOLLOW_UPS_OPEN.length - 1, received.length); keep > 0; keep -= 1) {
+        if (FOLLOW_UPS_OPEN.startsWith(received.slice(-keep))) {
+          end -= keep;
+          break;
+        }
+      }
+    }
+
+    if (end > forwarded) {
+      emit({ type: 'delta', text: received.slice(forwarded, end) });
+      forwarded = end;
+    }
+  };
+}
+
+// ── LLM Step ─────────────────────────────────────────────────────────
+
+/**
+ * The model API needs a result for every tool call. Calls left unanswered
+ * because the user stopped the request get a failed result saying so.
+ */
+function answerStoppedToolCalls(incoming: AgentApiMessage[], locale: Locale): AgentApiMessage[] {
+  const messages: AgentApiMessage[] = [];
+  let unanswered: ToolCallPayload[] = [];
+  const flush = () => {
+    for (const call of unanswered) {
+      messages.push({
+        role: 'tool',
+        tool_call_id: call.id,
+        content: JSON.stringify({
+          name: call.name,
+          arguments: call.arguments,
+          result: { success: false, message: PROMPTS[locale].stoppedToolResult },
+        }),
+      });
+    }
+    unanswered = [];
+  };
+
+  for (const message of incoming) {
+    if (message.role === 'tool') {
+      unanswered = unanswered.filter((call) => call.id !== message.tool_call_id);
+    } else {
+      flush();
+      if (message.role === 'assistant') unanswered = message.tool_calls ?? [];
+    }
+    messages.push(message);
+  }
+  flush();
+
+  return messages;
+}
+
+/** `locale` is the language of the results written for stopped tool calls (see plan.locale) */
+export function buildAgentMessages(
+  systemPrompt: string,
+  incoming: AgentRequestBody['messages'],
+  locale: Locale,
+): OpenAI.Chat.Completions.ChatCompletionMessageParam[] {
+  const history = answerStoppedToolCalls(incoming, locale);
+  return [
+    { role: 'system', content: systemPrompt },
+    ...history.map((m): OpenAI.Chat.Completions.ChatCompletionMessageParam => {
+      if (m.role === 'tool') {
+        return {
+          role: 'tool' as const,
+          content: m.content,
+          tool_call_id: m.tool_call_id || '',
+        };
+      }
+      if (m.role === 'assistant' && m.tool_calls?.length) {
+        return {
+          role: 'assistant' as const,
+          content: m.content || null,
+          tool_calls: m.tool_calls.map((tc) => ({
+            id: tc.id,
+            type: 'function' as const,
+            function: { name: tc.name, arguments: JSON.stringify(tc.arguments) },
+          })),
+        };
+      }
+      return {
+        role: m.role as 'user' | 'assistant' | 'system',
+        content: m.content,
+      };
+    }),
+  ];
+}
+
+function buildLLMRequest(
+  messages: OpenAI.Chat.Completions.ChatCompletionMessageParam[],
+  plan: AgentStepPlan,
+): LLMRequest {
+  if (plan.mode === 'respond') {
+    return { messages, temperature: 0.1, maxTokens: RESPONSE_MAX_TOKENS, locale: plan.locale };
+  }
+
+  // `final` and `regenerate` keep the tool definitions so the tool history stays valid, but
+  // forbid new calls
+  return {
+    messages,
+    tools: plan.tools,
+    toolChoice: allowsToolCalls(plan) ? 'auto' : 'none',
+    temperature: plan.mode === 'regenerate' ? REGENERATE_TEMPERATURE : 0.1,
+    maxTokens: allowsToolCalls(plan) ? TOOL_MAX_TOKENS : RESPONSE_MAX_TOKENS,
+    locale: plan.locale,
+  };
+}
+
+/** A known map tool that was left out of this step's schemas */
+function isHiddenTool(plan: AgentStepPlan, name: string): boolean {
+  return (
+    MAP_TOOL_SCHEMAS.some((tool) => tool.function.name === name) &&
+    !plan.tools.some((tool) => tool.function.name === name)
+  );
+}
+
+/**
+ * Parse and validate raw tool calls. Invalid calls — including calls to tools
+ * outside `plan.tools` — are kept (so the model sees its own call in the
+ * history) but flagged with `validationErrors`.
+ */
+function toToolCallPayloads(
+  plan: AgentStepPlan,
+  rawToolCalls: Array<{ id: string; name: string; arguments: string }>,
+): AgentRoutePayload['toolCalls'] {
+  if (!allowsToolCalls(plan)) return [];
+  return rawToolCalls.map((tc) => {
+    const id = tc.id || `call_${generateId()}`;
+    const parsed = parseToolArguments(tc.arguments || '', plan.locale);
+    if (parsed.issues.length > 0) {
+      return { id, name: tc.name, arguments: parsed.arguments, validationErrors: parsed.issues };
+    }
+    if (isHiddenTool(plan, tc.name)) {
+      const issue: ToolArgumentIssue = {
+        path: '$',
+        code: 'forbidden',
+        message: PROMPTS[plan.locale].forbiddenTool(tc.name),
+      };
+      return { id, name: tc.name, arguments: parsed.arguments, validationErrors: [issue] };
+    }
+
+    const validation = validateToolArguments(tc.name, parsed.arguments, plan.locale);
+    return validation.valid
+      ? { id, name: tc.name, arguments: validation.arguments }
+      : { id, name: tc.name, arguments: parsed.arguments, validationErrors: validation.issues };
+  });
+}
+
+/**
+ * Run one model step. With `emit`, reply deltas and tool-call announcements
+ * are forwarded as they arrive (tool calls only when the plan allows them).
+ * The final reply is sanitized; streamed deltas are sanitized when rendered.
+ * Follow-up suggestions are split off the reply of an answer.
+ * `signal` cancels the upstream request.
+ */
+export async function runAgentStep(
+  provider: LLMProvider,
+  messages: OpenAI.Chat.Completions.ChatCompletionMessageParam[],
+  plan: AgentStepPlan,
+  emit?: (event: AgentStreamEvent) => void,
+  signal?: AbortSignal,
+): Promise<AgentRoutePayload> {
+  const forwardDelta = emit && createReplyDeltaFilter(emit);
+  const completion = await provider.complete(
+    { ...buildLLMRequest(messages, plan), signal },
+    emit
+      ? (event) => {
+          if (event.type === 'delta') forwardDelta?.(event.text);
+          else if (allowsToolCalls(plan)) emit(event);
+        }
+      : undefined,
+  );
+
+  const { reply, suggestions } = splitFollowUps(completion.reply);
+  const toolCalls = toToolCallPayloads(plan, completion.toolCalls);
+  return {
+    reply: sanitizeAssistantHtml(reply),
+    toolCalls,
+    finishReason: completion.finishReason,
+    usage: completion.usage,
+    provider: completion.provider,
+    model: completion.model,
+    ...(toolCalls.length === 0 && suggestions.length > 0 ? { suggestions } : {}),
+  };
+}
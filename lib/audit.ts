@@ -0,0 +1,321 @@
+/**
+ * Append-only audit log of who asked the copilot what, which tools ran and
+ * what HR data was returned.
+ *
+ * Records are JSON lines in one file per UTC day (`audit-YYYY-MM-DD.jsonl`
+ * in `AUDIT_LOG_DIR`). Files are only ever appended to; the retention policy
+ * deletes whole days older than `AUDIT_RETENTION_DAYS`.
+ *
+ * Map tools run in the browser, so tool results are taken from the `tool`
+ * messages posted back to /api/map-agent (the ToolResult of executeTool).
+ * Arguments come from the server's own validated tool calls when the session
+ * history has them. HR answers are only stored as a redacted summary.
+ */
+
+import { appendFile, mkdir, readdir, readFile, rm } from 'node:fs/promises';
+import { join } from 'node:path';
+import type { NextRequest } from 'next/server';
+import type {
+  AgentApiMessage,
+  AuditQuery,
+  AuditRecord,
+  AuthUser,
+  ToolArgumentIssue,
+  ToolResult,
+  UserRole,
+} from '@/types';
+import { generateId } from '@/lib/utils';
+import { getClientIp } from '@/lib/rate-limit';
+
+// ── Configuration ────────────────────────────────────────────────────
+
+function parseNumberEnv(value: string | undefined, fallback: number): number {
+  if (!value) return fallback;
+  const parsed = Number.parseInt(value, 10);
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : fallback;
+}
+
+const AUDIT_ENABLED = process.env.AUDIT_LOG_ENABLED !== 'false';
+const AUDIT_DIR = process.env.AUDIT_LOG_DIR || '.data/audit';
+/** Days of audit log to keep; 0 keeps everything */
+const AUDIT_RETENTION_DAYS = parseNumberEnv(process.env.AUDIT_RETENTION_DAYS, 180);
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const PRUNE_INTERVAL_MS = 60 * 60 * 1000;
+const MESSAGE_MAX_CHARS = 500;
+const HR_SUMMARY_MAX_CHARS = 280;
+
+export const AUDIT_DEFAULT_LIMIT = 100;
+export const AUDIT_MAX_LIMIT = 1000;
+
+const FILE_PATTERN = /^audit-(\d{4}-\d{2}-\d{2})\.jsonl$/;
+
+// Shared across route bundles so writes stay ordered and pruning runs once
+const globalForAudit = globalThis as typeof globalThis & {
+  __mapAgentAudit?: { queue: Promise<unknown>; lastPrunedAt: number };
+};
+const auditState = (globalForAudit.__mapAgentAudit ??= {
+  queue: Promise.resolve(),
+  lastPrunedAt: 0,
+});
+
+// ── Actor ────────────────────────────────────────────────────────────
+
+/** Who made the request */
+export interface AuditActor {
+  userId: string | null;
+  role: UserRole;
+  /** Client address, as used by the rate limits (see getClientIp) */
+  ip: string;
+}
+
+export function getAuditActor(request: NextRequest, user: AuthUser | null): AuditActor {
+  return { userId: user?.id ?? null, role: user?.role ?? 'guest', ip: getClientIp(request) };
+}
+
+// ── Redaction ────────────────────────────────────────────────────────
+
+/** Contact details, ID numbers and coordinates masked in HR answers */
+const HR_REDACTIONS: Array<[RegExp, string]> = [
+  [/[\w.+-]+@[\w-]+(\.[\w-]+)+/g, '[email]'],
+  [/-?\d{1,3}\.\d{3,}\s*,\s*-?\d{1,3}\.\d{3,}/g, '[tọa độ]'],
+  [/(\+84|\b0)(?:[\s.-]?\d){8,10}\b/g, '[số điện thoại]'],
+  [/\b\d{6,}\b/g, '[mã số]'],
+];
+
+function truncate(text: string, maxChars: number): string {
+  const compact = text.replace(/\s+/g, ' ').trim();
+  return compact.length > maxChars ? `${compact.slice(0, maxChars - 1)}…` : compact;
+}
+
+export function redactHRText(text: string): string {
+  const redacted = HR_REDACTIONS.reduce(
+    (result, [pattern, replacement]) => result.replace(pattern, replacement),
+    text,
+  );
+  return truncate(redacted, HR_SUMMARY_MAX_CHARS);
+}
+
+// ── Storage ──────────────────────────────────────────────────────────
+
+function dayOf(timestamp: number): string {
+  return new Date(timestamp).toISOString().slice(0, 10);
+}
+
+function filePath(day: string): string {
+  return join(AUDIT_DIR, `audit-${day}.jsonl`);
+}
+
+async function listDays(): Promise<string[]> {
+  try {
+    const files = await readdir(AUDIT_DIR);
+    return files
+      .map((file) => FILE_PATTERN.exec(file)?.[1])
+      .filter((day): day is string => Boolean(day))
+      .sort();
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+    throw error;
+  }
+}
+
+/** Delete day files past the retention period (at most once per hour) */
+async function pruneExpired(): Promise<void> {
+  if (AUDIT_RETENTION_DAYS === 0) return;
+  const now = Date.now();
+  if (now - auditState.lastPrunedAt < PRUNE_INTERVAL_MS) return;
+  auditState.lastPrunedAt = now;
+
+  const oldestKept = dayOf(now - AUDIT_RETENTION_DAYS * DAY_MS);
+  const expired = (await listDays()).filter((day) => day < oldestKept);
+  await Promise.all(expired.map((day) => rm(filePath(day), { force: true })));
+  if (expired.length > 0) {
+    console.info(`[audit] Deleted ${expired.length} day(s) past the retention period`);
+  }
+}
+
+async function writeRecords(records: AuditRecord[]): Promise<void> {
+  await mkdir(AUDIT_DIR, { recursive: true });
+  for (const record of records) {
+    await appendFile(filePath(dayOf(record.timestamp)), `${JSON.stringify(record)}\n`, 'utf8');
+  }
+  await pruneExpired();
+}
+
+/**
+ * Append records in order. Failures are logged rather than thrown so an audit
+ * problem never breaks the copilot.
+ */
+function appendRecords(records: AuditRecord[]): Promise<void> {
+  if (!AUDIT_ENABLED || records.length === 0) return Promise.resolve();
+
+  const next = auditState.queue
+    .catch(() => undefined)
+    .then(() => writeRecords(records))
+    .catch((error) => {
+      console.error('[audit] Failed to write records:', error);
+    });
+  auditState.queue = next;
+  return next;
+}
+
+function createRecord(
+  actor: AuditActor,
+  sessionId: string | null,
+  fields: Omit<AuditRecord, 'id' | 'timestamp' | 'userId' | 'role' | 'sessionId' | 'ip'>,
+): AuditRecord {
+  return {
+    id: generateId(),
+    timestamp: Date.now(),
+    userId: actor.userId,
+    role: actor.role,
+    sessionId,
+    ip: actor.ip,
+    ...fields,
+  };
+}
+
+// ── Agent Requests ───────────────────────────────────────────────────
+
+/** Body of a `tool` message posted by the chat panel */
+interface ToolMessageContent {
+  name?: string;
+  arguments?: Record<string, unknown>;
+  result?: ToolResult;
+}
+
+function parseToolMessage(content: string): ToolMessageContent {
+  try {
+    const parsed: unknown = JSON.parse(content);
+    return parsed && typeof parsed === 'object' ? (parsed as ToolMessageContent) : {};
+  } catch {
+    return {};
+  }
+}
+
+function toToolRecord(
+  actor: AuditActor,
+  sessionId: string | null,
+  message: AgentApiMessage,
+  requested: NonNullable<AgentApiMessage['tool_calls']>,
+): AuditRecord {
+  const content = parseToolMessage(message.content);
+  const call = requested.find((toolCall) => toolCall.id === message.tool_call_id);
+  const tool = call?.name ?? content.name ?? 'unknown';
+  const result = content.result;
+  const validationErrors = result?.data?.validationErrors;
+  const resultText = typeof result?.message === 'string' ? result.message : '';
+
+  return createRecord(actor, sessionId, {
+    type: 'tool_call',
+    tool,
+    toolCallId: message.tool_call_id,
+    arguments: call?.arguments ?? content.arguments,
+    ...(Array.isArray(validationErrors)
+      ? { validationErrors: validationErrors as ToolArgumentIssue[] }
+      : {}),
+    success: result?.success === true,
+    ...(tool === 'askHR'
+      ? { hrSummary: redactHRText(resultText) }
+      : { message: truncate(resultText, MESSAGE_MAX_CHARS) }),
+  });
+}
+
+/**
+ * Record what a /api/map-agent step brings in: the user's utterance when a
+ * turn starts, and the results of the tools run since the previous step (the
+ * trailing `tool` messages of the history).
+ */
+export function auditAgentRequest(
+  actor: AuditActor,
+  sessionId: string | null,
+  history: AgentApiMessage[],
+): Promise<void> {
+  const records: AuditRecord[] = [];
+  const last = history[history.length - 1];
+
+  if (last?.role === 'user') {
+    records.push(createRecord(actor, sessionId, { type: 'utterance', utterance: last.content }));
+  }
+
+  let start = history.length;
+  while (start > 0 && history[start - 1].role === 'tool') start -= 1;
+  const requested = history[start - 1]?.tool_calls ?? [];
+  for (const message of history.slice(start)) {
+    records.push(toToolRecord(actor, sessionId, message, requested));
+  }
+
+  return appendRecords(records);
+}
+
+/** Record a question sent to the HR webhook and its redacted answer */
+export function auditHRQuery(
+  actor: AuditActor,
+  sessionId: string,
+  question: string,
+  answer: string | null,
+): Promise<void> {
+  return appendRecords([
+    createRecord(actor, sessionId, {
+      type: 'hr_query',
+      tool: 'askHR',
+      question,
+      success: answer !== null,
+      ...(answer !== null ? { hrSummary: redactHRText(answer) } : {}),
+    }),
+  ]);
+}
+
+// ── Query ────────────────────────────────────────────────────────────
+
+function matchesQuery(record: AuditRecord, query: AuditQuery): boolean {
+  return (
+    (query.userId === undefined || record.userId === query.userId) &&
+    (query.sessionId === undefined || record.sessionId === query.sessionId) &&
+    (query.tool === undefined || record.tool === query.tool) &&
+    (query.type === undefined || record.type === query.type) &&
+    (query.from === undefined || record.timestamp >= query.from) &&
+    (query.to === undefined || record.timestamp <= query.to)
+  );
+}
+
+/** Matching records, newest first */
+export async function queryAuditLog(query: AuditQuery): Promise<AuditRecord[]> {
+  // Let pending writes land first
+  await auditState.queue;
+  await pruneExpired();
+
+  const limit = Math.min(Math.max(query.limit ?? AUDIT_DEFAULT_LIMIT, 0), AUDIT_MAX_LIMIT);
+  const fromDay = query.from === undefined ? null : dayOf(query.from);
+  const toDay = query.to === undefined ? null : dayOf(query.to);
+  const days = (await listDays())
+    .filter((day) => (!fromDay || day >= fromDay) && (!toDay || day <= toDay))
+    .reverse();
+
+  const results: AuditRecord[] = [];
+  for (const day of days) {
+    if (results.length >= limit) break;
+    let raw: string;
+    try {
+      raw = await readFile(filePath(day), 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') continue;
+      throw error;
+    }
+
+    const lines = raw.split('\n').filter(Boolean).reverse();
+    for (const line of lines) {
+      let record: AuditRecord;
+      try {
+        record = JSON.parse(line) as AuditRecord;
+      } catch {
+        continue;
+      }
+      if (!matchesQuery(record, query)) continue;
+      results.push(record);
+      if (results.length >= limit) break;
+    }
+  }
+
+  return results;
+}
@@ -0,0 +1,127 @@
+/**
+ * Login sessions for the copilot.
+ *
+ * After login the user is kept in an HttpOnly cookie holding a signed token
+ * (`<payload base64url>.<HMAC-SHA256>`, key `AUTH_SECRET`) — no server-side
+ * session store. Requests without a valid cookie are guests (see roles.ts).
+ */
+
+import { createHmac, randomBytes, timingSafeEqual } from 'node:crypto';
+import type { NextRequest, NextResponse } from 'next/server';
+import type { AuthStatus, AuthUser, UserRole } from '@/types';
+import { MAP_TOOL_SCHEMAS } from '@/lib/toolSchemas';
+import { canUseTool, isAccountRole } from './roles';
+
+export { canUseTool, getHiddenTools, USER_ROLES } from './roles';
+export { hashPassword, verifyCredentials } from './users';
+
+// ── Configuration ────────────────────────────────────────────────────
+
+function parseNumberEnv(value: string | undefined, fallback: number): number {
+  if (!value) return fallback;
+  const parsed = Number.parseInt(value, 10);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+}
+
+export const AUTH_COOKIE_NAME = 'gtel-maps-auth';
+const SESSION_TTL_SECONDS = parseNumberEnv(process.env.AUTH_SESSION_TTL_SECONDS, 8 * 60 * 60);
+/** When false, /api/map-agent requires a login */
+export const GUEST_ACCESS_ENABLED = process.env.AUTH_GUEST_ACCESS !== 'false';
+
+// Development falls back to a per-process secret (logins end on restart)
+const globalForAuth = globalThis as typeof globalThis & { __mapAgentAuthSecret?: string };
+
+function getAuthSecret(): string | null {
+  if (process.env.AUTH_SECRET) return process.env.AUTH_SECRET;
+  if (process.env.NODE_ENV !== 'development') return null;
+  if (!globalForAuth.__mapAgentAuthSecret) {
+    console.warn('[auth] AUTH_SECRET is not set; using a temporary development secret');
+    globalForAuth.__mapAgentAuthSecret = randomBytes(32).toString('hex');
+  }
+  return globalForAuth.__mapAgentAuthSecret;
+}
+
+/** Login is only possible with a signing secret */
+export function isAuthConfigured(): boolean {
+  return getAuthSecret() !== null;
+}
+
+// ── Token ────────────────────────────────────────────────────────────
+
+interface TokenPayload extends AuthUser {
+  /** Expiry, seconds since epoch */
+  exp: number;
+}
+
+function sign(payload: string, secret: string): string {
+  return createHmac('sha256', secret).update(payload).digest('base64url');
+}
+
+function createToken(user: AuthUser, secret: string): string {
+  const payload: TokenPayload = {
+    id: user.id,
+    name: user.name,
+    role: user.role,
+    exp: Math.floor(Date.now() / 1000) + SESSION_TTL_SECONDS,
+  };
+  const encoded = Buffer.from(JSON.stringify(payload)).toString('base64url');
+  return `${encoded}.${sign(encoded, secret)}`;
+}
+
+function readToken(token: string, secret: string): AuthUser | null {
+  const [encoded, signature] = token.split('.');
+  if (!encoded || !signature) return null;
+
+  const expected = Buffer.from(sign(encoded, secret));
+  const received = Buffer.from(signature);
+  if (expected.length !== received.length || !timingSafeEqual(expected, received)) return null;
+
+  try {
+    const payload = JSON.parse(Buffer.from(encoded, 'base64url').toString('utf8')) as TokenPayload;
+    if (payload.exp * 1000 <= Date.now() || !isAccountRole(payload.role)) return null;
+    return { id: payload.id, name: payload.name, role: payload.role };
+  } catch {
+    return null;
+  }
+}
+
+// ── Request / Response Helpers ───────────────────────────────────────
+
+/** The logged-in user, or null for guests */
+export function getRequestUser(request: NextRequest): AuthUser | null {
+  const token = request.cookies.get(AUTH_COOKIE_NAME)?.value;
+  const secret = getAuthSecret();
+  return token && secret ? readToken(token, secret) : null;
+}
+
+export function getUserRole(user: AuthUser | null): UserRole {
+  return user?.role ?? 'guest';
+}
+
+export function getAuthStatus(user: AuthUser | null): AuthStatus {
+  const role = getUserRole(user);
+  return {
+    user,
+    role,
+    tools: MAP_TOOL_SCHEMAS.map((tool) => tool.function.name).filter((name) =>
+      canUseTool(role, name),
+    ),
+  };
+}
+
+export function setSessionCookie(response: NextResponse, user: AuthUser): void {
+  const secret = getAuthSecret();
+  if (!secret) throw new Error('AUTH_SECRET chưa được cấu hình. Vui lòng thêm vào file .env.');
+
+  response.cookies.set(AUTH_COOKIE_NAME, createToken(user, secret), {
+    httpOnly: true,
+    sameSite: 'lax',
+    secure: process.env.NODE_ENV === 'production',
+    path: '/',
+    maxAge: SESSION_TTL_SECONDS,
+  });
+}
+
+export function clearSessionCookie(response: NextResponse): void {
+  response.cookies.set(AUTH_COOKIE_NAME, '', { httpOnly: true, path: '/', maxAge: 0 });
+}
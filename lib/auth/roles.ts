@@ -0,0 +1,36 @@
+/**
+ * Role-based access to map tools.
+ *
+ * Guests may drive the map but never see `askHR`; employees and HR managers
+ * get every tool. The HR webhook receives the role and decides how much HR
+ * data to return (an employee's own records vs. everyone's).
+ */
+
+import type { AuthUser, UserRole } from '@/types';
+
+export const USER_ROLES: UserRole[] = ['guest', 'employee', 'hr-manager'];
+
+/** Tools hidden from each role (removed from the schemas and the prompt) */
+const HIDDEN_TOOLS: Record<UserRole, string[]> = {
+  guest: ['askHR'],
+  employee: [],
+  'hr-manager': [],
+};
+
+export function isUserRole(value: unknown): value is UserRole {
+  return USER_ROLES.includes(value as UserRole);
+}
+
+/** Roles an account can have (everything but `guest`) */
+export function isAccountRole(value: unknown): value is AuthUser['role'] {
+  return isUserRole(value) && value !== 'guest';
+}
+
+export function getHiddenTools(role: UserRole): string[] {
+  return HIDDEN_TOOLS[role];
+}
+
+export function canUseTool(role: UserRole, toolName: string): boolean {
+  return !HIDDEN_TOOLS[role].includes(toolName);
+}
+
@@ -0,0 +1,84 @@
+/**
+ * Login accounts.
+ *
+ * Accounts come from `AUTH_USERS` (inline JSON) or the JSON file at
+ * `AUTH_USERS_FILE` (default `.data/users.json`): an array of
+ * `{ id, name, role, passwordHash }`. Password hashes are scrypt
+ * (`scrypt:<salt hex>:<key hex>`), created with `npm run auth:hash-password`.
+ */
+
+import { randomBytes, scryptSync, timingSafeEqual } from 'node:crypto';
+import { readFile } from 'node:fs/promises';
+import type { AuthUser } from '@/types';
+import { isAccountRole } from './roles';
+
+interface StoredUser extends AuthUser {
+  passwordHash: string;
+}
+
+const USERS_FILE = process.env.AUTH_USERS_FILE || '.data/users.json';
+const SCRYPT_KEY_LENGTH = 64;
+
+// ── Password Hashing ─────────────────────────────────────────────────
+
+export function hashPassword(password: string): string {
+  const salt = randomBytes(16);
+  const key = scryptSync(password, salt, SCRYPT_KEY_LENGTH);
+  return `scrypt:${salt.toString('hex')}:${key.toString('hex')}`;
+}
+
+function verifyPassword(password: string, passwordHash: string): boolean {
+  const [scheme, saltHex, keyHex] = passwordHash.split(':');
+  if (scheme !== 'scrypt' || !saltHex || !keyHex) return false;
+
+  const expected = Buffer.from(keyHex, 'hex');
+  const actual = scryptSync(password, Buffer.from(saltHex, 'hex'), expected.length);
+  return expected.length > 0 && timingSafeEqual(expected, actual);
+}
+
+// ── Accounts ─────────────────────────────────────────────────────────
+
+function isStoredUser(value: unknown): value is StoredUser {
+  const user = value as Partial<StoredUser> | null;
+  return (
+    typeof user?.id === 'string' &&
+    typeof user.name === 'string' &&
+    typeof user.passwordHash === 'string' &&
+    isAccountRole(user.role)
+  );
+}
+
+async function loadUsers(): Promise<StoredUser[]> {
+  let raw = process.env.AUTH_USERS;
+  if (!raw) {
+    try {
+      raw = await readFile(USERS_FILE, 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+      throw error;
+    }
+  }
+
+  const parsed: unknown = JSON.parse(raw);
+  if (!Array.isArray(parsed)) throw new Error('Danh sách tài khoản phải là một mảng JSON.');
+
+  const users = parsed.filter(isStoredUser);
+  if (users.length < parsed.length) {
+    console.warn(`[auth] Ignoring ${parsed.length - users.length} malformed account(s)`);
+  }
+  return users;
+}
+
+/** The account for these credentials, or null */
+export async function verifyCredentials(
+  username: string,
+  password: string,
+): Promise<AuthUser | null> {
+  const users = await loadUsers();
+  const user = users.find((candidate) => candidate.id === username);
+  // Hash anyway for unknown users so response times do not reveal which accounts exist
+  const valid = verifyPassword(password, user?.passwordHash ?? hashPassword(''));
+  if (!user || !valid) return null;
+
+  return { id: user.id, name: user.name, role: user.role };
+}
@@ -0,0 +1,161 @@
+/**
+ * Filesystem cache backend: one JSON document per entry, so cached steps
+ * survive restarts and can be shared by replicas mounting the same volume.
+ *
+ * The file's mtime is the last access time. Each process keeps an LRU index
+ * (loaded from disk on first use) to decide what to evict; entries written by
+ * other replicas join the index when they are first read.
+ */
+
+import { mkdir, readFile, readdir, rename, rm, stat, utimes, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import type { CacheBackend, CacheBackendOptions, CacheEntry, CacheSetResult } from './types';
+
+const ENTRY_SUFFIX = '.json';
+
+export class FileCacheBackend implements CacheBackend {
+  readonly id = 'file';
+  /** key → expiresAt, least recently used first */
+  private index: Map<string, number> | null = null;
+  private loading: Promise<Map<string, number>> | null = null;
+
+  constructor(
+    private readonly directory: string,
+    private readonly options: CacheBackendOptions,
+  ) {}
+
+  async get(key: string): Promise<CacheEntry | null> {
+    const index = await this.loadIndex();
+    const entry = await this.read(key);
+    if (!entry) {
+      index.delete(key);
+      return null;
+    }
+
+    const now = new Date();
+    entry.lastAccessedAt = now.getTime();
+    await utimes(this.filePath(key), now, now).catch(() => undefined);
+
+    index.delete(key);
+    index.set(key, entry.expiresAt);
+    return entry;
+  }
+
+  async set(key: string, entry: CacheEntry): Promise<CacheSetResult> {
+    const index = await this.loadIndex();
+    await this.write(key, entry);
+    index.delete(key);
+
+    const expiredKeys: string[] = [];
+    index.forEach((expiresAt, existingKey) => {
+      if (expiresAt <= entry.createdAt) expiredKeys.push(existingKey);
+    });
+
+    index.set(key, entry.expiresAt);
+
+    const lruKeys = Array.from(index.keys()).filter(
+      (existingKey) => !expiredKeys.includes(existingKey),
+    );
+    const evictedKeys = lruKeys.slice(0, Math.max(0, lruKeys.length - this.options.maxEntries));
+
+    await Promise.all([...expiredKeys, ...evictedKeys].map((removed) => this.remove(removed)));
+    return { expired: expiredKeys.length, evicted: evictedKeys.length };
+  }
+
+  async delete(key: string): Promise<boolean> {
+    const index = await this.loadIndex();
+    const existed = (await this.read(key)) !== null;
+    await this.remove(key);
+    index.delete(key);
+    return existed;
+  }
+
+  async clear(): Promise<number> {
+    const keys = await this.listKeysOnDisk();
+    await Promise.all(keys.map((key) => this.remove(key)));
+    this.index = new Map();
+    return keys.length;
+  }
+
+  async size(): Promise<number> {
+    return (await this.listKeysOnDisk()).length;
+  }
+
+  async list(limit: number): Promise<Array<{ key: string; entry: CacheEntry }>> {
+    const keys = Array.from((await this.loadIndex()).keys()).reverse().slice(0, limit);
+    const entries = await Promise.all(
+      keys.map(async (key) => {
+        const entry = await this.read(key);
+        return entry ? { key, entry } : null;
+      }),
+    );
+    return entries.filter((item): item is { key: string; entry: CacheEntry } => item !== null);
+  }
+
+  // ── Internals ──────────────────────────────────────────────────────
+
+  private filePath(key: string): string {
+    return join(this.directory, `${key}${ENTRY_SUFFIX}`);
+  }
+
+  private async read(key: string): Promise<CacheEntry | null> {
+    try {
+      const [raw, info] = await Promise.all([
+        readFile(this.filePath(key), 'utf8'),
+        stat(this.filePath(key)),
+      ]);
+      return { ...(JSON.parse(raw) as CacheEntry), lastAccessedAt: info.mtimeMs };
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+      throw error;
+    }
+  }
+
+  /** Write to a temp file first so readers never see a truncated entry */
+  private async write(key: string, entry: CacheEntry): Promise<void> {
+    await mkdir(this.directory, { recursive: true });
+    const target = this.filePath(key);
+    const temp = `${target}.${process.pid}.tmp`;
+    await writeFile(temp, JSON.stringify(entry), 'utf8');
+    await rename(temp, target);
+  }
+
+  private remove(key: string): Promise<void> {
+    this.index?.delete(key);
+    return rm(this.filePath(key), { force: true });
+  }
+
+  private async listKeysOnDisk(): Promise<string[]> {
+    try {
+      const files = await readdir(this.directory);
+      return files
+        .filter((file) => file.endsWith(ENTRY_SUFFIX))
+        .map((file) => file.slice(0, -ENTRY_SUFFIX.length));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+      throw error;
+    }
+  }
+
+  private loadIndex(): Promise<Map<string, number>> {
+    if (this.index) return Promise.resolve(this.index);
+
+    this.loading ??= (async () => {
+      const keys = await this.listKeysOnDisk();
+      const entries = await Promise.all(
+        keys.map(async (key) => ({ key, entry: await this.read(key).catch(() => null) })),
+      );
+      const index = new Map<string, number>();
+      entries
+        .filter((item): item is { key: string; entry: CacheEntry } => item.entry !== null)
+        .sort((a, b) => a.entry.lastAccessedAt - b.entry.lastAccessedAt)
+        .forEach(({ key, entry }) => index.set(key, entry.expiresAt));
+      this.index = index;
+      return index;
+    })().finally(() => {
+      this.loading = null;
+    });
+
+    return this.loading;
+  }
+}
@@ -0,0 +1,433 @@
+/**
+ * Response cache for /api/map-agent with a pluggable backend (in-process LRU,
+ * filesystem or Redis — see MAP_AGENT_CACHE_BACKEND). TTL and map-context
+ * keying follow the cache policy of the step's intent (see policy.ts).
+ * Includes inflight request deduplication to avoid duplicate LLM calls.
+ */
+
+import { createHash } from 'node:crypto';
+import type OpenAI from 'openai';
+import type {
+  AgentApiMessage,
+  AgentCacheSource,
+  AgentMapContext,
+  AgentRoutePayload,
+  AgentStreamEvent,
+  CacheBackendId,
+  CacheEntrySummary,
+  CacheStats,
+} from '@/types';
+import { FileCacheBackend } from './file';
+import { MemoryCacheBackend } from './memory';
+import { RedisCacheBackend } from './redis';
+import {
+  DEFAULT_CACHE_POLICIES,
+  buildContextKey,
+  getTurnToolCalls,
+  getVarySets,
+  pickCachePolicy,
+  resolveCachePolicies,
+  type CacheContextDimension,
+  type CachePolicy,
+  type ResolvedCachePolicy,
+} from './policy';
+import type { CacheBackend, CacheBackendOptions } from './types';
+
+export type { CacheBackend, CacheEntry } from './types';
+export type { CachePolicy, ResolvedCachePolicy } from './policy';
+
+// ── Configuration ────────────────────────────────────────────────────
+
+function parseNumberEnv(value: string | undefined, fallback: number): number {
+  if (!value) return fallback;
+  const parsed = Number.parseInt(value, 10);
+  return Number.isFinite(parsed) ? parsed : fallback;
+}
+
+const CACHE_ENABLED = process.env.MAP_AGENT_CACHE_ENABLED !== 'false';
+const CACHE_TTL_MS = parseNumberEnv(process.env.MAP_AGENT_CACHE_TTL_MS, 5 * 60 * 1000);
+const CACHE_MAX_ENTRIES = parseNumberEnv(process.env.MAP_AGENT_CACHE_MAX_ENTRIES, 200);
+const CACHE_BACKEND = process.env.MAP_AGENT_CACHE_BACKEND || 'memory';
+const CACHE_DIR = process.env.MAP_AGENT_CACHE_DIR || '.data/cache';
+const CACHE_REDIS_URL = process.env.MAP_AGENT_CACHE_REDIS_URL || 'redis://localhost:6379';
+const CACHE_REDIS_PREFIX = process.env.MAP_AGENT_CACHE_REDIS_PREFIX || 'map-agent:cache:';
+const CACHE_GEOHASH_PRECISION = parseNumberEnv(process.env.MAP_AGENT_CACHE_GEOHASH_PRECISION, 6);
+
+export const CACHE_BACKEND_IDS: CacheBackendId[] = ['memory', 'file', 'redis'];
+
+/** Defaults merged with MAP_AGENT_CACHE_POLICIES (JSON, `{ "<intent>": { ttlMs?, vary? } }`) */
+function loadCachePolicies(): Record<string, ResolvedCachePolicy> {
+  let configured: Record<string, CachePolicy> = {};
+  const raw = process.env.MAP_AGENT_CACHE_POLICIES;
+  if (raw) {
+    try {
+      configured = JSON.parse(raw) as Record<string, CachePolicy>;
+    } catch (error) {
+      console.warn('[cache] Ignoring invalid MAP_AGENT_CACHE_POLICIES:', error);
+    }
+  }
+  return resolveCachePolicies({ ...DEFAULT_CACHE_POLICIES, ...configured }, CACHE_TTL_MS);
+}
+
+const CACHE_POLICIES = loadCachePolicies();
+
+// ── Storage ──────────────────────────────────────────────────────────
+
+type CacheCounters = Omit<
+  CacheStats,
+  'backend' | 'enabled' | 'ttlMs' | 'maxEntries' | 'entries' | 'hitRate'
+>;
+
+/** An LLM call shared by every request that asks the same thing while it runs */
+interface InflightRequest {
+  promise: Promise<AgentRoutePayload>;
+  /** Cancels the upstream call once no request is waiting for it any more */
+  controller: AbortController;
+  waiters: number;
+}
+
+interface CacheState {
+  backend: CacheBackend;
+  counters: CacheCounters;
+  inflight: Map<string, InflightRequest>;
+}
+
+function createCacheBackend(): CacheBackend {
+  const options: CacheBackendOptions = { maxEntries: CACHE_MAX_ENTRIES };
+
+  switch (CACHE_BACKEND) {
+    case 'memory':
+      return new MemoryCacheBackend(options);
+    case 'file':
+      return new FileCacheBackend(CACHE_DIR, options);
+    case 'redis':
+      return new RedisCacheBackend({
+        ...options,
+        url: CACHE_REDIS_URL,
+        prefix: CACHE_REDIS_PREFIX,
+      });
+    default:
+      throw new Error(
+        `MAP_AGENT_CACHE_BACKEND không hợp lệ: "${CACHE_BACKEND}". ` +
+          `Hỗ trợ: ${CACHE_BACKEND_IDS.join(', ')}.`,
+      );
+  }
+}
+
+// Each route is bundled separately, so the state lives on globalThis to be
+// shared between /api/map-agent and /api/admin/cache.
+const globalForCache = globalThis as typeof globalThis & { __mapAgentCache?: CacheState };
+
+function getCacheState(): CacheState {
+  globalForCache.__mapAgentCache ??= {
+    backend: createCacheBackend(),
+    counters: {
+      hits: 0,
+      misses: 0,
+      sets: 0,
+      evictions: 0,
+      expirations: 0,
+      errors: 0,
+      since: Date.now(),
+    },
+    inflight: new Map(),
+  };
+  return globalForCache.__mapAgentCache;
+}
+
+function isCacheActive(): boolean {
+  return CACHE_ENABLED && CACHE_TTL_MS > 0;
+}
+
+/** Backend failures must never fail the agent step: log, count and carry on */
+function handleBackendError(action: string, error: unknown): void {
+  getCacheState().counters.errors += 1;
+  console.warn(`[cache] ${action} failed:`, error);
+}
+
+// ── Cache Key ────────────────────────────────────────────────────────
+
+/**
+ * `model` identifies the provider and model (e.g. `openrouter:openai/gpt-4o-mini`);
+ * `context` holds the geohash cells the policy varies on.
+ */
+export function buildCacheKey(
+  messages: OpenAI.Chat.Completions.ChatCompletionMessageParam[],
+  model: string,
+  context: Partial<Record<CacheContextDimension, string>> = {},
+): string {
+  const payload = JSON.stringify(
+    Object.keys(context).length > 0 ? { model, messages, context } : { model, messages },
+  );
+  return createHash('sha256').update(payload).digest('hex');
+}
+
+/** Cache keys are SHA-256 hex digests; anything else is rejected by the admin API */
+export function isValidCacheKey(key: unknown): key is string {
+  return typeof key === 'string' && /^[0-9a-f]{64}$/.test(key);
+}
+
+function isPoint(value: unknown): value is { lat: number; lng: number } {
+  const point = value as { lat?: unknown; lng?: unknown } | null;
+  return (
+    typeof point?.lat === 'number' &&
+    typeof point.lng === 'number' &&
+    Math.abs(point.lat) <= 90 &&
+    Math.abs(point.lng) <= 180
+  );
+}
+
+/** The client's map context, or null when it is missing or malformed */
+function normalizeMapContext(context: unknown): AgentMapContext | null {
+  const candidate = context as Partial<AgentMapContext> | null | undefined;
+  if (!isPoint(candidate?.center)) return null;
+  return {
+    center: candidate.center,
+    zoom: typeof candidate.zoom === 'number' ? candidate.zoom : 0,
+    userLocation: isPoint(candidate.userLocation) ? candidate.userLocation : null,
+  };
+}
+
+// ── Lookup Plan ──────────────────────────────────────────────────────
+
+/** How one step is looked up and stored */
+export interface CacheLookup {
+  /**
+   * Policy known before the call: answer steps use the tools already run in
+   * the turn. Null for planning steps — decided by the requested tools.
+   */
+  policy: ResolvedCachePolicy | null;
+  /** Keys to try, most specific map context first; empty when the step must be recomputed */
+  lookupKeys: string[];
+  /** Shared pending request key (full map context) */
+  inflightKey: string;
+  messages: OpenAI.Chat.Completions.ChatCompletionMessageParam[];
+  model: string;
+  context: AgentMapContext | null;
+}
+
+export function planCacheLookup(input: {
+  messages: OpenAI.Chat.Completions.ChatCompletionMessageParam[];
+  model: string;
+  history: AgentApiMessage[];
+  mapContext?: unknown;
+  /** Skip the lookup (regenerate); the fresh result still replaces the entry */
+  refresh?: boolean;
+}): CacheLookup {
+  const { messages, model } = input;
+  const context = normalizeMapContext(input.mapContext);
+  const turnToolCalls = getTurnToolCalls(input.history);
+  const policy = turnToolCalls.length > 0 ? pickCachePolicy(CACHE_POLICIES, turnToolCalls) : null;
+
+  const keyFor = (vary: CacheContextDimension[]) =>
+    buildCacheKey(messages, model, buildContextKey(context, vary, CACHE_GEOHASH_PRECISION));
+
+  let lookupKeys: string[];
+  if (input.refresh) lookupKeys = [];
+  else if (policy) lookupKeys = policy.ttlMs > 0 ? [keyFor(policy.vary)] : [];
+  else lookupKeys = getVarySets(CACHE_POLICIES).map(keyFor);
+
+  return {
+    policy,
+    lookupKeys,
+    inflightKey: keyFor(['center', 'user']),
+    messages,
+    model,
+    context,
+  };
+}
+
+/** Policy of a finished step */
+export function getStepCachePolicy(
+  lookup: CacheLookup,
+  payload: AgentRoutePayload,
+): ResolvedCachePolicy {
+  return lookup.policy ?? pickCachePolicy(CACHE_POLICIES, payload.toolCalls);
+}
+
+/** Cache source of a result shared from an identical pending request */
+export function getInflightSource(lookup: CacheLookup, payload: AgentRoutePayload): AgentCacheSource {
+  return `inflight:${getStepCachePolicy(lookup, payload).name}`;
+}
+
+// ── Public API ───────────────────────────────────────────────────────
+
+export interface CachedResponse {
+  payload: AgentRoutePayload;
+  source: AgentCacheSource;
+}
+
+export async function getCachedResponse(lookup: CacheLookup): Promise<CachedResponse | null> {
+  if (!isCacheActive() || lookup.lookupKeys.length === 0) return null;
+
+  const { backend, counters } = getCacheState();
+  try {
+    for (const cacheKey of lookup.lookupKeys) {
+      const entry = await backend.get(cacheKey);
+      if (!entry) continue;
+
+      if (entry.expiresAt <= Date.now()) {
+        await backend.delete(cacheKey);
+        counters.expirations += 1;
+        continue;
+      }
+
+      counters.hits += 1;
+      return { payload: entry.value, source: `${backend.id}:${entry.policy ?? 'default'}` };
+    }
+  } catch (error) {
+    handleBackendError('Lookup', error);
+  }
+
+  counters.misses += 1;
+  return null;
+}
+
+/**
+ * Store a fresh step under its policy and return the resulting cache source:
+ * `miss:<policy>` when stored, `bypass:<policy>` when the policy does not cache.
+ */
+export async function setCachedResponse(
+  lookup: CacheLookup,
+  value: AgentRoutePayload,
+): Promise<AgentCacheSource> {
+  const policy = getStepCachePolicy(lookup, value);
+  if (!isCacheActive() || policy.ttlMs <= 0) return `bypass:${policy.name}`;
+
+  const { backend, counters } = getCacheState();
+  const cacheKey = buildCacheKey(
+    lookup.messages,
+    lookup.model,
+    buildContextKey(lookup.context, policy.vary, CACHE_GEOHASH_PRECISION),
+  );
+  const now = Date.now();
+  try {
+    const { expired, evicted } = await backend.set(cacheKey, {
+      value,
+      policy: policy.name,
+      createdAt: now,
+      expiresAt: now + policy.ttlMs,
+      lastAccessedAt: now,
+    });
+    counters.sets += 1;
+    counters.expirations += expired;
+    counters.evictions += evicted;
+  } catch (error) {
+    handleBackendError('Store', error);
+  }
+  return `miss:${policy.name}`;
+}
+
+/** Count `signal`'s request as waiting; the last one to disconnect cancels the call */
+function addInflightWaiter(inflight: InflightRequest, signal: AbortSignal): void {
+  inflight.waiters += 1;
+  const leave = () => {
+    inflight.waiters -= 1;
+    if (inflight.waiters === 0) inflight.controller.abort();
+  };
+  if (signal.aborted) leave();
+  else signal.addEventListener('abort', leave, { once: true });
+}
+
+/**
+ * Share the running call for `cacheKey`, if any. `signal` is the joining
+ * request's disconnect signal.
+ */
+export function joinInflightRequest(
+  cacheKey: string,
+  signal: AbortSignal,
+): Promise<AgentRoutePayload> | undefined {
+  const inflight = getCacheState().inflight.get(cacheKey);
+  if (!inflight) return undefined;
+  addInflightWaiter(inflight, signal);
+  return inflight.promise;
+}
+
+/**
+ * Register a running call. `controller` aborts the upstream request and is
+ * triggered when the owner (`signal`) and every request that joined later
+ * have disconnected.
+ */
+export function setInflightRequest(
+  cacheKey: string,
+  promise: Promise<AgentRoutePayload>,
+  controller: AbortController,
+  signal: AbortSignal,
+): void {
+  const inflight: InflightRequest = { promise, controller, waiters: 0 };
+  addInflightWaiter(inflight, signal);
+  getCacheState().inflight.set(cacheKey, inflight);
+}
+
+export function deleteInflightRequest(cacheKey: string): void {
+  getCacheState().inflight.delete(cacheKey);
+}
+
+// ── Admin ────────────────────────────────────────────────────────────
+
+export async function getCacheStats(): Promise<CacheStats> {
+  const { backend, counters } = getCacheState();
+  const lookups = counters.hits + counters.misses;
+
+  let entries = 0;
+  try {
+    entries = await backend.size();
+  } catch (error) {
+    handleBackendError('Size', error);
+  }
+
+  return {
+    backend: backend.id,
+    enabled: isCacheActive(),
+    ttlMs: CACHE_TTL_MS,
+    maxEntries: CACHE_MAX_ENTRIES,
+    entries,
+    ...counters,
+    hitRate: lookups > 0 ? Number((counters.hits / lookups).toFixed(4)) : 0,
+  };
+}
+
+/** Most recently used entries first */
+export async function listCacheEntries(limit: number): Promise<CacheEntrySummary[]> {
+  const entries = await getCacheState().backend.list(limit);
+  return entries.map(({ key, entry }) => ({
+    key,
+    createdAt: entry.createdAt,
+    expiresAt: entry.expiresAt,
+    lastAccessedAt: entry.lastAccessedAt,
+    policy: entry.policy ?? 'default',
+    provider: entry.value.provider,
+    model: entry.value.model,
+    toolCalls: entry.value.toolCalls.map((toolCall) => toolCall.name),
+    replyPreview: entry.value.reply.replace(/<[^>]+>/g, '').slice(0, 160),
+  }));
+}
+
+export function deleteCacheEntry(cacheKey: string): Promise<boolean> {
+  return getCacheState().backend.delete(cacheKey);
+}
+
+/** Remove every cached entry; returns how many were removed */
+export function purgeCache(): Promise<number> {
+  return getCacheState().backend.clear();
+}
+
+// ── Stream Replay ────────────────────────────────────────────────────
+
+/**
+ * Replay a cached (or shared inflight) payload through the streaming protocol,
+ * so the client handles cache hits exactly like a live completion.
+ */
+export function replayCachedResponse(
+  payload: AgentRoutePayload,
+  cacheSource: AgentCacheSource,
+  emit: (event: AgentStreamEvent) => void,
+): void {
+  payload.toolCalls.forEach((toolCall, index) => {
+    emit({ type: 'tool_call', index, id: toolCall.id, name: toolCall.name });
+  });
+
+  if (payload.reply) emit({ type: 'delta', text: payload.reply });
+
+  emit({ type: 'done', result: { ...payload, cached: true, cacheSource } });
+}
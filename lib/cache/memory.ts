@@ -0,0 +1,67 @@
+/**
+ * In-process cache backend. A Map keeps insertion order, so re-inserting on
+ * every access makes the first key the least recently used one.
+ */
+
+import type { CacheBackend, CacheBackendOptions, CacheEntry, CacheSetResult } from './types';
+
+export class MemoryCacheBackend implements CacheBackend {
+  readonly id = 'memory';
+  private readonly entries = new Map<string, CacheEntry>();
+
+  constructor(private readonly options: CacheBackendOptions) {}
+
+  async get(key: string): Promise<CacheEntry | null> {
+    const entry = this.entries.get(key);
+    if (!entry) return null;
+
+    entry.lastAccessedAt = Date.now();
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    return entry;
+  }
+
+  async set(key: string, entry: CacheEntry): Promise<CacheSetResult> {
+    this.entries.delete(key);
+
+    let expired = 0;
+    this.entries.forEach((existing, existingKey) => {
+      if (existing.expiresAt > entry.createdAt) return;
+      this.entries.delete(existingKey);
+      expired += 1;
+    });
+
+    this.entries.set(key, entry);
+
+    let evicted = 0;
+    while (this.entries.size > this.options.maxEntries) {
+      const oldestKey = this.entries.keys().next().value;
+      if (oldestKey === undefined) break;
+      this.entries.delete(oldestKey);
+      evicted += 1;
+    }
+
+    return { expired, evicted };
+  }
+
+  async delete(key: string): Promise<boolean> {
+    return this.entries.delete(key);
+  }
+
+  async clear(): Promise<number> {
+    const count = this.entries.size;
+    this.entries.clear();
+    return count;
+  }
+
+  async size(): Promise<number> {
+    return this.entries.size;
+  }
+
+  async list(limit: number): Promise<Array<{ key: string; entry: CacheEntry }>> {
+    return Array.from(this.entries.entries())
+      .reverse()
+      .slice(0, limit)
+      .map(([key, entry]) => ({ key, entry }));
+  }
+}
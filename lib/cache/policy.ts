@@ -0,0 +1,151 @@
+/**
+ * Cache policies per step intent.
+ *
+ * The intent of a step comes from the tools involved: the tools already run
+ * in the current turn (answer steps) or the tools the model asks for
+ * (planning steps). Its policy sets the TTL — 0 disables caching, e.g. for
+ * live HR or camera data — and which parts of the map context are part of the
+ * cache key (`center` / `user` as geohash cells), so "quán cafe gần đây" is not
+ * answered from another part of the map.
+ */
+
+import type {
+  AgentApiMessage,
+  AgentMapContext,
+  NearbyPlaceType,
+  ToolCallPayload,
+} from '@/types';
+import { encodeGeohash, isCameraNearbyRequest } from '@/lib/map/geo';
+
+// ── Types ────────────────────────────────────────────────────────────
+
+export type CacheContextDimension = 'center' | 'user';
+
+/** Policy as configured (MAP_AGENT_CACHE_POLICIES) */
+export interface CachePolicy {
+  /** 0 disables caching; omitted uses MAP_AGENT_CACHE_TTL_MS */
+  ttlMs?: number;
+  /** Map context included in the key */
+  vary?: CacheContextDimension[];
+}
+
+export interface ResolvedCachePolicy {
+  name: string;
+  ttlMs: number;
+  vary: CacheContextDimension[];
+}
+
+// ── Defaults ─────────────────────────────────────────────────────────
+
+export const DEFAULT_CACHE_POLICIES: Record<string, CachePolicy> = {
+  hr: { ttlMs: 0 },
+  camera: { ttlMs: 0 },
+  nearby: { ttlMs: 60_000, vary: ['center', 'user'] },
+  'user-location': { ttlMs: 60_000, vary: ['user'] },
+  'map-center': { ttlMs: 60_000, vary: ['center'] },
+  directions: { vary: ['user'] },
+  search: {},
+  chat: {},
+  default: {},
+};
+
+const TOOL_INTENTS: Record<string, string> = {
+  askHR: 'hr',
+  searchPlace: 'search',
+  getDirections: 'directions',
+  selectRoute: 'directions',
+  optimizeRoute: 'directions',
+  nearbySearch: 'nearby',
+  getUserLocation: 'user-location',
+  getMapCenter: 'map-center',
+};
+
+const CONTEXT_DIMENSIONS: CacheContextDimension[] = ['center', 'user'];
+
+export function resolveCachePolicies(
+  configured: Record<string, CachePolicy>,
+  defaultTtlMs: number,
+): Record<string, ResolvedCachePolicy> {
+  return Object.fromEntries(
+    Object.entries(configured).map(([name, policy]) => [
+      name,
+      {
+        name,
+        ttlMs: typeof policy.ttlMs === 'number' ? Math.max(0, policy.ttlMs) : defaultTtlMs,
+        vary: CONTEXT_DIMENSIONS.filter((dimension) => policy.vary?.includes(dimension)),
+      },
+    ]),
+  );
+}
+
+// ── Intent ───────────────────────────────────────────────────────────
+
+function getToolIntent(toolCall: Pick<ToolCallPayload, 'name' | 'arguments'>): string {
+  if (toolCall.name === 'nearbySearch') {
+    const { keyword, type } = toolCall.arguments;
+    const isCamera = isCameraNearbyRequest(
+      typeof keyword === 'string' ? keyword : null,
+      typeof type === 'string' ? (type as NearbyPlaceType) : null,
+    );
+    if (isCamera) return 'camera';
+  }
+  return TOOL_INTENTS[toolCall.name] ?? 'default';
+}
+
+/** Tool calls made since the last user message (empty for a planning step) */
+export function getTurnToolCalls(history: AgentApiMessage[]): ToolCallPayload[] {
+  let lastUser = history.length - 1;
+  while (lastUser >= 0 && history[lastUser].role !== 'user') lastUser -= 1;
+  return history.slice(lastUser + 1).flatMap((message) => message.tool_calls ?? []);
+}
+
+/**
+ * The strictest policy among the tools involved: shortest TTL, with the map
+ * context of every tool in the key. Text-only steps use the `chat` policy.
+ */
+export function pickCachePolicy(
+  policies: Record<string, ResolvedCachePolicy>,
+  toolCalls: Array<Pick<ToolCallPayload, 'name' | 'arguments'>>,
+): ResolvedCachePolicy {
+  const intents = toolCalls.length > 0 ? toolCalls.map(getToolIntent) : ['chat'];
+  const candidates = intents.map((intent) => policies[intent] ?? policies.default);
+
+  const strictest = candidates.reduce((current, candidate) =>
+    candidate.ttlMs < current.ttlMs ? candidate : current,
+  );
+  const vary = CONTEXT_DIMENSIONS.filter((dimension) =>
+    candidates.some((candidate) => candidate.vary.includes(dimension)),
+  );
+
+  return { ...strictest, vary };
+}
+
+/** Distinct map-context combinations of the cacheable policies, most specific first */
+export function getVarySets(
+  policies: Record<string, ResolvedCachePolicy>,
+): CacheContextDimension[][] {
+  const sets = new Map<string, CacheContextDimension[]>();
+  Object.values(policies)
+    .filter((policy) => policy.ttlMs > 0)
+    .forEach((policy) => sets.set(policy.vary.join(','), policy.vary));
+  return Array.from(sets.values()).sort((a, b) => b.length - a.length);
+}
+
+// ── Context Key ──────────────────────────────────────────────────────
+
+/** Geohash cells of the varied dimensions (`none` when unknown) */
+export function buildContextKey(
+  context: AgentMapContext | null,
+  vary: CacheContextDimension[],
+  precision: number,
+): Partial<Record<CacheContextDimension, string>> {
+  const cell = (point?: { lat: number; lng: number } | null) =>
+    point ? encodeGeohash(point.lat, point.lng, precision) : 'none';
+
+  return Object.fromEntries(
+    vary.map((dimension) => [
+      dimension,
+      cell(dimension === 'center' ? context?.center : context?.userLocation),
+    ]),
+  );
+}
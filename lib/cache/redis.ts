@@ -0,0 +1,134 @@
+/**
+ * Redis cache backend (any Redis-protocol server: Redis, Valkey, KeyDB),
+ * shared by every replica.
+ *
+ * Entries are stored as JSON strings with a native TTL; a sorted set scored by
+ * last access time keeps the LRU order used for eviction, and a second one
+ * scored by expiry drops expired entries from it (policies differ in TTL).
+ */
+
+import Redis from 'ioredis';
+import type { CacheBackend, CacheBackendOptions, CacheEntry, CacheSetResult } from './types';
+
+export interface RedisCacheBackendOptions extends CacheBackendOptions {
+  url: string;
+  /** Prefix of every key written by the cache */
+  prefix: string;
+}
+
+export class RedisCacheBackend implements CacheBackend {
+  readonly id = 'redis';
+  private readonly client: Redis;
+  private readonly lruKey: string;
+  private readonly expiryKey: string;
+
+  constructor(private readonly options: RedisCacheBackendOptions) {
+    this.client = new Redis(options.url, {
+      connectTimeout: 2000,
+      maxRetriesPerRequest: 1,
+    });
+    this.client.on('error', (error) => {
+      console.warn('[cache] Redis connection error:', error.message);
+    });
+    this.lruKey = `${options.prefix}lru`;
+    this.expiryKey = `${options.prefix}expiry`;
+  }
+
+  async get(key: string): Promise<CacheEntry | null> {
+    const raw = await this.client.get(this.entryKey(key));
+    if (!raw) {
+      await this.client.multi().zrem(this.lruKey, key).zrem(this.expiryKey, key).exec();
+      return null;
+    }
+
+    const entry: CacheEntry = { ...(JSON.parse(raw) as CacheEntry), lastAccessedAt: Date.now() };
+    await this.client.zadd(this.lruKey, entry.lastAccessedAt, key);
+    return entry;
+  }
+
+  async set(key: string, entry: CacheEntry): Promise<CacheSetResult> {
+    const ttlMs = Math.max(1, entry.expiresAt - entry.createdAt);
+    await this.client
+      .multi()
+      .set(this.entryKey(key), JSON.stringify(entry), 'PX', ttlMs)
+      .zadd(this.lruKey, entry.lastAccessedAt, key)
+      .zadd(this.expiryKey, entry.expiresAt, key)
+      .exec();
+
+    const expired = await this.pruneExpired(entry.createdAt);
+
+    const excess = (await this.client.zcard(this.lruKey)) - this.options.maxEntries;
+    if (excess <= 0) return { expired, evicted: 0 };
+
+    const evictedKeys = await this.client.zrange(this.lruKey, 0, excess - 1);
+    await this.removeKeys(evictedKeys);
+    return { expired, evicted: evictedKeys.length };
+  }
+
+  async delete(key: string): Promise<boolean> {
+    const results = await this.client
+      .multi()
+      .del(this.entryKey(key))
+      .zrem(this.lruKey, key)
+      .zrem(this.expiryKey, key)
+      .exec();
+    return results?.[0]?.[1] === 1;
+  }
+
+  async clear(): Promise<number> {
+    const keys = await this.client.zrange(this.lruKey, 0, -1);
+    await this.removeKeys(keys);
+    await this.client.del(this.lruKey, this.expiryKey);
+    return keys.length;
+  }
+
+  async size(): Promise<number> {
+    await this.pruneExpired(Date.now());
+    return this.client.zcard(this.lruKey);
+  }
+
+  async list(limit: number): Promise<Array<{ key: string; entry: CacheEntry }>> {
+    const scored = await this.client.zrevrange(this.lruKey, 0, limit - 1, 'WITHSCORES');
+    const keys = scored.filter((_, index) => index % 2 === 0);
+    if (keys.length === 0) return [];
+
+    const values = await this.client.mget(keys.map((key) => this.entryKey(key)));
+    return keys.flatMap((key, index) => {
+      const raw = values[index];
+      if (!raw) return [];
+      const entry = JSON.parse(raw) as CacheEntry;
+      return [{ key, entry: { ...entry, lastAccessedAt: Number(scored[index * 2 + 1]) } }];
+    });
+  }
+
+  // ── Internals ──────────────────────────────────────────────────────
+
+  private entryKey(key: string): string {
+    return `${this.options.prefix}entry:${key}`;
+  }
+
+  /**
+   * Entries expire through their Redis TTL; drop the LRU members of entries
+   * past their own expiry, since those entries are gone as well.
+   */
+  private async pruneExpired(now: number): Promise<number> {
+    const keys = await this.client.zrangebyscore(this.expiryKey, '-inf', now);
+    if (keys.length === 0) return 0;
+    await this.client
+      .multi()
+      .zrem(this.lruKey, ...keys)
+      .zrem(this.expiryKey, ...keys)
+      .exec();
+    return keys.length;
+  }
+
+  private async removeKeys(keys: string[]): Promise<void> {
+    if (keys.length === 0) return;
+    await this.client
+      .multi()
+      .del(...keys.map((key) => this.entryKey(key)))
+      .zrem(this.lruKey, ...keys)
+      .zrem(this.expiryKey, ...keys)
+      .exec();
+  }
+}
@@ -0,0 +1,41 @@
+/**
+ * Storage contract for the /api/map-agent response cache.
+ *
+ * Backends keep true LRU order: `get` marks an entry as most recently used
+ * and `set` evicts the least recently used entries beyond `maxEntries`.
+ * Expiry is checked by the caller (see index.ts) so it can be counted.
+ */
+
+import type { AgentRoutePayload, CacheBackendId } from '@/types';
+
+export interface CacheEntry {
+  value: AgentRoutePayload;
+  /** Cache policy name (see policy.ts) */
+  policy: string;
+  createdAt: number;
+  expiresAt: number;
+  lastAccessedAt: number;
+}
+
+export interface CacheBackendOptions {
+  maxEntries: number;
+}
+
+/** What `set` removed to make room for the new entry */
+export interface CacheSetResult {
+  expired: number;
+  evicted: number;
+}
+
+export interface CacheBackend {
+  readonly id: CacheBackendId;
+  /** Entry for the key (marked as most recently used), or null when missing */
+  get(key: string): Promise<CacheEntry | null>;
+  set(key: string, entry: CacheEntry): Promise<CacheSetResult>;
+  delete(key: string): Promise<boolean>;
+  /** Remove every entry and return how many were removed */
+  clear(): Promise<number>;
+  size(): Promise<number>;
+  /** Entries from most to least recently used */
+  list(limit: number): Promise<Array<{ key: string; entry: CacheEntry }>>;
+}
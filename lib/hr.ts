@@ -0,0 +1,53 @@
+/**
+ * Server-side client for the GTEL OTS HR webhook (n8n).
+ *
+ * The webhook URL never reaches the browser: askHR posts to /api/hr, which
+ * checks the user's role and forwards the question here together with the
+ * logged-in user's identity. `GTEL_HR_API_TOKEN`, when set, is sent as a
+ * Bearer token so the webhook can reject calls that bypass this server.
+ */
+
+import type { AuthUser } from '@/types';
+
+const GTEL_HR_API_URL =
+  process.env.GTEL_HR_API_URL ||
+  'https://gis-n8n.gtelots.dev/webhook/aef276e1-5e9f-42a6-bf97-f378ba1157df';
+const GTEL_HR_API_TOKEN = process.env.GTEL_HR_API_TOKEN;
+const HR_TIMEOUT_MS = 30000;
+
+export interface HRAnswer {
+  output: string;
+}
+
+/**
+ * Ask the HR webhook. `conversationId` is the client's chat session; it is
+ * scoped to the user so the webhook's conversation memory is per user.
+ */
+export async function askHRWebhook(
+  user: AuthUser,
+  question: string,
+  conversationId: string,
+): Promise<HRAnswer> {
+  const url = new URL(GTEL_HR_API_URL);
+  url.searchParams.set('text', question);
+  url.searchParams.set('session_id', `${user.id}:${conversationId}`);
+  url.searchParams.set('user_id', user.id);
+  url.searchParams.set('user_name', user.name);
+  url.searchParams.set('user_role', user.role);
+
+  const res = await fetch(url.toString(), {
+    headers: GTEL_HR_API_TOKEN ? { Authorization: `Bearer ${GTEL_HR_API_TOKEN}` } : undefined,
+    signal: AbortSignal.timeout(HR_TIMEOUT_MS),
+    cache: 'no-store',
+  });
+  if (!res.ok) {
+    throw new Error(`Yêu cầu thông tin nhân sự thất bại: ${res.status}`);
+  }
+
+  const data: Partial<HRAnswer> = await res.json();
+  if (typeof data.output !== 'string' || !data.output) {
+    throw new Error('Phản hồi từ hệ thống nhân sự không hợp lệ.');
+  }
+
+  return { output: data.output };
+}
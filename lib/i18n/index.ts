@@ -0,0 +1,18 @@
+/**
+ * Locale subsystem: Vietnamese and English message catalogs for the chat
+ * panel, map popups and tool results, and per-locale settings for Google
+ * requests and speech recognition. The locale is also sent with every agent
+ * step so the prompts and the answer use it (see PROMPTS in lib/prompts.ts),
+ * and as `Accept-Language` so API errors use it (see getRequestLocale).
+ */
+
+export {
+  DEFAULT_LOCALE,
+  LOCALES,
+  LOCALE_SETTINGS,
+  getRequestLocale,
+  isLocale,
+  type LocaleSettings,
+} from './locales';
+export { isMessageKey, translate, type MessageKey, type MessageParams } from './translate';
+export { localeActions, localeState, t, useLocale, useTranslation, type Translator } from './store';
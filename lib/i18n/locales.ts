@@ -0,0 +1,48 @@
+/**
+ * Supported locales and what each one changes outside the message catalogs.
+ */
+
+import type { Locale } from '@/types';
+
+export const LOCALES: Locale[] = ['vi', 'en'];
+export const DEFAULT_LOCALE: Locale = 'vi';
+
+export interface LocaleSettings {
+  /** Name in its own language, shown in the locale switcher */
+  label: string;
+  /** `language` parameter of Google Maps requests */
+  googleLanguage: string;
+  /** BCP 47 tag for browser speech recognition */
+  speechLang: string;
+}
+
+export const LOCALE_SETTINGS: Record<Locale, LocaleSettings> = {
+  vi: { label: 'Tiếng Việt', googleLanguage: 'vi', speechLang: 'vi-VN' },
+  en: { label: 'English', googleLanguage: 'en', speechLang: 'en-US' },
+};
+
+export function isLocale(value: unknown): value is Locale {
+  return LOCALES.includes(value as Locale);
+}
+
+/**
+ * Locale for server responses, from the request's `Accept-Language`: the
+ * highest-weighted supported language, otherwise DEFAULT_LOCALE. The client
+ * sends the UI locale in this header (the browser's own value does not follow
+ * the locale switcher).
+ */
+export function getRequestLocale(request: Request): Locale {
+  const ranges = (request.headers.get('accept-language') ?? '')
+    .split(',')
+    .map((part) => {
+      const [tag, ...options] = part.trim().split(';');
+      const weight = options.find((option) => option.trim().startsWith('q='));
+      return {
+        language: tag.split('-')[0].toLowerCase(),
+        q: weight ? Number(weight.trim().slice(2)) : 1,
+      };
+    })
+    .filter((range) => isLocale(range.language) && range.q > 0)
+    .sort((a, b) => b.q - a.q);
+  return ranges.length > 0 ? (ranges[0].language as Locale) : DEFAULT_LOCALE;
+}
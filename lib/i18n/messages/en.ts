@@ -0,0 +1,284 @@
+/**
+ * English catalog.
+ */
+
+import type { Messages } from './vi';
+
+export const en: Messages = {
+  // ── Chat Panel ─────────────────────────────────────────────────────
+  'chat.welcome':
+    '👋 Hi! I am GTEL Maps Copilot.\nI can find places, give directions for your means of travel and search for places nearby.\n\nTry: "Find a coffee shop nearby".',
+  'chat.quickCommand.company': 'Which province is GTEL OTS in?',
+  'chat.quickCommand.location': 'Where am I right now?',
+  'chat.quickCommand.directions': 'Directions to Tan Son Nhat airport',
+  'chat.quickCommand.nearby': 'Nearest coffee shop',
+  'chat.status.processing': 'Working...',
+  'chat.status.listening': 'Listening...',
+  'chat.status.ready': 'Ready',
+  'chat.newConversation': 'New conversation',
+  'chat.close': 'Close',
+  'chat.language': 'Language',
+  'chat.inputPlaceholder': 'Ask me to control the map...',
+  'chat.inputLabel': 'Chat input',
+  'chat.send': 'Send',
+  'chat.stop': 'Stop',
+  'chat.stopTitle': 'Stop the request',
+  'chat.mapNotReady': 'The map is not ready yet. Please wait a moment.',
+  'chat.mapRequestDone': 'I have finished your request on the map.',
+  'chat.stopped': '⏹️ Request stopped.',
+  'chat.stoppedRestored':
+    '⏹️ Request stopped. The map is back to how it was before you sent the message.',
+  'chat.agentStep': 'Step {step}/{maxSteps} · ',
+  'chat.toolRunning': 'I am {action}...',
+  'chat.toolsRunning': 'Running {count} actions:',
+  'chat.analyzing': 'analyzing the results',
+  'chat.edit': '✏️ Edit',
+  'chat.editLabel': 'Edit message',
+  'chat.cancel': 'Cancel',
+  'chat.resend': 'Resend',
+  'chat.retry': '↻ Retry',
+  'chat.regenerate': '↻ Regenerate answer',
+
+  // ── Account ────────────────────────────────────────────────────────
+  'auth.login': 'Log in',
+  'auth.logout': 'Log out',
+
+  // ── Errors ─────────────────────────────────────────────────────────
+  'error.generic': 'Something went wrong. Please try again.',
+  'error.unknown': 'Unknown error',
+  'error.unknownCause': 'Unknown cause',
+  'error.apiFailed': 'Could not call the API.',
+  'error.rateLimited':
+    'You are sending requests a little too fast, so I need a short break. Please try again in {wait}.',
+  'error.waitSeconds': 'about {seconds} seconds',
+  'error.waitMinutes': 'a few minutes',
+  'error.tooLarge':
+    'This conversation or message is too long for me to handle. Please shorten it or start a new conversation.',
+  'error.streamInterrupted': 'The connection was interrupted before the full response arrived.',
+  'error.sessionUpdate': 'Could not update the conversation session.',
+
+  // ── API Errors ─────────────────────────────────────────────────────
+  'api.unknownError': 'An unknown error occurred.',
+  'api.invalidRequest': 'Invalid request.',
+  'api.invalidJson': 'Invalid request: the body is not JSON.',
+  'api.rateLimited': 'You are sending requests too fast. Please try again in {seconds} seconds.',
+  'api.bodyTooLarge': 'The request is too large (at most {maxBytes} bytes).',
+  'api.tooManyMessages': 'The request has too many messages (at most {max}).',
+  'api.messageTooLong': 'A message is too long (at most {max} characters).',
+  'api.tooManyTokens': 'The request exceeds the limit of {max} tokens.',
+  'api.agentLoginRequired': 'Please log in to use the map assistant.',
+  'api.missingMessages': 'Invalid request: a messages array is required.',
+  'api.invalidMessageContent': 'Invalid request: message content must be a string.',
+  'api.invalidTurn':
+    'The conversation turn is invalid or has expired. Please send the request again.',
+  'api.invalidSessionId': 'Invalid conversation session ID.',
+  'api.sessionNotFound': 'The conversation session does not exist or has been deleted.',
+  'api.sessionCreateFailed': 'Could not create a new conversation session.',
+  'api.sessionReadFailed': 'Could not read the conversation session.',
+  'api.missingMessageId': 'Invalid request: a messageId is required.',
+  'api.hrLoginRequired': 'Please log in to look up HR information.',
+  'api.hrForbidden': 'Your account is not allowed to look up HR information.',
+  'api.hrInvalidRequest': 'Invalid request: a question and a conversationId are required.',
+  'api.hrUnavailable': 'The HR system is not responding. Please try again later.',
+  'api.mapsRateLimited': 'You have sent too many map requests. Please try again in a few minutes.',
+  'api.mapsInvalidId': 'Invalid identifier.',
+  'api.mapsMissingParam': 'Missing required parameter: {name}.',
+  'api.mapsMissingKey': '{name} is missing on the server. Please set it in the .env file.',
+  'api.mapsUnavailable': 'Could not reach the map service.',
+  'api.mapsUpstreamError': 'The map service returned error {status}.',
+  'api.mapsImageFailed': 'Could not load the image.',
+  'api.authNotConfigured': 'AUTH_SECRET is not configured. Please add it to the .env file.',
+  'api.loginRateLimited':
+    'Too many failed sign-in attempts. Please try again in {seconds} seconds.',
+  'api.loginMissingCredentials': 'Please enter your username and password.',
+  'api.loginInvalidCredentials': 'Incorrect username or password.',
+  'api.loginFailed': 'Unable to sign in right now.',
+  'api.adminNotConfigured': 'ADMIN_API_TOKEN is not configured. Please add it to the .env file.',
+  'api.adminUnauthorized': 'You do not have access to the admin pages.',
+  'api.adminInvalidDate': 'Invalid date: use the YYYY-MM-DD or ISO 8601 format.',
+  'api.adminInvalidEventType': 'Invalid event type. Choose one of: {types}.',
+  'api.adminInvalidCacheKey': 'Invalid cache key.',
+  'api.adminCacheEntryNotFound': 'Cache entry not found.',
+
+  // ── LLM Providers ──────────────────────────────────────────────────
+  'llm.apiError': '{provider} API error: {error}',
+  'llm.noResponse': 'No response was received from {provider}.',
+  'llm.missingOpenRouterKey': 'OPENROUTER_API_KEY is not set. Please add it to .env.local or .env.',
+  'llm.missingLocalModel': 'LOCAL_LLM_MODEL is not set for the "local" provider.',
+  'llm.fixtureRecordProvider': 'LLM_FIXTURE_RECORD_PROVIDER cannot be "fixture".',
+  'llm.unsupportedProvider': 'The LLM provider "{id}" is not supported. Choose one of: {ids}.',
+
+  // ── Voice Input ────────────────────────────────────────────────────
+  'voice.start': 'Start voice input',
+  'voice.stop': 'Stop voice input',
+  'voice.pressToTalk': 'Press to talk',
+  'voice.unsupportedTitle': 'This browser does not support voice input',
+  'voice.unsupported': 'This browser does not support voice input.',
+  'voice.noSpeech': 'I could not hear you clearly. Please try again.',
+  'voice.notAllowed': 'The browser has no permission to use the microphone.',
+  'voice.noMicrophone': 'No microphone was found.',
+  'voice.error': 'Voice input error: {error}',
+  'voice.startFailed': 'Could not start voice input: {error}',
+  'voice.startFailedGeneric': 'Could not start voice input.',
+
+  // ── Tool Actions (progress bubbles) ────────────────────────────────
+  'toolAction.searchPlace': 'searching for the place',
+  'toolAction.searchBoundary': 'looking up the administrative boundary',
+  'toolAction.getDirections': 'drawing the directions',
+  'toolAction.optimizeRoute': 'optimizing the route',
+  'toolAction.selectRoute': 'switching the route',
+  'toolAction.nearbySearch': 'searching for places nearby',
+  'toolAction.getUserLocation': 'finding your location',
+  'toolAction.getMapCenter': 'reading the map center',
+  'toolAction.askHR': 'looking up GTEL HR information',
+  'toolAction.unknown': 'handling the request ({name})',
+
+  // ── Directions Modes ───────────────────────────────────────────────
+  'directionsMode.driving': 'driving',
+  'directionsMode.walking': 'walking',
+  'directionsMode.bicycling': 'cycling',
+  'directionsMode.transit': 'public transport',
+  'directionsMode.motorbike': 'motorbike',
+
+  // ── Directions Avoidances ──────────────────────────────────────────
+  'directionsAvoid.tolls': 'toll roads',
+  'directionsAvoid.highways': 'highways',
+  'directionsAvoid.ferries': 'ferries',
+
+  // ── Tool Results ───────────────────────────────────────────────────
+  'tool.unsupported': 'The tool "{tool}" is not supported.',
+  'tool.failed': 'The tool "{tool}" failed: {error}',
+  'tool.notExecuted': 'The tool was not run.',
+  'tool.searchPlace.found': 'Found "{query}" at {name}.',
+  'tool.searchPlace.foundWithAddress': 'Found "{query}" at {name} ({address}).',
+  'tool.boundary.shown': 'Showing the administrative boundary of {name} ({nameEn}) — {level}.',
+  'tool.directions.start': 'From:',
+  'tool.directions.end': 'To:',
+  'tool.directions.drawn':
+    'Drew the {mode} route from "{from}" to "{to}" ({distance}, about {duration}).',
+  'tool.directions.waypoint': 'Stop {index}:',
+  'tool.directions.drawnVia':
+    'Drew the {mode} route from "{from}" to "{to}" via {count} stops ({distance}, about {duration}).',
+  'tool.directions.leg': 'Leg {index}: {from} → {to} ({distance}, about {duration}).',
+  'tool.directions.alternatives':
+    'There are {count} routes; route 1 is highlighted and the others are shown in grey.',
+  'tool.directions.routeOption': 'Route {index}: {roads} — {distance}, about {duration}.',
+  'tool.directions.unnamedRoute': 'main roads unknown',
+  'tool.directions.durationWithTraffic': '{traffic} in traffic, {freeFlow} without traffic',
+  'tool.directions.avoiding': 'The route avoids {avoid}.',
+  'tool.directions.schedule': 'Leaving {departure}, arriving around {arrival}.',
+  'tool.directions.noTraffic':
+    'Google has no traffic forecast for this route, so the duration is without traffic.',
+  'tool.selectRoute.noAlternatives':
+    'The map has no directions with alternative routes yet. Ask for directions between two places first.',
+  'tool.selectRoute.invalidIndex': 'There is no route {index}; the directions have {count} routes.',
+  'tool.selectRoute.selected':
+    'Selected route {index}/{count}: {roads} ({distance}, about {duration}).',
+  'tool.optimizeRoute.drawn':
+    'Put {count} stops in the best order and drew the {mode} route from "{start}" ({distance}, about {duration}).',
+  'tool.optimizeRoute.drawnRoundTrip':
+    'Put {count} stops in the best order and drew the {mode} round trip from "{start}" ({distance}, about {duration}).',
+  'tool.optimizeRoute.order': 'Order: {order}.',
+  'tool.optimizeRoute.saved': 'Compared with the given order, this saves about {saving}.',
+  'tool.optimizeRoute.alreadyOptimal': 'The given order was already the best one.',
+  'tool.optimizeRoute.straightLine':
+    'Travel times between the stops were unavailable, so the order is based on straight-line distances.',
+  'tool.nearby.missingCriteria':
+    'You have not said what to look for nearby. Please add a keyword or a type of place (for example: parking, coffee shop).',
+  'tool.nearby.mapCenter': 'the current map center',
+  'tool.nearby.currentLocation': 'your current location',
+  'tool.nearby.none': 'No places found within the {radius}m buffer around {center}.',
+  'tool.nearby.allFiltered':
+    ' The API returned {count} places but none of them match the current filters.',
+  'tool.nearby.found': 'Found {count} places within {radius}m of {center}. ',
+  'tool.nearby.showingAll': 'Showing all {count} on the map.',
+  'tool.nearby.showingLimited': 'As requested, showing {count} on the map.',
+  'tool.location.stopped': 'Location lookup stopped.',
+  'tool.location.found': 'Found your location: [{lng}, {lat}]',
+  'tool.location.error': 'Location error: {error}',
+  'tool.mapCenter': 'Current map center: [{lng}, {lat}], zoom level: {zoom}.',
+  'tool.hr.attendanceLocation': 'Attendance location #{index}',
+
+  // ── Tool Arguments ─────────────────────────────────────────────────
+  'toolArgs.notObject': 'The arguments must be a JSON object.',
+  'toolArgs.invalidJson': 'The arguments are not valid JSON: {error}.',
+  'toolArgs.parseError': 'parse error',
+  'toolArgs.type': '"{path}" must be of type {expected}, got {received}.',
+  'toolArgs.enum': '"{path}" must be one of: {values}.',
+  'toolArgs.minimum': '"{path}" must be ≥ {min}.',
+  'toolArgs.maximum': '"{path}" must be ≤ {max}.',
+  'toolArgs.minItems': '"{path}" needs at least {min} items, got {count}.',
+  'toolArgs.maxItems': '"{path}" has at most {max} items, got {count}.',
+  'toolArgs.required': 'Missing required argument "{name}".',
+  'toolArgs.invalid': 'Invalid arguments for the tool "{tool}": {issues}',
+
+  // ── Route Comparison Panel ─────────────────────────────────────────
+  'routes.title': 'Routes',
+  'routes.option': 'Route {index}',
+  'routes.recommended': 'Recommended',
+  'routes.hint': 'Click a route (in the list or on the map) to select it.',
+  'routes.durationWithTraffic': '{traffic} ({freeFlow} without traffic)',
+
+  // ── Itinerary Panel ────────────────────────────────────────────────
+  'itinerary.title': 'Turn-by-turn directions',
+  'itinerary.summary': '{count} steps · {distance} · {duration}',
+  'itinerary.leg': 'Leg {index}',
+  'itinerary.expand': 'Show the turn-by-turn directions',
+  'itinerary.collapse': 'Hide the turn-by-turn directions',
+
+  // ── Geolocation ────────────────────────────────────────────────────
+  'geo.unsupported': 'This browser does not support GPS location.',
+  'geo.permissionDenied': 'You denied access to your location. Please allow it and try again.',
+  'geo.failed': 'Could not get your current location: {error}',
+
+  // ── Google Maps API ────────────────────────────────────────────────
+  'google.textSearchFailed': 'Text search request failed',
+  'google.textSearchError': 'Text Search error ({status}): {error}',
+  'google.noResults': 'No results found for "{query}"',
+  'google.invalidCoordinates': 'No valid coordinates were returned for "{query}".',
+  'google.directionsFailed': 'Directions request failed',
+  'google.directionsError': 'Directions error ({status}): {error}',
+  'google.noRoute': 'No route found from "{from}" to "{to}".',
+  'google.invalidRoute': 'No valid route data was returned from "{from}" to "{to}".',
+  'google.routeDecodeFailed': 'Could not decode the route from "{from}" to "{to}".',
+  'google.unknownValue': 'unknown',
+  'google.distanceMeters': '{meters} m',
+  'google.distanceKm': '{km} km',
+  'google.durationMinutes': '{minutes} min',
+  'google.durationHours': '{hours} h {minutes} min',
+  'google.distanceMatrixFailed': 'Distance matrix request failed',
+  'google.transitWaypoints':
+    'Public transport routes cannot have stops. Choose another means of travel or remove the stops.',
+  'google.arrivalTimeTransitOnly':
+    'Google only plans routes by arrival time for public transport. For other means of travel, give a departure time.',
+  'google.departureAndArrival': 'Give either a departure time or an arrival time, not both.',
+  'google.invalidTime':
+    'Could not understand the time "{value}". Please give a clear time, for example: "7am tomorrow".',
+  'google.pastTime': 'The time "{value}" has already passed. Please choose an upcoming time.',
+  'google.currentLocation': 'Your current location',
+  'google.motorbikeNote':
+    'Google Directions has no motorbike mode, so the route is estimated with the driving mode.',
+  'google.nearbyMissingCriteria': 'At least one search condition is required: keyword or type.',
+  'google.nearbyFailed': 'Nearby search request failed',
+  'google.nearbyError': 'Nearby search error ({status}): {error}',
+
+  // ── GTEL Maps / HR API ─────────────────────────────────────────────
+  'gtel.camerasFailed': 'Nearby traffic camera request failed',
+  'gtel.camerasError': 'Nearby camera error ({status}).',
+  'gtel.provincesFailed': 'Province list request failed',
+  'gtel.boundaryFailed': 'Administrative boundary request failed',
+  'gtel.invalidBoundary': 'The administrative boundary data is invalid.',
+  'gtel.hrFailed': 'HR information request failed',
+  'gtel.invalidHRResponse': 'The HR system returned an invalid response.',
+
+  // ── Places / Popups ────────────────────────────────────────────────
+  'place.default': 'Place',
+  'place.noAddress': 'No address',
+  'place.trafficCamera': 'Traffic camera',
+  'place.openNow': 'Open now',
+  'place.closedNow': 'Closed now',
+  'place.distance': '{km} km away',
+  'place.coordinates': 'Coordinates: {lat}, {lng}',
+  'place.nearbyMarker': 'Nearby place {index}: {name}',
+  'place.yourLocation': '📍 Your location',
+};
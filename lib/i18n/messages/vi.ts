@@ -0,0 +1,287 @@
+/**
+ * Vietnamese catalog — the reference set of message keys.
+ */
+
+export const vi = {
+  // ── Chat Panel ─────────────────────────────────────────────────────
+  'chat.welcome':
+    '👋 Chào bạn! Mình là GTEL Maps Copilot.\nMình có thể giúp bạn tìm địa điểm, chỉ đường theo phương tiện và tìm địa điểm lân cận.\n\nBạn có thể thử: "Tìm quán cà phê gần đây".',
+  'chat.quickCommand.company': 'Công ty GTEL OTS ở tỉnh thành nào?',
+  'chat.quickCommand.location': 'Vị trí hiện tại của tôi?',
+  'chat.quickCommand.directions': 'Chỉ đường đến sân bay Tân Sơn Nhất',
+  'chat.quickCommand.nearby': 'Quán cafe gần nhất',
+  'chat.status.processing': 'Đang xử lý...',
+  'chat.status.listening': 'Đang nghe...',
+  'chat.status.ready': 'Sẵn sàng',
+  'chat.newConversation': 'Cuộc trò chuyện mới',
+  'chat.close': 'Đóng',
+  'chat.language': 'Ngôn ngữ',
+  'chat.inputPlaceholder': 'Hãy yêu cầu mình điều khiển bản đồ...',
+  'chat.inputLabel': 'Ô nhập chat',
+  'chat.send': 'Gửi',
+  'chat.stop': 'Dừng',
+  'chat.stopTitle': 'Dừng yêu cầu',
+  'chat.mapNotReady': 'Bản đồ chưa sẵn sàng. Vui lòng đợi một chút.',
+  'chat.mapRequestDone': 'Mình đã xử lý xong yêu cầu trên bản đồ.',
+  'chat.stopped': '⏹️ Đã dừng yêu cầu.',
+  'chat.stoppedRestored':
+    '⏹️ Đã dừng yêu cầu. Bản đồ đã được đưa về như trước khi bạn gửi tin nhắn.',
+  'chat.agentStep': 'Bước {step}/{maxSteps} · ',
+  'chat.toolRunning': 'Mình đang {action}...',
+  'chat.toolsRunning': 'Mình đang chạy {count} thao tác:',
+  'chat.analyzing': 'đang phân tích kết quả',
+  'chat.edit': '✏️ Sửa',
+  'chat.editLabel': 'Sửa tin nhắn',
+  'chat.cancel': 'Hủy',
+  'chat.resend': 'Gửi lại',
+  'chat.retry': '↻ Thử lại',
+  'chat.regenerate': '↻ Tạo lại câu trả lời',
+
+  // ── Account ────────────────────────────────────────────────────────
+  'auth.login': 'Đăng nhập',
+  'auth.logout': 'Đăng xuất',
+
+  // ── Errors ─────────────────────────────────────────────────────────
+  'error.generic': 'Đã xảy ra lỗi. Vui lòng thử lại.',
+  'error.unknown': 'Lỗi không xác định',
+  'error.unknownCause': 'Không rõ nguyên nhân',
+  'error.apiFailed': 'Không thể gọi API.',
+  'error.rateLimited':
+    'Bạn đang gửi yêu cầu hơi nhanh nên mình cần nghỉ một chút. Bạn thử lại sau {wait} nhé.',
+  'error.waitSeconds': 'khoảng {seconds} giây',
+  'error.waitMinutes': 'ít phút',
+  'error.tooLarge':
+    'Cuộc trò chuyện hoặc tin nhắn này quá dài để mình xử lý. Bạn hãy rút gọn nội dung hoặc bắt đầu cuộc trò chuyện mới nhé.',
+  'error.streamInterrupted': 'Kết nối bị gián đoạn trước khi nhận đủ phản hồi.',
+  'error.sessionUpdate': 'Không thể cập nhật phiên hội thoại.',
+
+  // ── API Errors ─────────────────────────────────────────────────────
+  'api.unknownError': 'Đã xảy ra lỗi không xác định.',
+  'api.invalidRequest': 'Yêu cầu không hợp lệ.',
+  'api.invalidJson': 'Yêu cầu không hợp lệ: nội dung không phải JSON.',
+  'api.rateLimited': 'Bạn đang gửi yêu cầu quá nhanh. Vui lòng thử lại sau {seconds} giây.',
+  'api.bodyTooLarge': 'Yêu cầu quá lớn (tối đa {maxBytes} byte).',
+  'api.tooManyMessages': 'Yêu cầu có quá nhiều tin nhắn (tối đa {max}).',
+  'api.messageTooLong': 'Tin nhắn quá dài (tối đa {max} ký tự).',
+  'api.tooManyTokens': 'Yêu cầu vượt quá giới hạn {max} token.',
+  'api.agentLoginRequired': 'Vui lòng đăng nhập để sử dụng trợ lý bản đồ.',
+  'api.missingMessages': 'Yêu cầu không hợp lệ: cần có mảng messages.',
+  'api.invalidMessageContent': 'Yêu cầu không hợp lệ: nội dung tin nhắn phải là chuỗi.',
+  'api.invalidTurn': 'Lượt hội thoại không hợp lệ hoặc đã hết hạn. Vui lòng gửi lại yêu cầu.',
+  'api.invalidSessionId': 'Mã phiên hội thoại không hợp lệ.',
+  'api.sessionNotFound': 'Phiên hội thoại không tồn tại hoặc đã bị xóa.',
+  'api.sessionCreateFailed': 'Không thể tạo phiên hội thoại mới.',
+  'api.sessionReadFailed': 'Không thể đọc phiên hội thoại.',
+  'api.missingMessageId': 'Yêu cầu không hợp lệ: cần có messageId.',
+  'api.hrLoginRequired': 'Vui lòng đăng nhập để tra cứu thông tin nhân sự.',
+  'api.hrForbidden': 'Tài khoản của bạn không có quyền tra cứu thông tin nhân sự.',
+  'api.hrInvalidRequest': 'Yêu cầu không hợp lệ: cần có question và conversationId.',
+  'api.hrUnavailable': 'Hệ thống nhân sự không phản hồi. Vui lòng thử lại sau.',
+  'api.mapsRateLimited': 'Bạn đã gửi quá nhiều yêu cầu bản đồ. Vui lòng thử lại sau ít phút.',
+  'api.mapsInvalidId': 'Mã định danh không hợp lệ.',
+  'api.mapsMissingParam': 'Thiếu tham số bắt buộc: {name}.',
+  'api.mapsMissingKey': 'Thiếu {name} trên máy chủ. Vui lòng cấu hình trong file .env.',
+  'api.mapsUnavailable': 'Không thể kết nối dịch vụ bản đồ.',
+  'api.mapsUpstreamError': 'Dịch vụ bản đồ trả về lỗi {status}.',
+  'api.mapsImageFailed': 'Không tải được hình ảnh.',
+  'api.authNotConfigured': 'AUTH_SECRET chưa được cấu hình. Vui lòng thêm vào file .env.',
+  'api.loginRateLimited': 'Đăng nhập sai quá nhiều lần. Vui lòng thử lại sau {seconds} giây.',
+  'api.loginMissingCredentials': 'Vui lòng nhập tên đăng nhập và mật khẩu.',
+  'api.loginInvalidCredentials': 'Tên đăng nhập hoặc mật khẩu không đúng.',
+  'api.loginFailed': 'Không thể đăng nhập lúc này.',
+  'api.adminNotConfigured': 'ADMIN_API_TOKEN chưa được cấu hình. Vui lòng thêm vào file .env.',
+  'api.adminUnauthorized': 'Không có quyền truy cập trang quản trị.',
+  'api.adminInvalidDate': 'Ngày không hợp lệ: dùng định dạng YYYY-MM-DD hoặc ISO 8601.',
+  'api.adminInvalidEventType': 'Loại sự kiện không hợp lệ. Chọn một trong: {types}.',
+  'api.adminInvalidCacheKey': 'Khóa cache không hợp lệ.',
+  'api.adminCacheEntryNotFound': 'Không tìm thấy mục cache.',
+
+  // ── LLM Providers ──────────────────────────────────────────────────
+  'llm.apiError': 'Lỗi {provider} API: {error}',
+  'llm.noResponse': 'Không nhận được phản hồi từ {provider}.',
+  'llm.missingOpenRouterKey':
+    'OPENROUTER_API_KEY chưa được cấu hình. Vui lòng thêm vào file .env.local hoặc .env.',
+  'llm.missingLocalModel': 'LOCAL_LLM_MODEL chưa được cấu hình cho provider "local".',
+  'llm.fixtureRecordProvider': 'LLM_FIXTURE_RECORD_PROVIDER không thể là "fixture".',
+  'llm.unsupportedProvider': 'LLM provider "{id}" không được hỗ trợ. Chọn một trong: {ids}.',
+
+  // ── Voice Input ────────────────────────────────────────────────────
+  'voice.start': 'Bật nhập giọng nói',
+  'voice.stop': 'Dừng nhập giọng nói',
+  'voice.pressToTalk': 'Nhấn để nói',
+  'voice.unsupportedTitle': 'Trình duyệt chưa hỗ trợ nhập giọng nói',
+  'voice.unsupported': 'Trình duyệt hiện tại chưa hỗ trợ nhập giọng nói.',
+  'voice.noSpeech': 'Không nghe rõ giọng nói. Bạn thử lại nhé.',
+  'voice.notAllowed': 'Bạn chưa cấp quyền micro cho trình duyệt.',
+  'voice.noMicrophone': 'Không tìm thấy thiết bị micro.',
+  'voice.error': 'Voice input lỗi: {error}',
+  'voice.startFailed': 'Không thể bật voice input: {error}',
+  'voice.startFailedGeneric': 'Không thể bật voice input.',
+
+  // ── Tool Actions (progress bubbles) ────────────────────────────────
+  'toolAction.searchPlace': 'tìm địa điểm',
+  'toolAction.searchBoundary': 'tìm ranh giới hành chính',
+  'toolAction.getDirections': 'vẽ chỉ đường',
+  'toolAction.optimizeRoute': 'tối ưu lộ trình',
+  'toolAction.selectRoute': 'đổi tuyến đường',
+  'toolAction.nearbySearch': 'tìm địa điểm lân cận',
+  'toolAction.getUserLocation': 'xác định vị trí của bạn',
+  'toolAction.getMapCenter': 'lấy tâm bản đồ',
+  'toolAction.askHR': 'tra cứu nhân sự GTEL',
+  'toolAction.unknown': 'xử lý yêu cầu ({name})',
+
+  // ── Directions Modes ───────────────────────────────────────────────
+  'directionsMode.driving': 'ô tô',
+  'directionsMode.walking': 'đi bộ',
+  'directionsMode.bicycling': 'xe đạp',
+  'directionsMode.transit': 'phương tiện công cộng',
+  'directionsMode.motorbike': 'xe máy',
+
+  // ── Directions Avoidances ──────────────────────────────────────────
+  'directionsAvoid.tolls': 'đường có thu phí',
+  'directionsAvoid.highways': 'đường cao tốc',
+  'directionsAvoid.ferries': 'phà',
+
+  // ── Tool Results ───────────────────────────────────────────────────
+  'tool.unsupported': 'Không hỗ trợ công cụ "{tool}".',
+  'tool.failed': 'Công cụ "{tool}" gặp lỗi: {error}',
+  'tool.notExecuted': 'Công cụ chưa được thực thi.',
+  'tool.searchPlace.found': 'Đã tìm thấy "{query}" tại {name}.',
+  'tool.searchPlace.foundWithAddress': 'Đã tìm thấy "{query}" tại {name} ({address}).',
+  'tool.boundary.shown': 'Đã hiển thị ranh giới hành chính của {name} ({nameEn}) — {level}.',
+  'tool.directions.start': 'Điểm đi:',
+  'tool.directions.end': 'Điểm đến:',
+  'tool.directions.drawn':
+    'Đã vẽ lộ trình {mode} từ "{from}" đến "{to}" ({distance}, khoảng {duration}).',
+  'tool.directions.waypoint': 'Điểm dừng {index}:',
+  'tool.directions.drawnVia':
+    'Đã vẽ lộ trình {mode} từ "{from}" đến "{to}" qua {count} điểm dừng ({distance}, khoảng {duration}).',
+  'tool.directions.leg': 'Chặng {index}: {from} → {to} ({distance}, khoảng {duration}).',
+  'tool.directions.alternatives':
+    'Có {count} tuyến đường; tuyến 1 đang được tô đậm, các tuyến còn lại hiển thị màu xám.',
+  'tool.directions.routeOption': 'Tuyến {index}: {roads} — {distance}, khoảng {duration}.',
+  'tool.directions.unnamedRoute': 'chưa rõ đường chính',
+  'tool.directions.durationWithTraffic':
+    '{traffic} khi có giao thông, {freeFlow} khi đường thông thoáng',
+  'tool.directions.avoiding': 'Lộ trình đã tránh {avoid}.',
+  'tool.directions.schedule': 'Khởi hành {departure}, dự kiến đến nơi {arrival}.',
+  'tool.directions.noTraffic':
+    'Google không có dự báo giao thông cho lộ trình này nên thời gian trên là khi đường thông thoáng.',
+  'tool.selectRoute.noAlternatives':
+    'Bản đồ chưa có lộ trình nào có tuyến thay thế. Hãy chỉ đường giữa hai địa điểm trước.',
+  'tool.selectRoute.invalidIndex': 'Không có tuyến {index}; lộ trình hiện có {count} tuyến.',
+  'tool.selectRoute.selected':
+    'Đã chọn tuyến {index}/{count}: {roads} ({distance}, khoảng {duration}).',
+  'tool.optimizeRoute.drawn':
+    'Đã sắp xếp {count} điểm dừng theo thứ tự tối ưu và vẽ lộ trình {mode} từ "{start}" ({distance}, khoảng {duration}).',
+  'tool.optimizeRoute.drawnRoundTrip':
+    'Đã sắp xếp {count} điểm dừng theo thứ tự tối ưu và vẽ lộ trình {mode} từ "{start}" rồi quay về ({distance}, khoảng {duration}).',
+  'tool.optimizeRoute.order': 'Thứ tự: {order}.',
+  'tool.optimizeRoute.saved': 'So với thứ tự ban đầu, tiết kiệm khoảng {saving}.',
+  'tool.optimizeRoute.alreadyOptimal': 'Thứ tự ban đầu đã là thứ tự tốt nhất.',
+  'tool.optimizeRoute.straightLine':
+    'Không lấy được thời gian di chuyển giữa các điểm nên thứ tự được tính theo khoảng cách đường chim bay.',
+  'tool.nearby.missingCriteria':
+    'Bạn chưa nêu rõ cần tìm gì lân cận. Hãy nói thêm từ khóa hoặc loại địa điểm (ví dụ: bãi gửi xe, quán cà phê).',
+  'tool.nearby.mapCenter': 'tâm bản đồ hiện tại',
+  'tool.nearby.currentLocation': 'vị trí hiện tại của bạn',
+  'tool.nearby.none':
+    'Không tìm thấy kết quả lân cận trong vùng buffer bán kính {radius}m quanh {center}.',
+  'tool.nearby.allFiltered':
+    ' API trả về {count} điểm nhưng không điểm nào đạt điều kiện lọc hiện tại.',
+  'tool.nearby.found':
+    'Đã tìm thấy {count} địa điểm lân cận trong bán kính {radius}m quanh {center}. ',
+  'tool.nearby.showingAll': 'Đang hiển thị toàn bộ {count} điểm trên bản đồ.',
+  'tool.nearby.showingLimited': 'Theo yêu cầu, đang hiển thị {count} điểm trên bản đồ.',
+  'tool.location.stopped': 'Đã dừng định vị.',
+  'tool.location.found': 'Đã xác định vị trí của bạn: [{lng}, {lat}]',
+  'tool.location.error': 'Lỗi định vị: {error}',
+  'tool.mapCenter': 'Tâm bản đồ hiện tại: [{lng}, {lat}], mức zoom: {zoom}.',
+  'tool.hr.attendanceLocation': 'Vị trí chấm công #{index}',
+
+  // ── Tool Arguments ─────────────────────────────────────────────────
+  'toolArgs.notObject': 'Tham số phải là một JSON object.',
+  'toolArgs.invalidJson': 'Tham số không phải JSON hợp lệ: {error}.',
+  'toolArgs.parseError': 'lỗi phân tích',
+  'toolArgs.type': '"{path}" phải có kiểu {expected}, nhận được {received}.',
+  'toolArgs.enum': '"{path}" phải là một trong: {values}.',
+  'toolArgs.minimum': '"{path}" phải ≥ {min}.',
+  'toolArgs.maximum': '"{path}" phải ≤ {max}.',
+  'toolArgs.minItems': '"{path}" cần ít nhất {min} phần tử, nhận được {count}.',
+  'toolArgs.maxItems': '"{path}" có tối đa {max} phần tử, nhận được {count}.',
+  'toolArgs.required': 'Thiếu tham số bắt buộc "{name}".',
+  'toolArgs.invalid': 'Tham số cho công cụ "{tool}" không hợp lệ: {issues}',
+
+  // ── Route Comparison Panel ─────────────────────────────────────────
+  'routes.title': 'Các tuyến đường',
+  'routes.option': 'Tuyến {index}',
+  'routes.recommended': 'Đề xuất',
+  'routes.hint': 'Nhấn vào một tuyến (trong danh sách hoặc trên bản đồ) để chọn.',
+  'routes.durationWithTraffic': '{traffic} (thông thoáng: {freeFlow})',
+
+  // ── Itinerary Panel ────────────────────────────────────────────────
+  'itinerary.title': 'Lộ trình chi tiết',
+  'itinerary.summary': '{count} bước · {distance} · {duration}',
+  'itinerary.leg': 'Chặng {index}',
+  'itinerary.expand': 'Mở lộ trình chi tiết',
+  'itinerary.collapse': 'Thu gọn lộ trình chi tiết',
+
+  // ── Geolocation ────────────────────────────────────────────────────
+  'geo.unsupported': 'Trình duyệt hiện tại không hỗ trợ định vị GPS.',
+  'geo.permissionDenied':
+    'Bạn đã từ chối quyền truy cập vị trí. Vui lòng cho phép định vị rồi thử lại.',
+  'geo.failed': 'Không thể lấy vị trí hiện tại: {error}',
+
+  // ── Google Maps API ────────────────────────────────────────────────
+  'google.textSearchFailed': 'Yêu cầu text search thất bại',
+  'google.textSearchError': 'Text Search lỗi ({status}): {error}',
+  'google.noResults': 'Không tìm thấy kết quả cho "{query}"',
+  'google.invalidCoordinates': 'Không nhận được tọa độ hợp lệ cho "{query}".',
+  'google.directionsFailed': 'Yêu cầu chỉ đường thất bại',
+  'google.directionsError': 'Directions lỗi ({status}): {error}',
+  'google.noRoute': 'Không tìm thấy lộ trình từ "{from}" đến "{to}".',
+  'google.invalidRoute': 'Không nhận được dữ liệu lộ trình hợp lệ từ "{from}" đến "{to}".',
+  'google.routeDecodeFailed': 'Không thể giải mã tuyến đường từ "{from}" đến "{to}".',
+  'google.unknownValue': 'không rõ',
+  'google.distanceMeters': '{meters} m',
+  'google.distanceKm': '{km} km',
+  'google.durationMinutes': '{minutes} phút',
+  'google.durationHours': '{hours} giờ {minutes} phút',
+  'google.distanceMatrixFailed': 'Yêu cầu ma trận khoảng cách thất bại',
+  'google.transitWaypoints':
+    'Lộ trình bằng phương tiện công cộng không hỗ trợ điểm dừng. Hãy chọn phương tiện khác hoặc bỏ các điểm dừng.',
+  'google.arrivalTimeTransitOnly':
+    'Google chỉ lập lộ trình theo giờ đến cho phương tiện công cộng. Với phương tiện khác, hãy cho biết giờ khởi hành.',
+  'google.departureAndArrival': 'Chỉ chọn giờ khởi hành hoặc giờ đến, không chọn cả hai.',
+  'google.invalidTime': 'Không hiểu thời điểm "{value}". Hãy nói rõ giờ, ví dụ: "7h sáng mai".',
+  'google.pastTime': 'Thời điểm "{value}" đã qua. Hãy chọn một thời điểm sắp tới.',
+  'google.currentLocation': 'Vị trí hiện tại của bạn',
+  'google.motorbikeNote':
+    'Google Directions không có mode xe máy riêng, nên hệ thống đang ước tính theo mode lái xe.',
+  'google.nearbyMissingCriteria':
+    'Bạn cần cung cấp ít nhất một điều kiện tìm kiếm: keyword hoặc type.',
+  'google.nearbyFailed': 'Yêu cầu nearby search thất bại',
+  'google.nearbyError': 'Nearby search lỗi ({status}): {error}',
+
+  // ── GTEL Maps / HR API ─────────────────────────────────────────────
+  'gtel.camerasFailed': 'Yêu cầu nearby camera giao thông thất bại',
+  'gtel.camerasError': 'Nearby camera lỗi ({status}).',
+  'gtel.provincesFailed': 'Yêu cầu danh sách tỉnh thành thất bại',
+  'gtel.boundaryFailed': 'Yêu cầu ranh giới hành chính thất bại',
+  'gtel.invalidBoundary': 'Dữ liệu ranh giới hành chính không hợp lệ.',
+  'gtel.hrFailed': 'Yêu cầu thông tin nhân sự thất bại',
+  'gtel.invalidHRResponse': 'Phản hồi từ hệ thống nhân sự không hợp lệ.',
+
+  // ── Places / Popups ────────────────────────────────────────────────
+  'place.default': 'Địa điểm',
+  'place.noAddress': 'Không có địa chỉ',
+  'place.trafficCamera': 'Camera giao thông',
+  'place.openNow': 'Đang mở cửa',
+  'place.closedNow': 'Hiện đang đóng cửa',
+  'place.distance': 'Cách {km} km',
+  'place.coordinates': 'Tọa độ: {lat}, {lng}',
+  'place.nearbyMarker': 'Địa điểm lân cận {index}: {name}',
+  'place.yourLocation': '📍 Vị trí của bạn',
+};
+
+export type Messages = typeof vi;
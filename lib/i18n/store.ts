@@ -0,0 +1,74 @@
+/**
+ * Current locale — powered by Zustand.
+ *
+ * Components read it with `useLocale` / `useTranslation` and re-render on a
+ * switch; non-React code (tools.ts, the API modules) reads `localeState` or
+ * calls `t`. The choice is kept in localStorage.
+ */
+
+import { useCallback } from 'react';
+import { create } from 'zustand';
+import type { Locale } from '@/types';
+import { DEFAULT_LOCALE, isLocale } from './locales';
+import { translate, type MessageKey, type MessageParams } from './translate';
+
+const LOCALE_STORAGE_KEY = 'gtel-maps-copilot:locale';
+
+interface LocaleStore {
+  locale: Locale;
+  setLocale: (locale: Locale) => void;
+}
+
+const useLocaleStore = create<LocaleStore>((set) => ({
+  locale: DEFAULT_LOCALE,
+  setLocale: (locale) => set({ locale }),
+}));
+
+function applyLocale(locale: Locale): void {
+  useLocaleStore.getState().setLocale(locale);
+  document.documentElement.lang = locale;
+}
+
+// ── Imperative API (non-React code) ──────────────────────────────────
+
+export const localeState = {
+  get locale() {
+    return useLocaleStore.getState().locale;
+  },
+};
+
+export const localeActions = {
+  /** Switch the locale and remember the choice */
+  setLocale: (locale: Locale) => {
+    applyLocale(locale);
+    window.localStorage.setItem(LOCALE_STORAGE_KEY, locale);
+  },
+  /** Apply the remembered choice; call after mount so the first render matches the server's */
+  restore: () => {
+    const stored = window.localStorage.getItem(LOCALE_STORAGE_KEY);
+    if (isLocale(stored)) applyLocale(stored);
+  },
+};
+
+/** Translate in the current locale */
+export function t(key: MessageKey, params?: MessageParams): string {
+  return translate(localeState.locale, key, params);
+}
+
+// ── React Hooks ──────────────────────────────────────────────────────
+
+export function useLocale(): Locale {
+  return useLocaleStore((s) => s.locale);
+}
+
+export type Translator = (key: MessageKey, params?: MessageParams) => string;
+
+/** `t` bound to the current locale */
+export function useTranslation(): { locale: Locale; t: Translator } {
+  const locale = useLocale();
+  const translateKey = useCallback<Translator>(
+    (key: MessageKey, params?: MessageParams) => translate(locale, key, params),
+    [locale],
+  );
+  return { locale, t: translateKey };
+}
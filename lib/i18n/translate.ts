@@ -0,0 +1,27 @@
+/**
+ * Message lookup. Catalogs are flat `namespace.name` keys with `{param}`
+ * placeholders; the Vietnamese catalog defines the keys and every other
+ * catalog must provide all of them.
+ */
+
+import type { Locale } from '@/types';
+import { vi, type Messages } from './messages/vi';
+import { en } from './messages/en';
+
+export type MessageKey = keyof Messages;
+export type MessageParams = Record<string, string | number>;
+
+const CATALOGS: Record<Locale, Messages> = { vi, en };
+
+export function isMessageKey(key: string): key is MessageKey {
+  return Object.prototype.hasOwnProperty.call(vi, key);
+}
+
+/** Catalog text for `key` with its `{param}` placeholders filled in */
+export function translate(locale: Locale, key: MessageKey, params?: MessageParams): string {
+  const text = CATALOGS[locale][key];
+  if (!params) return text;
+  return text.replace(/\{(\w+)\}/g, (placeholder, name: string) =>
+    name in params ? String(params[name]) : placeholder,
+  );
+}
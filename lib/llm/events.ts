@@ -0,0 +1,16 @@
+/**
+ * Stream-event helpers shared by LLM providers.
+ */
+
+import type { LLMCompletion, LLMStreamEvent } from './types';
+
+/** Replay a finished completion as stream events (non-streaming providers) */
+export function emitCompletion(
+  completion: Pick<LLMCompletion, 'reply' | 'toolCalls'>,
+  onEvent: (event: LLMStreamEvent) => void,
+): void {
+  completion.toolCalls.forEach((toolCall, index) => {
+    onEvent({ type: 'tool_call', index, id: toolCall.id, name: toolCall.name });
+  });
+  if (completion.reply) onEvent({ type: 'delta', text: completion.reply });
+}
@@ -0,0 +1,57 @@
+/**
+ * Fallback chain: try providers in order until one completes.
+ *
+ * A provider is only skipped while it has not produced any output yet — once
+ * a delta or tool call has reached the client, switching providers would mix
+ * two answers, so the error is surfaced instead. A cancelled request is never
+ * retried on the next provider.
+ */
+
+import type {
+  LLMCapabilities,
+  LLMCompletion,
+  LLMProvider,
+  LLMRequest,
+  LLMStreamEvent,
+} from './types';
+
+export class FallbackProvider implements LLMProvider {
+  readonly id: string;
+  readonly model: string;
+  readonly capabilities: LLMCapabilities;
+
+  constructor(private readonly providers: LLMProvider[]) {
+    if (providers.length === 0) throw new Error('Chuỗi LLM dự phòng cần ít nhất một provider.');
+    const [primary] = providers;
+    this.id = primary.id;
+    this.model = primary.model;
+    this.capabilities = primary.capabilities;
+  }
+
+  async complete(
+    request: LLMRequest,
+    onEvent?: (event: LLMStreamEvent) => void,
+  ): Promise<LLMCompletion> {
+    let lastError: unknown = null;
+
+    for (const provider of this.providers) {
+      let emitted = false;
+      const forward = onEvent
+        ? (event: LLMStreamEvent) => {
+            emitted = true;
+            onEvent(event);
+          }
+        : undefined;
+
+      try {
+        return await provider.complete(request, forward);
+      } catch (error) {
+        if (emitted || request.signal?.aborted) throw error;
+        lastError = error;
+        console.warn(`[llm] Provider "${provider.id}" failed, trying next fallback:`, error);
+      }
+    }
+
+    throw lastError;
+  }
+}
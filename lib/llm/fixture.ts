@@ -0,0 +1,262 @@
+/**
+ * Fixture provider — replays canned tool calls and replies keyed by the user's
+ * utterance, so the chat → tool → map flow runs with no LLM network calls.
+ *
+ * Fixture files are JSON or YAML (picked by extension):
+ *
+ *   fixtures:
+ *     - name: search-bitexco
+ *       match: Tìm Bitexco             # exact, case/whitespace-insensitive
+ *       steps:
+ *         - toolCalls: [{ name: searchPlace, arguments: { query: Bitexco } }]
+ *         - reply: <p>Đã tìm thấy Bitexco.</p>
+ *     - pattern: ^tìm (.+)$            # regex; $1..$9 are substituted
+ *       steps:
+ *         - toolCalls: [{ name: searchPlace, arguments: { query: $1 } }]
+ *
+ * Steps are picked like the scripted provider (one per agent-loop step).
+ * Utterances without a fixture are appended to an "unmatched" JSONL file. In
+ * record mode every call goes to an upstream provider and its completion is
+ * written back into the fixture file for later replay.
+ */
+
+import { appendFile, mkdir, readFile, writeFile } from 'node:fs/promises';
+import { dirname, extname } from 'node:path';
+import yaml from 'js-yaml';
+import { DEFAULT_LOCALE } from '@/lib/i18n';
+import { parseToolArguments } from '@/lib/toolValidation';
+import { emitCompletion } from './events';
+import {
+  buildScriptedCompletion,
+  countScriptedSteps,
+  getLastUserText,
+  type ScriptedStep,
+} from './scripted';
+import type {
+  LLMCapabilities,
+  LLMCompletion,
+  LLMProvider,
+  LLMRequest,
+  LLMStreamEvent,
+} from './types';
+
+// ── Types ────────────────────────────────────────────────────────────
+
+export type FixtureMode = 'replay' | 'record';
+
+export interface Fixture {
+  name?: string;
+  /** Exact utterance (compared after trimming, lower-casing and collapsing spaces) */
+  match?: string;
+  /** Regular expression tested against the raw utterance */
+  pattern?: string;
+  /** Regex flags, default `i` */
+  flags?: string;
+  steps: ScriptedStep[];
+}
+
+interface FixtureFile {
+  fixtures: Fixture[];
+}
+
+export interface FixtureProviderConfig {
+  file: string;
+  unmatchedFile: string;
+  mode: FixtureMode;
+  /** Provider whose responses are captured in record mode */
+  upstream?: LLMProvider;
+}
+
+interface FixtureMatch {
+  fixture: Fixture;
+  groups: string[];
+}
+
+// ── Matching ─────────────────────────────────────────────────────────
+
+export function normalizeUtterance(text: string): string {
+  return text.normalize('NFC').trim().toLowerCase().replace(/\s+/g, ' ');
+}
+
+/** Exact matches win over patterns; among patterns the first in file order wins */
+export function findFixture(fixtures: Fixture[], utterance: string): FixtureMatch | null {
+  const normalized = normalizeUtterance(utterance);
+
+  const exact = fixtures.find((f) => f.match && normalizeUtterance(f.match) === normalized);
+  if (exact) return { fixture: exact, groups: [] };
+
+  for (const fixture of fixtures) {
+    if (!fixture.pattern) continue;
+    const result = new RegExp(fixture.pattern, fixture.flags ?? 'i').exec(utterance.trim());
+    if (result) return { fixture, groups: result.slice(1).map((g) => g ?? '') };
+  }
+
+  return null;
+}
+
+/** Replace `$1`..`$9` in every string of a step with the regex capture groups */
+function substituteGroups<T>(value: T, groups: string[]): T {
+  if (groups.length === 0) return value;
+  if (typeof value === 'string') {
+    return value.replace(/\$(\d)/g, (token, n: string) => groups[Number(n) - 1] ?? token) as T;
+  }
+  if (Array.isArray(value)) return value.map((item) => substituteGroups(item, groups)) as T;
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, substituteGroups(item, groups)]),
+    ) as T;
+  }
+  return value;
+}
+
+// ── File I/O ─────────────────────────────────────────────────────────
+
+function isYamlFile(filePath: string): boolean {
+  return ['.yaml', '.yml'].includes(extname(filePath).toLowerCase());
+}
+
+export async function loadFixtures(filePath: string): Promise<Fixture[]> {
+  let raw: string;
+  try {
+    raw = await readFile(filePath, 'utf8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+    throw error;
+  }
+
+  const parsed = (isYamlFile(filePath) ? yaml.load(raw) : JSON.parse(raw)) as
+    | FixtureFile
+    | Fixture[]
+    | null;
+  const fixtures = Array.isArray(parsed) ? parsed : parsed?.fixtures;
+  if (!Array.isArray(fixtures)) {
+    throw new Error(`File fixture "${filePath}" phải chứa mảng "fixtures".`);
+  }
+  return fixtures;
+}
+
+async function saveFixtures(filePath: string, fixtures: Fixture[]): Promise<void> {
+  const data: FixtureFile = { fixtures };
+  const content = isYamlFile(filePath)
+    ? yaml.dump(data, { lineWidth: 120, noRefs: true })
+    : `${JSON.stringify(data, null, 2)}\n`;
+  await mkdir(dirname(filePath), { recursive: true });
+  await writeFile(filePath, content, 'utf8');
+}
+
+// ── Provider ─────────────────────────────────────────────────────────
+
+export class FixtureProvider implements LLMProvider {
+  readonly id = 'fixture';
+  readonly model: string;
+  readonly capabilities: LLMCapabilities;
+
+  private fixtures: Promise<Fixture[]> | null = null;
+  /** Serializes writes so concurrent requests do not clobber the files */
+  private writeQueue: Promise<void> = Promise.resolve();
+  private readonly reportedUnmatched = new Set<string>();
+
+  constructor(private readonly config: FixtureProviderConfig) {
+    if (config.mode === 'record' && !config.upstream) {
+      throw new Error('Chế độ ghi fixture cần một provider nguồn (LLM_FIXTURE_RECORD_PROVIDER).');
+    }
+    this.model = config.mode === 'record' ? `record:${config.file}` : config.file;
+    this.capabilities = config.upstream?.capabilities ?? {
+      supportsTools: true,
+      supportsParallelToolCalls: true,
+      supportsStreaming: false,
+    };
+  }
+
+  async complete(
+    request: LLMRequest,
+    onEvent?: (event: LLMStreamEvent) => void,
+  ): Promise<LLMCompletion> {
+    if (this.config.mode === 'record' && this.config.upstream) {
+      const completion = await this.config.upstream.complete(request, onEvent);
+      this.enqueueWrite(() => this.recordCompletion(request, completion));
+      return completion;
+    }
+
+    const utterance = getLastUserText(request.messages);
+    const match = findFixture(await this.getFixtures(), utterance);
+
+    let completion: LLMCompletion;
+    if (match) {
+      const step = match.fixture.steps[countScriptedSteps(request.messages)] ?? null;
+      completion = buildScriptedCompletion(
+        step && substituteGroups(step, match.groups),
+        request,
+        this.id,
+        this.model,
+      );
+    } else {
+      this.reportUnmatched(utterance);
+      completion = {
+        ...buildScriptedCompletion(null, request, this.id, this.model),
+        reply: `<p>Chưa có fixture cho yêu cầu: <strong>${utterance}</strong>.</p>`,
+      };
+    }
+
+    if (onEvent) emitCompletion(completion, onEvent);
+    return completion;
+  }
+
+  private getFixtures(): Promise<Fixture[]> {
+    this.fixtures ??= loadFixtures(this.config.file).catch((error) => {
+      this.fixtures = null;
+      throw error;
+    });
+    return this.fixtures;
+  }
+
+  private enqueueWrite(task: () => Promise<void>): void {
+    this.writeQueue = this.writeQueue.then(task).catch((error) => {
+      console.error('[llm:fixture] Write error:', error);
+    });
+  }
+
+  private reportUnmatched(utterance: string): void {
+    const key = normalizeUtterance(utterance);
+    if (!key || this.reportedUnmatched.has(key)) return;
+    this.reportedUnmatched.add(key);
+
+    const line = `${JSON.stringify({ utterance, recordedAt: new Date().toISOString() })}\n`;
+    this.enqueueWrite(async () => {
+      await mkdir(dirname(this.config.unmatchedFile), { recursive: true });
+      await appendFile(this.config.unmatchedFile, line, 'utf8');
+    });
+  }
+
+  /** Store the completion as step N of the exact-match fixture for the utterance */
+  private async recordCompletion(request: LLMRequest, completion: LLMCompletion): Promise<void> {
+    const utterance = getLastUserText(request.messages);
+    if (!utterance.trim()) return;
+
+    const fixtures = await loadFixtures(this.config.file);
+    let fixture = fixtures.find(
+      (f) => f.match && normalizeUtterance(f.match) === normalizeUtterance(utterance),
+    );
+    if (!fixture) {
+      fixture = { match: utterance.trim(), steps: [] };
+      fixtures.push(fixture);
+    }
+
+    const step: ScriptedStep = {};
+    if (completion.reply) step.reply = completion.reply;
+    if (completion.toolCalls.length > 0) {
+      step.toolCalls = completion.toolCalls.map((tc) => ({
+        name: tc.name,
+        arguments: parseToolArguments(tc.arguments, DEFAULT_LOCALE).arguments,
+      }));
+    }
+
+    const index = countScriptedSteps(request.messages);
+    fixture.steps[index] = step;
+    // Later steps belonged to a previous recording of this turn
+    fixture.steps.length = index + 1;
+
+    await saveFixtures(this.config.file, fixtures);
+    this.fixtures = null;
+  }
+}
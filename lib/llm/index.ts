@@ -0,0 +1,153 @@
+/**
+ * LLM provider registry for the map agent.
+ *
+ * `LLM_PROVIDER` selects the primary backend (`openrouter` by default, `local`
+ * for a self-hosted OpenAI-compatible server, `scripted` / `fixture` for
+ * deterministic offline runs). `LLM_FALLBACK_PROVIDERS` lists backends tried,
+ * in order, when the primary fails before producing output. Configuration
+ * errors are written in the locale of the request that hit them.
+ */
+
+import { OpenAICompatibleProvider } from './openai-compatible';
+import { ScriptedProvider, loadScript } from './scripted';
+import { FixtureProvider, type FixtureMode } from './fixture';
+import { FallbackProvider } from './fallback';
+import type { LLMProvider } from './types';
+import type { Locale } from '@/types';
+import { translate } from '@/lib/i18n';
+
+export type { LLMCapabilities, LLMCompletion, LLMProvider, LLMRequest, LLMStreamEvent } from './types';
+
+// ── Configuration ────────────────────────────────────────────────────
+
+export const LLM_PROVIDER_IDS = ['openrouter', 'local', 'scripted', 'fixture'] as const;
+export type LLMProviderId = (typeof LLM_PROVIDER_IDS)[number];
+
+function parseBooleanEnv(value: string | undefined, fallback: boolean): boolean {
+  if (value === undefined || value === '') return fallback;
+  return value === 'true';
+}
+
+function parseProviderList(value: string | undefined): string[] {
+  return (value || '')
+    .split(',')
+    .map((id) => id.trim().toLowerCase())
+    .filter(Boolean);
+}
+
+function isProviderId(id: string): id is LLMProviderId {
+  return (LLM_PROVIDER_IDS as readonly string[]).includes(id);
+}
+
+// ── Factories ────────────────────────────────────────────────────────
+
+function createOpenRouterProvider(locale: Locale): LLMProvider {
+  const apiKey = process.env.OPENROUTER_API_KEY;
+  if (!apiKey) throw new Error(translate(locale, 'llm.missingOpenRouterKey'));
+
+  return new OpenAICompatibleProvider({
+    id: 'openrouter',
+    label: 'OpenRouter',
+    apiKey,
+    baseURL: process.env.OPENROUTER_BASE_URL || 'https://openrouter.ai/api/v1',
+    model: process.env.OPENROUTER_MODEL || 'openai/gpt-4o-mini',
+    capabilities: {
+      supportsTools: true,
+      supportsParallelToolCalls: true,
+      supportsStreaming: true,
+    },
+    defaultHeaders: {
+      'HTTP-Referer': process.env.OPENROUTER_SITE_URL || 'http://localhost:3000',
+      'X-Title': process.env.OPENROUTER_APP_NAME || 'GTEL Maps Copilot',
+    },
+  });
+}
+
+function createLocalProvider(locale: Locale): LLMProvider {
+  const model = process.env.LOCAL_LLM_MODEL;
+  if (!model) throw new Error(translate(locale, 'llm.missingLocalModel'));
+
+  return new OpenAICompatibleProvider({
+    id: 'local',
+    label: 'Local LLM',
+    // Self-hosted servers usually ignore the key, but the SDK requires one
+    apiKey: process.env.LOCAL_LLM_API_KEY || 'local',
+    baseURL: process.env.LOCAL_LLM_BASE_URL || 'http://localhost:11434/v1',
+    model,
+    capabilities: {
+      supportsTools: parseBooleanEnv(process.env.LOCAL_LLM_SUPPORTS_TOOLS, true),
+      supportsParallelToolCalls: parseBooleanEnv(
+        process.env.LOCAL_LLM_SUPPORTS_PARALLEL_TOOL_CALLS,
+        false,
+      ),
+      supportsStreaming: parseBooleanEnv(process.env.LOCAL_LLM_SUPPORTS_STREAMING, true),
+    },
+  });
+}
+
+function createScriptedProvider(): LLMProvider {
+  return new ScriptedProvider(loadScript(process.env.SCRIPTED_LLM_FILE));
+}
+
+function createFixtureProvider(locale: Locale): LLMProvider {
+  const mode: FixtureMode = process.env.LLM_FIXTURE_MODE === 'record' ? 'record' : 'replay';
+  const upstreamId = (process.env.LLM_FIXTURE_RECORD_PROVIDER || 'openrouter').trim().toLowerCase();
+  if (mode === 'record' && upstreamId === 'fixture') {
+    throw new Error(translate(locale, 'llm.fixtureRecordProvider'));
+  }
+
+  return new FixtureProvider({
+    file: process.env.LLM_FIXTURE_FILE || 'fixtures/map-agent.yaml',
+    unmatchedFile: process.env.LLM_FIXTURE_UNMATCHED_FILE || 'fixtures/unmatched.jsonl',
+    mode,
+    upstream: mode === 'record' ? createLLMProvider(upstreamId, locale) : undefined,
+  });
+}
+
+export function createLLMProvider(id: string, locale: Locale): LLMProvider {
+  if (!isProviderId(id)) {
+    throw new Error(
+      translate(locale, 'llm.unsupportedProvider', { id, ids: LLM_PROVIDER_IDS.join(', ') }),
+    );
+  }
+
+  switch (id) {
+    case 'openrouter':
+      return createOpenRouterProvider(locale);
+    case 'local':
+      return createLocalProvider(locale);
+    case 'scripted':
+      return createScriptedProvider();
+    case 'fixture':
+      return createFixtureProvider(locale);
+  }
+}
+
+// ── Public API ───────────────────────────────────────────────────────
+
+let _provider: LLMProvider | null = null;
+
+/**
+ * Primary provider wrapped with its fallback chain. A misconfigured primary
+ * throws (in `locale`); misconfigured fallbacks are skipped with a warning.
+ */
+export function getLLMProvider(locale: Locale): LLMProvider {
+  if (_provider) return _provider;
+
+  const primaryId = (process.env.LLM_PROVIDER || 'openrouter').trim().toLowerCase();
+  const primary = createLLMProvider(primaryId, locale);
+
+  const fallbacks = parseProviderList(process.env.LLM_FALLBACK_PROVIDERS)
+    .filter((id) => id !== primaryId)
+    .flatMap((id) => {
+      try {
+        return [createLLMProvider(id, locale)];
+      } catch (error) {
+        console.warn(`[llm] Skipping fallback provider "${id}":`, error);
+        return [];
+      }
+    });
+
+  _provider = fallbacks.length > 0 ? new FallbackProvider([primary, ...fallbacks]) : primary;
+  return _provider;
+}
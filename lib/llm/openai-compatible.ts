@@ -0,0 +1,231 @@
+/**
+ * Provider for any OpenAI-compatible chat-completions endpoint:
+ * OpenRouter, and self-hosted servers such as vLLM, llama.cpp or Ollama.
+ */
+
+import OpenAI from 'openai';
+import type { AgentTokenUsage, Locale } from '@/types';
+import { translate } from '@/lib/i18n';
+import { PROMPTS } from '@/lib/prompts';
+import type {
+  LLMCapabilities,
+  LLMCompletion,
+  LLMProvider,
+  LLMRawToolCall,
+  LLMRequest,
+  LLMStreamEvent,
+} from './types';
+import { emitCompletion } from './events';
+
+// ── Types ────────────────────────────────────────────────────────────
+
+export interface OpenAICompatibleConfig {
+  id: string;
+  /** Human-readable name used in error messages (e.g. "OpenRouter") */
+  label: string;
+  baseURL: string;
+  apiKey: string;
+  model: string;
+  capabilities: LLMCapabilities;
+  defaultHeaders?: Record<string, string>;
+}
+
+// ── Helpers ──────────────────────────────────────────────────────────
+
+function toTokenUsage(usage: OpenAI.Completions.CompletionUsage | undefined): AgentTokenUsage | null {
+  if (!usage) return null;
+  return {
+    promptTokens: usage.prompt_tokens,
+    completionTokens: usage.completion_tokens,
+    totalTokens: usage.total_tokens,
+  };
+}
+
+/**
+ * Servers without tool support reject `tool` messages and assistant
+ * `tool_calls`, so the tool history is folded into plain text turns, labelled
+ * in the request's locale.
+ */
+function flattenToolMessages(
+  messages: OpenAI.Chat.Completions.ChatCompletionMessageParam[],
+  locale: Locale,
+): OpenAI.Chat.Completions.ChatCompletionMessageParam[] {
+  const { toolResultLabel, toolCallsLabel } = PROMPTS[locale];
+  return messages.map((m): OpenAI.Chat.Completions.ChatCompletionMessageParam => {
+    if (m.role === 'tool') {
+      return { role: 'user', content: `${toolResultLabel}\n${m.content}` };
+    }
+    if (m.role === 'assistant' && m.tool_calls?.length) {
+      const calls = m.tool_calls
+        .map((tc) => `${tc.function.name}(${tc.function.arguments})`)
+        .join(', ');
+      return { role: 'assistant', content: `${m.content || ''}\n${toolCallsLabel} ${calls}`.trim() };
+    }
+    return m;
+  });
+}
+
+// ── Provider ─────────────────────────────────────────────────────────
+
+export class OpenAICompatibleProvider implements LLMProvider {
+  readonly id: string;
+  readonly label: string;
+  readonly model: string;
+  readonly capabilities: LLMCapabilities;
+
+  private readonly client: OpenAI;
+
+  constructor(config: OpenAICompatibleConfig) {
+    this.id = config.id;
+    this.label = config.label;
+    this.model = config.model;
+    this.capabilities = config.capabilities;
+    this.client = new OpenAI({
+      apiKey: config.apiKey,
+      baseURL: config.baseURL,
+      defaultHeaders: config.defaultHeaders,
+    });
+  }
+
+  async complete(
+    request: LLMRequest,
+    onEvent?: (event: LLMStreamEvent) => void,
+  ): Promise<LLMCompletion> {
+    try {
+      if (onEvent && this.capabilities.supportsStreaming) {
+        return await this.completeStreaming(request, onEvent);
+      }
+
+      const completion = await this.completeOnce(request);
+      if (onEvent) emitCompletion(completion, onEvent);
+      return completion;
+    } catch (error) {
+      if (error instanceof OpenAI.APIError) {
+        const message = translate(request.locale, 'llm.apiError', {
+          provider: this.label,
+          error: error.message,
+        });
+        throw new Error(message, { cause: error });
+      }
+      throw error;
+    }
+  }
+
+  private buildParams(
+    request: LLMRequest,
+  ): OpenAI.Chat.Completions.ChatCompletionCreateParamsNonStreaming {
+    const withTools = this.capabilities.supportsTools && Boolean(request.tools?.length);
+
+    return {
+      model: this.model,
+      messages: this.capabilities.supportsTools
+        ? request.messages
+        : flattenToolMessages(request.messages, request.locale),
+      temperature: request.temperature,
+      max_tokens: request.maxTokens,
+      ...(withTools
+        ? {
+            tools: request.tools,
+            tool_choice: request.toolChoice || 'auto',
+            ...(this.capabilities.supportsParallelToolCalls ? {} : { parallel_tool_calls: false }),
+          }
+        : {}),
+    };
+  }
+
+  private limitToolCalls(toolCalls: LLMRawToolCall[]): LLMRawToolCall[] {
+    return this.capabilities.supportsParallelToolCalls ? toolCalls : toolCalls.slice(0, 1);
+  }
+
+  private async completeOnce(request: LLMRequest): Promise<LLMCompletion> {
+    const completion = await this.client.chat.completions.create(this.buildParams(request), {
+      signal: request.signal,
+    });
+
+    const choice = completion.choices[0];
+    if (!choice) {
+      throw new Error(translate(request.locale, 'llm.noResponse', { provider: this.label }));
+    }
+
+    return {
+      reply: choice.message.content || '',
+      toolCalls: this.limitToolCalls(
+        (choice.message.tool_calls || []).map((tc) => ({
+          id: tc.id,
+          name: tc.function.name,
+          arguments: tc.function.arguments,
+        })),
+      ),
+      finishReason: choice.finish_reason,
+      usage: toTokenUsage(completion.usage),
+      provider: this.id,
+      model: completion.model || this.model,
+    };
+  }
+
+  /**
+   * Stream the completion: forward reply deltas and announce each tool call as
+   * soon as its name arrives, then resolve with the assembled completion.
+   */
+  private async completeStreaming(
+    request: LLMRequest,
+    onEvent: (event: LLMStreamEvent) => void,
+  ): Promise<LLMCompletion> {
+    const stream = await this.client.chat.completions.create(
+      {
+        ...this.buildParams(request),
+        stream: true,
+        stream_options: { include_usage: true },
+      },
+      { signal: request.signal },
+    );
+
+    let reply = '';
+    let model = this.model;
+    let finishReason: string | null = null;
+    let usage: AgentTokenUsage | null = null;
+    const pendingToolCalls: LLMRawToolCall[] = [];
+
+    for await (const chunk of stream) {
+      if (chunk.model) model = chunk.model;
+      if (chunk.usage) usage = toTokenUsage(chunk.usage);
+
+      const choice = chunk.choices[0];
+      if (!choice) continue;
+
+      if (choice.delta.content) {
+        reply += choice.delta.content;
+        onEvent({ type: 'delta', text: choice.delta.content });
+      }
+
+      for (const delta of choice.delta.tool_calls || []) {
+        const slot = (pendingToolCalls[delta.index] ??= { id: '', name: '', arguments: '' });
+        if (delta.id) slot.id = delta.id;
+        if (delta.function?.arguments) slot.arguments += delta.function.arguments;
+        if (delta.function?.name) {
+          const isNew = !slot.name;
+          slot.name += delta.function.name;
+          const announce = this.capabilities.supportsParallelToolCalls || delta.index === 0;
+          if (isNew && announce) {
+            onEvent({ type: 'tool_call', index: delta.index, id: slot.id, name: slot.name });
+          }
+        }
+      }
+
+      if (choice.finish_reason) finishReason = choice.finish_reason;
+    }
+
+    if (!reply && pendingToolCalls.length === 0 && !finishReason) {
+      throw new Error(translate(request.locale, 'llm.noResponse', { provider: this.label }));
+    }
+
+    return {
+      reply,
+      toolCalls: this.limitToolCalls(pendingToolCalls.filter((tc) => tc && tc.name)),
+      finishReason,
+      usage,
+      provider: this.id,
+      model,
+    };
+  }
+}
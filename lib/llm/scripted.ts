@@ -0,0 +1,172 @@
+/**
+ * Deterministic provider for tests and air-gapped demos — no network at all.
+ *
+ * Replies follow an optional script (`SCRIPTED_LLM_FILE`, a JSON array of
+ * steps). Step N of a turn is picked by counting the tool-calling assistant
+ * messages since the latest user message, mirroring the agent loop. Once the
+ * script runs out, the provider summarises the tool results it was given.
+ */
+
+import { readFileSync } from 'node:fs';
+import type OpenAI from 'openai';
+import { generateId } from '@/lib/utils';
+import { emitCompletion } from './events';
+import type {
+  LLMCapabilities,
+  LLMCompletion,
+  LLMProvider,
+  LLMRawToolCall,
+  LLMRequest,
+  LLMStreamEvent,
+} from './types';
+
+// ── Types ────────────────────────────────────────────────────────────
+
+type ChatMessageParam = OpenAI.Chat.Completions.ChatCompletionMessageParam;
+
+export interface ScriptedToolCall {
+  name: string;
+  arguments?: Record<string, unknown>;
+}
+
+export interface ScriptedStep {
+  reply?: string;
+  toolCalls?: ScriptedToolCall[];
+}
+
+// ── Message Helpers ──────────────────────────────────────────────────
+
+function contentToText(content: ChatMessageParam['content']): string {
+  if (typeof content === 'string') return content;
+  if (!Array.isArray(content)) return '';
+  return content.map((part) => ('text' in part ? part.text : '')).join('');
+}
+
+/** Index of the latest user message, or -1 */
+export function findLastUserIndex(messages: ChatMessageParam[]): number {
+  for (let i = messages.length - 1; i >= 0; i -= 1) {
+    if (messages[i].role === 'user') return i;
+  }
+  return -1;
+}
+
+/** Text of the latest user message */
+export function getLastUserText(messages: ChatMessageParam[]): string {
+  const index = findLastUserIndex(messages);
+  return index >= 0 ? contentToText(messages[index].content) : '';
+}
+
+/** Tool-calling assistant messages since the latest user message */
+export function countScriptedSteps(messages: ChatMessageParam[]): number {
+  return messages
+    .slice(findLastUserIndex(messages) + 1)
+    .filter((m) => m.role === 'assistant' && Boolean(m.tool_calls?.length)).length;
+}
+
+/** Tool-result messages since the latest user message */
+function getTurnToolResults(messages: ChatMessageParam[]): string[] {
+  return messages
+    .slice(findLastUserIndex(messages) + 1)
+    .filter((m) => m.role === 'tool')
+    .map((m) => contentToText(m.content));
+}
+
+function summarizeToolResult(raw: string): string {
+  try {
+    const parsed = JSON.parse(raw) as {
+      name?: string;
+      result?: { success?: boolean; message?: string };
+    };
+    const status = parsed.result?.success === false ? '❌' : '✅';
+    return `<li>${status} <strong>${parsed.name || 'tool'}</strong>: ${parsed.result?.message || ''}</li>`;
+  } catch {
+    return `<li>${raw}</li>`;
+  }
+}
+
+/**
+ * Fallback answer once the script is exhausted: list the tool results of the
+ * current turn, or acknowledge the request when no tool ran.
+ */
+export function buildScriptedSummary(messages: ChatMessageParam[]): string {
+  const toolResults = getTurnToolResults(messages);
+  if (toolResults.length === 0) {
+    return `<p>Đã nhận yêu cầu: <strong>${getLastUserText(messages)}</strong>. Chế độ kịch bản không có bước nào cho yêu cầu này.</p>`;
+  }
+  return `<p>Kết quả thực hiện:</p><ul>${toolResults.map(summarizeToolResult).join('')}</ul>`;
+}
+
+/** Convert scripted tool calls to the raw model format (arguments as a JSON string) */
+export function toRawToolCalls(toolCalls: ScriptedToolCall[] | undefined): LLMRawToolCall[] {
+  return (toolCalls || []).map((tc) => ({
+    id: `call_${generateId()}`,
+    name: tc.name,
+    arguments: JSON.stringify(tc.arguments || {}),
+  }));
+}
+
+/** Apply the request's tool policy to a canned step */
+export function buildScriptedCompletion(
+  step: ScriptedStep | null,
+  request: LLMRequest,
+  provider: string,
+  model: string,
+): LLMCompletion {
+  const toolsAllowed = Boolean(request.tools?.length) && request.toolChoice !== 'none';
+  const toolCalls = toolsAllowed ? toRawToolCalls(step?.toolCalls) : [];
+  const reply =
+    step?.reply ?? (toolCalls.length > 0 ? '' : buildScriptedSummary(request.messages));
+
+  return {
+    reply,
+    toolCalls,
+    finishReason: toolCalls.length > 0 ? 'tool_calls' : 'stop',
+    usage: null,
+    provider,
+    model,
+  };
+}
+
+// ── Script Loading ───────────────────────────────────────────────────
+
+export function loadScript(filePath: string | undefined): ScriptedStep[] {
+  if (!filePath) return [];
+  try {
+    const parsed = JSON.parse(readFileSync(filePath, 'utf8'));
+    if (!Array.isArray(parsed)) throw new Error('nội dung phải là một mảng các bước');
+    return parsed as ScriptedStep[];
+  } catch (error) {
+    throw new Error(
+      `Không đọc được kịch bản LLM "${filePath}": ${error instanceof Error ? error.message : 'lỗi không xác định'}.`,
+    );
+  }
+}
+
+// ── Provider ─────────────────────────────────────────────────────────
+
+export class ScriptedProvider implements LLMProvider {
+  readonly id = 'scripted';
+  readonly model: string;
+  readonly capabilities: LLMCapabilities = {
+    supportsTools: true,
+    supportsParallelToolCalls: true,
+    supportsStreaming: false,
+  };
+
+  constructor(
+    private readonly steps: ScriptedStep[],
+    model = 'scripted',
+  ) {
+    this.model = model;
+  }
+
+  async complete(
+    request: LLMRequest,
+    onEvent?: (event: LLMStreamEvent) => void,
+  ): Promise<LLMCompletion> {
+    const step = this.steps[countScriptedSteps(request.messages)] ?? null;
+    const completion = buildScriptedCompletion(step, request, this.id, this.model);
+    if (onEvent) emitCompletion(completion, onEvent);
+    return completion;
+  }
+}
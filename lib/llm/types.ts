@@ -0,0 +1,69 @@
+/**
+ * LLM provider contract used behind the map-agent loop.
+ *
+ * Messages and tool schemas use the OpenAI chat-completions shapes as the
+ * common format; providers that speak something else translate internally.
+ */
+
+import type OpenAI from 'openai';
+import type { AgentTokenUsage, Locale } from '@/types';
+
+// ── Capabilities ─────────────────────────────────────────────────────
+
+export interface LLMCapabilities {
+  /** Accepts `tools` / `tool_choice`; when false, tools are stripped and the model answers in text */
+  supportsTools: boolean;
+  /** May return several tool calls in one step; when false, only the first call is kept */
+  supportsParallelToolCalls: boolean;
+  /** Streams tokens upstream; when false, the finished completion is replayed as events */
+  supportsStreaming: boolean;
+}
+
+// ── Request / Response ───────────────────────────────────────────────
+
+export interface LLMRequest {
+  messages: OpenAI.Chat.Completions.ChatCompletionMessageParam[];
+  tools?: OpenAI.Chat.Completions.ChatCompletionTool[];
+  toolChoice?: 'auto' | 'none';
+  temperature: number;
+  maxTokens: number;
+  /** Language of the step: provider error messages and folded tool history use it */
+  locale: Locale;
+  /** Cancels the upstream request (e.g. when the client disconnects) */
+  signal?: AbortSignal;
+}
+
+/** Tool call as emitted by the model — arguments are still a raw JSON string */
+export interface LLMRawToolCall {
+  id: string;
+  name: string;
+  arguments: string;
+}
+
+export interface LLMCompletion {
+  reply: string;
+  toolCalls: LLMRawToolCall[];
+  finishReason: string | null;
+  usage: AgentTokenUsage | null;
+  /** Provider that actually produced the completion (differs from the primary after a fallback) */
+  provider: string;
+  model: string;
+}
+
+export type LLMStreamEvent =
+  | { type: 'delta'; text: string }
+  | { type: 'tool_call'; index: number; id: string; name: string };
+
+// ── Provider ─────────────────────────────────────────────────────────
+
+export interface LLMProvider {
+  readonly id: string;
+  readonly model: string;
+  readonly capabilities: LLMCapabilities;
+  /**
+   * Run one completion. When `onEvent` is given, reply deltas and tool-call
+   * announcements are reported through it — streamed if the provider supports
+   * streaming, otherwise replayed once the completion has finished.
+   */
+  complete(request: LLMRequest, onEvent?: (event: LLMStreamEvent) => void): Promise<LLMCompletion>;
+}
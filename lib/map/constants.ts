@@ -1,29 +1,46 @@
 /**
- * Map-related constants: API URLs, layer/source IDs, defaults, and labels.
+ * Map-related constants: API URLs, layer/source IDs, defaults, and patterns.
  */
 
 import type { DirectionsMode } from '@/types';
 
-// ── Google Maps API ──────────────────────────────────────────────────
+// ── Google Maps API (called server-side by lib/maps-proxy.ts) ────────
 
-export const GOOGLE_MAPS_API_KEY = process.env.NEXT_PUBLIC_GOOGLE_MAPS_API_KEY;
 export const GOOGLE_MAPS_TEXT_SEARCH_URL = 'https://maps.googleapis.com/maps/api/place/textsearch/json';
 export const GOOGLE_MAPS_PLACE_PHOTO_URL = 'https://maps.googleapis.com/maps/api/place/photo';
 export const GOOGLE_MAPS_DIRECTIONS_URL = 'https://maps.googleapis.com/maps/api/directions/json';
 export const GOOGLE_MAPS_NEARBY_SEARCH_URL = 'https://maps.googleapis.com/maps/api/place/nearbysearch/json';
+export const GOOGLE_MAPS_DISTANCE_MATRIX_URL = 'https://maps.googleapis.com/maps/api/distancematrix/json';
 
 // ── GTEL Maps API ────────────────────────────────────────────────────
+
+/** Browser key for the map style and tiles only — data APIs go through the proxy */
 export const GTEL_MAPS_API_KEY = process.env.NEXT_PUBLIC_GTEL_MAPS_API_KEY;
 export const GTEL_MAPS_STYLE_URL = 'https://maps.ots.vn/api/styles/v1/gtelmaps-streets-v1/style.json';
 export const GTEL_ADMIN_PROVINCES_URL = 'https://maps.ots.vn/api/admin-unit/provinces';
 export const GTEL_NEARBY_SEARCH_URL = 'https://maps.ots.vn/api/place/nearby-search';
 export const GTEL_CAMERA_PHOTO_URL = 'https://maps.ots.vn/api/layers/v1/camera_pt';
-export const GTEL_HR_API_URL = 'https://gis-n8n.gtelots.dev/webhook/aef276e1-5e9f-42a6-bf97-f378ba1157df';
+
+// ── Maps Proxy Routes (see app/api/maps) ─────────────────────────────
+
+export const MAPS_PROXY_TEXT_SEARCH_PATH = '/api/maps/google/textsearch';
+export const MAPS_PROXY_DIRECTIONS_PATH = '/api/maps/google/directions';
+export const MAPS_PROXY_DISTANCE_MATRIX_PATH = '/api/maps/google/distancematrix';
+export const MAPS_PROXY_NEARBY_SEARCH_PATH = '/api/maps/google/nearby';
+export const MAPS_PROXY_PLACE_PHOTO_PATH = '/api/maps/google/photo';
+export const MAPS_PROXY_PROVINCES_PATH = '/api/maps/gtel/provinces';
+export const MAPS_PROXY_CAMERAS_PATH = '/api/maps/gtel/cameras';
+
+/** HR questions (askHR) — the server adds the logged-in user, see app/api/hr */
+export const HR_API_PATH = '/api/hr';
 
 // ── Map Layer / Source IDs ───────────────────────────────────────────
 
 export const DIRECTIONS_SOURCE_ID = 'directions-route-source';
 export const DIRECTIONS_LAYER_ID = 'directions-route-layer';
+export const DIRECTIONS_ALTERNATIVES_LAYER_ID = 'directions-alternatives-layer';
+export const DIRECTIONS_STEP_SOURCE_ID = 'directions-step-source';
+export const DIRECTIONS_STEP_LAYER_ID = 'directions-step-layer';
 export const NEARBY_BUFFER_SOURCE_ID = 'nearby-buffer-source';
 export const NEARBY_BUFFER_FILL_LAYER_ID = 'nearby-buffer-fill-layer';
 export const NEARBY_BUFFER_OUTLINE_LAYER_ID = 'nearby-buffer-outline-layer';
@@ -34,7 +51,6 @@ export const BOUNDARY_OUTLINE_LAYER_ID = 'boundary-outline-layer';
 // ── Defaults ─────────────────────────────────────────────────────────
 
 export const DEFAULT_DIRECTIONS_MODE: DirectionsMode = 'driving';
-export const DEFAULT_LANGUAGE = 'vi';
 export const DEFAULT_NEARBY_RADIUS = 1000;
 export const MIN_NEARBY_RADIUS = 100;
 export const MAX_NEARBY_RADIUS = 50000;
@@ -60,25 +76,7 @@ export const CURRENT_LOCATION_PATTERNS = [
   'where i am now',
 ];
 
-// ── Labels ───────────────────────────────────────────────────────────
-
-export const DIRECTIONS_MODE_LABELS: Record<DirectionsMode, string> = {
-  driving: 'ô tô',
-  walking: 'đi bộ',
-  bicycling: 'xe đạp',
-  transit: 'phương tiện công cộng',
-  motorbike: 'xe máy',
-};
-
-export const TOOL_ACTION_LABELS: Record<string, string> = {
-  searchPlace: 'tìm địa điểm',
-  searchBoundary: 'tìm ranh giới hành chính',
-  getDirections: 'vẽ chỉ đường',
-  nearbySearch: 'tìm địa điểm lân cận',
-  getUserLocation: 'xác định vị trí của bạn',
-  getMapCenter: 'lấy tâm bản đồ',
-  askHR: 'tra cứu nhân sự GTEL',
-};
+export const CAMERA_KEYWORD_PATTERNS = ['camera', 'camera giao thong', 'cam giao thong', 'traffic camera'];
 
 export const GENERIC_PLACE_TYPES = new Set([
   'point_of_interest',
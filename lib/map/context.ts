@@ -0,0 +1,22 @@
+/**
+ * Map context sent with every /api/map-agent step — where the user is looking
+ * and where they are — so the server can key cached answers by location.
+ */
+
+import type { Map } from 'maplibre-gl';
+
+import type { AgentMapContext } from '@/types';
+import { markerState } from './marker-store';
+
+export function getAgentMapContext(map: Map): AgentMapContext {
+  const center = map.getCenter();
+  const userLocation = markerState.userLocation;
+
+  return {
+    center: { lat: center.lat, lng: center.lng },
+    zoom: map.getZoom(),
+    userLocation: userLocation
+      ? { lat: userLocation.lngLat[1], lng: userLocation.lngLat[0] }
+      : null,
+  };
+}
@@ -3,16 +3,18 @@
  * No side effects — these are stateless helpers.
  */
 
-import type { DirectionsMode } from '@/types';
+import type { DirectionsAvoid, DirectionsMode, NearbyPlaceType } from '@/types';
 import {
   EARTH_RADIUS_M,
   BUFFER_SEGMENTS,
   CURRENT_LOCATION_PATTERNS,
+  CAMERA_KEYWORD_PATTERNS,
   DEFAULT_DIRECTIONS_MODE,
   DEFAULT_NEARBY_RADIUS,
   MIN_NEARBY_RADIUS,
   MAX_NEARBY_RADIUS,
 } from './constants';
+import { t } from '../i18n';
 
 // ── Angle Conversions ────────────────────────────────────────────────
 
@@ -126,12 +128,36 @@ export function isCurrentLocationInput(value: string): boolean {
   return CURRENT_LOCATION_PATTERNS.some((pattern) => normalized.includes(pattern));
 }
 
-export async function getCurrentLocationCoordinates(): Promise<{ lng: number; lat: number }> {
+/** Nearby searches for traffic cameras go to GTEL instead of Google */
+export function isCameraNearbyRequest(
+  keyword?: string | null,
+  type?: NearbyPlaceType | null,
+): boolean {
+  if (type === 'traffic_camera') return true;
+  if (type) return false;
+  if (!keyword) return false;
+
+  const normalized = normalizeLocationText(keyword);
+  return CAMERA_KEYWORD_PATTERNS.some((pattern) => normalized.includes(pattern));
+}
+
+/**
+ * Current GPS position. Geolocation itself cannot be cancelled, so an aborted
+ * `signal` rejects right away and the late position is ignored.
+ */
+export async function getCurrentLocationCoordinates(
+  signal?: AbortSignal,
+): Promise<{ lng: number; lat: number }> {
   return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
     if (!navigator.geolocation) {
-      reject(new Error('Trình duyệt hiện tại không hỗ trợ định vị GPS.'));
+      reject(new Error(t('geo.unsupported')));
       return;
     }
+    signal?.addEventListener('abort', () => reject(signal.reason), { once: true });
 
     navigator.geolocation.getCurrentPosition(
       (position) => {
@@ -142,20 +168,54 @@ export async function getCurrentLocationCoordinates(): Promise<{ lng: number; la
       },
       (error) => {
         if (error.code === error.PERMISSION_DENIED) {
-          reject(
-            new Error(
-              'Bạn đã từ chối quyền truy cập vị trí. Vui lòng cho phép định vị rồi thử lại.',
-            ),
-          );
+          reject(new Error(t('geo.permissionDenied')));
           return;
         }
-        reject(new Error(`Không thể lấy vị trí hiện tại: ${error.message}`));
+        reject(new Error(t('geo.failed', { error: error.message })));
       },
       { enableHighAccuracy: true, timeout: 10000 },
     );
   });
 }
 
+// ── Geohash ──────────────────────────────────────────────────────────
+
+const GEOHASH_ALPHABET = '0123456789bcdefghjkmnpqrstuvwxyz';
+
+/** Standard base32 geohash; precision 6 ≈ 1.2 × 0.6 km cells */
+export function encodeGeohash(lat: number, lng: number, precision: number): string {
+  const latRange = [-90, 90];
+  const lngRange = [-180, 180];
+  let hash = '';
+  let bits = 0;
+  let bitCount = 0;
+  let evenBit = true;
+
+  while (hash.length < precision) {
+    const range = evenBit ? lngRange : latRange;
+    const value = evenBit ? lng : lat;
+    const mid = (range[0] + range[1]) / 2;
+
+    bits <<= 1;
+    if (value >= mid) {
+      bits |= 1;
+      range[0] = mid;
+    } else {
+      range[1] = mid;
+    }
+
+    evenBit = !evenBit;
+    bitCount += 1;
+    if (bitCount === 5) {
+      hash += GEOHASH_ALPHABET[bits];
+      bits = 0;
+      bitCount = 0;
+    }
+  }
+
+  return hash;
+}
+
 // ── Normalization Helpers ────────────────────────────────────────────
 
 export function normalizeNearbyRadius(radius?: number): number {
@@ -181,6 +241,13 @@ export function normalizeDirectionsMode(mode?: string): DirectionsMode {
   return (validModes.find((m) => m === normalized) as DirectionsMode) ?? DEFAULT_DIRECTIONS_MODE;
 }
 
+/** Known avoidances in a stable order, without duplicates */
+export function normalizeDirectionsAvoid(avoid?: string[]): DirectionsAvoid[] {
+  const requested = (avoid ?? []).map((value) => value.trim().toLowerCase());
+  const validAvoid: DirectionsAvoid[] = ['tolls', 'highways', 'ferries'];
+  return validAvoid.filter((value) => requested.includes(value));
+}
+
 /** Google Directions API has no dedicated "motorbike" mode — fall back to driving. */
 export function toGoogleDirectionsMode(
   mode: DirectionsMode,
@@ -1,29 +1,31 @@
 /**
  * Google Maps API interaction layer.
- * Handles text search, directions, and nearby search requests.
+ * Handles text search, directions, distance matrix and nearby search requests
+ * through the server-side proxy (/api/maps/google/*), which holds the API key.
  */
 
-import type { DirectionsMode, NearbyPlaceType } from '@/types';
+import type { DirectionsAvoid, DirectionsMode, NearbyPlaceType } from '@/types';
 import {
-  GOOGLE_MAPS_API_KEY,
-  GOOGLE_MAPS_TEXT_SEARCH_URL,
-  GOOGLE_MAPS_PLACE_PHOTO_URL,
-  GOOGLE_MAPS_DIRECTIONS_URL,
-  GOOGLE_MAPS_NEARBY_SEARCH_URL,
-  DEFAULT_LANGUAGE,
-  DIRECTIONS_MODE_LABELS,
+  MAPS_PROXY_TEXT_SEARCH_PATH,
+  MAPS_PROXY_PLACE_PHOTO_PATH,
+  MAPS_PROXY_DIRECTIONS_PATH,
+  MAPS_PROXY_DISTANCE_MATRIX_PATH,
+  MAPS_PROXY_NEARBY_SEARCH_PATH,
 } from './constants';
 import {
   isCurrentLocationInput,
   getCurrentLocationCoordinates,
   normalizeDirectionsMode,
+  normalizeDirectionsAvoid,
   toGoogleDirectionsMode,
   decodeGooglePolyline,
   normalizeNearbyRadius,
   normalizeMinRating,
   haversineDistanceMeters,
 } from './geo';
+import { parseTravelTime, type TravelTime } from './travel-time';
 import { generateId } from '../utils';
+import { LOCALE_SETTINGS, localeState, t } from '../i18n';
 
 // ── Google API Response Types ────────────────────────────────────────
 
@@ -45,12 +47,37 @@ interface GoogleDirectionsResponse {
   status?: string;
   error_message?: string;
   routes?: Array<{
+    summary?: string;
     overview_polyline?: { points?: string };
     legs?: Array<{
       distance?: { text?: string; value?: number };
       duration?: { text?: string; value?: number };
+      /** Only with `departure_time` and no stopover waypoints */
+      duration_in_traffic?: { text?: string; value?: number };
+      /** Transit only */
+      departure_time?: { text?: string; value?: number };
+      arrival_time?: { text?: string; value?: number };
       start_address?: string;
       end_address?: string;
+      steps?: Array<{
+        html_instructions?: string;
+        distance?: { text?: string; value?: number };
+        duration?: { text?: string; value?: number };
+        maneuver?: string;
+        polyline?: { points?: string };
+      }>;
+    }>;
+  }>;
+}
+
+interface GoogleDistanceMatrixResponse {
+  status?: string;
+  error_message?: string;
+  rows?: Array<{
+    elements?: Array<{
+      status?: string;
+      distance?: { text?: string; value?: number };
+      duration?: { text?: string; value?: number };
     }>;
   }>;
 }
@@ -88,17 +115,103 @@ export interface ResolvedPlace {
   photoUrl: string | null;
 }
 
+/** One stretch of a route, between two consecutive stops */
+export interface DirectionsLeg {
+  startAddress: string;
+  endAddress: string;
+  distanceText: string;
+  distanceMeters: number | null;
+  /** Free-flow duration */
+  durationText: string;
+  durationSeconds: number | null;
+  /** Duration with the predicted traffic; only when a departure time was given */
+  durationInTrafficText: string | null;
+  durationInTrafficSeconds: number | null;
+}
+
+/** Intermediate stop of a multi-stop route, as requested and as resolved */
+export interface DirectionsWaypoint {
+  query: string;
+  address: string;
+  lat: number;
+  lng: number;
+}
+
+/** One turn-by-turn instruction of a route */
+export interface DirectionsStep {
+  /** Plain text (Google's HTML markup removed) */
+  instruction: string;
+  distanceText: string;
+  distanceMeters: number | null;
+  durationText: string;
+  durationSeconds: number | null;
+  /** Google maneuver such as "turn-left" or "roundabout-right"; null when going straight on */
+  maneuver: string | null;
+  /** Leg the step belongs to (0-based) */
+  legIndex: number;
+  /** Segment of the route covered by the step */
+  coordinates: Array<[number, number]>;
+}
+
+/** One of the routes Google suggests between the same stops */
+export interface DirectionsRouteOption {
+  /** Main roads of the route (e.g. "QL1A và Võ Văn Kiệt"); may be empty */
+  summary: string;
+  coordinates: Array<[number, number]>;
+  distanceText: string;
+  distanceMeters: number | null;
+  durationText: string;
+  durationSeconds: number | null;
+  durationInTrafficText: string | null;
+  durationInTrafficSeconds: number | null;
+  steps: DirectionsStep[];
+}
+
+/** The recommended route; `routes` also lists the alternatives, recommended first */
 export interface DirectionsResult {
   coordinates: Array<[number, number]>;
+  /** Whole route (sum of the legs) */
   distanceText: string;
   distanceMeters: number | null;
   durationText: string;
   durationSeconds: number | null;
+  durationInTrafficText: string | null;
+  durationInTrafficSeconds: number | null;
   startAddress: string;
   endAddress: string;
+  waypoints: DirectionsWaypoint[];
+  legs: DirectionsLeg[];
+  /** Turn-by-turn instructions of the recommended route, across all legs */
+  steps: DirectionsStep[];
+  routes: DirectionsRouteOption[];
   mode: DirectionsMode;
   modeLabel: string;
   modeNote: string | null;
+  avoid: DirectionsAvoid[];
+  /** Requested times; `departureTimeText`/`arrivalTimeText` are the planned ones */
+  departureTime: TravelTime | null;
+  arrivalTime: Date | null;
+  departureTimeText: string | null;
+  arrivalTimeText: string | null;
+}
+
+/** How to route: means of travel, avoidances and a departure or arrival time */
+export interface DirectionsRequestOptions {
+  mode: DirectionsMode;
+  avoid?: DirectionsAvoid[];
+  departureTime?: TravelTime;
+  /** Google only plans transit routes by arrival time */
+  arrivalTime?: Date;
+}
+
+/**
+ * Travel costs between stops: `[i][j]` is from stop i to stop j. Straight-line
+ * matrices have no durations.
+ */
+export interface TravelMatrix {
+  source: 'google' | 'straight-line';
+  distanceMeters: number[][];
+  durationSeconds: number[][] | null;
 }
 
 export interface NearbyPlace {
@@ -128,59 +241,71 @@ export interface NearbySearchResult {
 
 // ── Helpers ──────────────────────────────────────────────────────────
 
-function assertApiKey(): string {
-  if (!GOOGLE_MAPS_API_KEY) {
-    throw new Error(
-      'Thiếu NEXT_PUBLIC_GOOGLE_MAPS_API_KEY. Vui lòng cấu hình trong file .env.local.',
-    );
-  }
-  return GOOGLE_MAPS_API_KEY;
+/** Results (names, addresses, distances) come back in the current UI locale */
+function googleLanguage(): string {
+  return LOCALE_SETTINGS[localeState.locale].googleLanguage;
 }
 
 function createGooglePlacePhotoUrl(photoReference?: string | null, maxWidth = 640): string | null {
-  if (!GOOGLE_MAPS_API_KEY || !photoReference) return null;
+  if (!photoReference) return null;
 
-  const photo = new URL(GOOGLE_MAPS_PLACE_PHOTO_URL);
-  photo.searchParams.set('maxwidth', String(maxWidth));
-  photo.searchParams.set('photo_reference', photoReference);
-  photo.searchParams.set('key', GOOGLE_MAPS_API_KEY);
-  return photo.toString();
+  const params = new URLSearchParams({
+    maxwidth: String(maxWidth),
+    photo_reference: photoReference,
+  });
+  return `${MAPS_PROXY_PLACE_PHOTO_PATH}?${params.toString()}`;
 }
 
-async function fetchGoogleApi<T>(url: URL, errorPrefix: string): Promise<T> {
-  const res = await fetch(url.toString(), {
-    headers: { 'User-Agent': 'GTELMaps-Copilot/1.0' },
+/**
+ * Call a proxy route; its error messages (quota, missing key, ...) are shown
+ * as-is, written in the UI locale sent as `Accept-Language`.
+ */
+async function fetchGoogleApi<T>(
+  path: string,
+  params: URLSearchParams,
+  errorPrefix: string,
+  signal?: AbortSignal,
+): Promise<T> {
+  const res = await fetch(`${path}?${params.toString()}`, {
+    headers: { 'Accept-Language': localeState.locale },
+    signal,
   });
-  if (!res.ok) throw new Error(`${errorPrefix}: ${res.status}`);
+  if (!res.ok) {
+    const data: { error?: string } | null = await res.json().catch(() => null);
+    throw new Error(data?.error || `${errorPrefix}: ${res.status}`);
+  }
   return res.json();
 }
 
 // ── Text Search ──────────────────────────────────────────────────────
 
-export async function textSearch(query: string): Promise<ResolvedPlace> {
-  const apiKey = assertApiKey();
+export async function textSearch(query: string, signal?: AbortSignal): Promise<ResolvedPlace> {
+  const params = new URLSearchParams({ query, language: googleLanguage() });
 
-  const url = new URL(GOOGLE_MAPS_TEXT_SEARCH_URL);
-  url.searchParams.set('query', query);
-  url.searchParams.set('language', DEFAULT_LANGUAGE);
-  url.searchParams.set('key', apiKey);
-
-  const data = await fetchGoogleApi<GoogleTextSearchResponse>(url, 'Yêu cầu text search thất bại');
+  const data = await fetchGoogleApi<GoogleTextSearchResponse>(
+    MAPS_PROXY_TEXT_SEARCH_PATH,
+    params,
+    t('google.textSearchFailed'),
+    signal,
+  );
 
-  if (data.status === 'ZERO_RESULTS') throw new Error(`Không tìm thấy kết quả cho "${query}"`);
+  if (data.status === 'ZERO_RESULTS') throw new Error(t('google.noResults', { query }));
   if (data.status && data.status !== 'OK') {
     throw new Error(
-      `Text Search lỗi (${data.status}): ${data.error_message || 'Không rõ nguyên nhân'}`,
+      t('google.textSearchError', {
+        status: data.status,
+        error: data.error_message || t('error.unknownCause'),
+      }),
     );
   }
 
   const result = data.results?.[0];
-  if (!result) throw new Error(`Không tìm thấy kết quả cho "${query}"`);
+  if (!result) throw new Error(t('google.noResults', { query }));
 
   const lng = result.geometry?.location?.lng;
   const lat = result.geometry?.location?.lat;
   if (typeof lng !== 'number' || typeof lat !== 'number') {
-    throw new Error(`Không nhận được tọa độ hợp lệ cho "${query}".`);
+    throw new Error(t('google.invalidCoordinates', { query }));
   }
 
   const name = result.name?.trim() || query;
@@ -203,121 +328,458 @@ export async function textSearch(query: string): Promise<ResolvedPlace> {
 
 // ── Directions ───────────────────────────────────────────────────────
 
-export async function fetchDirections(
-  from: string,
-  to: string,
-  mode?: string,
-): Promise<DirectionsResult> {
-  const apiKey = assertApiKey();
+/** A place on a route, resolved to coordinates */
+export interface RouteStop {
+  query: string;
+  lat: number;
+  lng: number;
+  address: string;
+  isCurrentLocation: boolean;
+}
 
-  const fromIsCurrent = isCurrentLocationInput(from);
-  const toIsCurrent = isCurrentLocationInput(to);
-  let currentLocation: { lng: number; lat: number } | null = null;
+/** Resolve route stops in order; the GPS position is read once for all "current location" stops */
+export async function resolveRouteStops(
+  queries: string[],
+  signal?: AbortSignal,
+): Promise<RouteStop[]> {
+  const currentLocation = queries.some(isCurrentLocationInput)
+    ? await getCurrentLocationCoordinates(signal)
+    : null;
+
+  return Promise.all(
+    queries.map(async (query) => {
+      if (currentLocation && isCurrentLocationInput(query)) {
+        return {
+          query,
+          ...currentLocation,
+          address: t('google.currentLocation'),
+          isCurrentLocation: true,
+        };
+      }
+      const place = await textSearch(query, signal);
+      return {
+        query,
+        lat: place.lat,
+        lng: place.lng,
+        address: place.address,
+        isCurrentLocation: false,
+      };
+    }),
+  );
+}
 
-  if (fromIsCurrent || toIsCurrent) {
-    currentLocation = await getCurrentLocationCoordinates();
-  }
+/** Google's address for a stop, except "your current location" which stays as said */
+function describeStop(stop: RouteStop, googleAddress?: string): string {
+  if (stop.isCurrentLocation) return stop.address;
+  return googleAddress || stop.address || stop.query;
+}
 
-  const [resolvedFromPlace, resolvedToPlace] = await Promise.all([
-    fromIsCurrent ? Promise.resolve<ResolvedPlace | null>(null) : textSearch(from),
-    toIsCurrent ? Promise.resolve<ResolvedPlace | null>(null) : textSearch(to),
-  ]);
+export function formatDistance(meters: number): string {
+  if (meters < 1000) return t('google.distanceMeters', { meters: Math.round(meters) });
+  const km = new Intl.NumberFormat(localeState.locale, { maximumFractionDigits: 1 }).format(
+    meters / 1000,
+  );
+  return t('google.distanceKm', { km });
+}
 
-  const resolvedFrom = fromIsCurrent
-    ? `${currentLocation?.lat},${currentLocation?.lng}`
-    : `${resolvedFromPlace?.lat},${resolvedFromPlace?.lng}`;
-  const resolvedTo = toIsCurrent
-    ? `${currentLocation?.lat},${currentLocation?.lng}`
-    : `${resolvedToPlace?.lat},${resolvedToPlace?.lng}`;
+export function formatDuration(seconds: number): string {
+  const totalMinutes = Math.max(1, Math.round(seconds / 60));
+  const hours = Math.floor(totalMinutes / 60);
+  const minutes = totalMinutes % 60;
+  return hours > 0
+    ? t('google.durationHours', { hours, minutes })
+    : t('google.durationMinutes', { minutes });
+}
 
-  const normalizedMode = normalizeDirectionsMode(mode);
-  const googleMode = toGoogleDirectionsMode(normalizedMode);
+/** Weekday, date and time of a departure or arrival, in the current locale */
+export function formatTravelTime(time: Date): string {
+  return new Intl.DateTimeFormat(localeState.locale, {
+    weekday: 'short',
+    day: 'numeric',
+    month: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  }).format(time);
+}
 
-  const url = new URL(GOOGLE_MAPS_DIRECTIONS_URL);
-  url.searchParams.set('origin', resolvedFrom);
-  url.searchParams.set('destination', resolvedTo);
-  url.searchParams.set('mode', googleMode);
-  url.searchParams.set('language', DEFAULT_LANGUAGE);
-  url.searchParams.set('key', apiKey);
+function sumLegValues(values: Array<number | null>): number | null {
+  return values.every((value): value is number => value !== null)
+    ? values.reduce((total, value) => total + value, 0)
+    : null;
+}
+
+type GoogleDirectionsLeg = NonNullable<
+  NonNullable<GoogleDirectionsResponse['routes']>[number]['legs']
+>[number];
+
+const HTML_ENTITIES: Record<string, string> = {
+  '&nbsp;': ' ',
+  '&amp;': '&',
+  '&quot;': '"',
+  '&#39;': "'",
+  '&lt;': '<',
+  '&gt;': '>',
+};
+
+/**
+ * Google instructions are HTML ("Rẽ <b>phải</b> vào ..."); a trailing <div>
+ * holds a note such as "Điểm đến sẽ ở bên phải", kept as its own sentence.
+ */
+function toPlainInstruction(html: string): string {
+  return html
+    .replace(/<div[^>]*>/gi, '. ')
+    .replace(/<[^>]+>/g, '')
+    .replace(/&(nbsp|amp|quot|#39|lt|gt);/g, (entity) => HTML_ENTITIES[entity])
+    .replace(/\s+/g, ' ')
+    .replace(/\s*\.\s*\./g, '.')
+    .trim();
+}
+
+/** Turn-by-turn steps of every leg, in driving order */
+function parseRouteSteps(legs: GoogleDirectionsLeg[]): DirectionsStep[] {
+  return legs.flatMap((leg, legIndex) =>
+    (leg.steps ?? []).map((step) => ({
+      instruction: toPlainInstruction(step.html_instructions ?? ''),
+      distanceText: step.distance?.text || t('google.unknownValue'),
+      distanceMeters: step.distance?.value ?? null,
+      durationText: step.duration?.text || t('google.unknownValue'),
+      durationSeconds: step.duration?.value ?? null,
+      maneuver: step.maneuver || null,
+      legIndex,
+      coordinates: step.polyline?.points ? decodeGooglePolyline(step.polyline.points) : [],
+    })),
+  );
+}
+
+/**
+ * Route through resolved stops in the given order: the first is the origin,
+ * the last the destination and the ones in between are waypoints. The result
+ * has one leg per stretch between stops.
+ */
+export async function fetchDirectionsThroughStops(
+  stops: RouteStop[],
+  options: DirectionsRequestOptions,
+  signal?: AbortSignal,
+): Promise<DirectionsResult> {
+  const { mode, avoid = [], departureTime, arrivalTime } = options;
+  const from = stops[0].query;
+  const to = stops[stops.length - 1].query;
+  const viaStops = stops.slice(1, -1);
+  if (mode === 'transit' && viaStops.length > 0) {
+    throw new Error(t('google.transitWaypoints'));
+  }
+  if (arrivalTime && mode !== 'transit') {
+    throw new Error(t('google.arrivalTimeTransitOnly'));
+  }
+
+  const toParam = (stop: RouteStop) => `${stop.lat},${stop.lng}`;
+  const params = new URLSearchParams({
+    origin: toParam(stops[0]),
+    destination: toParam(stops[stops.length - 1]),
+    mode: toGoogleDirectionsMode(mode),
+    language: googleLanguage(),
+  });
+  // Google only suggests alternatives for routes without waypoints
+  if (viaStops.length > 0) params.set('waypoints', viaStops.map(toParam).join('|'));
+  else params.set('alternatives', 'true');
+  if (avoid.length > 0) params.set('avoid', avoid.join('|'));
+  // Google takes Unix seconds; a departure time also gets durations in traffic
+  if (departureTime) {
+    params.set(
+      'departure_time',
+      departureTime === 'now' ? 'now' : String(Math.floor(departureTime.getTime() / 1000)),
+    );
+  }
+  if (arrivalTime) params.set('arrival_time', String(Math.floor(arrivalTime.getTime() / 1000)));
 
   const data = await fetchGoogleApi<GoogleDirectionsResponse>(
-    url,
-    'Yêu cầu chỉ đường thất bại',
+    MAPS_PROXY_DIRECTIONS_PATH,
+    params,
+    t('google.directionsFailed'),
+    signal,
   );
 
   if (data.status === 'ZERO_RESULTS') {
-    throw new Error(`Không tìm thấy lộ trình từ "${from}" đến "${to}".`);
+    throw new Error(t('google.noRoute', { from, to }));
   }
   if (data.status && data.status !== 'OK') {
     throw new Error(
-      `Directions lỗi (${data.status}): ${data.error_message || 'Không rõ nguyên nhân'}`,
+      t('google.directionsError', {
+        status: data.status,
+        error: data.error_message || t('error.unknownCause'),
+      }),
     );
   }
 
   const route = data.routes?.[0];
-  const leg = route?.legs?.[0];
+  const routeLegs = route?.legs ?? [];
   const encodedPolyline = route?.overview_polyline?.points;
-  if (!route || !leg || !encodedPolyline) {
-    throw new Error(`Không nhận được dữ liệu lộ trình hợp lệ từ "${from}" đến "${to}".`);
+  if (!route || routeLegs.length !== stops.length - 1 || !encodedPolyline) {
+    throw new Error(t('google.invalidRoute', { from, to }));
   }
 
   const coordinates = decodeGooglePolyline(encodedPolyline);
   if (coordinates.length < 2) {
-    throw new Error(`Không thể giải mã tuyến đường từ "${from}" đến "${to}".`);
+    throw new Error(t('google.routeDecodeFailed', { from, to }));
   }
 
-  return {
-    coordinates,
-    distanceText: leg.distance?.text || 'không rõ',
+  const legs: DirectionsLeg[] = routeLegs.map((leg, index) => ({
+    startAddress: describeStop(stops[index], leg.start_address),
+    endAddress: describeStop(stops[index + 1], leg.end_address),
+    distanceText: leg.distance?.text || t('google.unknownValue'),
     distanceMeters: leg.distance?.value ?? null,
-    durationText: leg.duration?.text || 'không rõ',
+    durationText: leg.duration?.text || t('google.unknownValue'),
     durationSeconds: leg.duration?.value ?? null,
-    startAddress:
-      fromIsCurrent
-        ? 'Vị trí hiện tại của bạn'
-        : leg.start_address || resolvedFromPlace?.address || from,
-    endAddress:
-      toIsCurrent ? 'Vị trí hiện tại của bạn' : leg.end_address || resolvedToPlace?.address || to,
-    mode: normalizedMode,
-    modeLabel: DIRECTIONS_MODE_LABELS[normalizedMode],
-    modeNote:
-      normalizedMode === 'motorbike'
-        ? 'Google Directions không có mode xe máy riêng, nên hệ thống đang ước tính theo mode lái xe.'
-        : null,
+    durationInTrafficText: leg.duration_in_traffic?.text || null,
+    durationInTrafficSeconds: leg.duration_in_traffic?.value ?? null,
+  }));
+  const distanceMeters = sumLegValues(legs.map((leg) => leg.distanceMeters));
+  const durationSeconds = sumLegValues(legs.map((leg) => leg.durationSeconds));
+  const durationInTrafficSeconds = sumLegValues(legs.map((leg) => leg.durationInTrafficSeconds));
+  const singleLeg = legs.length === 1 ? legs[0] : null;
+  const recommended: DirectionsRouteOption = {
+    summary: route.summary?.trim() ?? '',
+    coordinates,
+    distanceText:
+      singleLeg?.distanceText ??
+      (distanceMeters !== null ? formatDistance(distanceMeters) : t('google.unknownValue')),
+    distanceMeters,
+    durationText:
+      singleLeg?.durationText ??
+      (durationSeconds !== null ? formatDuration(durationSeconds) : t('google.unknownValue')),
+    durationSeconds,
+    durationInTrafficText:
+      singleLeg?.durationInTrafficText ??
+      (durationInTrafficSeconds !== null ? formatDuration(durationInTrafficSeconds) : null),
+    durationInTrafficSeconds,
+    steps: parseRouteSteps(routeLegs),
+  };
+
+  // Alternatives (requested without waypoints) have a single leg; undrawable ones are dropped
+  const alternativeRoutes = viaStops.length > 0 ? [] : (data.routes ?? []).slice(1);
+  const alternatives = alternativeRoutes.flatMap((alternative) => {
+    const leg = alternative.legs?.[0];
+    const encoded = alternative.overview_polyline?.points;
+    const path = encoded ? decodeGooglePolyline(encoded) : [];
+    if (!leg || path.length < 2) return [];
+    return [
+      {
+        summary: alternative.summary?.trim() ?? '',
+        coordinates: path,
+        distanceText: leg.distance?.text || t('google.unknownValue'),
+        distanceMeters: leg.distance?.value ?? null,
+        durationText: leg.duration?.text || t('google.unknownValue'),
+        durationSeconds: leg.duration?.value ?? null,
+        durationInTrafficText: leg.duration_in_traffic?.text || null,
+        durationInTrafficSeconds: leg.duration_in_traffic?.value ?? null,
+        steps: parseRouteSteps([leg]),
+      },
+    ];
+  });
+
+  // Transit legs carry their own timetable; otherwise the arrival follows the departure
+  const firstLeg = routeLegs[0];
+  const lastLeg = routeLegs[routeLegs.length - 1];
+  const plannedDeparture = departureTime === 'now' ? new Date() : departureTime;
+  const travelSeconds = durationInTrafficSeconds ?? durationSeconds;
+  const departureTimeText =
+    firstLeg.departure_time?.text ||
+    (plannedDeparture ? formatTravelTime(plannedDeparture) : null);
+  const arrivalTimeText =
+    lastLeg.arrival_time?.text ||
+    (plannedDeparture && travelSeconds !== null
+      ? formatTravelTime(new Date(plannedDeparture.getTime() + travelSeconds * 1000))
+      : null);
+
+  return {
+    coordinates,
+    distanceText: recommended.distanceText,
+    distanceMeters,
+    durationText: recommended.durationText,
+    durationSeconds,
+    durationInTrafficText: recommended.durationInTrafficText,
+    durationInTrafficSeconds,
+    startAddress: legs[0].startAddress,
+    endAddress: legs[legs.length - 1].endAddress,
+    waypoints: viaStops.map((stop, index) => ({
+      query: stop.query,
+      address: legs[index].endAddress,
+      lat: stop.lat,
+      lng: stop.lng,
+    })),
+    legs,
+    steps: recommended.steps,
+    routes: [recommended, ...alternatives],
+    mode,
+    modeLabel: t(`directionsMode.${mode}`),
+    modeNote: mode === 'motorbike' ? t('google.motorbikeNote') : null,
+    avoid,
+    departureTime: departureTime ?? null,
+    arrivalTime: arrivalTime ?? null,
+    departureTimeText,
+    arrivalTimeText,
   };
 }
 
-// ── Nearby Search ────────────────────────────────────────────────────
+/** Departure/arrival phrase as a time; rejects unreadable and past times */
+function resolveTravelTime(value: string | undefined): TravelTime | undefined {
+  if (!value || !value.trim()) return undefined;
+
+  const time = parseTravelTime(value);
+  if (!time) throw new Error(t('google.invalidTime', { value }));
+  // A minute of slack for a "now" that the model spelled out
+  if (time !== 'now' && time.getTime() < Date.now() - 60 * 1000) {
+    throw new Error(t('google.pastTime', { value }));
+  }
+  return time;
+}
+
+/**
+ * Route from `from` to `to`, through the optional `waypoints` in the given
+ * order. Every stop is a place name (resolved with Text Search) or a
+ * "current location" phrase. `departureTime`/`arrivalTime` are ISO date-times
+ * or phrases such as "7h sáng mai" (see lib/map/travel-time.ts).
+ */
+export async function fetchDirections(
+  args: {
+    from: string;
+    to: string;
+    mode?: string;
+    waypoints?: string[];
+    avoid?: string[];
+    departureTime?: string;
+    arrivalTime?: string;
+  },
+  signal?: AbortSignal,
+): Promise<DirectionsResult> {
+  const waypointQueries = (args.waypoints ?? []).map((query) => query.trim()).filter(Boolean);
+  const mode = normalizeDirectionsMode(args.mode);
+  if (mode === 'transit' && waypointQueries.length > 0) {
+    throw new Error(t('google.transitWaypoints'));
+  }
+
+  const departureTime = resolveTravelTime(args.departureTime);
+  const arrivalTime = resolveTravelTime(args.arrivalTime);
+  if (departureTime && arrivalTime) {
+    throw new Error(t('google.departureAndArrival'));
+  }
+  if (arrivalTime === 'now') {
+    throw new Error(t('google.invalidTime', { value: args.arrivalTime ?? '' }));
+  }
+  if (arrivalTime && mode !== 'transit') {
+    throw new Error(t('google.arrivalTimeTransitOnly'));
+  }
+
+  const stops = await resolveRouteStops([args.from, ...waypointQueries, args.to], signal);
+  return fetchDirectionsThroughStops(
+    stops,
+    { mode, avoid: normalizeDirectionsAvoid(args.avoid), departureTime, arrivalTime },
+    signal,
+  );
+}
+
+// ── Distance Matrix ──────────────────────────────────────────────────
 
-export async function fetchNearbyPlaces(args: {
-  location: { lat: number; lng: number };
-  keyword?: string;
-  type?: NearbyPlaceType;
-  radius?: number;
-  minRating?: number;
-}): Promise<NearbySearchResult> {
-  const apiKey = assertApiKey();
+function buildStraightLineMatrix(stops: RouteStop[]): TravelMatrix {
+  return {
+    source: 'straight-line',
+    distanceMeters: stops.map((from) => stops.map((to) => haversineDistanceMeters(from, to))),
+    durationSeconds: null,
+  };
+}
+
+/**
+ * Travel distance and duration between every pair of stops. When Google has
+ * no complete answer (error, quota, a pair without a route), straight-line
+ * distances are used instead and there are no durations.
+ */
+export async function fetchTravelMatrix(
+  stops: RouteStop[],
+  mode: DirectionsMode,
+  signal?: AbortSignal,
+): Promise<TravelMatrix> {
+  const points = stops.map((stop) => `${stop.lat},${stop.lng}`).join('|');
+  const params = new URLSearchParams({
+    origins: points,
+    destinations: points,
+    mode: toGoogleDirectionsMode(mode),
+    language: googleLanguage(),
+  });
+
+  try {
+    const data = await fetchGoogleApi<GoogleDistanceMatrixResponse>(
+      MAPS_PROXY_DISTANCE_MATRIX_PATH,
+      params,
+      t('google.distanceMatrixFailed'),
+      signal,
+    );
+    if (data.status !== 'OK') {
+      throw new Error(`${data.status ?? 'UNKNOWN'}: ${data.error_message ?? ''}`);
+    }
+
+    const cells = stops.map((_from, i) =>
+      stops.map((_to, j) => {
+        const element = data.rows?.[i]?.elements?.[j];
+        if (i === j) return { distance: 0, duration: 0 };
+        const distance = element?.distance?.value;
+        const duration = element?.duration?.value;
+        if (
+          element?.status === 'OK' &&
+          typeof distance === 'number' &&
+          typeof duration === 'number'
+        ) {
+          return { distance, duration };
+        }
+        throw new Error(`No route between stops ${i} and ${j} (${element?.status ?? 'missing'})`);
+      }),
+    );
+
+    return {
+      source: 'google',
+      distanceMeters: cells.map((row) => row.map((cell) => cell.distance)),
+      durationSeconds: cells.map((row) => row.map((cell) => cell.duration)),
+    };
+  } catch (error) {
+    if (signal?.aborted) throw error;
+    console.warn('[google-api] Distance Matrix unavailable, using straight lines:', error);
+    return buildStraightLineMatrix(stops);
+  }
+}
+
+// ── Nearby Search ────────────────────────────────────────────────────
 
+export async function fetchNearbyPlaces(
+  args: {
+    location: { lat: number; lng: number };
+    keyword?: string;
+    type?: NearbyPlaceType;
+    radius?: number;
+    minRating?: number;
+  },
+  signal?: AbortSignal,
+): Promise<NearbySearchResult> {
   const keyword = args.keyword?.trim();
   const type = args.type?.trim();
   if (!keyword && !type) {
-    throw new Error('Bạn cần cung cấp ít nhất một điều kiện tìm kiếm: keyword hoặc type.');
+    throw new Error(t('google.nearbyMissingCriteria'));
   }
 
   const radius = normalizeNearbyRadius(args.radius);
   const minRating = normalizeMinRating(args.minRating);
 
-  const url = new URL(GOOGLE_MAPS_NEARBY_SEARCH_URL);
-  url.searchParams.set('location', `${args.location.lat},${args.location.lng}`);
-  url.searchParams.set('radius', String(radius));
-  url.searchParams.set('language', DEFAULT_LANGUAGE);
-  url.searchParams.set('key', apiKey);
-  if (keyword) url.searchParams.set('keyword', keyword);
-  if (type) url.searchParams.set('type', type);
+  const params = new URLSearchParams({
+    location: `${args.location.lat},${args.location.lng}`,
+    radius: String(radius),
+    language: googleLanguage(),
+  });
+  if (keyword) params.set('keyword', keyword);
+  if (type) params.set('type', type);
 
   const data = await fetchGoogleApi<GoogleNearbySearchResponse>(
-    url,
-    'Yêu cầu nearby search thất bại',
+    MAPS_PROXY_NEARBY_SEARCH_PATH,
+    params,
+    t('google.nearbyFailed'),
+    signal,
   );
 
   if (data.status === 'ZERO_RESULTS') {
@@ -325,7 +787,10 @@ export async function fetchNearbyPlaces(args: {
   }
   if (data.status && data.status !== 'OK') {
     throw new Error(
-      `Nearby search lỗi (${data.status}): ${data.error_message || 'Không rõ nguyên nhân'}`,
+      t('google.nearbyError', {
+        status: data.status,
+        error: data.error_message || t('error.unknownCause'),
+      }),
     );
   }
 
@@ -333,8 +798,8 @@ export async function fetchNearbyPlaces(args: {
     data.results
       ?.map((item) => ({
         id: item.place_id || `${item.name || 'place'}-${generateId()}`,
-        name: item.name || 'Địa điểm',
-        address: item.vicinity || item.formatted_address || 'Không có địa chỉ',
+        name: item.name || t('place.default'),
+        address: item.vicinity || item.formatted_address || t('place.noAddress'),
         rating: typeof item.rating === 'number' ? item.rating : null,
         userRatingsTotal:
           typeof item.user_ratings_total === 'number' ? item.user_ratings_total : null,
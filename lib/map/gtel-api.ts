@@ -1,18 +1,15 @@
 /**
  * GTEL Maps API interaction layer.
  * Handles administrative boundary (RGHC) data: province list and boundary geometry.
+ * Map data calls go through the server-side proxy (/api/maps/gtel/*), which
+ * holds the API key.
  */
 
-import {
-  GTEL_ADMIN_PROVINCES_URL,
-  GTEL_CAMERA_PHOTO_URL,
-  GTEL_HR_API_URL,
-  GTEL_MAPS_API_KEY,
-  GTEL_NEARBY_SEARCH_URL,
-} from './constants';
+import { HR_API_PATH, MAPS_PROXY_CAMERAS_PATH, MAPS_PROXY_PROVINCES_PATH } from './constants';
 import { haversineDistanceMeters, normalizeNearbyRadius } from './geo';
 import { mapState } from './map-store';
 import { generateId } from '../utils';
+import { localeState, t } from '../i18n';
 
 // ── Types ────────────────────────────────────────────────────────────
 
@@ -118,70 +115,74 @@ export interface HRApiResponse {
 
 // ── Helpers ──────────────────────────────────────────────────────────
 
-function assertApiKey(): string {
-  if (!GTEL_MAPS_API_KEY) {
-    throw new Error(
-      'Thiếu NEXT_PUBLIC_GTEL_MAPS_API_KEY. Vui lòng cấu hình trong file .env.local.',
-    );
-  }
-  return GTEL_MAPS_API_KEY;
-}
-
 function createGtelCameraPhotoUrl(cameraId?: string | null): string | null {
-  if (!GTEL_MAPS_API_KEY || !cameraId) return null;
-
-  const photo = new URL(GTEL_CAMERA_PHOTO_URL);
-  photo.pathname += `/${cameraId}/snapshot.jpg`;
-  photo.searchParams.set('apikey', GTEL_MAPS_API_KEY);
-  return photo.toString();
+  if (!cameraId) return null;
+  return `${MAPS_PROXY_CAMERAS_PATH}/${encodeURIComponent(cameraId)}/snapshot`;
 }
 
-async function fetchGtelApi<T>(url: URL, errorPrefix: string): Promise<T> {
-  const res = await fetch(url.toString(), {
-    headers: { 'app-version': '1.1' },
+/**
+ * Call a proxy route; its error messages (quota, missing key, ...) are shown
+ * as-is, written in the UI locale sent as `Accept-Language`.
+ */
+async function fetchGtelApi<T>(
+  path: string,
+  params: URLSearchParams,
+  errorPrefix: string,
+  signal?: AbortSignal,
+): Promise<T> {
+  const query = params.toString();
+  const res = await fetch(query ? `${path}?${query}` : path, {
+    headers: { 'Accept-Language': localeState.locale },
+    signal,
   });
-  if (!res.ok) throw new Error(`${errorPrefix}: ${res.status}`);
+  if (!res.ok) {
+    const data: { error?: string } | null = await res.json().catch(() => null);
+    throw new Error(data?.error || `${errorPrefix}: ${res.status}`);
+  }
   return res.json();
 }
 
 // ── Nearby Traffic Cameras ──────────────────────────────────────────
 
-export async function fetchNearbyCameras(args: {
-  location: { lat: number; lng: number };
-  keyword?: string;
-  radius?: number;
-}): Promise<NearbyCameraSearchResult> {
-  const apiKey = assertApiKey();
+export async function fetchNearbyCameras(
+  args: {
+    location: { lat: number; lng: number };
+    keyword?: string;
+    radius?: number;
+  },
+  signal?: AbortSignal,
+): Promise<NearbyCameraSearchResult> {
   const radius = normalizeNearbyRadius(args.radius);
 
-  const url = new URL(GTEL_NEARBY_SEARCH_URL);
-  url.searchParams.set('location', `${args.location.lat},${args.location.lng}`);
-  url.searchParams.set('type', 'traffic_camera');
-  url.searchParams.set('radius', String(radius));
-  url.searchParams.set('apikey', apiKey);
+  const params = new URLSearchParams({
+    location: `${args.location.lat},${args.location.lng}`,
+    radius: String(radius),
+  });
 
   const keyword = args.keyword?.trim();
   if (keyword) {
-    url.searchParams.set('keyword', keyword);
+    params.set('keyword', keyword);
   }
 
   const data = await fetchGtelApi<GtelNearbySearchResponse>(
-    url,
-    'Yêu cầu nearby camera giao thông thất bại',
+    MAPS_PROXY_CAMERAS_PATH,
+    params,
+    t('gtel.camerasFailed'),
+    signal,
   );
 
   const status = data.status || '';
   const ok = status.toUpperCase() === 'OK' || data.statusCode === 200;
   if (!ok) {
-    throw new Error(`Nearby camera lỗi (${status || data.statusCode || 'UNKNOWN'}).`);
+    throw new Error(t('gtel.camerasError', { status: status || data.statusCode || 'UNKNOWN' }));
   }
 
   const parsed =
     data.data
       .map((item) => ({
         id: item.id || `traffic-camera-${generateId()}`,
-        name: item.displayName?.text || 'Camera giao thông',
-        address: item.formattedAddress || item.plusCode?.compoundCode || 'Không có địa chỉ',
+        name: item.displayName?.text || t('place.trafficCamera'),
+        address: item.formattedAddress || item.plusCode?.compoundCode || t('place.noAddress'),
         types: item.types || ['traffic_camera'],
         lat: item.location?.latitude ?? Number.NaN,
         lng: item.location?.longitude ?? Number.NaN,
@@ -221,12 +222,11 @@ export async function fetchNearbyCameras(args: {
  * Stores the result in mapState.provinces for later matching.
  */
 export async function fetchProvinces(): Promise<Province[]> {
-  const apiKey = assertApiKey();
-
-  const url = new URL(GTEL_ADMIN_PROVINCES_URL);
-  url.searchParams.set('apikey', apiKey);
-
-  const data = await fetchGtelApi<ProvincesResponse>(url, 'Yêu cầu danh sách tỉnh thành thất bại');
+  const data = await fetchGtelApi<ProvincesResponse>(
+    MAPS_PROXY_PROVINCES_PATH,
+    new URLSearchParams(),
+    t('gtel.provincesFailed'),
+  );
 
   if (data.status !== 'OK' || !Array.isArray(data.data)) {
     console.error('[gtel-api] Unexpected provinces response:', data);
@@ -242,21 +242,19 @@ export async function fetchProvinces(): Promise<Province[]> {
 /**
  * Fetch boundary geometry for a specific province.
  */
-export async function fetchProvinceBoundary(provCode: string): Promise<ProvinceBoundary> {
-  const apiKey = assertApiKey();
-
-  const url = new URL(GTEL_ADMIN_PROVINCES_URL);
-  url.pathname += `/${provCode}`;
-  url.searchParams.set('geom_level', 'street');
-  url.searchParams.set('apikey', apiKey);
-
+export async function fetchProvinceBoundary(
+  provCode: string,
+  signal?: AbortSignal,
+): Promise<ProvinceBoundary> {
   const data = await fetchGtelApi<ProvinceBoundaryResponse>(
-    url,
-    'Yêu cầu ranh giới hành chính thất bại',
+    `${MAPS_PROXY_PROVINCES_PATH}/${encodeURIComponent(provCode)}`,
+    new URLSearchParams({ geom_level: 'street' }),
+    t('gtel.boundaryFailed'),
+    signal,
   );
 
   if (data.status !== 'OK' || !data.data) {
-    throw new Error('Dữ liệu ranh giới hành chính không hợp lệ.');
+    throw new Error(t('gtel.invalidBoundary'));
   }
 
   return data.data;
@@ -387,24 +385,31 @@ export function findMatchingProvince(query: string): Province | null {
 
 // ── HR / Employee API ────────────────────────────────────────────────
 
-const sessionId = generateId();
-
 /**
- * Call the GTEL OTS HR API to answer employee / attendance questions.
+ * Ask the GTEL OTS HR API (through /api/hr) about employees / attendance.
+ * `sessionId` is the user's conversation session, so the HR webhook keeps
+ * its own context across reloads and follow-up questions; the server scopes
+ * it to the logged-in user.
  */
-export async function fetchHRInfo(question: string): Promise<HRApiResponse> {
-  const url = new URL(GTEL_HR_API_URL);
-  url.searchParams.set('text', question);
-  url.searchParams.set('session_id', sessionId);
-
-  const res = await fetch(url.toString());
+export async function fetchHRInfo(
+  question: string,
+  sessionId: string,
+  signal?: AbortSignal,
+): Promise<HRApiResponse> {
+  const res = await fetch(HR_API_PATH, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', 'Accept-Language': localeState.locale },
+    body: JSON.stringify({ question, conversationId: sessionId }),
+    signal,
+  });
   if (!res.ok) {
-    throw new Error(`Yêu cầu thông tin nhân sự thất bại: ${res.status}`);
+    const data: { error?: string } | null = await res.json().catch(() => null);
+    throw new Error(data?.error || `${t('gtel.hrFailed')}: ${res.status}`);
   }
 
   const data: HRApiResponse = await res.json();
   if (!data.output) {
-    throw new Error('Phản hồi từ hệ thống nhân sự không hợp lệ.');
+    throw new Error(t('gtel.invalidHRResponse'));
   }
 
   return data;
@@ -4,5 +4,7 @@
  */
 
 export { executeTool } from './tools';
-export { TOOL_ACTION_LABELS } from './constants';
+export { executeToolCalls, planToolStages, type ToolCallOutcome } from './tool-planner';
+export { getAgentMapContext } from './context';
+export { captureMapSnapshot, restoreMapSnapshot, type MapSnapshot } from './snapshot';
 export type { ToolResult } from '@/types';
@@ -8,13 +8,45 @@
 
 import { create } from 'zustand';
 import { useShallow } from 'zustand/shallow';
-import type { Feature, FeatureCollection, Geometry, Polygon } from 'geojson';
+import type { FeatureCollection, Geometry, Polygon } from 'geojson';
 
 // ── Layer Data Types ─────────────────────────────────────────────────
 
-export interface DirectionsLayerData {
+export interface DirectionsRouteStep {
+  instruction: string;
+  distanceText: string;
+  durationText: string;
+  /** Google maneuver (e.g. "turn-left"); null when going straight on */
+  maneuver: string | null;
+  /** Leg of a multi-stop route (0-based) */
+  legIndex: number;
+  /** GeoJSON LineString coordinates of the step's segment */
+  coordinates: number[][];
+}
+
+export interface DirectionsRouteLine {
   /** GeoJSON LineString coordinates */
   coordinates: number[][];
+  /** Main roads, shown in the route comparison panel */
+  summary: string;
+  distanceText: string;
+  distanceMeters: number | null;
+  durationText: string;
+  durationSeconds: number | null;
+  /** Only when the directions have a departure time */
+  durationInTrafficText: string | null;
+  durationInTrafficSeconds: number | null;
+  /** Turn-by-turn instructions, listed in the itinerary panel */
+  steps: DirectionsRouteStep[];
+}
+
+export interface DirectionsLayerData {
+  /** Route options between the same stops, recommended first */
+  routes: DirectionsRouteLine[];
+  /** The highlighted route; the others are drawn muted and can be clicked */
+  selectedIndex: number;
+  /** Step of the selected route highlighted from the itinerary, if any */
+  selectedStep: number | null;
 }
 
 export interface NearbyBufferLayerData {
@@ -34,26 +66,30 @@ export interface BoundaryLayerData {
 
 // ── Store State & Actions ────────────────────────────────────────────
 
+/** Lists, so the results of several tool calls in one agent step stay visible together */
 export interface MapLayerState {
-  directions: DirectionsLayerData | null;
-  nearbyBuffer: NearbyBufferLayerData | null;
-  boundary: BoundaryLayerData | null;
+  directions: DirectionsLayerData[];
+  nearbyBuffers: NearbyBufferLayerData[];
+  boundaries: BoundaryLayerData[];
 }
 
 interface MapLayerActions {
-  setDirections: (data: DirectionsLayerData) => void;
-  setNearbyBuffer: (data: NearbyBufferLayerData) => void;
-  setBoundary: (data: BoundaryLayerData) => void;
-  clearDirections: () => void;
-  clearNearbyBuffer: () => void;
-  clearBoundary: () => void;
+  addDirections: (data: DirectionsLayerData) => void;
+  /** Highlight route `routeIndex` of the `directionsIndex`-th directions */
+  selectRoute: (directionsIndex: number, routeIndex: number) => void;
+  /** Highlight a step of the selected route (null clears it) */
+  selectStep: (directionsIndex: number, stepIndex: number | null) => void;
+  addNearbyBuffer: (data: NearbyBufferLayerData) => void;
+  addBoundary: (data: BoundaryLayerData) => void;
   clearAll: () => void;
+  /** Put back a state read with `layerState.snapshot` */
+  restore: (state: MapLayerState) => void;
 }
 
 const INITIAL_STATE: MapLayerState = {
-  directions: null,
-  nearbyBuffer: null,
-  boundary: null,
+  directions: [],
+  nearbyBuffers: [],
+  boundaries: [],
 };
 
 // ── Zustand Store ────────────────────────────────────────────────────
@@ -61,14 +97,26 @@ const INITIAL_STATE: MapLayerState = {
 const useLayerStore = create<MapLayerState & MapLayerActions>((set) => ({
   ...INITIAL_STATE,
 
-  setDirections: (data) => set({ directions: data }),
-  setNearbyBuffer: (data) => set({ nearbyBuffer: data }),
-  setBoundary: (data) => set({ boundary: data }),
+  addDirections: (data) => set((s) => ({ directions: [...s.directions, data] })),
+  selectRoute: (directionsIndex, routeIndex) =>
+    set((s) => ({
+      directions: s.directions.map((data, index) =>
+        index === directionsIndex
+          ? { ...data, selectedIndex: routeIndex, selectedStep: null }
+          : data,
+      ),
+    })),
+  selectStep: (directionsIndex, stepIndex) =>
+    set((s) => ({
+      directions: s.directions.map((data, index) =>
+        index === directionsIndex ? { ...data, selectedStep: stepIndex } : data,
+      ),
+    })),
+  addNearbyBuffer: (data) => set((s) => ({ nearbyBuffers: [...s.nearbyBuffers, data] })),
+  addBoundary: (data) => set((s) => ({ boundaries: [...s.boundaries, data] })),
 
-  clearDirections: () => set({ directions: null }),
-  clearNearbyBuffer: () => set({ nearbyBuffer: null }),
-  clearBoundary: () => set({ boundary: null }),
   clearAll: () => set({ ...INITIAL_STATE }),
+  restore: (state) => set({ ...state }),
 }));
 
 // ── Public API (backwards-compatible) ────────────────────────────────
@@ -77,14 +125,29 @@ const useLayerStore = create<MapLayerState & MapLayerActions>((set) => ({
  * Imperative actions — callable from non-React code (tools.ts, visuals.ts).
  */
 export const layerActions = {
-  setDirections: (data: DirectionsLayerData) => useLayerStore.getState().setDirections(data),
-  setNearbyBuffer: (data: NearbyBufferLayerData) =>
-    useLayerStore.getState().setNearbyBuffer(data),
-  setBoundary: (data: BoundaryLayerData) => useLayerStore.getState().setBoundary(data),
-  clearDirections: () => useLayerStore.getState().clearDirections(),
-  clearNearbyBuffer: () => useLayerStore.getState().clearNearbyBuffer(),
-  clearBoundary: () => useLayerStore.getState().clearBoundary(),
+  addDirections: (data: DirectionsLayerData) => useLayerStore.getState().addDirections(data),
+  selectRoute: (directionsIndex: number, routeIndex: number) =>
+    useLayerStore.getState().selectRoute(directionsIndex, routeIndex),
+  selectStep: (directionsIndex: number, stepIndex: number | null) =>
+    useLayerStore.getState().selectStep(directionsIndex, stepIndex),
+  addNearbyBuffer: (data: NearbyBufferLayerData) =>
+    useLayerStore.getState().addNearbyBuffer(data),
+  addBoundary: (data: BoundaryLayerData) => useLayerStore.getState().addBoundary(data),
   clearAll: () => useLayerStore.getState().clearAll(),
+  restore: (state: MapLayerState) => useLayerStore.getState().restore(state),
+};
+
+/**
+ * Imperative read access — non-React code (e.g. rolling back a stopped request).
+ */
+export const layerState = {
+  get directions() {
+    return useLayerStore.getState().directions;
+  },
+  get snapshot(): MapLayerState {
+    const s = useLayerStore.getState();
+    return { directions: s.directions, nearbyBuffers: s.nearbyBuffers, boundaries: s.boundaries };
+  },
 };
 
 // ── React Hook ───────────────────────────────────────────────────────
@@ -97,34 +160,79 @@ export function useMapLayers(): MapLayerState {
   return useLayerStore(
     useShallow((s) => ({
       directions: s.directions,
-      nearbyBuffer: s.nearbyBuffer,
-      boundary: s.boundary,
+      nearbyBuffers: s.nearbyBuffers,
+      boundaries: s.boundaries,
     })),
   );
 }
 
 // ── GeoJSON Builders (pure helpers for the component) ────────────────
 
-export function buildDirectionsGeoJSON(data: DirectionsLayerData): Feature {
+/**
+ * One feature per route option. `selected` picks the layer style; selected
+ * routes come last so they are drawn on top of the alternatives.
+ */
+export function buildDirectionsGeoJSON(data: DirectionsLayerData[]): FeatureCollection {
+  const features = data.flatMap((directions, directionsIndex) =>
+    directions.routes.map((route, routeIndex) => ({
+      type: 'Feature' as const,
+      properties: {
+        directionsIndex,
+        routeIndex,
+        selected: routeIndex === directions.selectedIndex,
+      },
+      geometry: { type: 'LineString' as const, coordinates: route.coordinates },
+    })),
+  );
+
   return {
-    type: 'Feature',
-    properties: {},
-    geometry: { type: 'LineString', coordinates: data.coordinates },
+    type: 'FeatureCollection',
+    features: [
+      ...features.filter((feature) => !feature.properties.selected),
+      ...features.filter((feature) => feature.properties.selected),
+    ],
   };
 }
 
-export function buildNearbyBufferGeoJSON(data: NearbyBufferLayerData): Feature<Polygon> {
+/** Segment of the step highlighted from the itinerary, per directions */
+export function buildDirectionsStepGeoJSON(data: DirectionsLayerData[]): FeatureCollection {
   return {
-    type: 'Feature',
-    properties: { radius: data.radiusMeters },
-    geometry: { type: 'Polygon', coordinates: [data.ring] },
+    type: 'FeatureCollection',
+    features: data.flatMap((directions) => {
+      const step =
+        directions.selectedStep === null
+          ? undefined
+          : directions.routes[directions.selectedIndex]?.steps[directions.selectedStep];
+      if (!step || step.coordinates.length < 2) return [];
+      return [
+        {
+          type: 'Feature' as const,
+          properties: {},
+          geometry: { type: 'LineString' as const, coordinates: step.coordinates },
+        },
+      ];
+    }),
   };
 }
 
-export function buildBoundaryGeoJSON(data: BoundaryLayerData): Feature {
+export function buildNearbyBufferGeoJSON(data: NearbyBufferLayerData[]): FeatureCollection<Polygon> {
   return {
-    type: 'Feature',
-    properties: {},
-    geometry: data.geom as Geometry,
+    type: 'FeatureCollection',
+    features: data.map((buffer) => ({
+      type: 'Feature',
+      properties: { radius: buffer.radiusMeters },
+      geometry: { type: 'Polygon', coordinates: [buffer.ring] },
+    })),
+  };
+}
+
+export function buildBoundaryGeoJSON(data: BoundaryLayerData[]): FeatureCollection {
+  return {
+    type: 'FeatureCollection',
+    features: data.map((boundary) => ({
+      type: 'Feature',
+      properties: {},
+      geometry: boundary.geom as Geometry,
+    })),
   };
 }
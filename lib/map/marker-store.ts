@@ -61,43 +61,55 @@ export interface UserLocationMarker {
   lngLat: [number, number];
 }
 
+export interface DirectionMarkers {
+  start: DirectionMarker;
+  /** null when the route ends at the last numbered stop or back at the start */
+  end: DirectionMarker | null;
+  /** Intermediate stops in visiting order, drawn numbered from 1 */
+  waypoints: DirectionMarker[];
+}
+
 // ── Store State & Actions ────────────────────────────────────────────
 
+/**
+ * Results are lists: the tool calls of one agent step add to the map, and the
+ * map is cleared once before the step draws (see tool-planner.ts).
+ */
 export interface MapMarkerState {
-  searchPlace: SearchPlaceMarker | null;
-  boundary: BoundaryMarker | null;
-  directionsStart: DirectionMarker | null;
-  directionsEnd: DirectionMarker | null;
+  searchPlaces: SearchPlaceMarker[];
+  boundaries: BoundaryMarker[];
+  directions: DirectionMarkers[];
   nearbyPlaces: NearbyPlaceMarker[];
   userLocation: UserLocationMarker | null;
   /**
    * ID of the popup currently open.
-   * Values: 'search' | 'boundary' | 'dir-start' | 'dir-end' | 'nearby-{index}' | 'user' | null
+   * Values: 'search-{index}' | 'boundary-{index}' | 'dir-start-{index}' | 'dir-end-{index}'
+   *       | 'dir-waypoint-{index}-{stop}' | 'nearby-{index}' | 'user' | null
    */
   openPopupId: string | null;
 }
 
 interface MapMarkerActions {
-  setSearchPlace: (marker: SearchPlaceMarker) => void;
-  setBoundary: (marker: BoundaryMarker) => void;
-  setDirections: (start: DirectionMarker, end: DirectionMarker) => void;
-  setNearbyPlaces: (places: NearbyPlaceMarker[]) => void;
+  addSearchPlace: (marker: SearchPlaceMarker) => void;
+  addBoundary: (marker: BoundaryMarker) => void;
+  addDirections: (
+    start: DirectionMarker,
+    end: DirectionMarker | null,
+    waypoints?: DirectionMarker[],
+  ) => void;
+  addNearbyPlaces: (places: NearbyPlaceMarker[]) => void;
   setUserLocation: (marker: UserLocationMarker) => void;
   openPopup: (id: string) => void;
   closePopup: () => void;
-  clearSearchPlace: () => void;
-  clearBoundary: () => void;
-  clearDirections: () => void;
-  clearNearbyPlaces: () => void;
-  clearUserLocation: () => void;
   clearAll: () => void;
+  /** Put back a state read with `markerState.snapshot` */
+  restore: (state: MapMarkerState) => void;
 }
 
 const INITIAL_STATE: MapMarkerState = {
-  searchPlace: null,
-  boundary: null,
-  directionsStart: null,
-  directionsEnd: null,
+  searchPlaces: [],
+  boundaries: [],
+  directions: [],
   nearbyPlaces: [],
   userLocation: null,
   openPopupId: null,
@@ -105,20 +117,26 @@ const INITIAL_STATE: MapMarkerState = {
 
 // ── Zustand Store ────────────────────────────────────────────────────
 
-const useMarkerStore = create<MapMarkerState & MapMarkerActions>((set, get) => ({
+const useMarkerStore = create<MapMarkerState & MapMarkerActions>((set) => ({
   ...INITIAL_STATE,
 
-  setSearchPlace: (marker) =>
-    set({ searchPlace: marker, boundary: null, openPopupId: 'search' }),
+  addSearchPlace: (marker) =>
+    set((s) => ({
+      searchPlaces: [...s.searchPlaces, marker],
+      openPopupId: `search-${s.searchPlaces.length}`,
+    })),
 
-  setBoundary: (marker) =>
-    set({ boundary: marker, searchPlace: null, openPopupId: 'boundary' }),
+  addBoundary: (marker) =>
+    set((s) => ({
+      boundaries: [...s.boundaries, marker],
+      openPopupId: `boundary-${s.boundaries.length}`,
+    })),
 
-  setDirections: (start, end) =>
-    set({ directionsStart: start, directionsEnd: end }),
+  addDirections: (start, end, waypoints = []) =>
+    set((s) => ({ directions: [...s.directions, { start, end, waypoints }] })),
 
-  setNearbyPlaces: (places) =>
-    set({ nearbyPlaces: places, openPopupId: null }),
+  addNearbyPlaces: (places) =>
+    set((s) => ({ nearbyPlaces: [...s.nearbyPlaces, ...places] })),
 
   setUserLocation: (marker) =>
     set({ userLocation: marker }),
@@ -129,42 +147,11 @@ const useMarkerStore = create<MapMarkerState & MapMarkerActions>((set, get) => (
   closePopup: () =>
     set({ openPopupId: null }),
 
-  clearSearchPlace: () =>
-    set((s) => ({
-      searchPlace: null,
-      openPopupId: s.openPopupId === 'search' ? null : s.openPopupId,
-    })),
-
-  clearBoundary: () =>
-    set((s) => ({
-      boundary: null,
-      openPopupId: s.openPopupId === 'boundary' ? null : s.openPopupId,
-    })),
-
-  clearDirections: () =>
-    set((s) => ({
-      directionsStart: null,
-      directionsEnd: null,
-      openPopupId:
-        s.openPopupId === 'dir-start' || s.openPopupId === 'dir-end'
-          ? null
-          : s.openPopupId,
-    })),
-
-  clearNearbyPlaces: () =>
-    set((s) => ({
-      nearbyPlaces: [],
-      openPopupId: s.openPopupId?.startsWith('nearby-') ? null : s.openPopupId,
-    })),
-
-  clearUserLocation: () =>
-    set((s) => ({
-      userLocation: null,
-      openPopupId: s.openPopupId === 'user' ? null : s.openPopupId,
-    })),
-
   clearAll: () =>
     set({ ...INITIAL_STATE }),
+
+  restore: (state) =>
+    set({ ...state }),
 }));
 
 // ── Public API (backwards-compatible) ────────────────────────────────
@@ -174,22 +161,57 @@ const useMarkerStore = create<MapMarkerState & MapMarkerActions>((set, get) => (
  * Delegates directly to zustand's `getState()`.
  */
 export const markerActions = {
-  setSearchPlace: (marker: SearchPlaceMarker) => useMarkerStore.getState().setSearchPlace(marker),
-  setBoundary: (marker: BoundaryMarker) => useMarkerStore.getState().setBoundary(marker),
-  setDirections: (start: DirectionMarker, end: DirectionMarker) =>
-    useMarkerStore.getState().setDirections(start, end),
-  setNearbyPlaces: (places: NearbyPlaceMarker[]) =>
-    useMarkerStore.getState().setNearbyPlaces(places),
+  addSearchPlace: (marker: SearchPlaceMarker) => useMarkerStore.getState().addSearchPlace(marker),
+  addBoundary: (marker: BoundaryMarker) => useMarkerStore.getState().addBoundary(marker),
+  addDirections: (
+    start: DirectionMarker,
+    end: DirectionMarker | null,
+    waypoints?: DirectionMarker[],
+  ) => useMarkerStore.getState().addDirections(start, end, waypoints),
+  addNearbyPlaces: (places: NearbyPlaceMarker[]) =>
+    useMarkerStore.getState().addNearbyPlaces(places),
   setUserLocation: (marker: UserLocationMarker) =>
     useMarkerStore.getState().setUserLocation(marker),
   openPopup: (id: string) => useMarkerStore.getState().openPopup(id),
   closePopup: () => useMarkerStore.getState().closePopup(),
-  clearSearchPlace: () => useMarkerStore.getState().clearSearchPlace(),
-  clearBoundary: () => useMarkerStore.getState().clearBoundary(),
-  clearDirections: () => useMarkerStore.getState().clearDirections(),
-  clearNearbyPlaces: () => useMarkerStore.getState().clearNearbyPlaces(),
-  clearUserLocation: () => useMarkerStore.getState().clearUserLocation(),
   clearAll: () => useMarkerStore.getState().clearAll(),
+  restore: (state: MapMarkerState) => useMarkerStore.getState().restore(state),
+};
+
+/**
+ * Imperative read access — non-React code (e.g. the agent map context).
+ */
+export const markerState = {
+  get userLocation() {
+    return useMarkerStore.getState().userLocation;
+  },
+  /** Position of every marker on the map */
+  get positions(): Array<[number, number]> {
+    const s = useMarkerStore.getState();
+    return [
+      ...s.searchPlaces.map((marker) => marker.lngLat),
+      ...s.boundaries.map((marker) => marker.lngLat),
+      ...s.directions.flatMap((route) => [
+        route.start.lngLat,
+        ...route.waypoints.map((marker) => marker.lngLat),
+        ...(route.end ? [route.end.lngLat] : []),
+      ]),
+      ...s.nearbyPlaces.map((marker) => marker.lngLat),
+      ...(s.userLocation ? [s.userLocation.lngLat] : []),
+    ];
+  },
+  /** Data slice, for rolling back a stopped request */
+  get snapshot(): MapMarkerState {
+    const s = useMarkerStore.getState();
+    return {
+      searchPlaces: s.searchPlaces,
+      boundaries: s.boundaries,
+      directions: s.directions,
+      nearbyPlaces: s.nearbyPlaces,
+      userLocation: s.userLocation,
+      openPopupId: s.openPopupId,
+    };
+  },
 };
 
 /**
@@ -200,10 +222,9 @@ export const markerActions = {
 export function useMapMarkers(): MapMarkerState {
   return useMarkerStore(
     useShallow((s) => ({
-      searchPlace: s.searchPlace,
-      boundary: s.boundary,
-      directionsStart: s.directionsStart,
-      directionsEnd: s.directionsEnd,
+      searchPlaces: s.searchPlaces,
+      boundaries: s.boundaries,
+      directions: s.directions,
       nearbyPlaces: s.nearbyPlaces,
       userLocation: s.userLocation,
       openPopupId: s.openPopupId,
@@ -0,0 +1,76 @@
+/**
+ * Visiting order for multi-stop trips (optimizeRoute).
+ *
+ * Works on a cost matrix (duration or distance) where index 0 is the start
+ * and 1..n are the stops; `[i][j]` is the cost from i to j and may differ from
+ * `[j][i]` (one-way streets). An order lists the stop indexes in visiting
+ * order. Trips have at most a handful of stops, so a nearest-neighbour tour
+ * improved by segment reversal (2-opt) is close to optimal and instant.
+ */
+
+/** Cost of visiting `order` from the start, optionally returning to it */
+export function routeCost(matrix: number[][], order: number[], returnToStart: boolean): number {
+  const path = returnToStart ? [0, ...order, 0] : [0, ...order];
+  return path.slice(1).reduce((total, to, index) => total + matrix[path[index]][to], 0);
+}
+
+function nearestNeighbourOrder(matrix: number[][]): number[] {
+  const remaining = matrix.map((_row, index) => index).slice(1);
+  const order: number[] = [];
+  let current = 0;
+
+  while (remaining.length > 0) {
+    const from = current;
+    const nearest = remaining.reduce((best, stop) =>
+      matrix[from][stop] < matrix[from][best] ? stop : best,
+    );
+    remaining.splice(remaining.indexOf(nearest), 1);
+    order.push(nearest);
+    current = nearest;
+  }
+
+  return order;
+}
+
+/** Reverse segments of the order while that lowers the cost */
+function improveOrder(matrix: number[][], order: number[], returnToStart: boolean): number[] {
+  let best = order;
+  let bestCost = routeCost(matrix, best, returnToStart);
+  let improved = true;
+
+  while (improved) {
+    improved = false;
+    for (let i = 0; i < best.length - 1; i += 1) {
+      for (let j = i + 1; j < best.length; j += 1) {
+        const candidate = [
+          ...best.slice(0, i),
+          ...best.slice(i, j + 1).reverse(),
+          ...best.slice(j + 1),
+        ];
+        const cost = routeCost(matrix, candidate, returnToStart);
+        if (cost < bestCost) {
+          best = candidate;
+          bestCost = cost;
+          improved = true;
+        }
+      }
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Near-optimal visiting order of stops 1..n. Never costlier than visiting
+ * them in the given order.
+ */
+export function optimizeVisitOrder(matrix: number[][], returnToStart: boolean): number[] {
+  const inputOrder = matrix.map((_row, index) => index).slice(1);
+  const candidates = [inputOrder, nearestNeighbourOrder(matrix)].map((order) =>
+    improveOrder(matrix, order, returnToStart),
+  );
+
+  return candidates.reduce((best, order) =>
+    routeCost(matrix, order, returnToStart) < routeCost(matrix, best, returnToStart) ? order : best,
+  );
+}
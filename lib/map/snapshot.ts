@@ -0,0 +1,42 @@
+/**
+ * Snapshots of what the copilot has put on the map — markers, layers and the
+ * camera — taken before a request runs, so a request the user stops halfway
+ * can be rolled back instead of leaving partial results behind.
+ */
+
+import type { Map } from 'maplibre-gl';
+
+import { layerActions, layerState, type MapLayerState } from './layer-store';
+import { markerActions, markerState, type MapMarkerState } from './marker-store';
+
+export interface MapSnapshot {
+  markers: MapMarkerState;
+  layers: MapLayerState;
+  camera: {
+    center: [number, number];
+    zoom: number;
+    bearing: number;
+    pitch: number;
+  };
+}
+
+export function captureMapSnapshot(map: Map): MapSnapshot {
+  const center = map.getCenter();
+  return {
+    markers: markerState.snapshot,
+    layers: layerState.snapshot,
+    camera: {
+      center: [center.lng, center.lat],
+      zoom: map.getZoom(),
+      bearing: map.getBearing(),
+      pitch: map.getPitch(),
+    },
+  };
+}
+
+/** Restore the stores and move the camera back (interrupting any tool animation) */
+export function restoreMapSnapshot(map: Map, snapshot: MapSnapshot): void {
+  layerActions.restore(snapshot.layers);
+  markerActions.restore(snapshot.markers);
+  map.easeTo({ ...snapshot.camera, duration: 600 });
+}
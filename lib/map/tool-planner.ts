@@ -0,0 +1,174 @@
+/**
+ * Execution planner for the tool calls of one agent step.
+ *
+ * Calls are grouped into stages: calls in a stage run concurrently, stages
+ * run in order. A call goes into a later stage than every earlier call it
+ * depends on:
+ * - calls that read the map view (`getMapCenter`, `nearbySearch` without a
+ *   `location`) wait for earlier calls that move the map, and for the camera
+ *   to settle;
+ * - `selectRoute` waits for earlier calls that draw directions, so it picks
+ *   among the routes they drew;
+ * - calls to a tool with its own backend conversation (`askHR`) keep their
+ *   order.
+ * All calls share one batch, so their results are merged onto the map.
+ * When `context.signal` is aborted, running calls cancel their requests and
+ * later stages are skipped.
+ */
+
+import { LngLatBounds, type Map } from 'maplibre-gl';
+
+import type { ToolCallPayload, ToolCallStatus, ToolContext, ToolResult } from '@/types';
+import { executeTool } from './tools';
+import { markerState } from './marker-store';
+import { localeState, t } from '../i18n';
+import { buildValidationFailure } from '../toolValidation';
+
+// ── Dependency Rules ─────────────────────────────────────────────────
+
+/** Tools that move the camera or draw on the map */
+const MAP_VIEW_TOOLS = new Set([
+  'searchPlace',
+  'getDirections',
+  'selectRoute',
+  'optimizeRoute',
+  'nearbySearch',
+  'getUserLocation',
+  'askHR',
+]);
+
+/** Tools that replace the directions (and their alternatives) on the map */
+const DIRECTIONS_TOOLS = new Set(['getDirections', 'optimizeRoute']);
+
+/** Tools whose calls must run in the order the model gave them */
+const ORDERED_TOOLS = new Set(['askHR']);
+
+function readsMapView(call: ToolCallPayload): boolean {
+  if (call.name === 'getMapCenter') return true;
+  if (call.name !== 'nearbySearch') return false;
+  const location = call.arguments.location;
+  return typeof location !== 'string' || !location.trim();
+}
+
+function dependsOn(call: ToolCallPayload, earlier: ToolCallPayload): boolean {
+  if (readsMapView(call) && MAP_VIEW_TOOLS.has(earlier.name)) return true;
+  if (call.name === 'selectRoute' && DIRECTIONS_TOOLS.has(earlier.name)) return true;
+  return ORDERED_TOOLS.has(call.name) && call.name === earlier.name;
+}
+
+// ── Planning ─────────────────────────────────────────────────────────
+
+/**
+ * Group calls into stages (indexes into `calls`). Calls rejected by
+ * validation are never executed and are left out.
+ */
+export function planToolStages(calls: ToolCallPayload[]): number[][] {
+  const stageOf: number[] = [];
+  const stages: number[][] = [];
+
+  calls.forEach((call, index) => {
+    if (call.validationErrors?.length) {
+      stageOf.push(-1);
+      return;
+    }
+
+    let stage = 0;
+    for (let earlier = 0; earlier < index; earlier += 1) {
+      if (stageOf[earlier] >= 0 && dependsOn(call, calls[earlier])) {
+        stage = Math.max(stage, stageOf[earlier] + 1);
+      }
+    }
+    stageOf.push(stage);
+    (stages[stage] ??= []).push(index);
+  });
+
+  return stages;
+}
+
+// ── Execution ────────────────────────────────────────────────────────
+
+export interface ToolCallOutcome {
+  call: ToolCallPayload;
+  result: ToolResult;
+  /** Execution time in the browser; null when the call was not executed */
+  durationMs: number | null;
+}
+
+function waitForMapIdle(map: Map): Promise<void> {
+  if (!map.isMoving()) return Promise.resolve();
+  return new Promise((resolve) => {
+    map.once('moveend', () => resolve());
+  });
+}
+
+/** Fit the camera to every marker once several calls have drawn */
+function fitMapToResults(map: Map): void {
+  const positions = markerState.positions;
+  if (positions.length < 2) return;
+
+  const bounds = positions.reduce(
+    (acc, position) => acc.extend(position),
+    new LngLatBounds(positions[0], positions[0]),
+  );
+  map.fitBounds(bounds, { padding: 80, duration: 1200, maxZoom: 15 });
+}
+
+/**
+ * Run the calls of one agent step stage by stage. `onStatus` reports every
+ * status change for the chat panel. Outcomes are returned in call order.
+ * Rejects with the signal's abort reason once the running stage has settled
+ * if the user stopped the request.
+ */
+export async function executeToolCalls(
+  map: Map,
+  calls: ToolCallPayload[],
+  context: ToolContext,
+  onStatus?: (call: ToolCallPayload, status: ToolCallStatus) => void,
+): Promise<ToolCallOutcome[]> {
+  const outcomes: ToolCallOutcome[] = calls.map((call) => ({
+    call,
+    result: call.validationErrors?.length
+      ? buildValidationFailure(
+          call.name,
+          call.arguments,
+          call.validationErrors,
+          localeState.locale,
+        )
+      : { success: false, message: t('tool.notExecuted') },
+    durationMs: null,
+  }));
+  outcomes.forEach((outcome) => {
+    if (outcome.call.validationErrors?.length) onStatus?.(outcome.call, 'failed');
+  });
+
+  const batchContext: ToolContext = { ...context, batch: { cleared: false } };
+  const stages = planToolStages(calls);
+
+  for (const stage of stages) {
+    context.signal?.throwIfAborted();
+    if (stage.some((index) => readsMapView(calls[index]))) await waitForMapIdle(map);
+    context.signal?.throwIfAborted();
+
+    await Promise.all(
+      stage.map(async (index) => {
+        const call = calls[index];
+        onStatus?.(call, 'running');
+        const startedAt = performance.now();
+        const result = await executeTool(map, call.name, call.arguments, batchContext);
+        outcomes[index] = {
+          call,
+          result,
+          durationMs: Math.round(performance.now() - startedAt),
+        };
+        onStatus?.(call, result.success ? 'success' : 'failed');
+      }),
+    );
+  }
+
+  context.signal?.throwIfAborted();
+
+  const executed = outcomes.filter((outcome) => outcome.durationMs !== null);
+  if (executed.length > 1 && batchContext.batch?.cleared) fitMapToResults(map);
+
+  return outcomes;
+}
@@ -5,14 +5,31 @@
 
 import { Map, LngLatBounds } from 'maplibre-gl';
 
-import type { ToolResult, DirectionsMode, NearbyPlaceType } from '@/types';
+import type {
+  ToolResult,
+  ToolContext,
+  DirectionsAvoid,
+  DirectionsMode,
+  NearbyPlaceType,
+} from '@/types';
 import {
   isCurrentLocationInput,
+  isCameraNearbyRequest,
   getCurrentLocationCoordinates,
-  normalizeLocationText,
   buildBufferCoordinates,
+  normalizeDirectionsMode,
 } from './geo';
-import { textSearch, fetchDirections, fetchNearbyPlaces, type NearbyPlace } from './google-api';
+import {
+  textSearch,
+  fetchDirections,
+  fetchDirectionsThroughStops,
+  fetchNearbyPlaces,
+  fetchTravelMatrix,
+  resolveRouteStops,
+  formatDistance,
+  formatDuration,
+  type NearbyPlace,
+} from './google-api';
 import {
   findMatchingProvince,
   fetchProvinceBoundary,
@@ -21,40 +38,123 @@ import {
   extractCoordsFromHRResponse,
 } from './gtel-api';
 import { markerActions } from './marker-store';
-import { layerActions } from './layer-store';
+import {
+  layerActions,
+  layerState,
+  type DirectionsRouteLine,
+  type DirectionsRouteStep,
+} from './layer-store';
+import { optimizeVisitOrder, routeCost } from './route-order';
+import { localeState, t } from '../i18n';
+import { validateToolArguments, buildValidationFailure } from '../toolValidation';
+
+// ── Map Results ──────────────────────────────────────────────────────
+
+/**
+ * Remove the previous results before a tool draws. Within a batch (the calls
+ * of one agent step) only the first drawing call clears, so results merge.
+ */
+function clearPreviousResults(context: ToolContext): void {
+  if (context.batch) {
+    if (context.batch.cleared) return;
+    context.batch.cleared = true;
+  }
+  layerActions.clearAll();
+  markerActions.clearAll();
+}
+
+/** Fit the camera to a drawn route and its stops */
+function fitRouteBounds(
+  map: Map,
+  coordinates: number[][],
+  stops: Array<{ lat: number; lng: number }>,
+): void {
+  const first = coordinates[0] as [number, number];
+  const bounds = coordinates.reduce(
+    (acc, coord) => acc.extend(coord as [number, number]),
+    new LngLatBounds(first, first),
+  );
+  stops.forEach((stop) => bounds.extend([stop.lng, stop.lat]));
+  map.fitBounds(bounds, { padding: 80, duration: 1000 });
+}
+
+/** Duration in traffic next to the free-flow one, when the directions have a departure time */
+function formatRouteDuration(route: {
+  durationText: string;
+  durationInTrafficText: string | null;
+}): string {
+  return route.durationInTrafficText
+    ? t('tool.directions.durationWithTraffic', {
+        traffic: route.durationInTrafficText,
+        freeFlow: route.durationText,
+      })
+    : route.durationText;
+}
+
+/** Route options as reported to the model, numbered from 1 */
+function describeRouteOptions(routes: DirectionsRouteLine[]) {
+  return routes.map((option, index) => ({
+    index: index + 1,
+    summary: option.summary,
+    distanceText: option.distanceText,
+    distanceMeters: option.distanceMeters,
+    durationText: option.durationText,
+    durationSeconds: option.durationSeconds,
+    durationInTrafficText: option.durationInTrafficText,
+    durationInTrafficSeconds: option.durationInTrafficSeconds,
+  }));
+}
+
+/** Longer routes report only their first steps, to keep the tool result small */
+const MAX_REPORTED_STEPS = 50;
+
+/** Turn-by-turn steps as reported to the model, numbered from 1 like the itinerary panel */
+function describeSteps(steps: DirectionsRouteStep[]) {
+  const multiLeg = steps.some((step) => step.legIndex > 0);
+  return steps.slice(0, MAX_REPORTED_STEPS).map((step, index) => ({
+    index: index + 1,
+    ...(multiLeg ? { leg: step.legIndex + 1 } : {}),
+    instruction: step.instruction,
+    distanceText: step.distanceText,
+    durationText: step.durationText,
+    ...(step.maneuver ? { maneuver: step.maneuver } : {}),
+  }));
+}
+
+function formatRouteOptions(routes: DirectionsRouteLine[]): string[] {
+  return routes.map((option, index) =>
+    t('tool.directions.routeOption', {
+      index: index + 1,
+      roads: option.summary || t('tool.directions.unnamedRoute'),
+      distance: option.distanceText,
+      duration: formatRouteDuration(option),
+    }),
+  );
+}
 
 // ── Resolve Helpers ──────────────────────────────────────────────────
 
 async function resolveNearbySearchCenter(
   map: Map,
-  location?: string,
+  location: string | undefined,
+  signal: AbortSignal | undefined,
 ): Promise<{ lat: number; lng: number; label: string }> {
   if (!location || !location.trim()) {
     const center = map.getCenter();
-    return { lat: center.lat, lng: center.lng, label: 'tâm bản đồ hiện tại' };
+    return { lat: center.lat, lng: center.lng, label: t('tool.nearby.mapCenter') };
   }
 
   if (isCurrentLocationInput(location)) {
-    const current = await getCurrentLocationCoordinates();
-    return { lat: current.lat, lng: current.lng, label: 'vị trí hiện tại của bạn' };
+    const current = await getCurrentLocationCoordinates(signal);
+    return { lat: current.lat, lng: current.lng, label: t('tool.nearby.currentLocation') };
   }
 
-  const resolved = await textSearch(location);
+  const resolved = await textSearch(location, signal);
   return { lat: resolved.lat, lng: resolved.lng, label: resolved.displayName };
 }
 
-const CAMERA_KEYWORD_PATTERNS = ['camera', 'camera giao thong', 'cam giao thong', 'traffic camera'];
 const MAX_REQUESTED_NEARBY_RESULTS = 200;
 
-function isCameraNearbyRequest(keyword?: string | null, type?: NearbyPlaceType | null): boolean {
-  if (type === 'traffic_camera') return true;
-  if (type) return false;
-  if (!keyword) return false;
-
-  const normalized = normalizeLocationText(keyword);
-  return CAMERA_KEYWORD_PATTERNS.some((pattern) => normalized.includes(pattern));
-}
-
 function normalizeNearbyLimit(limit: unknown): number | null {
   const numericLimit =
     typeof limit === 'number'
@@ -73,22 +173,25 @@ function normalizeNearbyLimit(limit: unknown): number | null {
 
 // ── Tool: searchPlace ────────────────────────────────────────────────
 
-async function searchPlace(map: Map, args: { query: string }): Promise<ToolResult> {
-  layerActions.clearAll();
-  markerActions.clearAll();
+async function searchPlace(
+  map: Map,
+  args: { query: string },
+  context: ToolContext,
+): Promise<ToolResult> {
+  clearPreviousResults(context);
 
   // ── Check for province/city boundary match (RGHC) ──────────────
   const matchedProvince = findMatchingProvince(args.query);
   if (matchedProvince) {
-    return searchProvinceBoundary(map, matchedProvince.prov_code);
+    return searchProvinceBoundary(map, matchedProvince.prov_code, context.signal);
   }
 
   // ── Normal Google text search ──────────────────────────────────
-  const location = await textSearch(args.query);
+  const location = await textSearch(args.query, context.signal);
 
   map.flyTo({ center: [location.lng, location.lat], zoom: 14, essential: true, duration: 2500 });
 
-  markerActions.setSearchPlace({
+  markerActions.addSearchPlace({
     lngLat: [location.lng, location.lat],
     color: '#4F46E5',
     popupData: {
@@ -105,7 +208,14 @@ async function searchPlace(map: Map, args: { query: string }): Promise<ToolResul
 
   return {
     success: true,
-    message: `Đã tìm thấy "${args.query}" tại ${location.name}${location.address !== location.name ? ` (${location.address})` : ''}.`,
+    message:
+      location.address !== location.name
+        ? t('tool.searchPlace.foundWithAddress', {
+            query: args.query,
+            name: location.name,
+            address: location.address,
+          })
+        : t('tool.searchPlace.found', { query: args.query, name: location.name }),
     data: {
       lng: location.lng,
       lat: location.lat,
@@ -123,11 +233,15 @@ async function searchPlace(map: Map, args: { query: string }): Promise<ToolResul
 
 // ── Tool: searchProvinceBoundary ─────────────────────────────────────
 
-async function searchProvinceBoundary(map: Map, provCode: string): Promise<ToolResult> {
-  const boundary = await fetchProvinceBoundary(provCode);
+async function searchProvinceBoundary(
+  map: Map,
+  provCode: string,
+  signal: AbortSignal | undefined,
+): Promise<ToolResult> {
+  const boundary = await fetchProvinceBoundary(provCode, signal);
 
   // Draw the polygon boundary on the map (via React store)
-  layerActions.setBoundary({ geom: boundary.geom, viewport: boundary.viewport });
+  layerActions.addBoundary({ geom: boundary.geom, viewport: boundary.viewport });
 
   // Fit to viewport if provided
   if (boundary.viewport) {
@@ -139,7 +253,7 @@ async function searchProvinceBoundary(map: Map, provCode: string): Promise<ToolR
   }
 
   // Add a marker at the center with popup (via React store)
-  markerActions.setBoundary({
+  markerActions.addBoundary({
     lngLat: [boundary.center.lng, boundary.center.lat],
     color: '#4338CA',
     popupData: {
@@ -152,7 +266,11 @@ async function searchProvinceBoundary(map: Map, provCode: string): Promise<ToolR
 
   return {
     success: true,
-    message: `Đã hiển thị ranh giới hành chính của ${boundary.prov_fname} (${boundary.prov_fne}) — ${boundary.level}.`,
+    message: t('tool.boundary.shown', {
+      name: boundary.prov_fname,
+      nameEn: boundary.prov_fne,
+      level: boundary.level,
+    }),
     data: {
       provCode: boundary.prov_code,
       name: boundary.prov_fname,
@@ -169,55 +287,319 @@ async function searchProvinceBoundary(map: Map, provCode: string): Promise<ToolR
 
 async function getDirections(
   map: Map,
-  args: { from: string; to: string; mode?: DirectionsMode },
+  args: {
+    from: string;
+    to: string;
+    mode?: DirectionsMode;
+    waypoints?: string[];
+    avoid?: DirectionsAvoid[];
+    departureTime?: string;
+    arrivalTime?: string;
+  },
+  context: ToolContext,
 ): Promise<ToolResult> {
-  layerActions.clearAll();
-  markerActions.clearAll();
+  clearPreviousResults(context);
 
-  const route = await fetchDirections(args.from, args.to, args.mode);
+  const route = await fetchDirections(args, context.signal);
 
-  // Draw direction route via React store
-  layerActions.setDirections({ coordinates: route.coordinates });
+  // Draw the recommended route and the alternatives via React store
+  layerActions.addDirections({ routes: route.routes, selectedIndex: 0, selectedStep: null });
 
   const startCoord = route.coordinates[0];
   const endCoord = route.coordinates[route.coordinates.length - 1];
 
-  markerActions.setDirections(
+  markerActions.addDirections(
     {
       lngLat: startCoord as [number, number],
       color: '#22C55E',
-      label: 'Điểm đi:',
+      label: t('tool.directions.start'),
       address: route.startAddress,
     },
     {
       lngLat: endCoord as [number, number],
       color: '#EF4444',
-      label: 'Điểm đến:',
+      label: t('tool.directions.end'),
       address: route.endAddress,
     },
+    route.waypoints.map((waypoint, index) => ({
+      lngLat: [waypoint.lng, waypoint.lat] as [number, number],
+      color: '#F59E0B',
+      label: t('tool.directions.waypoint', { index: index + 1 }),
+      address: waypoint.address,
+    })),
   );
 
-  const bounds = route.coordinates.reduce(
-    (acc, coord) => acc.extend(coord),
-    new LngLatBounds(startCoord, startCoord),
+  fitRouteBounds(
+    map,
+    route.routes.flatMap((option) => option.coordinates),
+    route.waypoints,
   );
-  map.fitBounds(bounds, { padding: 80, duration: 1000 });
+
+  const summary =
+    route.waypoints.length > 0
+      ? t('tool.directions.drawnVia', {
+          mode: route.modeLabel,
+          from: args.from,
+          to: args.to,
+          count: route.waypoints.length,
+          distance: route.distanceText,
+          duration: formatRouteDuration(route),
+        })
+      : t('tool.directions.drawn', {
+          mode: route.modeLabel,
+          from: args.from,
+          to: args.to,
+          distance: route.distanceText,
+          duration: formatRouteDuration(route),
+        });
+  // Walking and cycling never have traffic; transit follows its timetable
+  const trafficMissing =
+    route.departureTime !== null &&
+    route.durationInTrafficSeconds === null &&
+    (route.mode === 'driving' || route.mode === 'motorbike');
+  const timingLines = [
+    ...(route.avoid.length > 0
+      ? [
+          t('tool.directions.avoiding', {
+            avoid: route.avoid.map((avoid) => t(`directionsAvoid.${avoid}`)).join(', '),
+          }),
+        ]
+      : []),
+    ...(route.departureTimeText && route.arrivalTimeText
+      ? [
+          t('tool.directions.schedule', {
+            departure: route.departureTimeText,
+            arrival: route.arrivalTimeText,
+          }),
+        ]
+      : []),
+    ...(trafficMissing ? [t('tool.directions.noTraffic')] : []),
+  ];
+  // Multi-stop routes list every leg so the answer can walk through them
+  const legLines =
+    route.legs.length > 1
+      ? route.legs.map((leg, index) =>
+          t('tool.directions.leg', {
+            index: index + 1,
+            from: leg.startAddress,
+            to: leg.endAddress,
+            distance: leg.distanceText,
+            duration: leg.durationText,
+          }),
+        )
+      : [];
+
+  const alternativeLines =
+    route.routes.length > 1
+      ? [
+          t('tool.directions.alternatives', { count: route.routes.length }),
+          ...formatRouteOptions(route.routes),
+        ]
+      : [];
 
   return {
     success: true,
-    message:
-      `Đã vẽ lộ trình ${route.modeLabel} từ "${args.from}" đến "${args.to}" ` +
-      `(${route.distanceText}, khoảng ${route.durationText}).` +
-      (route.modeNote ? ` ${route.modeNote}` : ''),
+    message: [
+      summary + (route.modeNote ? ` ${route.modeNote}` : ''),
+      ...timingLines,
+      ...legLines,
+      ...alternativeLines,
+    ].join('\n'),
     data: {
       from: route.startAddress,
       to: route.endAddress,
+      waypoints: route.waypoints.map((waypoint) => waypoint.address),
       mode: route.mode,
       modeLabel: route.modeLabel,
       distanceText: route.distanceText,
       durationText: route.durationText,
       distanceMeters: route.distanceMeters,
       durationSeconds: route.durationSeconds,
+      durationInTrafficText: route.durationInTrafficText,
+      durationInTrafficSeconds: route.durationInTrafficSeconds,
+      avoid: route.avoid,
+      departureTimeText: route.departureTimeText,
+      arrivalTimeText: route.arrivalTimeText,
+      legs: route.legs,
+      routes: describeRouteOptions(route.routes),
+      selectedRoute: 1,
+      steps: describeSteps(route.steps),
+      stepCount: route.steps.length,
+      points: route.coordinates.length,
+      modeNote: route.modeNote,
+    },
+  };
+}
+
+// ── Tool: selectRoute ────────────────────────────────────────────────
+
+/**
+ * Highlight another option of the latest directions that has alternatives.
+ * Without `index` the next option is taken ("đi đường khác").
+ */
+async function selectRoute(map: Map, args: { index?: number }): Promise<ToolResult> {
+  const directionsIndex = layerState.directions.findLastIndex((data) => data.routes.length > 1);
+  if (directionsIndex < 0) {
+    throw new Error(t('tool.selectRoute.noAlternatives'));
+  }
+
+  const { routes, selectedIndex } = layerState.directions[directionsIndex];
+  const routeIndex =
+    args.index === undefined ? (selectedIndex + 1) % routes.length : args.index - 1;
+  if (routeIndex >= routes.length) {
+    throw new Error(
+      t('tool.selectRoute.invalidIndex', { index: args.index ?? '', count: routes.length }),
+    );
+  }
+
+  layerActions.selectRoute(directionsIndex, routeIndex);
+  fitRouteBounds(map, routes[routeIndex].coordinates, []);
+
+  const selected = routes[routeIndex];
+  return {
+    success: true,
+    message: [
+      t('tool.selectRoute.selected', {
+        index: routeIndex + 1,
+        count: routes.length,
+        roads: selected.summary || t('tool.directions.unnamedRoute'),
+        distance: selected.distanceText,
+        duration: formatRouteDuration(selected),
+      }),
+      ...formatRouteOptions(routes),
+    ].join('\n'),
+    data: {
+      selectedRoute: routeIndex + 1,
+      previousRoute: selectedIndex + 1,
+      routes: describeRouteOptions(routes),
+      steps: describeSteps(selected.steps),
+      stepCount: selected.steps.length,
+    },
+  };
+}
+
+// ── Tool: optimizeRoute ──────────────────────────────────────────────
+
+/** Savings below these are noise, not a better order */
+const MIN_SAVED_DISTANCE_METERS = 10;
+const MIN_SAVED_DURATION_SECONDS = 30;
+
+async function optimizeRoute(
+  map: Map,
+  args: { start: string; stops: string[]; returnToStart?: boolean; mode?: DirectionsMode },
+  context: ToolContext,
+): Promise<ToolResult> {
+  clearPreviousResults(context);
+
+  const mode = normalizeDirectionsMode(args.mode);
+  const returnToStart = args.returnToStart === true;
+  const queries = args.stops.map((query) => query.trim()).filter(Boolean);
+
+  const places = await resolveRouteStops([args.start, ...queries], context.signal);
+  const matrix = await fetchTravelMatrix(places, mode, context.signal);
+
+  // Order by travel time when the routing provider gave one, else by distance
+  const costs = matrix.durationSeconds ?? matrix.distanceMeters;
+  const inputOrder = places.map((_place, index) => index).slice(1);
+  const order = optimizeVisitOrder(costs, returnToStart);
+
+  const savedDistanceMeters = Math.round(
+    routeCost(matrix.distanceMeters, inputOrder, returnToStart) -
+      routeCost(matrix.distanceMeters, order, returnToStart),
+  );
+  const savedDurationSeconds = matrix.durationSeconds
+    ? Math.round(
+        routeCost(matrix.durationSeconds, inputOrder, returnToStart) -
+          routeCost(matrix.durationSeconds, order, returnToStart),
+      )
+    : null;
+
+  const start = places[0];
+  const orderedStops = order.map((index) => places[index]);
+  const route = await fetchDirectionsThroughStops(
+    returnToStart ? [start, ...orderedStops, start] : [start, ...orderedStops],
+    { mode },
+    context.signal,
+  );
+
+  layerActions.addDirections({ routes: route.routes, selectedIndex: 0, selectedStep: null });
+  markerActions.addDirections(
+    {
+      lngLat: [start.lng, start.lat],
+      color: '#22C55E',
+      label: t('tool.directions.start'),
+      address: route.startAddress,
+    },
+    null,
+    orderedStops.map((stop, index) => ({
+      lngLat: [stop.lng, stop.lat] as [number, number],
+      color: '#F59E0B',
+      label: t('tool.directions.waypoint', { index: index + 1 }),
+      address: route.legs[index].endAddress,
+    })),
+  );
+  fitRouteBounds(map, route.coordinates, orderedStops);
+
+  const savings = [
+    savedDistanceMeters >= MIN_SAVED_DISTANCE_METERS ? formatDistance(savedDistanceMeters) : null,
+    savedDurationSeconds !== null && savedDurationSeconds >= MIN_SAVED_DURATION_SECONDS
+      ? formatDuration(savedDurationSeconds)
+      : null,
+  ].filter((saving): saving is string => saving !== null);
+
+  const messageLines = [
+    t(returnToStart ? 'tool.optimizeRoute.drawnRoundTrip' : 'tool.optimizeRoute.drawn', {
+      count: orderedStops.length,
+      mode: route.modeLabel,
+      start: args.start,
+      distance: route.distanceText,
+      duration: route.durationText,
+    }) + (route.modeNote ? ` ${route.modeNote}` : ''),
+    t('tool.optimizeRoute.order', {
+      order: orderedStops.map((stop, index) => `${index + 1}. ${stop.query}`).join(' → '),
+    }),
+    savings.length > 0
+      ? t('tool.optimizeRoute.saved', { saving: savings.join(', ') })
+      : t('tool.optimizeRoute.alreadyOptimal'),
+    ...(matrix.source === 'straight-line' ? [t('tool.optimizeRoute.straightLine')] : []),
+    ...route.legs.map((leg, index) =>
+      t('tool.directions.leg', {
+        index: index + 1,
+        from: leg.startAddress,
+        to: leg.endAddress,
+        distance: leg.distanceText,
+        duration: leg.durationText,
+      }),
+    ),
+  ];
+
+  return {
+    success: true,
+    message: messageLines.join('\n'),
+    data: {
+      start: route.startAddress,
+      order: orderedStops.map((stop, index) => ({
+        position: index + 1,
+        inputPosition: order[index],
+        query: stop.query,
+        address: route.legs[index].endAddress,
+        lat: stop.lat,
+        lng: stop.lng,
+      })),
+      returnToStart,
+      mode: route.mode,
+      modeLabel: route.modeLabel,
+      distanceText: route.distanceText,
+      durationText: route.durationText,
+      distanceMeters: route.distanceMeters,
+      durationSeconds: route.durationSeconds,
+      legs: route.legs,
+      optimizedBy: matrix.durationSeconds ? 'duration' : 'distance',
+      matrixSource: matrix.source,
+      savedDistanceMeters,
+      savedDurationSeconds,
+      steps: describeSteps(route.steps),
+      stepCount: route.steps.length,
       points: route.coordinates.length,
       modeNote: route.modeNote,
     },
@@ -236,6 +618,7 @@ async function nearbySearch(
     minRating?: number;
     limit?: number;
   },
+  context: ToolContext,
 ): Promise<ToolResult> {
   const keyword = args.keyword?.trim() || null;
   const type = args.type || null;
@@ -249,15 +632,12 @@ async function nearbySearch(
   const contextType = isTrafficCameraSearch ? 'traffic_camera' : effectiveType || null;
 
   if (!effectiveKeyword && !effectiveType) {
-    throw new Error(
-      'Bạn chưa nêu rõ cần tìm gì lân cận. Hãy nói thêm từ khóa hoặc loại địa điểm (ví dụ: bãi gửi xe, quán cà phê).',
-    );
+    throw new Error(t('tool.nearby.missingCriteria'));
   }
 
-  const center = await resolveNearbySearchCenter(map, args.location);
+  const center = await resolveNearbySearchCenter(map, args.location, context.signal);
 
-  layerActions.clearAll();
-  markerActions.clearAll();
+  clearPreviousResults(context);
 
   let radius = 0;
   let minRating: number | null = null;
@@ -267,11 +647,14 @@ async function nearbySearch(
   let places: NearbyPlace[] = [];
 
   if (isTrafficCameraSearch) {
-    const cameraResult = await fetchNearbyCameras({
-      location: { lat: center.lat, lng: center.lng },
-      keyword: effectiveKeyword,
-      radius: effectiveRadius,
-    });
+    const cameraResult = await fetchNearbyCameras(
+      {
+        location: { lat: center.lat, lng: center.lng },
+        keyword: effectiveKeyword,
+        radius: effectiveRadius,
+      },
+      context.signal,
+    );
 
     radius = cameraResult.radius;
     rawCount = cameraResult.rawCount;
@@ -292,13 +675,16 @@ async function nearbySearch(
       photoUrl: camera.photoUrl,
     }));
   } else {
-    const nearbyResult = await fetchNearbyPlaces({
-      location: { lat: center.lat, lng: center.lng },
-      keyword: effectiveKeyword,
-      type: effectiveType,
-      radius: effectiveRadius,
-      minRating: effectiveMinRating,
-    });
+    const nearbyResult = await fetchNearbyPlaces(
+      {
+        location: { lat: center.lat, lng: center.lng },
+        keyword: effectiveKeyword,
+        type: effectiveType,
+        radius: effectiveRadius,
+        minRating: effectiveMinRating,
+      },
+      context.signal,
+    );
 
     radius = nearbyResult.radius;
     minRating = nearbyResult.minRating;
@@ -310,7 +696,7 @@ async function nearbySearch(
 
   // Draw nearby buffer circle via React store
   const ring = buildBufferCoordinates({ lng: center.lng, lat: center.lat }, radius);
-  layerActions.setNearbyBuffer({ ring, radiusMeters: radius });
+  layerActions.addNearbyBuffer({ ring, radiusMeters: radius });
 
   const bufferBounds = ring.reduce(
     (acc, coord) => acc.extend(coord),
@@ -322,10 +708,8 @@ async function nearbySearch(
     return {
       success: true,
       message:
-        `Không tìm thấy kết quả lân cận trong vùng buffer bán kính ${radius}m quanh ${center.label}.` +
-        (rawCount > 0
-          ? ` API trả về ${rawCount} điểm nhưng không điểm nào đạt điều kiện lọc hiện tại.`
-          : ''),
+        t('tool.nearby.none', { radius, center: center.label }) +
+        (rawCount > 0 ? t('tool.nearby.allFiltered', { count: rawCount }) : ''),
       data: {
         center,
         radius,
@@ -347,7 +731,7 @@ async function nearbySearch(
   const visiblePlaces = requestedLimit === null ? places : places.slice(0, requestedLimit);
   const bounds = new LngLatBounds(bufferBounds.getSouthWest(), bufferBounds.getNorthEast());
 
-  markerActions.setNearbyPlaces(
+  markerActions.addNearbyPlaces(
     visiblePlaces.map((place) => ({
       lngLat: [place.lng, place.lat] as [number, number],
       popupData: {
@@ -374,10 +758,10 @@ async function nearbySearch(
   return {
     success: true,
     message:
-      `Đã tìm thấy ${places.length} địa điểm lân cận trong bán kính ${radius}m quanh ${center.label}. ` +
+      t('tool.nearby.found', { count: places.length, radius, center: center.label }) +
       (requestedLimit === null
-        ? `Đang hiển thị toàn bộ ${visiblePlaces.length} điểm trên bản đồ.`
-        : `Theo yêu cầu, đang hiển thị ${visiblePlaces.length} điểm trên bản đồ.`),
+        ? t('tool.nearby.showingAll', { count: visiblePlaces.length })
+        : t('tool.nearby.showingLimited', { count: visiblePlaces.length })),
     data: {
       center,
       radius,
@@ -409,18 +793,29 @@ async function nearbySearch(
 
 // ── Tool: getUserLocation ────────────────────────────────────────────
 
-async function getUserLocation(map: Map): Promise<ToolResult> {
-  layerActions.clearAll();
-  markerActions.clearAll();
+async function getUserLocation(map: Map, context: ToolContext): Promise<ToolResult> {
+  clearPreviousResults(context);
+
+  const { signal } = context;
 
   return new Promise((resolve) => {
     if (!navigator.geolocation) {
-      resolve({ success: false, message: 'Trình duyệt hiện tại không hỗ trợ định vị GPS.' });
+      resolve({ success: false, message: t('geo.unsupported') });
       return;
     }
 
+    // Geolocation cannot be cancelled: stop waiting and ignore a late position
+    const onAbort = () => resolve({ success: false, message: t('tool.location.stopped') });
+    if (signal?.aborted) {
+      onAbort();
+      return;
+    }
+    signal?.addEventListener('abort', onAbort, { once: true });
+
     navigator.geolocation.getCurrentPosition(
       (position) => {
+        signal?.removeEventListener('abort', onAbort);
+        if (signal?.aborted) return;
         const { longitude, latitude } = position.coords;
 
         map.flyTo({ center: [longitude, latitude], zoom: 15, essential: true, duration: 2000 });
@@ -429,12 +824,16 @@ async function getUserLocation(map: Map): Promise<ToolResult> {
 
         resolve({
           success: true,
-          message: `Đã xác định vị trí của bạn: [${longitude.toFixed(4)}, ${latitude.toFixed(4)}]`,
+          message: t('tool.location.found', {
+            lng: longitude.toFixed(4),
+            lat: latitude.toFixed(4),
+          }),
           data: { lng: longitude, lat: latitude },
         });
       },
       (error) => {
-        resolve({ success: false, message: `Lỗi định vị: ${error.message}` });
+        signal?.removeEventListener('abort', onAbort);
+        resolve({ success: false, message: t('tool.location.error', { error: error.message }) });
       },
       { enableHighAccuracy: true, timeout: 10000 },
     );
@@ -449,15 +848,23 @@ async function getMapCenter(map: Map): Promise<ToolResult> {
 
   return {
     success: true,
-    message: `Tâm bản đồ hiện tại: [${center.lng.toFixed(4)}, ${center.lat.toFixed(4)}], mức zoom: ${zoom.toFixed(1)}.`,
+    message: t('tool.mapCenter', {
+      lng: center.lng.toFixed(4),
+      lat: center.lat.toFixed(4),
+      zoom: zoom.toFixed(1),
+    }),
     data: { lng: center.lng, lat: center.lat, zoom },
   };
 }
 
 // ── Tool: askHR ──────────────────────────────────────────────────────
 
-async function askHR(map: Map, args: { question: string }): Promise<ToolResult> {
-  const hrResponse = await fetchHRInfo(args.question);
+async function askHR(
+  map: Map,
+  args: { question: string },
+  context: ToolContext,
+): Promise<ToolResult> {
+  const hrResponse = await fetchHRInfo(args.question, context.sessionId, context.signal);
   const responseText = hrResponse.output;
 
   // Try to extract GPS coordinates from the response
@@ -465,14 +872,13 @@ async function askHR(map: Map, args: { question: string }): Promise<ToolResult>
 
   if (coords.length > 0) {
     // Clear previous markers/layers and show attendance locations
-    layerActions.clearAll();
-    markerActions.clearAll();
+    clearPreviousResults(context);
 
-    markerActions.setNearbyPlaces(
+    markerActions.addNearbyPlaces(
       coords.map((coord, index) => ({
         lngLat: [coord.lng, coord.lat] as [number, number],
         popupData: {
-          name: `Vị trí chấm công #${index + 1}`,
+          name: t('tool.hr.attendanceLocation', { index: index + 1 }),
           address: `${coord.lat}, ${coord.lng}`,
           rating: null,
           userRatingsTotal: null,
@@ -482,7 +888,7 @@ async function askHR(map: Map, args: { question: string }): Promise<ToolResult>
           photoUrl: null,
         },
         photoUrl: null,
-        name: `Vị trí chấm công #${index + 1}`,
+        name: t('tool.hr.attendanceLocation', { index: index + 1 }),
       })),
     );
 
@@ -526,13 +932,36 @@ async function askHR(map: Map, args: { question: string }): Promise<ToolResult>
 
 // ── Tool Dispatcher ──────────────────────────────────────────────────
 
-type ToolExecutor = (map: Map, args: Record<string, unknown>) => Promise<ToolResult>;
+type ToolExecutor = (
+  map: Map,
+  args: Record<string, unknown>,
+  context: ToolContext,
+) => Promise<ToolResult>;
 
 const TOOL_EXECUTORS: Record<string, ToolExecutor> = {
-  searchPlace: (map, args) => searchPlace(map, args as { query: string }),
-  getDirections: (map, args) =>
-    getDirections(map, args as { from: string; to: string; mode?: DirectionsMode }),
-  nearbySearch: (map, args) =>
+  searchPlace: (map, args, context) => searchPlace(map, args as { query: string }, context),
+  getDirections: (map, args, context) =>
+    getDirections(
+      map,
+      args as {
+        from: string;
+        to: string;
+        mode?: DirectionsMode;
+        waypoints?: string[];
+        avoid?: DirectionsAvoid[];
+        departureTime?: string;
+        arrivalTime?: string;
+      },
+      context,
+    ),
+  selectRoute: (map, args) => selectRoute(map, args as { index?: number }),
+  optimizeRoute: (map, args, context) =>
+    optimizeRoute(
+      map,
+      args as { start: string; stops: string[]; returnToStart?: boolean; mode?: DirectionsMode },
+      context,
+    ),
+  nearbySearch: (map, args, context) =>
     nearbySearch(
       map,
       args as {
@@ -543,32 +972,48 @@ const TOOL_EXECUTORS: Record<string, ToolExecutor> = {
         minRating?: number;
         limit?: number;
       },
+      context,
     ),
-  getUserLocation: (map) => getUserLocation(map),
+  getUserLocation: (map, _args, context) => getUserLocation(map, context),
   getMapCenter: (map) => getMapCenter(map),
-  askHR: (map, args) => askHR(map, args as { question: string }),
+  askHR: (map, args, context) => askHR(map, args as { question: string }, context),
 };
 
 /**
  * Execute a tool by name with the given arguments.
  * Single entry point called by the frontend after receiving an LLM function-call response.
+ * Arguments are validated against the tool schema first, so the casts in
+ * TOOL_EXECUTORS only ever see schema-conforming values. `context` carries
+ * per-user state such as the session ID used by askHR, and the AbortSignal
+ * that cancels the tool's requests when the user stops. The ToolResult is
+ * posted back in the next step's `tool` message, where the server records it
+ * in the audit log.
  */
 export async function executeTool(
   map: Map,
   toolName: string,
   args: Record<string, unknown>,
+  context: ToolContext,
 ): Promise<ToolResult> {
   const executor = TOOL_EXECUTORS[toolName];
   if (!executor) {
-    return { success: false, message: `Không hỗ trợ công cụ "${toolName}".` };
+    return { success: false, message: t('tool.unsupported', { tool: toolName }) };
+  }
+
+  const validation = validateToolArguments(toolName, args, localeState.locale);
+  if (!validation.valid) {
+    return buildValidationFailure(toolName, args, validation.issues, localeState.locale);
   }
 
   try {
-    return await executor(map, args);
+    return await executor(map, validation.arguments, context);
   } catch (error) {
     return {
       success: false,
-      message: `Công cụ "${toolName}" gặp lỗi: ${error instanceof Error ? error.message : 'Lỗi không xác định'}`,
+      message: t('tool.failed', {
+        tool: toolName,
+        error: error instanceof Error ? error.message : t('error.unknown'),
+      }),
     };
   }
 }
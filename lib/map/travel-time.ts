@@ -0,0 +1,225 @@
+/**
+ * Departure and arrival times for directions, as passed by the model:
+ * ISO date-times ("2026-10-20T07:00") or Vietnamese/English phrases such as
+ * "7h sáng mai", "17:30 thứ sáu", "8 giờ rưỡi tối nay", "30 phút nữa",
+ * "tomorrow 9am" or "bây giờ". Times are in the browser's time zone.
+ */
+
+import { normalizeLocationText } from './geo';
+
+/** `'now'` lets Google use live traffic */
+export type TravelTime = 'now' | Date;
+
+type DayPeriod = 'morning' | 'noon' | 'afternoon' | 'evening' | 'night';
+
+// ── Patterns (matched on lower-case text without diacritics) ─────────
+
+const ISO_DATE_TIME_PATTERN =
+  /^\d{4}-\d{2}-\d{2}[t ]\d{2}:\d{2}(?::\d{2}(?:\.\d+)?)?(?:z|[+-]\d{2}:?\d{2})?$/;
+
+const NOW_PATTERN = /^(?:now|right now|bay gio|ngay bay gio|ngay|hien tai|luc nay|gio nay)$/;
+
+/** "30 phút nữa", "sau 2 tiếng", "in 45 minutes" — not "sau 2 giờ chiều" or "thứ sáu 7 giờ" */
+const RELATIVE_PATTERN = new RegExp(
+  [
+    String.raw`(?<!thu )(?:sau|trong)\s+(\d+|nua)\s*(phut|tieng|gio)(?!\s*(?:\d|ruoi|kem|sang|trua|chieu|toi|dem))`,
+    String.raw`(\d+|nua)\s*(phut|tieng|gio)\s+nua`,
+    String.raw`in\s+(\d+|half an)\s*(minutes?|mins?|hours?|hrs?)`,
+    String.raw`(\d+)\s*(minutes?|mins?|hours?|hrs?)\s+from now`,
+  ].join('|'),
+);
+
+const DATE_PATTERN = /(\d{1,2})\/(\d{1,2})(?:\/(\d{4}))?/;
+
+const NEXT_WEEK_PATTERN = /tuan (?:sau|toi)|next week/;
+
+/** Weekday phrases, Sunday first like `Date.getDay()` */
+const WEEKDAY_PATTERNS = [
+  /chu nhat|\bcn\b|sunday/,
+  /thu (?:hai|2)|\bt2\b|monday/,
+  /thu (?:ba|3)|\bt3\b|tuesday/,
+  /thu (?:tu|4)|\bt4\b|wednesday/,
+  /thu (?:nam|5)|\bt5\b|thursday/,
+  /thu (?:sau|6)|\bt6\b|friday/,
+  /thu (?:bay|7)|\bt7\b|saturday/,
+];
+
+/** "mốt" loses its accents to "mot", like "một" (one), so it is matched with them */
+const DAY_AFTER_TOMORROW_PATTERN = /(?:^|\s)mốt(?:\s|$)/;
+
+const DAY_OFFSET_PATTERNS: Array<[RegExp, number]> = [
+  [/ngay kia|day after tomorrow/, 2],
+  [/\bmai\b|tomorrow/, 1],
+  [/hom nay|\bnay\b|today|tonight/, 0],
+  [/hom qua|yesterday/, -1],
+];
+
+const PERIOD_PATTERNS: Array<[RegExp, DayPeriod]> = [
+  [/\bsang\b|morning/, 'morning'],
+  [/\btrua\b|\bnoon\b/, 'noon'],
+  [/\bchieu\b|afternoon/, 'afternoon'],
+  [/\btoi\b|evening|tonight/, 'evening'],
+  [/\bdem\b|night/, 'night'],
+];
+
+/** Hour used when only the part of the day is given ("chiều mai") */
+const PERIOD_DEFAULT_HOURS: Record<DayPeriod, number> = {
+  morning: 8,
+  noon: 12,
+  afternoon: 15,
+  evening: 19,
+  night: 22,
+};
+
+/** "7h", "7h30", "7 giờ rưỡi", "7 giờ kém 15", "17:30", "9am" */
+const CLOCK_PATTERN = new RegExp(
+  String.raw`(\d{1,2})\s*(?:` +
+    String.raw`(?::|h|gio|g)\s*(?:(\d{1,2})\s*(?:phut|p)?|(ruoi)|kem\s*(\d{1,2}))?` +
+    String.raw`|(am|pm))`,
+);
+
+/** A bare hour, read as one only next to a part of the day ("6 chiều", "9 tonight") */
+const BARE_HOUR_PATTERN = /\b(\d{1,2})\b/;
+
+// ── Helpers ──────────────────────────────────────────────────────────
+
+function normalizeTimeText(value: string): string {
+  return normalizeLocationText(value).replace(/đ/g, 'd').replace(/\s+/g, ' ');
+}
+
+/** Find `pattern` in `text`; the match is cut out so later patterns do not see it */
+function take(text: string, pattern: RegExp): { match: RegExpMatchArray | null; rest: string } {
+  const match = text.match(pattern);
+  if (!match || match.index === undefined) return { match: null, rest: text };
+  return {
+    match,
+    rest: `${text.slice(0, match.index)} ${text.slice(match.index + match[0].length)}`,
+  };
+}
+
+function parseRelativeMinutes(match: RegExpMatchArray): number {
+  const amountText = match[1] ?? match[3] ?? match[5] ?? match[7];
+  const unit = match[2] ?? match[4] ?? match[6] ?? match[8];
+  const amount = amountText === 'nua' || amountText === 'half an' ? 0.5 : Number(amountText);
+  return /^(?:phut|min)/.test(unit) ? amount : amount * 60;
+}
+
+function toDayHour(hour: number, period: DayPeriod | null, meridiem: string | undefined): number {
+  if (meridiem === 'am') return hour === 12 ? 0 : hour;
+  if (meridiem === 'pm') return hour < 12 ? hour + 12 : hour;
+  switch (period) {
+    case 'morning':
+      return hour === 12 ? 0 : hour;
+    case 'noon':
+      return hour < 11 ? hour + 12 : hour;
+    case 'afternoon':
+    case 'evening':
+      return hour < 12 ? hour + 12 : hour;
+    case 'night':
+      if (hour === 12) return 0;
+      return hour >= 6 ? hour + 12 : hour;
+    default:
+      return hour;
+  }
+}
+
+// ── Parser ───────────────────────────────────────────────────────────
+
+/**
+ * Parse a departure/arrival time. Returns null when no time can be read.
+ * Without an explicit day, a time already past today means tomorrow
+ * ("7h sáng" said at 9:00); explicit days are kept even when past.
+ */
+export function parseTravelTime(value: string, now: Date = new Date()): TravelTime | null {
+  const trimmed = value.trim();
+  let text = normalizeTimeText(trimmed);
+  if (!text) return null;
+
+  if (ISO_DATE_TIME_PATTERN.test(text)) {
+    const date = new Date(trimmed);
+    return Number.isNaN(date.getTime()) ? null : date;
+  }
+  if (NOW_PATTERN.test(text)) return 'now';
+
+  const relative = text.match(RELATIVE_PATTERN);
+  if (relative) {
+    return new Date(now.getTime() + parseRelativeMinutes(relative) * 60 * 1000);
+  }
+
+  const date = new Date(now);
+  let explicitDay = false;
+  let today = false;
+  let weekdayToday = false;
+
+  const dateTaken = take(text, DATE_PATTERN);
+  text = dateTaken.rest;
+  if (dateTaken.match) {
+    const [, day, month, year] = dateTaken.match;
+    date.setFullYear(year ? Number(year) : now.getFullYear(), Number(month) - 1, Number(day));
+    if (date.getDate() !== Number(day)) return null;
+    explicitDay = true;
+  }
+
+  const nextWeek = take(text, NEXT_WEEK_PATTERN);
+  text = nextWeek.rest;
+  const weekday = WEEKDAY_PATTERNS.findIndex((pattern) => pattern.test(text));
+  if (!explicitDay && weekday >= 0) {
+    text = take(text, WEEKDAY_PATTERNS[weekday]).rest;
+    // Days counted from Monday, as weeks are in Vietnam
+    const fromMonday = (day: number) => (day + 6) % 7;
+    const daysAhead = nextWeek.match
+      ? 7 - fromMonday(now.getDay()) + fromMonday(weekday)
+      : (weekday - now.getDay() + 7) % 7;
+    date.setDate(date.getDate() + daysAhead);
+    explicitDay = true;
+    weekdayToday = daysAhead === 0;
+  }
+
+  // Before the day words are cut out: "tonight" is both a day and a period
+  const period = PERIOD_PATTERNS.find(([pattern]) => pattern.test(text))?.[1] ?? null;
+
+  if (!explicitDay && DAY_AFTER_TOMORROW_PATTERN.test(trimmed.toLowerCase().normalize('NFC'))) {
+    date.setDate(date.getDate() + 2);
+    explicitDay = true;
+  }
+  for (const [pattern, offset] of DAY_OFFSET_PATTERNS) {
+    const dayTaken = take(text, pattern);
+    if (!dayTaken.match) continue;
+    text = dayTaken.rest;
+    if (!explicitDay) {
+      date.setDate(date.getDate() + offset);
+      explicitDay = true;
+      today = offset === 0;
+    }
+    break;
+  }
+
+  const clock = text.match(CLOCK_PATTERN) ?? (period ? text.match(BARE_HOUR_PATTERN) : null);
+
+  let hour: number;
+  let minute = 0;
+  if (clock) {
+    const [, hourText, minuteText, half, before, meridiem] = clock;
+    hour = toDayHour(Number(hourText), period, meridiem);
+    if (minuteText) minute = Number(minuteText);
+    if (half) minute = 30;
+    if (before) {
+      hour -= 1;
+      minute = 60 - Number(before);
+    }
+  } else if (period) {
+    hour = PERIOD_DEFAULT_HOURS[period];
+  } else {
+    return null;
+  }
+  if (hour < 0 || hour > 23 || minute < 0 || minute > 59) return null;
+
+  date.setHours(hour, minute, 0, 0);
+  // "2h đêm nay" is after midnight, "7h sáng" at 9:00 is tomorrow morning
+  if ((today && period === 'night' && hour < 6) || (!explicitDay && date < now)) {
+    date.setDate(date.getDate() + 1);
+  }
+  // "thứ hai" on a Monday evening means next Monday
+  if (weekdayToday && date < now) date.setDate(date.getDate() + 7);
+  return date;
+}
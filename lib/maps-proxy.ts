@@ -0,0 +1,383 @@
+/**
+ * Server-side proxy for the Google Maps and GTEL Maps APIs used by the map
+ * tools, so the API keys (`GOOGLE_MAPS_API_KEY`, `GTEL_MAPS_API_KEY`) never
+ * reach the browser.
+ *
+ * Each endpoint forwards an allow-list of query parameters and appends the
+ * key. Requests are rate limited per client IP; JSON responses are cached
+ * in-process per endpoint TTL, images are streamed with Cache-Control headers.
+ * The proxy's own error messages use the request's locale (getRequestLocale).
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  GOOGLE_MAPS_DIRECTIONS_URL,
+  GOOGLE_MAPS_DISTANCE_MATRIX_URL,
+  GOOGLE_MAPS_NEARBY_SEARCH_URL,
+  GOOGLE_MAPS_PLACE_PHOTO_URL,
+  GOOGLE_MAPS_TEXT_SEARCH_URL,
+  GTEL_ADMIN_PROVINCES_URL,
+  GTEL_CAMERA_PHOTO_URL,
+  GTEL_NEARBY_SEARCH_URL,
+} from '@/lib/map/constants';
+import { createRateLimiter, getClientIp, toRetryAfterSeconds } from '@/lib/rate-limit';
+import { getRequestLocale, translate } from '@/lib/i18n';
+import type { Locale } from '@/types';
+
+// ── Configuration ────────────────────────────────────────────────────
+
+function parseNumberEnv(value: string | undefined, fallback: number): number {
+  if (!value) return fallback;
+  const parsed = Number.parseInt(value, 10);
+  return Number.isFinite(parsed) ? parsed : fallback;
+}
+
+const RATE_LIMIT_PER_MINUTE = parseNumberEnv(process.env.MAPS_PROXY_RATE_LIMIT, 120);
+const MEDIA_RATE_LIMIT_PER_MINUTE = parseNumberEnv(process.env.MAPS_PROXY_MEDIA_RATE_LIMIT, 600);
+const CACHE_ENABLED = process.env.MAPS_PROXY_CACHE_ENABLED !== 'false';
+const CACHE_MAX_ENTRIES = parseNumberEnv(process.env.MAPS_PROXY_CACHE_MAX_ENTRIES, 500);
+
+const apiLimiter = createRateLimiter('maps-proxy', {
+  capacity: RATE_LIMIT_PER_MINUTE,
+  refillPerMinute: RATE_LIMIT_PER_MINUTE,
+});
+const mediaLimiter = createRateLimiter('maps-proxy-media', {
+  capacity: MEDIA_RATE_LIMIT_PER_MINUTE,
+  refillPerMinute: MEDIA_RATE_LIMIT_PER_MINUTE,
+});
+
+// ── Endpoints ────────────────────────────────────────────────────────
+
+type MapsProvider = 'google' | 'gtel';
+
+interface ProviderConfig {
+  envName: string;
+  keyParam: string;
+  headers: Record<string, string>;
+}
+
+const PROVIDERS: Record<MapsProvider, ProviderConfig> = {
+  google: {
+    envName: 'GOOGLE_MAPS_API_KEY',
+    keyParam: 'key',
+    headers: { 'User-Agent': 'GTELMaps-Copilot/1.0' },
+  },
+  gtel: {
+    envName: 'GTEL_MAPS_API_KEY',
+    keyParam: 'apikey',
+    headers: { 'app-version': '1.1' },
+  },
+};
+
+interface ProxyEndpoint {
+  provider: MapsProvider;
+  /** Upstream URL; `{id}` is replaced by the route's path segment */
+  url: string;
+  /** Query parameters forwarded from the client */
+  params: string[];
+  required?: string[];
+  /** Parameters always sent upstream */
+  fixed?: Record<string, string>;
+}
+
+interface JsonEndpoint extends ProxyEndpoint {
+  ttlMs: number;
+}
+
+interface MediaEndpoint extends ProxyEndpoint {
+  cacheControl: string;
+}
+
+export type MapsJsonEndpointId =
+  | 'google-text-search'
+  | 'google-directions'
+  | 'google-distance-matrix'
+  | 'google-nearby'
+  | 'gtel-provinces'
+  | 'gtel-province-boundary'
+  | 'gtel-camera-nearby';
+
+export type MapsMediaEndpointId = 'google-place-photo' | 'gtel-camera-snapshot';
+
+const JSON_ENDPOINTS: Record<MapsJsonEndpointId, JsonEndpoint> = {
+  'google-text-search': {
+    provider: 'google',
+    url: GOOGLE_MAPS_TEXT_SEARCH_URL,
+    params: ['query', 'language'],
+    required: ['query'],
+    ttlMs: 10 * 60 * 1000,
+  },
+  'google-directions': {
+    provider: 'google',
+    url: GOOGLE_MAPS_DIRECTIONS_URL,
+    params: [
+      'origin',
+      'destination',
+      'waypoints',
+      'alternatives',
+      'avoid',
+      'departure_time',
+      'arrival_time',
+      'mode',
+      'language',
+    ],
+    required: ['origin', 'destination'],
+    ttlMs: 5 * 60 * 1000,
+  },
+  'google-distance-matrix': {
+    provider: 'google',
+    url: GOOGLE_MAPS_DISTANCE_MATRIX_URL,
+    params: ['origins', 'destinations', 'mode', 'language'],
+    required: ['origins', 'destinations'],
+    ttlMs: 5 * 60 * 1000,
+  },
+  'google-nearby': {
+    provider: 'google',
+    url: GOOGLE_MAPS_NEARBY_SEARCH_URL,
+    params: ['location', 'radius', 'keyword', 'type', 'language'],
+    required: ['location'],
+    ttlMs: 2 * 60 * 1000,
+  },
+  'gtel-provinces': {
+    provider: 'gtel',
+    url: GTEL_ADMIN_PROVINCES_URL,
+    params: [],
+    ttlMs: 24 * 60 * 60 * 1000,
+  },
+  'gtel-province-boundary': {
+    provider: 'gtel',
+    url: `${GTEL_ADMIN_PROVINCES_URL}/{id}`,
+    params: ['geom_level'],
+    ttlMs: 24 * 60 * 60 * 1000,
+  },
+  'gtel-camera-nearby': {
+    provider: 'gtel',
+    url: GTEL_NEARBY_SEARCH_URL,
+    params: ['location', 'radius', 'keyword'],
+    required: ['location'],
+    fixed: { type: 'traffic_camera' },
+    ttlMs: 30 * 1000,
+  },
+};
+
+const MEDIA_ENDPOINTS: Record<MapsMediaEndpointId, MediaEndpoint> = {
+  'google-place-photo': {
+    provider: 'google',
+    url: GOOGLE_MAPS_PLACE_PHOTO_URL,
+    params: ['photo_reference', 'maxwidth'],
+    required: ['photo_reference'],
+    cacheControl: 'public, max-age=86400',
+  },
+  'gtel-camera-snapshot': {
+    provider: 'gtel',
+    url: `${GTEL_CAMERA_PHOTO_URL}/{id}/snapshot.jpg`,
+    params: [],
+    cacheControl: 'private, max-age=10',
+  },
+};
+
+// ── Response Cache ───────────────────────────────────────────────────
+
+interface CachedBody {
+  body: string;
+  expiresAt: number;
+}
+
+// Each route is bundled separately, so the cache lives on globalThis to be
+// shared by all /api/maps/* routes.
+const globalForMapsProxy = globalThis as typeof globalThis & {
+  __mapsProxyCache?: Map<string, CachedBody>;
+};
+
+function getProxyCache(): Map<string, CachedBody> {
+  return (globalForMapsProxy.__mapsProxyCache ??= new Map());
+}
+
+function readCache(key: string): CachedBody | null {
+  const cache = getProxyCache();
+  const entry = cache.get(key);
+  if (!entry) return null;
+  cache.delete(key);
+  if (entry.expiresAt <= Date.now()) return null;
+  cache.set(key, entry);
+  return entry;
+}
+
+function writeCache(key: string, entry: CachedBody): void {
+  const cache = getProxyCache();
+  cache.delete(key);
+  cache.set(key, entry);
+  while (cache.size > CACHE_MAX_ENTRIES) {
+    const oldest = cache.keys().next().value;
+    if (oldest === undefined) break;
+    cache.delete(oldest);
+  }
+}
+
+/**
+ * Only definitive answers are cached — Google reports quota and key errors
+ * (`OVER_QUERY_LIMIT`, `REQUEST_DENIED`) with HTTP 200.
+ */
+function isCacheableBody(body: string): boolean {
+  try {
+    const status = String((JSON.parse(body) as { status?: unknown }).status ?? '').toUpperCase();
+    return status === 'OK' || status === 'ZERO_RESULTS';
+  } catch {
+    return false;
+  }
+}
+
+// ── Request Helpers ──────────────────────────────────────────────────
+
+const PATH_ID_PATTERN = /^[\w-]{1,64}$/;
+
+function checkRateLimit(request: NextRequest, media: boolean): NextResponse | null {
+  const result = (media ? mediaLimiter : apiLimiter).consume(getClientIp(request));
+  if (result.allowed) return null;
+  return NextResponse.json(
+    { error: translate(getRequestLocale(request), 'api.mapsRateLimited') },
+    { status: 429, headers: { 'Retry-After': toRetryAfterSeconds(result.retryAfterMs) } },
+  );
+}
+
+interface UpstreamRequest {
+  url: URL;
+  /** Forwarded query string (allow-listed, sorted — also the cache key) */
+  params: URLSearchParams;
+}
+
+/** Upstream URL with the server-side key, or an error response */
+function resolveUpstream(
+  request: NextRequest,
+  endpoint: ProxyEndpoint,
+  id?: string,
+): UpstreamRequest | NextResponse {
+  const locale = getRequestLocale(request);
+  if (endpoint.url.includes('{id}') && (!id || !PATH_ID_PATTERN.test(id))) {
+    return NextResponse.json({ error: translate(locale, 'api.mapsInvalidId') }, { status: 400 });
+  }
+
+  const params = new URLSearchParams();
+  endpoint.params.forEach((name) => {
+    const value = request.nextUrl.searchParams.get(name)?.trim();
+    if (value) params.set(name, value);
+  });
+  const missing = endpoint.required?.find((name) => !params.has(name));
+  if (missing) {
+    return NextResponse.json(
+      { error: translate(locale, 'api.mapsMissingParam', { name: missing }) },
+      { status: 400 },
+    );
+  }
+  params.sort();
+
+  const provider = PROVIDERS[endpoint.provider];
+  const apiKey = process.env[provider.envName];
+  if (!apiKey) {
+    return NextResponse.json(
+      { error: translate(locale, 'api.mapsMissingKey', { name: provider.envName }) },
+      { status: 503 },
+    );
+  }
+
+  const url = new URL(endpoint.url.replace('{id}', id ?? ''));
+  params.forEach((value, name) => url.searchParams.set(name, value));
+  Object.entries(endpoint.fixed ?? {}).forEach(([name, value]) => url.searchParams.set(name, value));
+  url.searchParams.set(provider.keyParam, apiKey);
+  return { url, params };
+}
+
+function upstreamErrorResponse(endpointId: string, error: unknown, locale: Locale): NextResponse {
+  console.error(`[maps-proxy] ${endpointId} upstream error:`, error);
+  return NextResponse.json({ error: translate(locale, 'api.mapsUnavailable') }, { status: 502 });
+}
+
+// ── Public API ───────────────────────────────────────────────────────
+
+/**
+ * Proxy a JSON endpoint. Upstream bodies (including API-level statuses such
+ * as `ZERO_RESULTS`) are returned as-is for the client to interpret.
+ */
+export async function proxyMapsJson(
+  request: NextRequest,
+  endpointId: MapsJsonEndpointId,
+  id?: string,
+): Promise<NextResponse> {
+  const denied = checkRateLimit(request, false);
+  if (denied) return denied;
+
+  const endpoint = JSON_ENDPOINTS[endpointId];
+  const upstream = resolveUpstream(request, endpoint, id);
+  if (upstream instanceof NextResponse) return upstream;
+
+  try {
+    const cacheKey = `${endpointId}:${id ?? ''}?${upstream.params.toString()}`;
+
+    const cached = CACHE_ENABLED ? readCache(cacheKey) : null;
+    if (cached) {
+      return new NextResponse(cached.body, {
+        headers: { 'Content-Type': 'application/json', 'X-Cache': 'HIT' },
+      });
+    }
+
+    const res = await fetch(upstream.url, {
+      headers: PROVIDERS[endpoint.provider].headers,
+      cache: 'no-store',
+    });
+    if (!res.ok) {
+      // Upstream error pages are not forwarded: they may echo the request URL and key
+      console.error(`[maps-proxy] ${endpointId} upstream status ${res.status}`);
+      const error = translate(getRequestLocale(request), 'api.mapsUpstreamError', {
+        status: res.status,
+      });
+      return NextResponse.json({ error }, { status: 502 });
+    }
+
+    const body = await res.text();
+    if (CACHE_ENABLED && isCacheableBody(body)) {
+      writeCache(cacheKey, { body, expiresAt: Date.now() + endpoint.ttlMs });
+    }
+
+    return new NextResponse(body, {
+      headers: { 'Content-Type': 'application/json', 'X-Cache': 'MISS' },
+    });
+  } catch (error) {
+    return upstreamErrorResponse(endpointId, error, getRequestLocale(request));
+  }
+}
+
+/** Proxy an image endpoint, streaming the upstream body */
+export async function proxyMapsMedia(
+  request: NextRequest,
+  endpointId: MapsMediaEndpointId,
+  id?: string,
+): Promise<NextResponse> {
+  const denied = checkRateLimit(request, true);
+  if (denied) return denied;
+
+  const endpoint = MEDIA_ENDPOINTS[endpointId];
+  const upstream = resolveUpstream(request, endpoint, id);
+  if (upstream instanceof NextResponse) return upstream;
+
+  try {
+    const res = await fetch(upstream.url, {
+      headers: PROVIDERS[endpoint.provider].headers,
+      cache: 'no-store',
+    });
+    if (!res.ok || !res.body) {
+      return NextResponse.json(
+        { error: translate(getRequestLocale(request), 'api.mapsImageFailed') },
+        { status: 502 },
+      );
+    }
+
+    return new NextResponse(res.body, {
+      headers: {
+        'Content-Type': res.headers.get('Content-Type') || 'image/jpeg',
+        'Cache-Control': endpoint.cacheControl,
+      },
+    });
+  } catch (error) {
+    return upstreamErrorResponse(endpointId, error, getRequestLocale(request));
+  }
+}
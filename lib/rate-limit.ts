@@ -0,0 +1,147 @@
+/**
+ * Token-bucket rate limiting for API routes.
+ *
+ * Each limiter keeps one bucket per client key (usually the IP): it holds up
+ * to `capacity` tokens and refills `refillPerMinute` tokens per minute, so
+ * short bursts pass while the sustained rate stays bounded.
+ */
+
+import type { NextRequest } from 'next/server';
+
+// ── Configuration ────────────────────────────────────────────────────
+
+function parseNumberEnv(value: string | undefined, fallback: number): number {
+  if (!value) return fallback;
+  const parsed = Number.parseInt(value, 10);
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : fallback;
+}
+
+/** Reverse proxies in front of the app that append to `X-Forwarded-For` (0: none) */
+const TRUSTED_PROXY_HOPS = parseNumberEnv(process.env.TRUSTED_PROXY_HOPS, 0);
+
+// ── Types ────────────────────────────────────────────────────────────
+
+export interface RateLimitOptions {
+  /** Bucket size — the largest burst allowed */
+  capacity: number;
+  refillPerMinute: number;
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  /** Tokens left after this request */
+  remaining: number;
+  /** Wait before the request would be allowed (0 when allowed) */
+  retryAfterMs: number;
+}
+
+export interface RateLimiter {
+  consume(key: string, cost?: number): RateLimitResult;
+}
+
+interface Bucket {
+  tokens: number;
+  updatedAt: number;
+}
+
+// ── Storage ──────────────────────────────────────────────────────────
+
+/** Idle buckets are dropped once a limiter tracks more keys than this */
+const MAX_TRACKED_KEYS = 10_000;
+
+// Each route is bundled separately, so buckets live on globalThis to be
+// shared by every route that uses the same limiter.
+const globalForRateLimits = globalThis as typeof globalThis & {
+  __mapAgentRateLimits?: Map<string, Map<string, Bucket>>;
+};
+
+function getBuckets(name: string): Map<string, Bucket> {
+  const limiters = (globalForRateLimits.__mapAgentRateLimits ??= new Map());
+  let buckets = limiters.get(name);
+  if (!buckets) {
+    buckets = new Map();
+    limiters.set(name, buckets);
+  }
+  return buckets;
+}
+
+// ── Limiter ──────────────────────────────────────────────────────────
+
+/**
+ * Limiters with the same name share buckets. A capacity or refill rate of 0
+ * or less disables the limiter.
+ */
+export function createRateLimiter(name: string, options: RateLimitOptions): RateLimiter {
+  const { capacity, refillPerMinute } = options;
+  const refillPerMs = refillPerMinute / 60_000;
+  const disabled = capacity <= 0 || refillPerMinute <= 0;
+
+  const refill = (bucket: Bucket, now: number) => {
+    bucket.tokens = Math.min(capacity, bucket.tokens + (now - bucket.updatedAt) * refillPerMs);
+    bucket.updatedAt = now;
+  };
+
+  const prune = (buckets: Map<string, Bucket>, now: number) => {
+    buckets.forEach((bucket, key) => {
+      refill(bucket, now);
+      if (bucket.tokens >= capacity) buckets.delete(key);
+    });
+  };
+
+  return {
+    consume(key, cost = 1) {
+      if (disabled) return { allowed: true, remaining: Number.POSITIVE_INFINITY, retryAfterMs: 0 };
+
+      const buckets = getBuckets(name);
+      const now = Date.now();
+      let bucket = buckets.get(key);
+      if (!bucket) {
+        if (buckets.size >= MAX_TRACKED_KEYS) prune(buckets, now);
+        bucket = { tokens: capacity, updatedAt: now };
+        buckets.set(key, bucket);
+      }
+
+      refill(bucket, now);
+      if (bucket.tokens >= cost) {
+        bucket.tokens -= cost;
+        return { allowed: true, remaining: Math.floor(bucket.tokens), retryAfterMs: 0 };
+      }
+
+      return {
+        allowed: false,
+        remaining: 0,
+        retryAfterMs: Math.ceil((Math.min(cost, capacity) - bucket.tokens) / refillPerMs),
+      };
+    },
+  };
+}
+
+// ── Client Identity ──────────────────────────────────────────────────
+
+/**
+ * Client IP used for quotas and the audit log. The client writes the start of
+ * `X-Forwarded-For` itself, so only the hop added by the first of
+ * `TRUSTED_PROXY_HOPS` proxies counts: the one that many positions from the
+ * right. Without trusted proxies the platform's `request.ip` is used; a
+ * self-hosted server (`next start`) leaves it unset and instead writes the
+ * connection's address into `X-Forwarded-For` when the request has none. A
+ * client exposed directly can still send its own header and pick its key, so
+ * production deployments should sit behind a proxy with `TRUSTED_PROXY_HOPS`.
+ */
+export function getClientIp(request: NextRequest): string {
+  const hops = (request.headers.get('x-forwarded-for') ?? '')
+    .split(',')
+    .map((hop) => hop.trim())
+    .filter(Boolean);
+  if (TRUSTED_PROXY_HOPS > 0) {
+    // Fewer hops than proxies: the request did not come through all of them
+    if (hops.length >= TRUSTED_PROXY_HOPS) return hops[hops.length - TRUSTED_PROXY_HOPS];
+    return request.ip || 'unknown';
+  }
+  return request.ip || hops[hops.length - 1] || 'unknown';
+}
+
+/** `Retry-After` header value (whole seconds, at least 1) */
+export function toRetryAfterSeconds(retryAfterMs: number): string {
+  return String(Math.max(1, Math.ceil(retryAfterMs / 1000)));
+}
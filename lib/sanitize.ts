@@ -0,0 +1,226 @@
+/**
+ * Allow-list sanitizer for assistant HTML replies.
+ *
+ * The model is asked to answer with a small set of tags (see RESPONSE_PROMPT),
+ * but place names, addresses and HR webhook text are copied into that HTML,
+ * so the reply is rebuilt from scratch: only allow-listed tags are emitted,
+ * without any attribute except a validated absolute http(s) `href` on <a>.
+ * Everything else is escaped text or dropped.
+ *
+ * Runs on the server (before a step is cached / recorded) and in the chat
+ * panel (before `dangerouslySetInnerHTML`, including partially streamed
+ * replies), so it must stay free of Node-only and browser-only APIs.
+ */
+
+// ── Allow-list ───────────────────────────────────────────────────────
+
+export const ALLOWED_HTML_TAGS = ['p', 'strong', 'em', 'br', 'ul', 'ol', 'li', 'a'] as const;
+
+const ALLOWED_TAGS = new Set<string>(ALLOWED_HTML_TAGS);
+const VOID_TAGS = new Set(['br']);
+
+/** Elements removed together with their content */
+const DROPPED_CONTENT_TAGS = new Set([
+  'script',
+  'style',
+  'iframe',
+  'object',
+  'noscript',
+  'noembed',
+  'noframes',
+  'template',
+  'textarea',
+  'title',
+  'select',
+  'xmp',
+  'svg',
+  'math',
+]);
+
+const LINK_ATTRIBUTES = 'target="_blank" rel="noopener noreferrer"';
+
+// ── Patterns ─────────────────────────────────────────────────────────
+
+/** Start/end tag with optional attributes; `/` between attributes counts as whitespace */
+const TAG_PATTERN =
+  /^<(\/?)([a-zA-Z][a-zA-Z0-9:-]*)((?:[\s/]+[^\s"'>/=]+(?:\s*=\s*(?:"[^"]*"|'[^']*'|[^\s"'>]+))?)*)[\s/]*>/;
+const ATTRIBUTE_PATTERN = /([^\s"'>/=]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'>]+)))?/g;
+const ENTITY_PATTERN = /^&(?:#\d{1,7}|#x[0-9a-f]{1,6}|[a-z][a-z0-9]{1,31});/i;
+const ENTITY_MAX_LENGTH = 34;
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  colon: ':',
+  tab: '\t',
+  newline: '\n',
+  nbsp: ' ',
+};
+
+// ── Helpers ──────────────────────────────────────────────────────────
+
+function escapeText(text: string): string {
+  let result = '';
+  for (let i = 0; i < text.length; i += 1) {
+    const char = text[i];
+    if (char === '&') {
+      result += ENTITY_PATTERN.test(text.slice(i, i + ENTITY_MAX_LENGTH)) ? '&' : '&amp;';
+    } else if (char === '<') {
+      result += '&lt;';
+    } else if (char === '>') {
+      result += '&gt;';
+    } else {
+      result += char;
+    }
+  }
+  return result;
+}
+
+function escapeAttribute(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/"/g, '&quot;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;');
+}
+
+function decodeEntities(value: string): string {
+  return value.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);?/gi, (match, entity: string) => {
+    if (entity[0] === '#') {
+      const isHex = entity[1] === 'x' || entity[1] === 'X';
+      const code = Number.parseInt(entity.slice(isHex ? 2 : 1), isHex ? 16 : 10);
+      return code > 0 && code <= 0x10ffff ? String.fromCodePoint(code) : '';
+    }
+    return NAMED_ENTITIES[entity.toLowerCase()] ?? match;
+  });
+}
+
+/** Absolute http(s) URL, normalized; null for anything else (javascript:, data:, relative, ...) */
+export function sanitizeHref(raw: string): string | null {
+  const value = decodeEntities(raw);
+  // Browsers ignore control characters and whitespace inside the scheme; they
+  // are stripped only to read it, the URL itself keeps them (encoded below)
+  // eslint-disable-next-line no-control-regex
+  if (!/^https?:\/\//i.test(value.replace(/[\u0000- \u007f]/g, ''))) return null;
+
+  try {
+    const url = new URL(value);
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') return null;
+    return url.href;
+  } catch {
+    return null;
+  }
+}
+
+function readHref(attributes: string): string | null {
+  for (const match of Array.from(attributes.matchAll(ATTRIBUTE_PATTERN))) {
+    if (match[1].toLowerCase() !== 'href') continue;
+    return sanitizeHref(match[2] ?? match[3] ?? match[4] ?? '');
+  }
+  return null;
+}
+
+// ── Sanitizer ────────────────────────────────────────────────────────
+
+/**
+ * Rebuild assistant HTML from the allow-list. Unknown tags are unwrapped,
+ * dangerous ones dropped with their content, unbalanced tags closed, and a
+ * trailing incomplete tag (mid-stream) is left out.
+ */
+export function sanitizeAssistantHtml(html: string): string {
+  let output = '';
+  const openTags: string[] = [];
+  let index = 0;
+
+  const closeTag = (tag: string) => {
+    const position = openTags.lastIndexOf(tag);
+    if (position === -1) return;
+    while (openTags.length > position) output += `</${openTags.pop()}>`;
+  };
+
+  while (index < html.length) {
+    const next = html.indexOf('<', index);
+    if (next === -1) break;
+
+    output += escapeText(html.slice(index, next));
+    index = next;
+
+    // Comments, CDATA, doctype, processing instructions
+    if (html.startsWith('<!--', index)) {
+      const end = html.indexOf('-->', index + 4);
+      index = end === -1 ? html.length : end + 3;
+      continue;
+    }
+    if (html.startsWith('<![CDATA[', index)) {
+      const end = html.indexOf(']]>', index + 9);
+      index = end === -1 ? html.length : end + 3;
+      continue;
+    }
+    if (/^<[!?]/.test(html.slice(index, index + 2))) {
+      const end = html.indexOf('>', index);
+      index = end === -1 ? html.length : end + 1;
+      continue;
+    }
+
+    const match = TAG_PATTERN.exec(html.slice(index));
+
+    if (!match) {
+      // A tag still being streamed: leave it out until it is complete
+      if (/^<\/?[a-zA-Z]/.test(html.slice(index, index + 3)) && !html.includes('>', index)) {
+        index = html.length;
+        break;
+      }
+      output += '&lt;';
+      index += 1;
+      continue;
+    }
+
+    const [source, slash, rawName, attributes] = match;
+    const tag = rawName.toLowerCase();
+    const isClosing = slash === '/';
+    index += source.length;
+
+    if (DROPPED_CONTENT_TAGS.has(tag)) {
+      if (isClosing) continue;
+      const closing = new RegExp(`</${tag}\\s*>`, 'ig');
+      closing.lastIndex = index;
+      const end = closing.exec(html);
+      index = end ? end.index + end[0].length : html.length;
+      continue;
+    }
+
+    if (!ALLOWED_TAGS.has(tag)) continue;
+
+    if (isClosing) {
+      closeTag(tag);
+      continue;
+    }
+
+    if (VOID_TAGS.has(tag)) {
+      output += `<${tag}>`;
+      continue;
+    }
+
+    // Implied end tags, as browsers would apply them
+    if (tag === 'p' || tag === 'ul' || tag === 'ol') closeTag('p');
+    const innermostList = Math.max(openTags.lastIndexOf('ul'), openTags.lastIndexOf('ol'));
+    if (tag === 'li' && openTags.lastIndexOf('li') > innermostList) closeTag('li');
+
+    if (tag === 'a') {
+      closeTag('a');
+      const href = readHref(attributes);
+      if (!href) continue;
+      output += `<a href="${escapeAttribute(href)}" ${LINK_ATTRIBUTES}>`;
+    } else {
+      output += `<${tag}>`;
+    }
+    openTags.push(tag);
+  }
+
+  output += escapeText(html.slice(index));
+  while (openTags.length > 0) output += `</${openTags.pop()}>`;
+  return output;
+}
@@ -0,0 +1,121 @@
+/**
+ * Builds the model context from a stored session.
+ *
+ * When the history exceeds the token budget, the oldest whole turns (a user
+ * message and everything up to the next one) are dropped and replaced by a
+ * short extractive summary of what the user asked and what was answered. The
+ * current turn is always kept in full so the agent loop stays consistent.
+ * The summary is written in the request's locale, like the prompts.
+ */
+
+import type { AgentApiMessage, Locale, SessionMessage } from '@/types';
+import { PROMPTS } from '@/lib/prompts';
+
+// ── Token Estimation ─────────────────────────────────────────────────
+
+/** Rough token estimate (~4 characters per token), good enough for budgeting */
+export function estimateTokens(messages: AgentApiMessage[]): number {
+  return messages.reduce(
+    (total, m) =>
+      total + Math.ceil((m.content.length + JSON.stringify(m.tool_calls ?? '').length) / 4) + 4,
+    0,
+  );
+}
+
+// ── Turns ────────────────────────────────────────────────────────────
+
+function splitTurns(messages: SessionMessage[]): SessionMessage[][] {
+  const turns: SessionMessage[][] = [];
+  for (const message of messages) {
+    if (message.role === 'user' || turns.length === 0) turns.push([]);
+    turns[turns.length - 1].push(message);
+  }
+  return turns;
+}
+
+function toApiMessage({ role, content, tool_call_id, tool_calls }: SessionMessage): AgentApiMessage {
+  return {
+    role,
+    content,
+    ...(tool_call_id ? { tool_call_id } : {}),
+    ...(tool_calls?.length ? { tool_calls } : {}),
+  };
+}
+
+// ── Summary ──────────────────────────────────────────────────────────
+
+const SUMMARY_ITEM_MAX_CHARS = 160;
+const SUMMARY_MAX_TURNS = 20;
+
+function toPlainText(html: string): string {
+  return html
+    .replace(/<[^>]+>/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+function clip(text: string): string {
+  return text.length > SUMMARY_ITEM_MAX_CHARS
+    ? `${text.slice(0, SUMMARY_ITEM_MAX_CHARS - 1)}…`
+    : text;
+}
+
+function summarizeTurns(turns: SessionMessage[][], locale: Locale): string {
+  const labels = PROMPTS[locale].historySummary;
+  const lines = turns.slice(-SUMMARY_MAX_TURNS).map((turn) => {
+    const question = turn.find((m) => m.role === 'user');
+    const answer = [...turn]
+      .reverse()
+      .find((m) => m.role === 'assistant' && !m.tool_calls?.length && m.content.trim());
+    const tools = Array.from(
+      new Set(turn.flatMap((m) => (m.tool_calls || []).map((tc) => tc.name))),
+    );
+
+    return [
+      `- ${labels.user}: ${clip(question?.content.trim() || labels.unknownQuestion)}`,
+      tools.length > 0 ? ` | ${labels.tools}: ${tools.join(', ')}` : '',
+      answer ? ` | ${labels.assistant}: ${clip(toPlainText(answer.content))}` : '',
+    ].join('');
+  });
+
+  const omitted = turns.length - lines.length;
+  return [
+    labels.title,
+    ...(omitted > 0 ? [`- ${labels.omitted(omitted)}`] : []),
+    ...lines,
+  ].join('\n');
+}
+
+// ── Public API ───────────────────────────────────────────────────────
+
+/**
+ * Messages to send to the model for the session, within `tokenBudget` where
+ * possible (the current turn alone may exceed it).
+ */
+export function buildSessionContext(
+  messages: SessionMessage[],
+  tokenBudget: number,
+  locale: Locale,
+): AgentApiMessage[] {
+  const turns = splitTurns(messages);
+  const all = messages.map(toApiMessage);
+  if (turns.length <= 1 || estimateTokens(all) <= tokenBudget) return all;
+
+  // Keep the newest turns that fit, reserving room for the summary itself
+  const kept: SessionMessage[][] = [turns[turns.length - 1]];
+  let used = estimateTokens(kept[0]);
+  const summaryReserve = Math.min(Math.floor(tokenBudget / 4), 1000);
+
+  for (let i = turns.length - 2; i >= 0; i -= 1) {
+    const cost = estimateTokens(turns[i]);
+    if (used + cost > tokenBudget - summaryReserve) break;
+    kept.unshift(turns[i]);
+    used += cost;
+  }
+
+  const dropped = turns.slice(0, turns.length - kept.length);
+  return [
+    { role: 'system', content: summarizeTurns(dropped, locale) },
+    ...kept.flat().map(toApiMessage),
+  ];
+}
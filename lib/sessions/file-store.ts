@@ -0,0 +1,109 @@
+/**
+ * File-backed session store: one JSON document per session.
+ */
+
+import { randomUUID } from 'node:crypto';
+import { mkdir, readFile, rename, rm, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import type { ChatSession, SessionMessage } from '@/types';
+import type { SessionStore } from './types';
+
+export class FileSessionStore implements SessionStore {
+  /** Tail of the pending write chain per session */
+  private readonly locks = new Map<string, Promise<unknown>>();
+
+  constructor(private readonly directory: string) {}
+
+  async create(ownerId: string | null): Promise<ChatSession> {
+    const now = Date.now();
+    const session: ChatSession = {
+      id: randomUUID(),
+      ownerId,
+      createdAt: now,
+      updatedAt: now,
+      messages: [],
+    };
+    await this.write(session);
+    return session;
+  }
+
+  async get(id: string): Promise<ChatSession | null> {
+    try {
+      return JSON.parse(await readFile(this.filePath(id), 'utf8')) as ChatSession;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+      throw error;
+    }
+  }
+
+  append(id: string, messages: SessionMessage[]): Promise<ChatSession | null> {
+    return this.withLock(id, async () => {
+      const session = await this.get(id);
+      if (!session) return null;
+
+      session.messages.push(...messages);
+      session.updatedAt = Date.now();
+      await this.write(session);
+      return session;
+    });
+  }
+
+  truncate(id: string, length: number): Promise<ChatSession | null> {
+    return this.withLock(id, async () => {
+      const session = await this.get(id);
+      if (!session) return null;
+      if (session.messages.length <= length) return session;
+
+      session.messages = session.messages.slice(0, length);
+      session.updatedAt = Date.now();
+      await this.write(session);
+      return session;
+    });
+  }
+
+  update(
+    id: string,
+    change: (messages: SessionMessage[]) => SessionMessage[],
+  ): Promise<ChatSession | null> {
+    return this.withLock(id, async () => {
+      const session = await this.get(id);
+      if (!session) return null;
+
+      session.messages = change(session.messages);
+      session.updatedAt = Date.now();
+      await this.write(session);
+      return session;
+    });
+  }
+
+  delete(id: string): Promise<void> {
+    return this.withLock(id, () => rm(this.filePath(id), { force: true }));
+  }
+
+  // ── Internals ──────────────────────────────────────────────────────
+
+  private filePath(id: string): string {
+    return join(this.directory, `${id}.json`);
+  }
+
+  /** Write to a temp file first so a crash never leaves a truncated session */
+  private async write(session: ChatSession): Promise<void> {
+    await mkdir(this.directory, { recursive: true });
+    const target = this.filePath(session.id);
+    const temp = `${target}.${process.pid}.tmp`;
+    await writeFile(temp, JSON.stringify(session), 'utf8');
+    await rename(temp, target);
+  }
+
+  private withLock<T>(id: string, task: () => Promise<T>): Promise<T> {
+    const previous = this.locks.get(id) ?? Promise.resolve();
+    const next = previous.catch(() => undefined).then(task);
+    this.locks.set(id, next);
+    next
+      .catch(() => undefined)
+      .finally(() => {
+        if (this.locks.get(id) === next) this.locks.delete(id);
+      });
+    return next;
+  }
+}
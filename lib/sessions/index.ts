@@ -0,0 +1,236 @@
+/**
+ * Conversation sessions: server-side history for /api/map-agent.
+ *
+ * The client keeps only a session ID (localStorage) and sends new user / tool
+ * messages; the route appends them, records every model step and builds the
+ * model context from the stored history (see context.ts).
+ *
+ * A session belongs to the user who created it (`ownerId`, null for guests):
+ * for anyone else it does not exist, so a leaked ID does not expose the
+ * conversation and the HR results it may hold.
+ */
+
+import type {
+  AgentApiMessage,
+  AgentRoutePayload,
+  AgentTurnState,
+  ChatSession,
+  Locale,
+  SessionMessage,
+} from '@/types';
+import { generateId } from '@/lib/utils';
+import { FileSessionStore } from './file-store';
+import { buildSessionContext } from './context';
+import type { SessionStore } from './types';
+
+export type { SessionStore } from './types';
+export { buildSessionContext, estimateTokens } from './context';
+
+// ── Configuration ────────────────────────────────────────────────────
+
+function parseNumberEnv(value: string | undefined, fallback: number): number {
+  if (!value) return fallback;
+  const parsed = Number.parseInt(value, 10);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+}
+
+const SESSION_DIR = process.env.MAP_AGENT_SESSION_DIR || '.data/sessions';
+const SESSION_CONTEXT_TOKENS = parseNumberEnv(process.env.MAP_AGENT_SESSION_CONTEXT_TOKENS, 6000);
+
+const SESSION_ID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+/** Client-assigned message IDs (see generateId) */
+const MESSAGE_ID_PATTERN = /^[\w-]{1,64}$/;
+
+// ── Store ────────────────────────────────────────────────────────────
+
+let _store: SessionStore | null = null;
+
+export function getSessionStore(): SessionStore {
+  _store ??= new FileSessionStore(SESSION_DIR);
+  return _store;
+}
+
+/** Session IDs are UUIDs; anything else is rejected before touching the store */
+export function isValidSessionId(id: unknown): id is string {
+  return typeof id === 'string' && SESSION_ID_PATTERN.test(id);
+}
+
+/**
+ * The session when it exists and belongs to `ownerId` (null: a guest),
+ * otherwise null. Sessions stored before owners were recorded have an
+ * unknown owner and are closed to everyone.
+ */
+export async function getOwnedSession(
+  sessionId: string,
+  ownerId: string | null,
+): Promise<ChatSession | null> {
+  const session = await getSessionStore().get(sessionId);
+  return session && session.ownerId !== undefined && session.ownerId === ownerId ? session : null;
+}
+
+// ── Helpers ──────────────────────────────────────────────────────────
+
+function toSessionMessage({ id, ...message }: AgentApiMessage): SessionMessage {
+  const validId = typeof id === 'string' && MESSAGE_ID_PATTERN.test(id);
+  return { ...message, id: validId ? id : generateId(), createdAt: Date.now() };
+}
+
+/** Stored form of a model step, with the `tokens` it cost */
+function toStepMessage(payload: AgentRoutePayload, tokens: number): SessionMessage {
+  return {
+    ...toSessionMessage({
+      role: 'assistant',
+      content: payload.reply,
+      ...(payload.toolCalls.length > 0 ? { tool_calls: payload.toolCalls } : {}),
+    }),
+    ...(payload.suggestions?.length ? { suggestions: payload.suggestions } : {}),
+    tokens,
+  };
+}
+
+/** Model context of a session and the loop state of its current turn */
+export interface SessionContext {
+  messages: AgentApiMessage[];
+  turn: AgentTurnState;
+}
+
+function toSessionContext(messages: SessionMessage[], locale: Locale): SessionContext {
+  return {
+    messages: buildSessionContext(messages, SESSION_CONTEXT_TOKENS, locale),
+    turn: getTurnState(messages),
+  };
+}
+
+/** Index after the last tool result of the turn at `start`; the turn's answer follows it */
+function findAnswerStart(messages: SessionMessage[], start: number): number {
+  let end = start + 1;
+  for (let i = start + 1; i < messages.length && messages[i].role !== 'user'; i += 1) {
+    if (messages[i].role === 'tool') end = i + 1;
+  }
+  return end;
+}
+
+function findLatestAnswerStart(messages: SessionMessage[]): number {
+  const start = messages.map((m) => m.role).lastIndexOf('user');
+  return start === -1 ? messages.length : findAnswerStart(messages, start);
+}
+
+/** Steps and tokens recorded since the latest user message */
+function getTurnState(messages: SessionMessage[]): AgentTurnState {
+  let steps = 0;
+  let tokensUsed = 0;
+  for (let i = messages.length - 1; i >= 0; i -= 1) {
+    const message = messages[i];
+    if (message.role === 'user') break;
+    if (message.role !== 'assistant') continue;
+    tokensUsed += message.tokens ?? 0;
+    if (message.tool_calls?.length) steps += 1;
+  }
+  return { steps, tokensUsed };
+}
+
+/**
+ * Append the client's new messages and return the model context with the loop
+ * state of the current turn, or null when the session does not exist or is
+ * not owned by `ownerId`. Only user and tool messages are accepted from the
+ * client — assistant steps are recorded by the server itself. User messages
+ * keep their client ID so they can be edited later (see rewindSession).
+ * `locale` is the language of the summary of old turns (see context.ts).
+ */
+export async function appendClientMessages(
+  sessionId: string,
+  ownerId: string | null,
+  incoming: AgentApiMessage[],
+  locale: Locale,
+): Promise<SessionContext | null> {
+  const accepted = incoming
+    .filter((m) => m.role === 'user' || (m.role === 'tool' && m.tool_call_id))
+    .map(({ id, role, content, tool_call_id }) =>
+      toSessionMessage({
+        role,
+        content,
+        ...(role === 'user' && id ? { id } : {}),
+        ...(tool_call_id ? { tool_call_id } : {}),
+      }),
+    );
+
+  const owned = await getOwnedSession(sessionId, ownerId);
+  if (!owned) return null;
+  const session =
+    accepted.length > 0 ? await getSessionStore().append(sessionId, accepted) : owned;
+  if (!session) return null;
+
+  return toSessionContext(session.messages, locale);
+}
+
+/**
+ * Model context for regenerating the answer of the latest turn: the session up
+ * to the turn's last tool result. The stored answer stays until the new one is
+ * recorded (see replaceLatestAnswer), so a failed regeneration leaves the
+ * session as the user still sees it. Null when the session does not exist or
+ * is not owned by `ownerId`.
+ */
+export async function getRegenerateContext(
+  sessionId: string,
+  ownerId: string | null,
+  locale: Locale,
+): Promise<SessionContext | null> {
+  const session = await getOwnedSession(sessionId, ownerId);
+  if (!session) return null;
+  const messages = session.messages.slice(0, findLatestAnswerStart(session.messages));
+  return toSessionContext(messages, locale);
+}
+
+/**
+ * Record a model step (reply and/or tool calls) in the session, with the
+ * `tokens` it cost against the turn budget.
+ */
+export async function recordAgentStep(
+  sessionId: string,
+  payload: AgentRoutePayload,
+  tokens: number,
+): Promise<ChatSession | null> {
+  return getSessionStore().append(sessionId, [toStepMessage(payload, tokens)]);
+}
+
+/**
+ * Replace the answer of the latest turn with a regenerated one (see
+ * getRegenerateContext). The answer is found and replaced in one locked store
+ * update, so other writes to the session cannot land in between.
+ */
+export async function replaceLatestAnswer(
+  sessionId: string,
+  payload: AgentRoutePayload,
+  tokens: number,
+): Promise<ChatSession | null> {
+  return getSessionStore().update(sessionId, (messages) => [
+    ...messages.slice(0, findLatestAnswerStart(messages)),
+    toStepMessage(payload, tokens),
+  ]);
+}
+
+/**
+ * Rewind the session to the user message `messageId` before it is re-run:
+ * - without `keepToolResults` (edit / retry) the message and everything after
+ *   it are removed, and the client sends the new text as a fresh turn;
+ * - with `keepToolResults` the turn is kept up to its last tool result and
+ *   only the answer after it is dropped.
+ * A message the session never recorded (e.g. its request was rejected) leaves
+ * the session unchanged. Returns null when the session does not exist or is
+ * not owned by `ownerId`.
+ */
+export async function rewindSession(
+  sessionId: string,
+  ownerId: string | null,
+  messageId: string,
+  keepToolResults: boolean,
+): Promise<ChatSession | null> {
+  const store = getSessionStore();
+  const session = await getOwnedSession(sessionId, ownerId);
+  if (!session) return null;
+
+  const { messages } = session;
+  const start = messages.findIndex((m) => m.role === 'user' && m.id === messageId);
+  if (start === -1) return session;
+  return store.truncate(sessionId, keepToolResults ? findAnswerStart(messages, start) : start);
+}
@@ -0,0 +1,26 @@
+/**
+ * Storage contract for conversation sessions.
+ * Implementations must serialize writes per session: an agent turn appends
+ * several times in quick succession (user message, model steps, tool results).
+ */
+
+import type { ChatSession, SessionMessage } from '@/types';
+
+export interface SessionStore {
+  /** New empty session owned by `ownerId` (null: a guest) */
+  create(ownerId: string | null): Promise<ChatSession>;
+  get(id: string): Promise<ChatSession | null>;
+  /** Append messages and return the updated session, or null when it does not exist */
+  append(id: string, messages: SessionMessage[]): Promise<ChatSession | null>;
+  /** Keep only the first `length` messages; null when the session does not exist */
+  truncate(id: string, length: number): Promise<ChatSession | null>;
+  /**
+   * Replace the messages with `change(messages)` in one write, under the same
+   * lock as append and truncate; null when the session does not exist
+   */
+  update(
+    id: string,
+    change: (messages: SessionMessage[]) => SessionMessage[],
+  ): Promise<ChatSession | null>;
+  delete(id: string): Promise<void>;
+}
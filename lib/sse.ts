@@ -0,0 +1,70 @@
+/**
+ * Server-Sent Events helpers for the /api/map-agent streaming mode.
+ * Shared by the route (encoding) and the chat panel (decoding), so it must
+ * stay free of Node-only and browser-only APIs.
+ */
+
+import type { AgentStreamEvent } from '@/types';
+
+// ── Constants ────────────────────────────────────────────────────────
+
+export const SSE_HEADERS: Record<string, string> = {
+  'Content-Type': 'text/event-stream; charset=utf-8',
+  'Cache-Control': 'no-cache, no-transform',
+  Connection: 'keep-alive',
+  'X-Accel-Buffering': 'no',
+};
+
+// ── Encoding ─────────────────────────────────────────────────────────
+
+export function encodeStreamEvent(event: AgentStreamEvent): string {
+  return `event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`;
+}
+
+// ── Decoding ─────────────────────────────────────────────────────────
+
+function parseEventBlock(block: string): AgentStreamEvent | null {
+  const data = block
+    .split('\n')
+    .filter((line) => line.startsWith('data:'))
+    .map((line) => line.slice(5).trimStart())
+    .join('\n');
+  if (!data) return null;
+
+  try {
+    return JSON.parse(data) as AgentStreamEvent;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Read an SSE response body and invoke `onEvent` for every decoded event.
+ * Resolves when the server closes the stream.
+ */
+export async function readStreamEvents(
+  body: ReadableStream<Uint8Array>,
+  onEvent: (event: AgentStreamEvent) => void,
+): Promise<void> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  for (;;) {
+    const { value, done } = await reader.read();
+    buffer += decoder.decode(value, { stream: !done }).replace(/\r\n/g, '\n');
+
+    let boundary = buffer.indexOf('\n\n');
+    while (boundary !== -1) {
+      const event = parseEventBlock(buffer.slice(0, boundary));
+      buffer = buffer.slice(boundary + 2);
+      if (event) onEvent(event);
+      boundary = buffer.indexOf('\n\n');
+    }
+
+    if (done) break;
+  }
+
+  const trailing = parseEventBlock(buffer);
+  if (trailing) onEvent(trailing);
+}
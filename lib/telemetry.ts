@@ -0,0 +1,249 @@
+/**
+ * In-memory telemetry for /api/map-agent: tokens, latency, cache source and
+ * estimated cost per model step, plus browser-reported tool durations.
+ * Aggregated per session, model, step mode and tool for the admin dashboard.
+ */
+
+import type {
+  AgentCacheSource,
+  AgentRoutePayload,
+  LLMCallRecord,
+  TelemetryAggregate,
+  TelemetrySnapshot,
+  ToolRunRecord,
+  ToolRunTiming,
+  ToolTelemetry,
+} from '@/types';
+import { generateId } from '@/lib/utils';
+
+// ── Configuration ────────────────────────────────────────────────────
+
+function parseNumberEnv(value: string | undefined, fallback: number): number {
+  if (!value) return fallback;
+  const parsed = Number.parseInt(value, 10);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+}
+
+const TELEMETRY_ENABLED = process.env.MAP_AGENT_TELEMETRY_ENABLED !== 'false';
+const TELEMETRY_MAX_EVENTS = parseNumberEnv(process.env.MAP_AGENT_TELEMETRY_MAX_EVENTS, 5000);
+
+const RECENT_CALLS_LIMIT = 50;
+const SESSIONS_LIMIT = 100;
+
+// ── Pricing ──────────────────────────────────────────────────────────
+
+/** USD per 1M tokens */
+interface ModelPricing {
+  input: number;
+  output: number;
+}
+
+/** OpenRouter list prices; override or extend with MAP_AGENT_MODEL_PRICING (JSON) */
+const DEFAULT_MODEL_PRICING: Record<string, ModelPricing> = {
+  'openai/gpt-4o-mini': { input: 0.15, output: 0.6 },
+  'openai/gpt-4o': { input: 2.5, output: 10 },
+  'openai/gpt-4.1-mini': { input: 0.4, output: 1.6 },
+  'anthropic/claude-3.5-sonnet': { input: 3, output: 15 },
+  'anthropic/claude-3.5-haiku': { input: 0.8, output: 4 },
+  'google/gemini-2.0-flash-001': { input: 0.1, output: 0.4 },
+};
+
+function loadModelPricing(): Record<string, ModelPricing> {
+  const raw = process.env.MAP_AGENT_MODEL_PRICING;
+  if (!raw) return DEFAULT_MODEL_PRICING;
+  try {
+    return { ...DEFAULT_MODEL_PRICING, ...(JSON.parse(raw) as Record<string, ModelPricing>) };
+  } catch (error) {
+    console.warn('[telemetry] Ignoring invalid MAP_AGENT_MODEL_PRICING:', error);
+    return DEFAULT_MODEL_PRICING;
+  }
+}
+
+const MODEL_PRICING = loadModelPricing();
+
+/** Estimated USD cost, or null when the model has no known pricing */
+export function estimateCost(
+  model: string,
+  promptTokens: number,
+  completionTokens: number,
+): number | null {
+  const pricing = MODEL_PRICING[model];
+  if (!pricing) return null;
+  return (promptTokens * pricing.input + completionTokens * pricing.output) / 1_000_000;
+}
+
+// ── Storage ──────────────────────────────────────────────────────────
+
+interface TelemetryStore {
+  calls: LLMCallRecord[];
+  toolRuns: ToolRunRecord[];
+}
+
+// Each route is bundled separately, so the store lives on globalThis to be
+// shared between /api/map-agent and /api/admin/telemetry.
+const globalForTelemetry = globalThis as typeof globalThis & {
+  __mapAgentTelemetry?: TelemetryStore;
+};
+globalForTelemetry.__mapAgentTelemetry ??= { calls: [], toolRuns: [] };
+
+const LLM_CALLS = globalForTelemetry.__mapAgentTelemetry.calls;
+const TOOL_RUNS = globalForTelemetry.__mapAgentTelemetry.toolRuns;
+
+function pushBounded<T>(list: T[], item: T): void {
+  list.push(item);
+  if (list.length > TELEMETRY_MAX_EVENTS) list.splice(0, list.length - TELEMETRY_MAX_EVENTS);
+}
+
+// ── Recording ────────────────────────────────────────────────────────
+
+export interface LLMCallInput {
+  sessionId: string | null;
+  provider: string;
+  model: string;
+  mode: string;
+  step: number;
+  /** Null when the step failed */
+  payload: AgentRoutePayload | null;
+  cacheSource: AgentCacheSource | null;
+  latencyMs: number;
+  firstEventMs?: number | null;
+  error?: unknown;
+}
+
+export function recordLLMCall(input: LLMCallInput): void {
+  if (!TELEMETRY_ENABLED) return;
+
+  // Cache hits spend no tokens, whatever the stored usage says
+  const usage = input.cacheSource ? null : input.payload?.usage;
+  const model = input.payload?.model || input.model;
+  const promptTokens = usage?.promptTokens ?? 0;
+  const completionTokens = usage?.completionTokens ?? 0;
+
+  pushBounded(LLM_CALLS, {
+    id: generateId(),
+    sessionId: input.sessionId,
+    timestamp: Date.now(),
+    provider: input.payload?.provider || input.provider,
+    model,
+    mode: input.mode,
+    step: input.step,
+    finishReason: input.payload?.finishReason ?? null,
+    promptTokens,
+    completionTokens,
+    totalTokens: usage?.totalTokens ?? promptTokens + completionTokens,
+    latencyMs: Math.round(input.latencyMs),
+    firstEventMs: input.firstEventMs == null ? null : Math.round(input.firstEventMs),
+    cacheSource: input.cacheSource,
+    costUsd: input.cacheSource ? 0 : estimateCost(model, promptTokens, completionTokens),
+    ...(input.error
+      ? { error: input.error instanceof Error ? input.error.message : String(input.error) }
+      : {}),
+  });
+}
+
+/** Record tool durations reported by the browser; malformed entries are dropped */
+export function recordToolRuns(sessionId: string | null, runs: unknown): void {
+  if (!TELEMETRY_ENABLED || !Array.isArray(runs)) return;
+
+  const timestamp = Date.now();
+  for (const run of runs.slice(0, 20) as Partial<ToolRunTiming>[]) {
+    if (typeof run?.name !== 'string' || typeof run.durationMs !== 'number') continue;
+    if (!Number.isFinite(run.durationMs) || run.durationMs < 0) continue;
+
+    pushBounded(TOOL_RUNS, {
+      sessionId,
+      timestamp,
+      toolCallId: typeof run.toolCallId === 'string' ? run.toolCallId : '',
+      name: run.name.slice(0, 64),
+      durationMs: Math.round(run.durationMs),
+      success: run.success === true,
+    });
+  }
+}
+
+// ── Aggregation ──────────────────────────────────────────────────────
+
+function aggregate(calls: LLMCallRecord[], toolRuns: ToolRunRecord[]): TelemetryAggregate {
+  const sum = (pick: (call: LLMCallRecord) => number) =>
+    calls.reduce((total, call) => total + pick(call), 0);
+  const uncached = calls.filter((call) => !call.cacheSource && !call.error);
+
+  return {
+    calls: calls.length,
+    cachedCalls: calls.filter((call) => call.cacheSource).length,
+    errors: calls.filter((call) => call.error).length,
+    promptTokens: sum((call) => call.promptTokens),
+    completionTokens: sum((call) => call.completionTokens),
+    totalTokens: sum((call) => call.totalTokens),
+    costUsd: Number(sum((call) => call.costUsd ?? 0).toFixed(6)),
+    avgLatencyMs:
+      uncached.length > 0
+        ? Math.round(uncached.reduce((total, call) => total + call.latencyMs, 0) / uncached.length)
+        : 0,
+    toolRuns: toolRuns.length,
+    toolDurationMs: toolRuns.reduce((total, run) => total + run.durationMs, 0),
+  };
+}
+
+function groupBy<T>(items: T[], key: (item: T) => string): Map<string, T[]> {
+  const groups = new Map<string, T[]>();
+  for (const item of items) {
+    const groupKey = key(item);
+    const group = groups.get(groupKey);
+    if (group) group.push(item);
+    else groups.set(groupKey, [item]);
+  }
+  return groups;
+}
+
+function summarizeTools(toolRuns: ToolRunRecord[]): ToolTelemetry[] {
+  return Array.from(groupBy(toolRuns, (run) => run.name).entries())
+    .map(([name, runs]) => ({
+      name,
+      runs: runs.length,
+      failures: runs.filter((run) => !run.success).length,
+      avgDurationMs: Math.round(
+        runs.reduce((total, run) => total + run.durationMs, 0) / runs.length,
+      ),
+      maxDurationMs: Math.max(...runs.map((run) => run.durationMs)),
+    }))
+    .sort((a, b) => b.runs - a.runs);
+}
+
+export function getTelemetrySnapshot(): TelemetrySnapshot {
+  const callsBySession = groupBy(LLM_CALLS, (call) => call.sessionId ?? '');
+  const toolsBySession = groupBy(TOOL_RUNS, (run) => run.sessionId ?? '');
+  const sessionIds = new Set(
+    Array.from(callsBySession.keys()).concat(Array.from(toolsBySession.keys())),
+  );
+  sessionIds.delete('');
+
+  const sessions = Array.from(sessionIds)
+    .map((sessionId) => {
+      const calls = callsBySession.get(sessionId) ?? [];
+      const runs = toolsBySession.get(sessionId) ?? [];
+      const timestamps = [...calls, ...runs].map((event) => event.timestamp);
+      return {
+        sessionId,
+        firstSeen: Math.min(...timestamps),
+        lastSeen: Math.max(...timestamps),
+        ...aggregate(calls, runs),
+      };
+    })
+    .sort((a, b) => b.lastSeen - a.lastSeen)
+    .slice(0, SESSIONS_LIMIT);
+
+  return {
+    generatedAt: Date.now(),
+    totals: aggregate(LLM_CALLS, TOOL_RUNS),
+    byModel: Array.from(groupBy(LLM_CALLS, (call) => call.model).entries())
+      .map(([model, calls]) => ({ model, ...aggregate(calls, []) }))
+      .sort((a, b) => b.calls - a.calls),
+    byMode: Array.from(groupBy(LLM_CALLS, (call) => call.mode).entries())
+      .map(([mode, calls]) => ({ mode, ...aggregate(calls, []) }))
+      .sort((a, b) => b.calls - a.calls),
+    byTool: summarizeTools(TOOL_RUNS),
+    sessions,
+    recentCalls: LLM_CALLS.slice(-RECENT_CALLS_LIMIT).reverse(),
+  };
+}
@@ -3,7 +3,8 @@
  *
  * JSON Schema definitions for all Map Copilot tools.
  * These schemas are sent to the chat API so the model can choose
- * which tool to invoke based on the user's natural-language request.
+ * which tool to invoke based on the user's natural-language request,
+ * and drive runtime argument validation (see toolValidation.ts).
  */
 
 import type { ChatCompletionTool } from 'openai/resources/chat/completions';
@@ -40,6 +41,10 @@ export const MAP_TOOL_SCHEMAS: ChatCompletionTool[] = [
       name: 'getDirections',
       description:
         'Find directions between two places with selected transport mode and draw the route on the map. ' +
+        'Optional ordered waypoints make it a multi-stop route (from → waypoints → to), ' +
+        'with distance and duration per leg. ' +
+        'Can avoid tolls/highways/ferries and plan for a departure time (with durations in traffic) ' +
+        'or, for transit, an arrival time. ' +
         'Internally uses Google Directions API.',
       parameters: {
         type: 'object',
@@ -54,6 +59,15 @@ export const MAP_TOOL_SCHEMAS: ChatCompletionTool[] = [
             description:
               'Destination place or address (e.g. "Hoan Kiem Lake"). Can also be "vị trí hiện tại" / "my location".',
           },
+          waypoints: {
+            type: 'array',
+            description:
+              'Intermediate stops visited in order between `from` and `to` (e.g. ["Kho A", "Kho B"]). ' +
+              'Each is a place name/address or "vị trí hiện tại" / "my location". ' +
+              'For a round trip ("... rồi về"), set `to` to the starting place. Omit when there are no stops.',
+            items: { type: 'string' },
+            maxItems: 8,
+          },
           mode: {
             type: 'string',
             description:
@@ -61,11 +75,98 @@ export const MAP_TOOL_SCHEMAS: ChatCompletionTool[] = [
               'If omitted, default is "driving".',
             enum: ['driving', 'walking', 'bicycling', 'transit', 'motorbike'],
           },
+          avoid: {
+            type: 'array',
+            description:
+              'Road features to avoid: "tolls" ("không đi đường có phí"), "highways" ("tránh cao tốc"), ' +
+              '"ferries" ("tránh phà"). Omit when the user does not ask to avoid anything.',
+            items: { type: 'string', enum: ['tolls', 'highways', 'ferries'] },
+            maxItems: 3,
+          },
+          departureTime: {
+            type: 'string',
+            description:
+              'When the trip starts, as the user said it (e.g. "7h sáng mai", "17:30 thứ sáu", ' +
+              '"30 phút nữa", "bây giờ") or an ISO date-time. Enables durations in traffic. ' +
+              'Omit when the user gives no time.',
+          },
+          arrivalTime: {
+            type: 'string',
+            description:
+              'When the user must arrive (e.g. "trước 8h sáng mai" → "8h sáng mai"). ' +
+              'Only for mode "transit"; never together with `departureTime`.',
+          },
         },
         required: ['from', 'to'],
       },
     },
   },
+  {
+    type: 'function',
+    function: {
+      name: 'selectRoute',
+      description:
+        'Highlight another route option of the directions already drawn on the map, without searching again. ' +
+        'Use when the user asks for a different way (e.g. "đi đường khác", "chọn tuyến 2"). ' +
+        'Options are listed in the latest getDirections result (`data.routes`).',
+      parameters: {
+        type: 'object',
+        properties: {
+          index: {
+            type: 'integer',
+            description:
+              'Route number from `data.routes[].index` (1 = recommended route). ' +
+              'Omit to switch to the next option.',
+            minimum: 1,
+          },
+        },
+        required: [],
+      },
+    },
+  },
+  {
+    type: 'function',
+    function: {
+      name: 'optimizeRoute',
+      description:
+        'Find a near-optimal order to visit several stops from a starting place and draw the route with numbered stops. ' +
+        'Use when the user lets you choose the order (e.g. "tối ưu lộ trình đi qua 6 cửa hàng này"); ' +
+        'for a fixed order use getDirections with waypoints. ' +
+        'Reports the visiting order, total distance and duration, and the saving versus the given order.',
+      parameters: {
+        type: 'object',
+        properties: {
+          start: {
+            type: 'string',
+            description:
+              'Starting place or address. Can also be "vị trí hiện tại" / "my location".',
+          },
+          stops: {
+            type: 'array',
+            description:
+              'Places to visit, in the order the user listed them (e.g. ["Cửa hàng A", "Cửa hàng B"]). ' +
+              'Do not include the starting place.',
+            items: { type: 'string' },
+            minItems: 2,
+            maxItems: 9,
+          },
+          returnToStart: {
+            type: 'boolean',
+            description:
+              'true when the trip must end back at the starting place ("rồi quay về", "round trip"). Default false.',
+          },
+          mode: {
+            type: 'string',
+            description:
+              'Transport mode. Use one of: "driving", "walking", "bicycling", "motorbike". ' +
+              'If omitted, default is "driving".',
+            enum: ['driving', 'walking', 'bicycling', 'motorbike'],
+          },
+        },
+        required: ['start', 'stops'],
+      },
+    },
+  },
   {
     type: 'function',
     function: {
@@ -116,17 +217,23 @@ export const MAP_TOOL_SCHEMAS: ChatCompletionTool[] = [
           radius: {
             type: 'number',
             description: 'Search radius in meters (100-50000). Default 1000.',
+            minimum: 100,
+            maximum: 50000,
           },
           minRating: {
             type: 'number',
             description:
               'Minimum rating filter from 0 to 5 (e.g. 4 means only places rated 4.0+).',
+            minimum: 0,
+            maximum: 5,
           },
           limit: {
-            type: 'number',
+            type: 'integer',
             description:
               'Number of results to display when user asks for a specific quantity (e.g. 5 for "tìm 5 quán cafe"). ' +
               'If user does not ask quantity, omit this field.',
+            minimum: 1,
+            maximum: 200,
           },
         },
         required: [],
@@ -0,0 +1,289 @@
+/**
+ * toolValidation.ts
+ *
+ * Runtime validation of LLM tool-call arguments, driven by the JSON Schemas in
+ * MAP_TOOL_SCHEMAS. Used by the API route (so malformed calls never reach the
+ * map) and by executeTool. Failures are returned as structured issues that go
+ * back to the model in the tool-result message so it can correct itself.
+ * Issue messages are written in the given locale (the request's on the
+ * server, the UI's in executeTool).
+ */
+
+import type { Locale, ToolArgumentIssue, ToolResult } from '@/types';
+import { translate } from '@/lib/i18n';
+import { MAP_TOOL_SCHEMAS } from './toolSchemas';
+
+// ── Schema Types ─────────────────────────────────────────────────────
+
+/** Subset of JSON Schema used by MAP_TOOL_SCHEMAS */
+interface PropertySchema {
+  type?: 'string' | 'number' | 'integer' | 'boolean' | 'array' | 'object';
+  enum?: unknown[];
+  minimum?: number;
+  maximum?: number;
+  items?: PropertySchema;
+  minItems?: number;
+  maxItems?: number;
+}
+
+interface ParametersSchema {
+  type?: 'object';
+  properties?: Record<string, PropertySchema>;
+  required?: string[];
+}
+
+export type ToolValidationResult =
+  | { valid: true; arguments: Record<string, unknown> }
+  | { valid: false; issues: ToolArgumentIssue[] };
+
+const TOOL_PARAMETERS = new Map<string, ParametersSchema>(
+  MAP_TOOL_SCHEMAS.map((tool) => [
+    tool.function.name,
+    (tool.function.parameters || {}) as ParametersSchema,
+  ]),
+);
+
+// ── Parsing ──────────────────────────────────────────────────────────
+
+/**
+ * Parse the raw `arguments` string emitted by the model.
+ * Unlike a silent fallback to `{}`, invalid JSON is reported as an issue.
+ */
+export function parseToolArguments(
+  raw: string,
+  locale: Locale,
+): {
+  arguments: Record<string, unknown>;
+  issues: ToolArgumentIssue[];
+} {
+  if (!raw.trim()) return { arguments: {}, issues: [] };
+
+  try {
+    const parsed = JSON.parse(raw);
+    if (parsed && typeof parsed === 'object' && !Array.isArray(parsed)) {
+      return { arguments: parsed as Record<string, unknown>, issues: [] };
+    }
+    return {
+      arguments: {},
+      issues: [
+        {
+          path: '$',
+          code: 'invalid_json',
+          message: translate(locale, 'toolArgs.notObject'),
+          received: parsed,
+        },
+      ],
+    };
+  } catch (error) {
+    return {
+      arguments: {},
+      issues: [
+        {
+          path: '$',
+          code: 'invalid_json',
+          message: translate(locale, 'toolArgs.invalidJson', {
+            error:
+              error instanceof Error ? error.message : translate(locale, 'toolArgs.parseError'),
+          }),
+          received: raw,
+        },
+      ],
+    };
+  }
+}
+
+// ── Validation ───────────────────────────────────────────────────────
+
+function describeType(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
+
+function matchesType(value: unknown, type: PropertySchema['type']): boolean {
+  switch (type) {
+    case 'string':
+      return typeof value === 'string';
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value);
+    case 'integer':
+      return typeof value === 'number' && Number.isInteger(value);
+    case 'boolean':
+      return typeof value === 'boolean';
+    case 'array':
+      return Array.isArray(value);
+    case 'object':
+      return Boolean(value) && typeof value === 'object' && !Array.isArray(value);
+    default:
+      return true;
+  }
+}
+
+function validateValue(
+  path: string,
+  value: unknown,
+  schema: PropertySchema,
+  locale: Locale,
+): ToolArgumentIssue[] {
+  if (!matchesType(value, schema.type)) {
+    return [
+      {
+        path,
+        code: 'type',
+        message: translate(locale, 'toolArgs.type', {
+          path,
+          expected: schema.type ?? '',
+          received: describeType(value),
+        }),
+        expected: schema.type,
+        received: value,
+      },
+    ];
+  }
+
+  const issues: ToolArgumentIssue[] = [];
+
+  if (schema.enum && !schema.enum.includes(value)) {
+    issues.push({
+      path,
+      code: 'enum',
+      message: translate(locale, 'toolArgs.enum', {
+        path,
+        values: schema.enum.map((v) => JSON.stringify(v)).join(', '),
+      }),
+      expected: schema.enum,
+      received: value,
+    });
+  }
+
+  if (typeof value === 'number') {
+    if (typeof schema.minimum === 'number' && value < schema.minimum) {
+      issues.push({
+        path,
+        code: 'minimum',
+        message: translate(locale, 'toolArgs.minimum', { path, min: schema.minimum }),
+        expected: schema.minimum,
+        received: value,
+      });
+    }
+    if (typeof schema.maximum === 'number' && value > schema.maximum) {
+      issues.push({
+        path,
+        code: 'maximum',
+        message: translate(locale, 'toolArgs.maximum', { path, max: schema.maximum }),
+        expected: schema.maximum,
+        received: value,
+      });
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (typeof schema.minItems === 'number' && value.length < schema.minItems) {
+      issues.push({
+        path,
+        code: 'minItems',
+        message: translate(locale, 'toolArgs.minItems', {
+          path,
+          min: schema.minItems,
+          count: value.length,
+        }),
+        expected: schema.minItems,
+        received: value.length,
+      });
+    }
+    if (typeof schema.maxItems === 'number' && value.length > schema.maxItems) {
+      issues.push({
+        path,
+        code: 'maxItems',
+        message: translate(locale, 'toolArgs.maxItems', {
+          path,
+          max: schema.maxItems,
+          count: value.length,
+        }),
+        expected: schema.maxItems,
+        received: value.length,
+      });
+    }
+    const itemSchema = schema.items;
+    if (itemSchema) {
+      value.forEach((item, index) => {
+        issues.push(...validateValue(`${path}[${index}]`, item, itemSchema, locale));
+      });
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * Validate tool arguments against the tool's JSON Schema.
+ * On success returns the cleaned arguments: `null` values and properties the
+ * schema does not declare are dropped, so executors only see known fields.
+ */
+export function validateToolArguments(
+  toolName: string,
+  args: Record<string, unknown>,
+  locale: Locale,
+): ToolValidationResult {
+  const schema = TOOL_PARAMETERS.get(toolName);
+  if (!schema) {
+    return {
+      valid: false,
+      issues: [
+        {
+          path: '$',
+          code: 'unknown_tool',
+          message: translate(locale, 'tool.unsupported', { tool: toolName }),
+          expected: Array.from(TOOL_PARAMETERS.keys()),
+          received: toolName,
+        },
+      ],
+    };
+  }
+
+  const properties = schema.properties || {};
+  const cleaned: Record<string, unknown> = {};
+  const issues: ToolArgumentIssue[] = [];
+
+  for (const [key, propertySchema] of Object.entries(properties)) {
+    const value = args[key];
+    if (value === undefined || value === null) continue;
+    issues.push(...validateValue(key, value, propertySchema, locale));
+    cleaned[key] = value;
+  }
+
+  for (const key of schema.required || []) {
+    const value = cleaned[key];
+    if (value === undefined || (typeof value === 'string' && !value.trim())) {
+      issues.push({
+        path: key,
+        code: 'required',
+        message: translate(locale, 'toolArgs.required', { name: key }),
+      });
+    }
+  }
+
+  return issues.length > 0 ? { valid: false, issues } : { valid: true, arguments: cleaned };
+}
+
+// ── Tool Result ──────────────────────────────────────────────────────
+
+/** Failed ToolResult carrying the issues, recorded in the tool-result message */
+export function buildValidationFailure(
+  toolName: string,
+  args: Record<string, unknown>,
+  issues: ToolArgumentIssue[],
+  locale: Locale,
+): ToolResult {
+  return {
+    success: false,
+    message: translate(locale, 'toolArgs.invalid', {
+      tool: toolName,
+      issues: issues.map((issue) => issue.message).join(' '),
+    }),
+    data: {
+      validationErrors: issues,
+      receivedArguments: args,
+    },
+  };
+}
@@ -0,0 +1,275 @@
+/**
+ * eval-client-ip.ts
+ *
+ * Starts the app (`next dev`) without trusted proxies and sends requests from
+ * several loopback addresses (127.0.0.2, 127.0.0.3, ...), so each one arrives
+ * on its own socket. Checks that the per-IP quotas keep a bucket per client address:
+ * the second request of one client is limited, the first of the other is not.
+ * This covers the maps proxy, the /api/map-agent steps and session creation
+ * (one shared per-IP limit), and login attempts, which are also checked
+ * against their per-username limit. The utterances recorded in the audit log
+ * must carry the address of the client that sent them.
+ *
+ * Usage:
+ *   npm run eval:client-ip -- [--port 3457]
+ */
+
+import { spawn, type ChildProcess } from 'node:child_process';
+import { request as httpRequest } from 'node:http';
+import { mkdtemp, readdir, readFile, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import type { AuditRecord } from '@/types';
+
+// ── Types ────────────────────────────────────────────────────────────
+
+interface HttpResponse {
+  status: number;
+  body: string;
+}
+
+interface CheckResult {
+  id: string;
+  failures: string[];
+}
+
+type Send = (from: string) => Promise<HttpResponse>;
+
+const CLIENT_A = '127.0.0.2';
+const CLIENT_B = '127.0.0.3';
+const CLIENT_C = '127.0.0.4';
+const CLIENT_D = '127.0.0.5';
+/** Login attempts allowed per minute, per IP and per username (app/api/auth/login) */
+const LOGIN_ATTEMPTS = 5;
+const HOST = '127.0.0.1';
+const STARTUP_TIMEOUT_MS = 180_000;
+
+// ── CLI ──────────────────────────────────────────────────────────────
+
+function parseArgs(argv: string[]): { port: number } {
+  const options = { port: 3457 };
+
+  for (let i = 0; i < argv.length; i += 1) {
+    const flag = argv[i];
+    const value = argv[i + 1];
+    if (value === undefined) throw new Error(`Missing value for ${flag}`);
+    if (flag !== '--port') throw new Error(`Unknown option ${flag}`);
+    options.port = Number.parseInt(value, 10);
+    i += 1;
+  }
+
+  return options;
+}
+
+// ── Server ───────────────────────────────────────────────────────────
+
+/** `next dev` in its own process group, resolved once it accepts requests */
+function startServer(port: number, env: Record<string, string>): Promise<ChildProcess> {
+  const child = spawn(
+    process.execPath,
+    ['node_modules/next/dist/bin/next', 'dev', '-H', HOST, '-p', String(port)],
+    { env: { ...process.env, ...env }, detached: true, stdio: ['ignore', 'pipe', 'pipe'] },
+  );
+
+  return new Promise((resolve, reject) => {
+    let output = '';
+    const timer = setTimeout(() => {
+      stopServer(child);
+      reject(new Error(`next dev did not start in time:\n${output}`));
+    }, STARTUP_TIMEOUT_MS);
+    const onData = (chunk: Buffer) => {
+      output += chunk.toString();
+      if (/Ready in/.test(output)) {
+        clearTimeout(timer);
+        resolve(child);
+      }
+    };
+    child.stdout?.on('data', onData);
+    child.stderr?.on('data', onData);
+    child.once('exit', (code) => {
+      clearTimeout(timer);
+      reject(new Error(`next dev exited with ${code}:\n${output}`));
+    });
+  });
+}
+
+function stopServer(child: ChildProcess): void {
+  if (child.pid === undefined || child.exitCode !== null) return;
+  try {
+    // The dev server forks workers; signal the whole group it leads
+    process.kill(-child.pid, 'SIGTERM');
+  } catch {
+    child.kill('SIGTERM');
+  }
+}
+
+function send(
+  port: number,
+  from: string,
+  method: string,
+  path: string,
+  body?: unknown,
+): Promise<HttpResponse> {
+  return new Promise((resolve, reject) => {
+    const payload = body === undefined ? undefined : JSON.stringify(body);
+    const req = httpRequest(
+      {
+        host: HOST,
+        port,
+        method,
+        path,
+        localAddress: from,
+        agent: false,
+        headers: payload ? { 'Content-Type': 'application/json' } : undefined,
+      },
+      (res) => {
+        let text = '';
+        res.setEncoding('utf8');
+        res.on('data', (chunk: string) => {
+          text += chunk;
+        });
+        res.on('end', () => resolve({ status: res.statusCode ?? 0, body: text }));
+      },
+    );
+    req.on('error', reject);
+    req.end(payload);
+  });
+}
+
+// ── Checks ───────────────────────────────────────────────────────────
+
+/** With a quota of one request, each client address must get its own bucket */
+async function checkSeparateBuckets(
+  id: string,
+  sendFrom: Send,
+  [client, otherClient] = [CLIENT_A, CLIENT_B],
+): Promise<CheckResult> {
+  const failures: string[] = [];
+  const first = await sendFrom(client);
+  const second = await sendFrom(client);
+  const other = await sendFrom(otherClient);
+
+  if (first.status === 429) failures.push(`first ${client} request was limited`);
+  if (second.status !== 429) failures.push(`second ${client} request got ${second.status}`);
+  if (other.status === 429) failures.push(`${otherClient} shared the bucket of ${client}`);
+  else if (other.status !== first.status) {
+    failures.push(`${otherClient} got ${other.status}, ${client} got ${first.status} first`);
+  }
+  return { id, failures };
+}
+
+/**
+ * Failed logins: one client running out of attempts leaves the others alone,
+ * and one username runs out of attempts whichever client sends them.
+ */
+async function checkLoginLimits(port: number): Promise<CheckResult> {
+  const failures: string[] = [];
+  const login = (from: string, username: string) =>
+    send(port, from, 'POST', '/api/auth/login', { username, password: 'wrong-password' });
+
+  for (let i = 0; i < LOGIN_ATTEMPTS; i += 1) {
+    const attempt = await login(CLIENT_A, `user-a${i}`);
+    if (attempt.status !== 401) {
+      failures.push(`${CLIENT_A} attempt ${i + 1} got ${attempt.status}`);
+    }
+  }
+  if ((await login(CLIENT_A, 'user-a-last')).status !== 429) {
+    failures.push(`${CLIENT_A} was not limited after ${LOGIN_ATTEMPTS} attempts`);
+  }
+  if ((await login(CLIENT_B, 'user-b')).status === 429) {
+    failures.push(`${CLIENT_B} was locked out by ${CLIENT_A}`);
+  }
+
+  // Spread over two clients, neither of which reaches its own IP limit
+  for (let i = 0; i < LOGIN_ATTEMPTS; i += 1) {
+    await login(i < LOGIN_ATTEMPTS - 1 ? CLIENT_B : CLIENT_C, 'victim');
+  }
+  if ((await login(CLIENT_C, 'victim')).status !== 429) {
+    failures.push(`"victim" was not limited after ${LOGIN_ATTEMPTS} attempts from two clients`);
+  }
+  if ((await login(CLIENT_C, 'someone-else')).status === 429) {
+    failures.push(`${CLIENT_C} was limited for another username`);
+  }
+
+  return { id: 'login', failures };
+}
+
+/** Every client's utterance is in the audit log under its own address */
+async function checkAuditAddresses(auditDir: string, clients: string[]): Promise<CheckResult> {
+  const failures: string[] = [];
+  const files = await readdir(auditDir).catch(() => [] as string[]);
+  const records: AuditRecord[] = [];
+  for (const file of files) {
+    const lines = (await readFile(join(auditDir, file), 'utf8')).split('\n').filter(Boolean);
+    lines.forEach((line) => records.push(JSON.parse(line) as AuditRecord));
+  }
+
+  for (const client of clients) {
+    const record = records.find(
+      (candidate) => candidate.type === 'utterance' && candidate.utterance?.includes(client),
+    );
+    if (!record) failures.push(`no utterance recorded for ${client}`);
+    else if (record.ip !== client) failures.push(`utterance of ${client} recorded as ${record.ip}`);
+  }
+
+  return { id: 'audit', failures };
+}
+
+// ── Main ─────────────────────────────────────────────────────────────
+
+async function main(): Promise<void> {
+  const { port } = parseArgs(process.argv.slice(2));
+  const dataDir = await mkdtemp(join(tmpdir(), 'eval-client-ip-'));
+  const server = await startServer(port, {
+    TRUSTED_PROXY_HOPS: '0',
+    GOOGLE_MAPS_API_KEY: '',
+    MAPS_PROXY_RATE_LIMIT: '1',
+    MAP_AGENT_RATE_LIMIT_IP: '1',
+    MAP_AGENT_RATE_LIMIT_BURST: '1',
+    MAP_AGENT_SESSION_DIR: join(dataDir, 'sessions'),
+    MAP_AGENT_CACHE_ENABLED: 'false',
+    LLM_PROVIDER: 'scripted',
+    SCRIPTED_LLM_FILE: '',
+    AUDIT_LOG_DIR: join(dataDir, 'audit'),
+    AUTH_SECRET: 'eval-client-ip-secret-0123456789abcdef',
+    AUTH_USERS: '',
+    AUTH_USERS_FILE: join(dataDir, 'users.json'),
+  });
+
+  try {
+    const results = [
+      await checkSeparateBuckets('maps-proxy', (from) =>
+        send(port, from, 'GET', '/api/maps/google/textsearch?query=cafe'),
+      ),
+      await checkLoginLimits(port),
+      // Session creation and agent steps share the per-IP bucket: one pair of clients each
+      await checkSeparateBuckets('sessions', (from) => send(port, from, 'POST', '/api/sessions')),
+      await checkSeparateBuckets(
+        'map-agent',
+        (from) =>
+          send(port, from, 'POST', '/api/map-agent', {
+            messages: [{ role: 'user', content: `Tìm quán cà phê gần ${from}` }],
+          }),
+        [CLIENT_C, CLIENT_D],
+      ),
+      await checkAuditAddresses(join(dataDir, 'audit'), [CLIENT_C, CLIENT_D]),
+    ];
+    const failed = results.filter((result) => result.failures.length > 0);
+
+    for (const result of results) {
+      console.log(`${result.failures.length === 0 ? '✔' : '✘'} ${result.id}`);
+      for (const failure of result.failures) console.log(`    ${failure}`);
+    }
+
+    console.log(`\n${results.length - failed.length}/${results.length} checks passed`);
+    if (failed.length > 0) process.exitCode = 1;
+  } finally {
+    stopServer(server);
+    await rm(dataDir, { recursive: true, force: true });
+  }
+}
+
+main().catch((error) => {
+  console.error('[eval-client-ip]', error instanceof Error ? error.message : error);
+  process.exitCode = 1;
+});
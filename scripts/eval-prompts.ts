@@ -0,0 +1,335 @@
+/**
+ * eval-prompts.ts
+ *
+ * Prompt-to-tool evaluation for REQUEST_PROMPT and MAP_TOOL_SCHEMAS.
+ * Runs every utterance of the corpus through the tool-planning pass of the
+ * configured LLM provider, scores tool name and argument accuracy per rule
+ * and writes a diffable Markdown + JSON report (no timestamps, stable order).
+ *
+ * Usage:
+ *   npm run eval:prompts -- [--provider <id>] [--corpus eval/corpus.yaml]
+ *     [--rule <rule>] [--out eval/reports] [--label <name>] [--min-pass 0.9]
+ *
+ * The provider defaults to LLM_PROVIDER; use `--provider fixture` with
+ * LLM_FIXTURE_MODE=record once to capture responses, then replay them offline.
+ */
+
+import { mkdir, readFile, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { loadEnvConfig } from '@next/env';
+import yaml from 'js-yaml';
+import type { AgentApiMessage, ToolCallPayload } from '@/types';
+
+// ── Types ────────────────────────────────────────────────────────────
+
+type ArgumentMatcher =
+  | string
+  | number
+  | boolean
+  | null
+  | { oneOf: Array<string | number | boolean | null> }
+  | { contains: string }
+  | { present: true };
+
+interface EvalCase {
+  id: string;
+  rule: string;
+  utterance: string;
+  history?: Array<{ role: 'user' | 'assistant'; content: string }>;
+  expect: {
+    tool: string;
+    arguments?: Record<string, ArgumentMatcher>;
+  };
+}
+
+interface ArgumentCheck {
+  name: string;
+  expected: ArgumentMatcher;
+  actual: unknown;
+  passed: boolean;
+}
+
+interface CaseResult {
+  id: string;
+  rule: string;
+  utterance: string;
+  expectedTool: string;
+  actualTool: string;
+  toolPassed: boolean;
+  argumentChecks: ArgumentCheck[];
+  passed: boolean;
+  toolCalls: Array<Pick<ToolCallPayload, 'name' | 'arguments' | 'validationErrors'>>;
+  error?: string;
+}
+
+interface RuleSummary {
+  rule: string;
+  cases: number;
+  passed: number;
+  toolAccuracy: number;
+  argumentAccuracy: number;
+}
+
+interface CliOptions {
+  provider?: string;
+  corpus: string;
+  rule?: string;
+  out: string;
+  label?: string;
+  minPass?: number;
+}
+
+// ── CLI ──────────────────────────────────────────────────────────────
+
+function parseArgs(argv: string[]): CliOptions {
+  const options: CliOptions = { corpus: 'eval/corpus.yaml', out: 'eval/reports' };
+
+  for (let i = 0; i < argv.length; i += 1) {
+    const flag = argv[i];
+    const value = argv[i + 1];
+    if (value === undefined) throw new Error(`Missing value for ${flag}`);
+
+    switch (flag) {
+      case '--provider':
+        options.provider = value;
+        break;
+      case '--corpus':
+        options.corpus = value;
+        break;
+      case '--rule':
+        options.rule = value;
+        break;
+      case '--out':
+        options.out = value;
+        break;
+      case '--label':
+        options.label = value;
+        break;
+      case '--min-pass':
+        options.minPass = Number(value);
+        break;
+      default:
+        throw new Error(`Unknown option ${flag}`);
+    }
+    i += 1;
+  }
+
+  return options;
+}
+
+async function loadCorpus(filePath: string): Promise<EvalCase[]> {
+  const parsed = yaml.load(await readFile(filePath, 'utf8')) as { cases?: EvalCase[] } | null;
+  if (!Array.isArray(parsed?.cases)) throw new Error(`${filePath} must contain a "cases" array`);
+  return parsed.cases;
+}
+
+// ── Scoring ──────────────────────────────────────────────────────────
+
+function normalize(value: unknown): unknown {
+  return typeof value === 'string' ? value.normalize('NFC').trim().toLowerCase() : value;
+}
+
+function matchArgument(expected: ArgumentMatcher, actual: unknown): boolean {
+  if (expected === null) return actual === undefined || actual === null;
+  if (typeof expected !== 'object') return normalize(actual) === normalize(expected);
+
+  if ('oneOf' in expected) {
+    return expected.oneOf.some((option) => matchArgument(option, actual));
+  }
+  if ('contains' in expected) {
+    // Array arguments (e.g. `avoid`) match when one of their items does
+    if (Array.isArray(actual)) return actual.some((item) => matchArgument(expected, item));
+    return (
+      typeof actual === 'string' &&
+      (normalize(actual) as string).includes(normalize(expected.contains) as string)
+    );
+  }
+  return actual !== undefined && actual !== null;
+}
+
+function scoreCase(
+  evalCase: EvalCase,
+  toolCalls: ToolCallPayload[],
+  error?: string,
+): CaseResult {
+  const first = toolCalls[0];
+  const actualTool = first?.name ?? 'none';
+  const toolPassed = !error && actualTool === evalCase.expect.tool;
+
+  const argumentChecks = Object.entries(evalCase.expect.arguments || {}).map(
+    ([name, expected]): ArgumentCheck => {
+      const actual = first?.arguments[name];
+      return { name, expected, actual, passed: toolPassed && matchArgument(expected, actual) };
+    },
+  );
+
+  return {
+    id: evalCase.id,
+    rule: evalCase.rule,
+    utterance: evalCase.utterance,
+    expectedTool: evalCase.expect.tool,
+    actualTool,
+    toolPassed,
+    argumentChecks,
+    passed: toolPassed && argumentChecks.every((check) => check.passed),
+    toolCalls: toolCalls.map(({ name, arguments: args, validationErrors }) => ({
+      name,
+      arguments: args,
+      ...(validationErrors ? { validationErrors } : {}),
+    })),
+    ...(error ? { error } : {}),
+  };
+}
+
+function ratio(numerator: number, denominator: number): number {
+  return denominator === 0 ? 1 : Number((numerator / denominator).toFixed(3));
+}
+
+function summarize(rule: string, results: CaseResult[]): RuleSummary {
+  const checks = results.flatMap((result) => result.argumentChecks);
+  return {
+    rule,
+    cases: results.length,
+    passed: results.filter((result) => result.passed).length,
+    toolAccuracy: ratio(results.filter((result) => result.toolPassed).length, results.length),
+    argumentAccuracy: ratio(checks.filter((check) => check.passed).length, checks.length),
+  };
+}
+
+// ── Report ───────────────────────────────────────────────────────────
+
+/** JSON with sorted object keys so reports diff cleanly between runs */
+function stableJson(value: unknown): string {
+  return JSON.stringify(value, (_key, item: unknown) =>
+    item && typeof item === 'object' && !Array.isArray(item)
+      ? Object.fromEntries(Object.entries(item).sort(([a], [b]) => a.localeCompare(b)))
+      : item,
+  );
+}
+
+function percent(value: number): string {
+  return `${(value * 100).toFixed(1)}%`;
+}
+
+function renderMarkdown(
+  meta: { provider: string; model: string; corpus: string },
+  overall: RuleSummary,
+  rules: RuleSummary[],
+  results: CaseResult[],
+): string {
+  const lines = [
+    '# Prompt-to-tool evaluation',
+    '',
+    `- Provider: \`${meta.provider}\``,
+    `- Model: \`${meta.model}\``,
+    `- Corpus: \`${meta.corpus}\``,
+    `- Passed: ${overall.passed}/${overall.cases} · tool ${percent(overall.toolAccuracy)} · arguments ${percent(overall.argumentAccuracy)}`,
+    '',
+    '## Rules',
+    '',
+    '| Rule | Passed | Tool accuracy | Argument accuracy |',
+    '| ---- | ------ | ------------- | ----------------- |',
+    ...rules.map(
+      (r) =>
+        `| ${r.rule} | ${r.passed}/${r.cases} | ${percent(r.toolAccuracy)} | ${percent(r.argumentAccuracy)} |`,
+    ),
+    '',
+    '## Cases',
+    '',
+  ];
+
+  for (const result of results) {
+    lines.push(`### ${result.passed ? '✅' : '❌'} ${result.id} (${result.rule})`, '');
+    lines.push(`- Utterance: ${result.utterance}`);
+    lines.push(
+      `- Tool: expected \`${result.expectedTool}\`, got \`${result.actualTool}\`${result.toolPassed ? '' : ' ✗'}`,
+    );
+    for (const check of result.argumentChecks) {
+      lines.push(
+        `- \`${check.name}\`: expected ${stableJson(check.expected)}, got ${stableJson(check.actual ?? null)}${check.passed ? '' : ' ✗'}`,
+      );
+    }
+    if (result.error) lines.push(`- Error: ${result.error}`);
+    lines.push(`- Calls: \`${stableJson(result.toolCalls)}\``, '');
+  }
+
+  return `${lines.join('\n').trimEnd()}\n`;
+}
+
+// ── Main ─────────────────────────────────────────────────────────────
+
+async function main(): Promise<void> {
+  const options = parseArgs(process.argv.slice(2));
+
+  // Env must be loaded before the lib modules read their configuration
+  loadEnvConfig(process.cwd());
+  const { getLLMProvider, createLLMProvider } = await import('@/lib/llm');
+  const { planAgentStep, buildAgentMessages, runAgentStep } = await import('@/lib/agent');
+  const { DEFAULT_LOCALE } = await import('@/lib/i18n');
+
+  const provider = options.provider
+    ? createLLMProvider(options.provider, DEFAULT_LOCALE)
+    : getLLMProvider(DEFAULT_LOCALE);
+  const corpus = (await loadCorpus(options.corpus)).filter(
+    (evalCase) => !options.rule || evalCase.rule === options.rule,
+  );
+
+  const results: CaseResult[] = [];
+  for (const evalCase of corpus) {
+    const messages: AgentApiMessage[] = [
+      ...(evalCase.history || []),
+      { role: 'user', content: evalCase.utterance },
+    ];
+    const plan = planAgentStep({ messages }, { steps: 0, tokensUsed: 0 });
+
+    try {
+      const payload = await runAgentStep(
+        provider,
+        buildAgentMessages(plan.systemPrompt, messages, plan.locale),
+        plan,
+      );
+      results.push(scoreCase(evalCase, payload.toolCalls));
+    } catch (error) {
+      results.push(scoreCase(evalCase, [], error instanceof Error ? error.message : String(error)));
+    }
+
+    const last = results[results.length - 1];
+    console.log(`${last.passed ? 'PASS' : 'FAIL'}  ${last.rule.padEnd(24)} ${last.id}`);
+  }
+
+  results.sort((a, b) => a.rule.localeCompare(b.rule) || a.id.localeCompare(b.id));
+  const ruleNames = Array.from(new Set(results.map((result) => result.rule)));
+  const rules = ruleNames.map((rule) =>
+    summarize(rule, results.filter((result) => result.rule === rule)),
+  );
+  const overall = summarize('overall', results);
+
+  const meta = { provider: provider.id, model: provider.model, corpus: options.corpus };
+  const label = (options.label || `${provider.id}-${provider.model}`).replace(/[^\w.-]+/g, '_');
+
+  await mkdir(options.out, { recursive: true });
+  await writeFile(
+    join(options.out, `${label}.md`),
+    renderMarkdown(meta, overall, rules, results),
+    'utf8',
+  );
+  await writeFile(
+    join(options.out, `${label}.json`),
+    `${JSON.stringify({ ...meta, overall, rules, results }, null, 2)}\n`,
+    'utf8',
+  );
+
+  console.log(
+    `\n${overall.passed}/${overall.cases} passed · tool ${percent(overall.toolAccuracy)} · arguments ${percent(overall.argumentAccuracy)}`,
+  );
+  console.log(`Report: ${join(options.out, `${label}.md`)}`);
+
+  if (options.minPass !== undefined && ratio(overall.passed, overall.cases) < options.minPass) {
+    process.exitCode = 1;
+  }
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exitCode = 1;
+});
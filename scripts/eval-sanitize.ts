@@ -0,0 +1,98 @@
+/**
+ * eval-sanitize.ts
+ *
+ * Runs the injection corpus (eval/sanitize-corpus.yaml) through
+ * sanitizeAssistantHtml and fails when an output differs from `expected` or
+ * matches one of the corpus-wide `forbidden` patterns.
+ *
+ * Usage:
+ *   npm run eval:sanitize -- [--corpus eval/sanitize-corpus.yaml]
+ */
+
+import { readFile } from 'node:fs/promises';
+import yaml from 'js-yaml';
+import { sanitizeAssistantHtml } from '@/lib/sanitize';
+
+// ── Types ────────────────────────────────────────────────────────────
+
+interface SanitizeCase {
+  id: string;
+  input: string;
+  expected?: string;
+}
+
+interface SanitizeCorpus {
+  forbidden?: string[];
+  cases?: SanitizeCase[];
+}
+
+interface CaseResult {
+  id: string;
+  output: string;
+  failures: string[];
+}
+
+// ── CLI ──────────────────────────────────────────────────────────────
+
+function parseArgs(argv: string[]): { corpus: string } {
+  const options = { corpus: 'eval/sanitize-corpus.yaml' };
+
+  for (let i = 0; i < argv.length; i += 1) {
+    const flag = argv[i];
+    const value = argv[i + 1];
+    if (value === undefined) throw new Error(`Missing value for ${flag}`);
+    if (flag !== '--corpus') throw new Error(`Unknown option ${flag}`);
+    options.corpus = value;
+    i += 1;
+  }
+
+  return options;
+}
+
+async function loadCorpus(filePath: string): Promise<Required<SanitizeCorpus>> {
+  const parsed = yaml.load(await readFile(filePath, 'utf8')) as SanitizeCorpus | null;
+  if (!Array.isArray(parsed?.cases)) throw new Error(`${filePath} must contain a "cases" array`);
+  return { forbidden: parsed.forbidden ?? [], cases: parsed.cases };
+}
+
+// ── Checks ───────────────────────────────────────────────────────────
+
+function runCase(sanitizeCase: SanitizeCase, forbidden: RegExp[]): CaseResult {
+  const output = sanitizeAssistantHtml(sanitizeCase.input);
+  const failures: string[] = [];
+
+  if (sanitizeCase.expected !== undefined && output !== sanitizeCase.expected) {
+    failures.push(`expected ${JSON.stringify(sanitizeCase.expected)}`);
+  }
+  forbidden
+    .filter((pattern) => pattern.test(output))
+    .forEach((pattern) => failures.push(`matches forbidden /${pattern.source}/`));
+
+  return { id: sanitizeCase.id, output, failures };
+}
+
+// ── Main ─────────────────────────────────────────────────────────────
+
+async function main(): Promise<void> {
+  const options = parseArgs(process.argv.slice(2));
+  const corpus = await loadCorpus(options.corpus);
+  const forbidden = corpus.forbidden.map((pattern) => new RegExp(pattern, 'i'));
+
+  const results = corpus.cases.map((sanitizeCase) => runCase(sanitizeCase, forbidden));
+  const failed = results.filter((result) => result.failures.length > 0);
+
+  for (const result of results) {
+    console.log(`${result.failures.length === 0 ? '✔' : '✘'} ${result.id}`);
+    for (const failure of result.failures) {
+      console.log(`    ${failure}\n    got      ${JSON.stringify(result.output)}`);
+    }
+  }
+
+  console.log(`\n${results.length - failed.length}/${results.length} cases passed`);
+  if (failed.length > 0) process.exitCode = 1;
+}
+
+main().catch((error) => {
+  console.error('[eval-sanitize]', error instanceof Error ? error.message : error);
+  process.exitCode = 1;
+});
@@ -0,0 +1,18 @@
+/**
+ * hash-password.ts
+ *
+ * Prints a scrypt password hash for an account in AUTH_USERS / the users file.
+ *
+ * Usage:
+ *   npm run auth:hash-password -- <password>
+ */
+
+import { hashPassword } from '@/lib/auth/users';
+
+const password = process.argv[2];
+if (!password) {
+  console.error('Usage: npm run auth:hash-password -- <password>');
+  process.exit(1);
+}
+
+console.log(hashPassword(password));
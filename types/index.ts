@@ -25,6 +25,29 @@ export interface ChatMessage {
   };
   /** Loading state for assistant messages */
   isLoading?: boolean;
+  /** Agent-loop step the loading bubble is currently on */
+  agentStep?: { step: number; maxSteps: number };
+  /** Per-call progress while the tools of an agent step run */
+  toolProgress?: ToolCallProgress[];
+  /** Error bubble of a turn that failed (offers retry) */
+  failed?: boolean;
+  /**
+   * Final answers grounded on tool results: the turn from its user message
+   * through the last tool results, so the answer can be regenerated without
+   * running the tools again.
+   */
+  toolHistory?: AgentApiMessage[];
+  /** Follow-up requests offered as chips under the latest answer */
+  suggestions?: string[];
+}
+
+export type ToolCallStatus = 'pending' | 'running' | 'success' | 'failed';
+
+export interface ToolCallProgress {
+  id: string;
+  name: string;
+  arguments: Record<string, unknown>;
+  status: ToolCallStatus;
 }
 
 /** Tool call returned by the LLM */
@@ -32,12 +55,16 @@ export interface ToolCallResponse {
   id?: string;
   name: string;
   arguments: Record<string, unknown>;
+  /** Set when the arguments failed schema validation on the server */
+  validationErrors?: ToolArgumentIssue[];
 }
 
 /** API response shape from /api/map-agent */
 export interface AgentResponse {
   reply: string;
   toolCalls: ToolCallResponse[];
+  agent?: AgentStepInfo;
+  suggestions?: string[];
 }
 
 // ── Map Tool Types ───────────────────────────────────────────────────
@@ -49,8 +76,44 @@ export interface ToolResult {
   data?: Record<string, unknown>;
 }
 
+/** Per-user context passed to every tool execution */
+export interface ToolContext {
+  /** Conversation session ID, shared with backends that keep their own session (HR webhook) */
+  sessionId: string;
+  /**
+   * Shared by the tool calls of one agent step: only the first call that draws
+   * clears the previous results, so the step's results are merged on the map.
+   */
+  batch?: { cleared: boolean };
+  /** Aborted when the user stops the request; tools cancel their fetches */
+  signal?: AbortSignal;
+}
+
+/** A single schema violation in LLM-provided tool arguments */
+export interface ToolArgumentIssue {
+  /** Argument name (or `$` for the whole arguments object) */
+  path: string;
+  code:
+    | 'invalid_json'
+    | 'unknown_tool'
+    | 'forbidden'
+    | 'required'
+    | 'type'
+    | 'enum'
+    | 'minimum'
+    | 'maximum'
+    | 'minItems'
+    | 'maxItems';
+  message: string;
+  expected?: unknown;
+  received?: unknown;
+}
+
 export type DirectionsMode = 'driving' | 'walking' | 'bicycling' | 'transit' | 'motorbike';
 
+/** Road features a route can avoid (Google Directions `avoid`) */
+export type DirectionsAvoid = 'tolls' | 'highways' | 'ferries';
+
 export type NearbyPlaceType =
   | 'traffic_camera'
   | 'restaurant'
@@ -71,24 +134,326 @@ export type NearbyPlaceType =
 // ── API Route Types ──────────────────────────────────────────────────
 
 export interface AgentApiMessage {
+  /** Client-assigned ID of a user message, kept in the session so it can be edited later */
+  id?: string;
   role: MessageRole;
   content: string;
   tool_call_id?: string;
+  /** Tool calls requested by an assistant step of the agent loop */
+  tool_calls?: ToolCallPayload[];
+}
+
+/** Where the map and the user are when a step is sent; used to key cached steps */
+export interface AgentMapContext {
+  center: { lat: number; lng: number };
+  zoom: number;
+  /** Last GPS fix shown on the map, null before `getUserLocation` */
+  userLocation: { lat: number; lng: number } | null;
 }
 
 export interface AgentRequestBody {
+  /**
+   * Without a session: the full conversation. With `sessionId`: only the new
+   * user / tool messages — the server keeps the rest, including its own steps.
+   */
   messages: AgentApiMessage[];
+  /** Server-side conversation session (see /api/sessions) */
+  sessionId?: string;
   responseOnly?: boolean;
+  /**
+   * Write the turn's final answer again from the tool results already in the
+   * history: no new tool calls and no cache lookup.
+   */
+  regenerate?: boolean;
+  /**
+   * Loop state carried between agent steps of the same user turn: the signed
+   * `turnToken` of the previous step. Only used without a session — with one
+   * the server counts the turn's steps and tokens itself.
+   */
+  agent?: { turnToken?: string };
+  /** Stream the reply as Server-Sent Events instead of a single JSON body */
+  stream?: boolean;
+  /** Client-side measurements reported with the next step (tools run in the browser) */
+  telemetry?: { toolRuns?: ToolRunTiming[] };
+  mapContext?: AgentMapContext;
+  /** Language of the prompts and the answer; the default locale when missing or unknown */
+  locale?: Locale;
 }
 
 export interface ToolCallPayload {
   id: string;
   name: string;
   arguments: Record<string, unknown>;
+  /** Set when the arguments failed schema validation; the call must not be executed */
+  validationErrors?: ToolArgumentIssue[];
+}
+
+export interface AgentTokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
 }
 
 export interface AgentRoutePayload {
   reply: string;
   toolCalls: ToolCallPayload[];
   finishReason: string | null;
+  usage: AgentTokenUsage | null;
+  /** Provider and model that produced the step (differs from the primary after a fallback) */
+  provider?: string;
+  model?: string;
+  /** Follow-up requests the user may send next; only on answers (no tool calls) */
+  suggestions?: string[];
+}
+
+export type AgentStopReason = 'answered' | 'max_steps' | 'token_budget';
+
+/** Progress of the multi-step agent loop, returned with every step */
+export interface AgentStepInfo {
+  /** 1-based index of the model step within the current user turn */
+  step: number;
+  maxSteps: number;
+  tokensUsed: number;
+  tokenBudget: number;
+  /** True when this step answers instead of requesting more tools */
+  final: boolean;
+  stopReason: AgentStopReason | null;
+  /** Signed loop state to send back with the next step (sessionless tool steps only) */
+  turnToken?: string;
+}
+
+/** Steps and tokens the current user turn has used so far, as known to the server */
+export interface AgentTurnState {
+  /** Tool-calling steps completed since the latest user message */
+  steps: number;
+  tokensUsed: number;
+  /** Digest of the turn's user message; set when the state travels in a signed token */
+  key?: string;
+}
+
+/**
+ * `<origin>:<cache policy>`: the backend that served a hit (`memory:nearby`), a shared
+ * pending request (`inflight:search`), a fresh step that was stored (`miss:search`) or
+ * one the policy does not cache (`bypass:hr`).
+ */
+export type AgentCacheSource = `${CacheBackendId | 'inflight' | 'miss' | 'bypass'}:${string}`;
+
+/** Final body of /api/map-agent (JSON response or the `done` stream event) */
+export interface AgentRouteResult extends AgentRoutePayload {
+  cached: boolean;
+  cacheSource?: AgentCacheSource;
+  agent?: AgentStepInfo;
+}
+
+// ── Cache Types ──────────────────────────────────────────────────────
+
+export type CacheBackendId = 'memory' | 'file' | 'redis';
+
+/** Response cache counters of this server process (GET /api/admin/cache) */
+export interface CacheStats {
+  backend: CacheBackendId;
+  enabled: boolean;
+  ttlMs: number;
+  maxEntries: number;
+  /** Entries currently stored in the backend (shared by all replicas for file/redis) */
+  entries: number;
+  hits: number;
+  misses: number;
+  /** hits / (hits + misses), 0 before the first lookup */
+  hitRate: number;
+  sets: number;
+  /** Least recently used entries removed to stay within maxEntries */
+  evictions: number;
+  expirations: number;
+  /** Backend failures; lookups fall back to a miss */
+  errors: number;
+  since: number;
+}
+
+/** Cached step as listed by the admin endpoint */
+export interface CacheEntrySummary {
+  key: string;
+  createdAt: number;
+  expiresAt: number;
+  lastAccessedAt: number;
+  /** Cache policy the entry was stored under */
+  policy: string;
+  provider?: string;
+  model?: string;
+  toolCalls: string[];
+  replyPreview: string;
+}
+
+// ── Session Types ────────────────────────────────────────────────────
+
+/** A message persisted in a conversation session */
+export interface SessionMessage extends AgentApiMessage {
+  id: string;
+  createdAt: number;
+  /** Follow-up suggestions of a recorded answer */
+  suggestions?: string[];
+  /** Tokens a recorded model step cost (0 when served from the cache), for the turn budget */
+  tokens?: number;
+}
+
+/** Conversation session as stored on the server and returned by GET /api/sessions/:id */
+export interface ChatSession {
+  id: string;
+  /** User who created the session, null for a guest; nobody else can read or continue it */
+  ownerId: string | null;
+  createdAt: number;
+  updatedAt: number;
+  messages: SessionMessage[];
+}
+
+// ── Telemetry Types ──────────────────────────────────────────────────
+
+/** Duration of one tool execution in the browser */
+export interface ToolRunTiming {
+  toolCallId: string;
+  name: string;
+  durationMs: number;
+  success: boolean;
+}
+
+/** One /api/map-agent step as seen by the server */
+export interface LLMCallRecord {
+  id: string;
+  sessionId: string | null;
+  timestamp: number;
+  provider: string;
+  model: string;
+  /** Agent step mode (`plan`, `continue`, `final`, `respond`, `regenerate`) */
+  mode: string;
+  step: number;
+  finishReason: string | null;
+  /** Tokens actually spent — zero for cache hits */
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  latencyMs: number;
+  /** Time until the first streamed event, when streaming */
+  firstEventMs: number | null;
+  cacheSource: AgentCacheSource | null;
+  /** Estimated USD cost; null when the model has no known pricing */
+  costUsd: number | null;
+  error?: string;
 }
+
+export interface ToolRunRecord extends ToolRunTiming {
+  sessionId: string | null;
+  timestamp: number;
+}
+
+export interface TelemetryAggregate {
+  calls: number;
+  cachedCalls: number;
+  errors: number;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  costUsd: number;
+  avgLatencyMs: number;
+  toolRuns: number;
+  toolDurationMs: number;
+}
+
+export interface ToolTelemetry {
+  name: string;
+  runs: number;
+  failures: number;
+  avgDurationMs: number;
+  maxDurationMs: number;
+}
+
+/** Body of GET /api/admin/telemetry */
+export interface TelemetrySnapshot {
+  generatedAt: number;
+  totals: TelemetryAggregate;
+  byModel: Array<TelemetryAggregate & { model: string }>;
+  byMode: Array<TelemetryAggregate & { mode: string }>;
+  byTool: ToolTelemetry[];
+  sessions: Array<TelemetryAggregate & { sessionId: string; firstSeen: number; lastSeen: number }>;
+  recentCalls: LLMCallRecord[];
+}
+
+// ── Locale Types ─────────────────────────────────────────────────────
+
+/** UI, tool-result and answer language (see lib/i18n) */
+export type Locale = 'vi' | 'en';
+
+// ── Auth Types ───────────────────────────────────────────────────────
+
+/** `guest` is anyone without a login session */
+export type UserRole = 'guest' | 'employee' | 'hr-manager';
+
+export interface AuthUser {
+  /** Login name, also the identity sent to the HR webhook */
+  id: string;
+  name: string;
+  role: Exclude<UserRole, 'guest'>;
+}
+
+/** Body of GET /api/auth/me */
+export interface AuthStatus {
+  user: AuthUser | null;
+  role: UserRole;
+  /** Map tools the model may call for this user */
+  tools: string[];
+}
+
+// ── Audit Types ──────────────────────────────────────────────────────
+
+/**
+ * - `utterance`: a user message that starts a turn.
+ * - `tool_call`: a tool executed in the browser, with its result.
+ * - `hr_query`: a question sent to the HR webhook by /api/hr.
+ */
+export type AuditEventType = 'utterance' | 'tool_call' | 'hr_query';
+
+/** One line of the append-only audit log (see lib/audit.ts) */
+export interface AuditRecord {
+  id: string;
+  timestamp: number;
+  type: AuditEventType;
+  /** Login name; null for guests */
+  userId: string | null;
+  role: UserRole;
+  sessionId: string | null;
+  ip: string;
+  /** `utterance`: the user's raw message */
+  utterance?: string;
+  /** `hr_query`: the question sent to the HR webhook */
+  question?: string;
+  tool?: string;
+  toolCallId?: string;
+  /** Arguments the tool ran with (server-validated) */
+  arguments?: Record<string, unknown>;
+  validationErrors?: ToolArgumentIssue[];
+  success?: boolean;
+  /** ToolResult message, truncated; omitted for HR answers (see `hrSummary`) */
+  message?: string;
+  /** HR answer with contact details, IDs and coordinates masked */
+  hrSummary?: string;
+}
+
+/** Filters of GET /api/admin/audit */
+export interface AuditQuery {
+  userId?: string;
+  sessionId?: string;
+  tool?: string;
+  type?: AuditEventType;
+  /** Inclusive range, ms since epoch */
+  from?: number;
+  to?: number;
+  limit?: number;
+}
+
+// ── Stream Types ─────────────────────────────────────────────────────
+
+/** Events emitted by /api/map-agent when the request sets `stream: true` */
+export type AgentStreamEvent =
+  | { type: 'delta'; text: string }
+  | { type: 'tool_call'; index: number; id: string; name: string }
+  | { type: 'done'; result: AgentRouteResult }
+  | { type: 'error'; error: string };